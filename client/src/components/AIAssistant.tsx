@@ -6,9 +6,11 @@ import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Link } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { streamChat, isAbortError } from "@/lib/streamChat";
 import { 
   Brain, 
   Send, 
@@ -18,16 +20,34 @@ import {
   Loader2,
   Plus,
   MessageCircle,
-  Sparkles
+  Sparkles,
+  Square
 } from "lucide-react";
 
+interface ChatCitation {
+  marker: number;
+  documentId: string;
+  fileName: string;
+  chunkId: string;
+  pageStart: number | null;
+  pageEnd: number | null;
+  excerpt: string;
+}
+
 interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  citations?: ChatCitation[] | null;
   createdAt: string;
 }
 
+function citationHref(citation: ChatCitation) {
+  return citation.pageStart
+    ? `/documents/${citation.documentId}?page=${citation.pageStart}`
+    : `/documents/${citation.documentId}`;
+}
+
 interface ChatSession {
   id: string;
   caseId?: string;
@@ -41,6 +61,9 @@ export default function AIAssistant() {
   const [selectedCaseId, setSelectedCaseId] = useState<string>("");
   const [messageInput, setMessageInput] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [streamingContent, setStreamingContent] = useState("");
+  const streamAbortRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -93,23 +116,36 @@ export default function AIAssistant() {
 
   const sendMessageMutation = useMutation({
     mutationFn: async ({ sessionId, content }: { sessionId: string; content: string }) => {
-      const response = await apiRequest(`/api/chat/sessions/${sessionId}/messages`, "POST", {
-        content,
-      });
-      return response.json();
+      const controller = new AbortController();
+      streamAbortRef.current = controller;
+      try {
+        return await streamChat(`/api/chat/sessions/${sessionId}/messages/stream`, { content }, {
+          onToken: (token) => setStreamingContent((current) => current + token),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        // Stopping keeps whatever was generated; the server saves it
+        if (isAbortError(error)) return null;
+        throw error;
+      }
     },
-    onMutate: () => {
+    onMutate: ({ content }) => {
       setIsTyping(true);
+      setPendingMessage(content);
+      setStreamingContent("");
+      setMessageInput("");
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ 
-        queryKey: ["/api/chat/sessions", selectedSessionId, "messages"] 
+    onSettled: async (_data, _error, { sessionId }) => {
+      streamAbortRef.current = null;
+      await queryClient.invalidateQueries({ 
+        queryKey: ["/api/chat/sessions", sessionId, "messages"] 
       });
-      setMessageInput("");
+      setPendingMessage(null);
+      setStreamingContent("");
       setIsTyping(false);
     },
-    onError: (error: Error) => {
-      setIsTyping(false);
+    onError: (error: Error, { content }) => {
+      setMessageInput(content);
       if (isUnauthorizedError(error)) {
         toast({
           title: "Unauthorized",
@@ -138,6 +174,10 @@ export default function AIAssistant() {
     });
   };
 
+  const handleStopStreaming = () => {
+    streamAbortRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -146,12 +186,13 @@ export default function AIAssistant() {
   };
 
   const handleCreateSession = () => {
-    const title = selectedCaseId 
-      ? `Chat for ${cases.find((c: any) => c.id === selectedCaseId)?.clientName || 'Case'}`
+    const caseId = selectedCaseId && selectedCaseId !== "none" ? selectedCaseId : undefined;
+    const title = caseId 
+      ? `Chat for ${cases.find((c: any) => c.id === caseId)?.clientName || 'Case'}`
       : "General AI Assistant Chat";
     
     createSessionMutation.mutate({
-      caseId: selectedCaseId || undefined,
+      caseId,
       title,
     });
   };
@@ -159,7 +200,7 @@ export default function AIAssistant() {
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, isTyping]);
+  }, [messages, isTyping, streamingContent]);
 
   return (
     <div className="space-y-6">
@@ -280,7 +321,7 @@ export default function AIAssistant() {
                       <div className="flex items-center justify-center h-full">
                         <Loader2 className="w-6 h-6 animate-spin" />
                       </div>
-                    ) : messages.length === 0 ? (
+                    ) : messages.length === 0 && !pendingMessage ? (
                       <div className="text-center py-8">
                         <Brain className="w-12 h-12 mx-auto mb-4 text-purple-400" />
                         <h4 className="font-medium text-neutral-dark mb-2">No messages yet</h4>
@@ -316,6 +357,30 @@ export default function AIAssistant() {
                                   : 'bg-gray-100 text-neutral-dark'
                               }`}>
                                 <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                                {message.citations && message.citations.length > 0 && (
+                                  <div className="mt-3 pt-2 border-t border-gray-200 space-y-1">
+                                    <p className="text-xs font-medium text-gray-500">Sources</p>
+                                    {message.citations.map((citation) => (
+                                      <Link
+                                        key={citation.marker}
+                                        href={citationHref(citation)}
+                                        className="flex items-start space-x-1 text-xs text-primary hover:underline"
+                                        title={citation.excerpt}
+                                        data-testid={`link-citation-${message.id}-${citation.marker}`}
+                                      >
+                                        <FileText className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                                        <span>
+                                          [{citation.marker}] {citation.fileName}
+                                          {citation.pageStart && (
+                                            citation.pageEnd && citation.pageEnd !== citation.pageStart
+                                              ? `, pages ${citation.pageStart}-${citation.pageEnd}`
+                                              : `, page ${citation.pageStart}`
+                                          )}
+                                        </span>
+                                      </Link>
+                                    ))}
+                                  </div>
+                                )}
                               </div>
                               <p className="text-xs text-gray-500 mt-1">
                                 {new Date(message.createdAt).toLocaleTimeString()}
@@ -324,8 +389,35 @@ export default function AIAssistant() {
                           </div>
                         ))}
                         
+                        {/* Message being answered, shown until the saved messages reload */}
+                        {pendingMessage && (
+                          <div className="flex items-start space-x-3 flex-row-reverse space-x-reverse">
+                            <div className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-primary">
+                              <User className="w-4 h-4 text-white" />
+                            </div>
+                            <div className="flex-1 text-right">
+                              <div className="rounded-lg p-3 inline-block max-w-[80%] bg-primary text-white">
+                                <p className="text-sm whitespace-pre-wrap">{pendingMessage}</p>
+                              </div>
+                            </div>
+                          </div>
+                        )}
+
+                        {isTyping && streamingContent && (
+                          <div className="flex items-start space-x-3">
+                            <div className="flex-shrink-0 w-8 h-8 bg-purple-600 rounded-full flex items-center justify-center">
+                              <Brain className="w-4 h-4 text-white" />
+                            </div>
+                            <div className="flex-1">
+                              <div className="rounded-lg p-3 inline-block max-w-[80%] bg-gray-100 text-neutral-dark">
+                                <p className="text-sm whitespace-pre-wrap">{streamingContent}</p>
+                              </div>
+                            </div>
+                          </div>
+                        )}
+
                         {/* Typing indicator */}
-                        {isTyping && (
+                        {isTyping && !streamingContent && (
                           <div className="flex items-start space-x-3">
                             <div className="flex-shrink-0 w-8 h-8 bg-purple-600 rounded-full flex items-center justify-center">
                               <Brain className="w-4 h-4 text-white" />
@@ -359,20 +451,26 @@ export default function AIAssistant() {
                         disabled={sendMessageMutation.isPending || isTyping}
                       />
                     </div>
-                    <Button
-                      onClick={handleSendMessage}
-                      disabled={!messageInput.trim() || sendMessageMutation.isPending || isTyping}
-                      className="bg-primary hover:bg-primary-light px-6"
-                    >
-                      {sendMessageMutation.isPending ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : (
-                        <>
-                          <Send className="w-4 h-4 mr-2" />
-                          Send
-                        </>
-                      )}
-                    </Button>
+                    {isTyping ? (
+                      <Button
+                        onClick={handleStopStreaming}
+                        variant="outline"
+                        className="px-6"
+                        data-testid="button-stop-response"
+                      >
+                        <Square className="w-4 h-4 mr-2" />
+                        Stop
+                      </Button>
+                    ) : (
+                      <Button
+                        onClick={handleSendMessage}
+                        disabled={!messageInput.trim() || sendMessageMutation.isPending}
+                        className="bg-primary hover:bg-primary-light px-6"
+                      >
+                        <Send className="w-4 h-4 mr-2" />
+                        Send
+                      </Button>
+                    )}
                   </div>
                   
                   <div className="flex items-center justify-between mt-3">
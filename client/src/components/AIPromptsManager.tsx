@@ -12,12 +12,13 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Plus, Edit, Trash2, MessageSquare, FileText, Wand2, PenTool } from "lucide-react";
+import { PromptHistoryDialog } from "@/components/PromptHistoryDialog";
+import { Plus, Edit, Trash2, MessageSquare, FileText, Wand2, PenTool, Receipt, Eye, History } from "lucide-react";
 import { z } from "zod";
 
 const promptSchema = z.object({
   name: z.string().min(1, "Name is required"),
-  type: z.enum(["document_analysis", "demand_letter", "chat_system", "document_editing"]),
+  type: z.enum(["document_analysis", "bill_extraction", "demand_letter", "chat_system", "document_editing"]),
   prompt: z.string().min(10, "Prompt must be at least 10 characters"),
   description: z.string().optional(),
   isActive: z.boolean().optional(),
@@ -25,6 +26,11 @@ const promptSchema = z.object({
 });
 
 type PromptFormData = z.infer<typeof promptSchema>;
+type PromptVariables = {
+  variables: Record<string, string[]>;
+  defaults: Record<string, string>;
+};
+
 type AiPrompt = {
   id: string;
   name: string;
@@ -33,12 +39,15 @@ type AiPrompt = {
   description?: string;
   isActive: boolean;
   isDefault: boolean;
+  currentVersionId?: string | null;
+  pinnedVersionId?: string | null;
   createdAt: string;
   updatedAt: string;
 };
 
 const promptTypes = [
   { value: "document_analysis", label: "Document Analysis", icon: FileText },
+  { value: "bill_extraction", label: "Bill Extraction", icon: Receipt },
   { value: "demand_letter", label: "Demand Letter", icon: MessageSquare },
   { value: "chat_system", label: "Chat System", icon: Wand2 },
   { value: "document_editing", label: "Document Editing", icon: PenTool },
@@ -49,12 +58,23 @@ export function AIPromptsManager() {
   const queryClient = useQueryClient();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingPrompt, setEditingPrompt] = useState<AiPrompt | null>(null);
+  const [previewCaseId, setPreviewCaseId] = useState("");
+  const [previewText, setPreviewText] = useState<string | null>(null);
+  const [historyPromptId, setHistoryPromptId] = useState<string | null>(null);
 
   // Fetch AI prompts
   const { data: prompts = [], isLoading } = useQuery<AiPrompt[]>({
     queryKey: ["/api/ai-prompts"],
   });
 
+  const { data: promptVariables } = useQuery<PromptVariables>({
+    queryKey: ["/api/ai-prompts/variables"],
+  });
+
+  const { data: cases = [] } = useQuery<any[]>({
+    queryKey: ["/api/cases"],
+  });
+
   // Form for creating/editing prompts
   const form = useForm<PromptFormData>({
     resolver: zodResolver(promptSchema),
@@ -115,6 +135,37 @@ export function AIPromptsManager() {
     },
   });
 
+  // Render the prompt against a real case without calling the AI
+  const previewMutation = useMutation({
+    mutationFn: async (data: { type: string; prompt: string; caseId: string }) => {
+      const response = await apiRequest("/api/ai-prompts/preview", "POST", data);
+      return response.json();
+    },
+    onSuccess: (result: { rendered: string }) => {
+      setPreviewText(result.rendered);
+    },
+    onError: (error: any) => {
+      setPreviewText(null);
+      toast({
+        title: "Preview failed",
+        description: error.message || "Failed to preview AI prompt",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectedType = form.watch("type");
+  const allowedVariables = promptVariables?.variables[selectedType] || [];
+
+  const handlePreview = () => {
+    if (!previewCaseId) return;
+    previewMutation.mutate({
+      type: selectedType,
+      prompt: form.getValues("prompt"),
+      caseId: previewCaseId,
+    });
+  };
+
   // Delete prompt mutation
   const deletePromptMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -146,6 +197,7 @@ export function AIPromptsManager() {
 
   const handleEdit = (prompt: AiPrompt) => {
     setEditingPrompt(prompt);
+    setPreviewText(null);
     form.reset({
       name: prompt.name,
       type: prompt.type as any,
@@ -168,6 +220,9 @@ export function AIPromptsManager() {
     return promptType?.icon || MessageSquare;
   };
 
+  // Looked up from the list so pin/rollback changes show up once it refetches
+  const historyPrompt = prompts.find(prompt => prompt.id === historyPromptId) || null;
+
   if (isLoading) {
     return <div className="text-center py-4">Loading AI prompts...</div>;
   }
@@ -183,6 +238,7 @@ export function AIPromptsManager() {
             <Button
               onClick={() => {
                 setEditingPrompt(null);
+                setPreviewText(null);
                 form.reset();
               }}
               className="bg-primary hover:bg-blue-600 text-white"
@@ -277,6 +333,61 @@ export function AIPromptsManager() {
                   )}
                 />
 
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-gray-600">Available variables</p>
+                    {promptVariables?.defaults[selectedType] && (
+                      <Button
+                        type="button"
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 text-xs"
+                        onClick={() => form.setValue("prompt", promptVariables.defaults[selectedType])}
+                      >
+                        Start from built-in prompt
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {allowedVariables.map((name) => (
+                      <Badge key={name} variant="outline" className="font-mono text-xs">
+                        {`{{${name}}}`}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Select value={previewCaseId} onValueChange={setPreviewCaseId}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Preview against a case" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {cases.map((caseItem: any) => (
+                          <SelectItem key={caseItem.id} value={caseItem.id}>
+                            {caseItem.clientName} - {caseItem.caseNumber}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handlePreview}
+                      disabled={!previewCaseId || previewMutation.isPending}
+                    >
+                      <Eye className="w-4 h-4 mr-2" />
+                      {previewMutation.isPending ? "Rendering..." : "Preview"}
+                    </Button>
+                  </div>
+                  {previewText !== null && (
+                    <pre className="max-h-64 overflow-auto rounded border bg-gray-50 p-3 text-xs whitespace-pre-wrap">
+                      {previewText}
+                    </pre>
+                  )}
+                </div>
+
                 <div className="flex items-center space-x-6">
                   <FormField
                     control={form.control}
@@ -374,6 +485,11 @@ export function AIPromptsManager() {
                             Default
                           </Badge>
                         )}
+                        {prompt.pinnedVersionId && (
+                          <Badge variant="outline" className="text-xs">
+                            Pinned version
+                          </Badge>
+                        )}
                       </div>
                       <p className="text-xs text-gray-600 mb-2">
                         {promptTypes.find(t => t.value === prompt.type)?.label}
@@ -388,6 +504,14 @@ export function AIPromptsManager() {
                     </div>
                   </div>
                   <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setHistoryPromptId(prompt.id)}
+                      title="Version history"
+                    >
+                      <History className="w-3 h-3" />
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -410,6 +534,11 @@ export function AIPromptsManager() {
           })}
         </div>
       )}
+
+      <PromptHistoryDialog
+        prompt={historyPrompt}
+        onOpenChange={(open) => !open && setHistoryPromptId(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
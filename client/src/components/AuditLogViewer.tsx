@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { memberName, type OrganizationInfo } from "@/components/OrganizationManager";
+import type { AuditEvent, Case } from "@shared/schema";
+import { ScrollText, Download, ShieldCheck } from "lucide-react";
+
+const PAGE_SIZE = 50;
+const ALL = "all";
+
+type AuditEventRow = Omit<AuditEvent, "createdAt"> & { createdAt: string; actorUsername: string | null };
+
+type AuditChainVerification = {
+  valid: boolean;
+  checked: number;
+  brokenAtSequence: number | null;
+};
+
+function describeChanges(changes: AuditEvent["changes"]) {
+  if (!changes) return null;
+  const fields = Object.keys(changes as Record<string, unknown>);
+  return fields.length > 0 ? `Changed ${fields.join(", ")}` : null;
+}
+
+export default function AuditLogViewer() {
+  const { toast } = useToast();
+  const [userId, setUserId] = useState(ALL);
+  const [caseId, setCaseId] = useState(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(0);
+
+  const { data: firm } = useQuery<OrganizationInfo>({
+    queryKey: ["/api/organization"],
+  });
+
+  const { data: cases = [] } = useQuery<Case[]>({
+    queryKey: ["/api/cases"],
+  });
+
+  // Firm members only see their own work, so the log is for admins and users outside a firm
+  const canView = !!firm && (!firm.organization || firm.role === "admin");
+
+  const filters = new URLSearchParams();
+  if (userId !== ALL) filters.set("userId", userId);
+  if (caseId !== ALL) filters.set("caseId", caseId);
+  if (from) filters.set("from", from);
+  if (to) filters.set("to", to);
+  const pageParams = new URLSearchParams(filters);
+  pageParams.set("limit", String(PAGE_SIZE));
+  pageParams.set("offset", String(page * PAGE_SIZE));
+
+  const { data: events = [], isLoading } = useQuery<AuditEventRow[]>({
+    queryKey: [`/api/audit-events?${pageParams}`],
+    enabled: canView,
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/audit-events/verify", "GET");
+      return response.json() as Promise<AuditChainVerification>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: result.valid ? "Audit log intact" : "Audit log tampered with",
+        description: result.valid
+          ? `All ${result.checked} events check out.`
+          : `The chain breaks at event #${result.brokenAtSequence}, after ${result.checked} intact events.`,
+        variant: result.valid ? "default" : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Any filter change starts over at the newest events
+  const filterChange = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(0);
+  };
+
+  if (!canView) return null;
+
+  const caseNames = new Map(cases.map((caseData) => [caseData.id, `${caseData.caseNumber} · ${caseData.clientName}`]));
+
+  return (
+    <Card className="hover:shadow-lg transition-shadow duration-200">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <ScrollText className="w-5 h-5 text-primary" />
+            <span>Audit Log</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={() => verifyMutation.mutate()} disabled={verifyMutation.isPending}>
+              <ShieldCheck className="w-4 h-4 mr-1" />
+              {verifyMutation.isPending ? "Verifying..." : "Verify"}
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/audit-events/export?${filters}`}>
+                <Download className="w-4 h-4 mr-1" />
+                Export CSV
+              </a>
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          {firm.organization && (
+            <div className="space-y-1">
+              <Label>User</Label>
+              <Select value={userId} onValueChange={filterChange(setUserId)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Everyone</SelectItem>
+                  {firm.members.map((member) => (
+                    <SelectItem key={member.userId} value={member.userId}>{memberName(member)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label>Case</Label>
+            <Select value={caseId} onValueChange={filterChange(setCaseId)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All cases</SelectItem>
+                {cases.map((caseData) => (
+                  <SelectItem key={caseData.id} value={caseData.id}>{caseNames.get(caseData.id)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">From</Label>
+            <Input id="audit-from" type="date" value={from} onChange={(e) => filterChange(setFrom)(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">To</Label>
+            <Input id="audit-to" type="date" value={to} onChange={(e) => filterChange(setTo)(e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-4">Loading audit log...</div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-6 text-gray-500">No audit events match these filters.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Case</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>IP</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="whitespace-nowrap text-xs">{new Date(event.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>{event.actorUsername || event.actorId}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{event.action}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    <div title={`${event.method} ${event.path}`}>
+                      {event.entityType ? `${event.entityType.replace(/_/g, " ")} ${event.entityId ?? ""}` : event.path}
+                    </div>
+                    {describeChanges(event.changes) && (
+                      <div className="text-gray-500">{describeChanges(event.changes)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">{event.caseId ? caseNames.get(event.caseId) ?? event.caseId : ""}</TableCell>
+                  <TableCell>
+                    <Badge variant={event.statusCode >= 400 ? "destructive" : "secondary"}>{event.statusCode}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">{event.ipAddress}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-500">
+            Every mutation and every read of documents, chats and exports is recorded. Events are hash-chained, so
+            Verify detects any that were edited or removed.
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+              Newer
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={events.length < PAGE_SIZE}>
+              Older
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
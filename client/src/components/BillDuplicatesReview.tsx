@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Copy, GitMerge, Check, Trash2, ScanSearch } from "lucide-react";
+
+type Bill = {
+  id: string;
+  provider: string;
+  amount: string;
+  serviceDate: string;
+  billDate: string;
+  treatment?: string | null;
+  insurance?: string | null;
+  cptCodes?: string[] | null;
+  documentId?: string | null;
+};
+
+type BillDuplicate = {
+  id: string;
+  matchType: "exact" | "likely";
+  score: number;
+  reasons: string[] | null;
+  status: string;
+  bill: Bill | null;
+  duplicateOf: Bill | null;
+};
+
+type Resolution = "merge" | "keep" | "discard";
+
+function BillSummary({ bill, label }: { bill: Bill; label: string }) {
+  return (
+    <div className="rounded border bg-white p-3 text-sm space-y-1">
+      <p className="text-xs font-medium uppercase text-gray-500">{label}</p>
+      <p className="font-medium text-neutral-dark">{bill.provider}</p>
+      <p>${parseFloat(bill.amount).toLocaleString()} · {new Date(bill.serviceDate).toLocaleDateString()}</p>
+      <p className="text-gray-600">{bill.treatment || "No treatment description"}</p>
+      {bill.cptCodes && bill.cptCodes.length > 0 && (
+        <p className="font-mono text-xs text-gray-600">{bill.cptCodes.join(", ")}</p>
+      )}
+    </div>
+  );
+}
+
+// Pairs of bills in the case that look like the same charge, each resolved by merging,
+// keeping both or discarding the newer one
+export default function BillDuplicatesReview({ caseId }: { caseId: string }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: duplicates = [] } = useQuery<BillDuplicate[]>({
+    queryKey: ["/api/cases", caseId, "bill-duplicates?status=pending"],
+    enabled: !!caseId,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+  };
+
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/cases/${caseId}/bill-duplicates/scan`, "POST");
+      return response.json();
+    },
+    onSuccess: (result: { flagged: number }) => {
+      refresh();
+      toast({
+        title: "Scan complete",
+        description: result.flagged > 0
+          ? `Found ${result.flagged} new possible duplicate(s)`
+          : "No new duplicates found",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, resolution }: { id: string; resolution: Resolution }) => {
+      const response = await apiRequest(`/api/bill-duplicates/${id}/resolve`, "POST", {
+        resolution,
+        note: notes[id] || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (_result, { resolution }) => {
+      refresh();
+      toast({
+        title: "Success",
+        description: resolution === "merge"
+          ? "Bills merged"
+          : resolution === "discard"
+          ? "Duplicate bill discarded"
+          : "Both bills kept",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pending = duplicates.filter(duplicate => duplicate.bill && duplicate.duplicateOf);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Copy className="w-5 h-5" />
+            <span>Possible Duplicates</span>
+            {pending.length > 0 && <Badge variant="destructive">{pending.length}</Badge>}
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => scanMutation.mutate()} disabled={scanMutation.isPending}>
+            <ScanSearch className="w-4 h-4 mr-2" />
+            {scanMutation.isPending ? "Scanning..." : "Scan for duplicates"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {pending.length === 0 ? (
+          <p className="text-sm text-gray-600">No duplicate bills waiting for review.</p>
+        ) : (
+          <div className="space-y-4">
+            {pending.map((duplicate) => (
+              <div key={duplicate.id} className="rounded-lg bg-gray-50 p-4 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge className={duplicate.matchType === "exact" ? "bg-red-100 text-red-800" : "bg-yellow-100 text-yellow-800"}>
+                    {duplicate.matchType === "exact" ? "Exact match" : `Likely duplicate (${duplicate.score}%)`}
+                  </Badge>
+                  {(duplicate.reasons || []).map((reason) => (
+                    <span key={reason} className="text-xs text-gray-600">{reason}</span>
+                  ))}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <BillSummary bill={duplicate.duplicateOf!} label="Original" />
+                  <BillSummary bill={duplicate.bill!} label="Possible duplicate" />
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input
+                    className="flex-1 min-w-[12rem]"
+                    placeholder="Note for this decision (optional)"
+                    value={notes[duplicate.id] || ""}
+                    onChange={(e) => setNotes({ ...notes, [duplicate.id]: e.target.value })}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => resolveMutation.mutate({ id: duplicate.id, resolution: "merge" })}
+                    disabled={resolveMutation.isPending}
+                  >
+                    <GitMerge className="w-4 h-4 mr-1" />
+                    Merge
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => resolveMutation.mutate({ id: duplicate.id, resolution: "keep" })}
+                    disabled={resolveMutation.isPending}
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    Keep both
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => resolveMutation.mutate({ id: duplicate.id, resolution: "discard" })}
+                    disabled={resolveMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Discard duplicate
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { BILL_CODE_SYSTEMS } from "@shared/schema";
+import { Plus, Trash2, Save } from "lucide-react";
+
+type LineItem = {
+  id: string;
+  code: string | null;
+  codeSystem: string | null;
+  diagnosisCodes: string[] | null;
+  description: string | null;
+  units: number;
+  charge: string;
+  allowed: string | null;
+  paid: string | null;
+  adjustment: string | null;
+  serviceDate: string | null;
+};
+
+// Editable copy of a line item; every field is a string while it's in an input
+type LineItemRow = {
+  code: string;
+  codeSystem: string;
+  diagnosisCodes: string;
+  description: string;
+  units: string;
+  charge: string;
+  allowed: string;
+  paid: string;
+  adjustment: string;
+  serviceDate: string;
+};
+
+const emptyRow: LineItemRow = {
+  code: "",
+  codeSystem: "CPT",
+  diagnosisCodes: "",
+  description: "",
+  units: "1",
+  charge: "",
+  allowed: "",
+  paid: "",
+  adjustment: "",
+  serviceDate: "",
+};
+
+function toRow(item: LineItem): LineItemRow {
+  return {
+    code: item.code || "",
+    codeSystem: item.codeSystem || "other",
+    diagnosisCodes: (item.diagnosisCodes || []).join(", "),
+    description: item.description || "",
+    units: String(item.units),
+    charge: item.charge,
+    allowed: item.allowed || "",
+    paid: item.paid || "",
+    adjustment: item.adjustment || "",
+    serviceDate: item.serviceDate ? item.serviceDate.split("T")[0] : "",
+  };
+}
+
+function toPayload(row: LineItemRow) {
+  const codes = row.diagnosisCodes.split(",").map(code => code.trim()).filter(Boolean);
+  return {
+    code: row.code.trim() || null,
+    codeSystem: row.codeSystem || null,
+    diagnosisCodes: codes.length > 0 ? codes : null,
+    description: row.description.trim() || null,
+    units: parseInt(row.units) || 1,
+    charge: row.charge.trim(),
+    allowed: row.allowed.trim() || null,
+    paid: row.paid.trim() || null,
+    adjustment: row.adjustment.trim() || null,
+    serviceDate: row.serviceDate || null,
+  };
+}
+
+export default function BillLineItemsEditor({ billId, caseId }: { billId: string; caseId: string }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<LineItemRow[]>([]);
+
+  const { data: lineItems, isLoading } = useQuery<LineItem[]>({
+    queryKey: ["/api/bills", billId, "line-items"],
+  });
+
+  useEffect(() => {
+    if (lineItems) setRows(lineItems.map(toRow));
+  }, [lineItems]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/bills/${billId}/line-items`, "PUT", {
+        lineItems: rows.map(toPayload),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bills", billId, "line-items"] });
+      // The bill total is recalculated from the line items
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+      toast({
+        title: "Success",
+        description: "Line items saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRow = (index: number, field: keyof LineItemRow, value: string) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const total = rows.reduce((sum, row) => sum + (parseFloat(row.charge) || 0), 0);
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-600 py-2">Loading line items...</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-600">This bill isn't itemized. Add line items to break down its charges.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-24">Code</TableHead>
+              <TableHead className="w-28">System</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead className="w-32">ICD-10</TableHead>
+              <TableHead className="w-16">Units</TableHead>
+              <TableHead className="w-24">Charge</TableHead>
+              <TableHead className="w-24">Allowed</TableHead>
+              <TableHead className="w-24">Paid</TableHead>
+              <TableHead className="w-24">Adjustment</TableHead>
+              <TableHead className="w-36">Date of service</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <TableRow key={index}>
+                <TableCell>
+                  <Input value={row.code} onChange={(e) => updateRow(index, "code", e.target.value)} />
+                </TableCell>
+                <TableCell>
+                  <Select value={row.codeSystem} onValueChange={(value) => updateRow(index, "codeSystem", value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BILL_CODE_SYSTEMS.map((system) => (
+                        <SelectItem key={system} value={system}>{system}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Input value={row.description} onChange={(e) => updateRow(index, "description", e.target.value)} />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    placeholder="M54.2, S13.4"
+                    value={row.diagnosisCodes}
+                    onChange={(e) => updateRow(index, "diagnosisCodes", e.target.value)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input type="number" min="1" value={row.units} onChange={(e) => updateRow(index, "units", e.target.value)} />
+                </TableCell>
+                {(["charge", "allowed", "paid", "adjustment"] as const).map((field) => (
+                  <TableCell key={field}>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={row[field]}
+                      onChange={(e) => updateRow(index, field, e.target.value)}
+                    />
+                  </TableCell>
+                ))}
+                <TableCell>
+                  <Input type="date" value={row.serviceDate} onChange={(e) => updateRow(index, "serviceDate", e.target.value)} />
+                </TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="sm" onClick={() => setRows(rows.filter((_, i) => i !== index))}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" onClick={() => setRows([...rows, { ...emptyRow }])}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add line item
+        </Button>
+        <div className="flex items-center space-x-4">
+          {rows.length > 0 && (
+            <span className="text-sm text-gray-600">
+              Total charges: <span className="font-semibold text-neutral-dark">${total.toFixed(2)}</span>
+            </span>
+          )}
+          <Button
+            size="sm"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || rows.some(row => !row.charge.trim())}
+          >
+            <Save className="w-4 h-4 mr-1" />
+            {saveMutation.isPending ? "Saving..." : "Save line items"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
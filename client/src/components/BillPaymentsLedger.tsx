@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { PAYER_TYPES, PAYMENT_ENTRY_TYPES } from "@shared/schema";
+import { Plus, Trash2 } from "lucide-react";
+
+export const payerTypeLabels: Record<string, string> = {
+  health_insurer: "Health insurer",
+  auto_medpay: "Auto MedPay",
+  auto_pip: "Auto PIP",
+  medicare: "Medicare",
+  medicaid: "Medicaid",
+  va: "VA",
+  workers_comp: "Workers' comp",
+  self_pay: "Self-pay",
+  other: "Other",
+};
+
+const entryTypeLabels: Record<string, string> = {
+  payment: "Payment",
+  adjustment: "Adjustment",
+  write_off: "Write-off",
+};
+
+type Payment = {
+  id: string;
+  entryType: string;
+  payer: string | null;
+  payerType: string;
+  amount: string;
+  paidAt: string;
+  eobDocumentId: string | null;
+  note: string | null;
+};
+
+const emptyEntry = {
+  entryType: "payment",
+  payerType: "health_insurer",
+  payer: "",
+  amount: "",
+  paidAt: "",
+  eobDocumentId: "none",
+};
+
+export default function BillPaymentsLedger({ billId, caseId, billed }: { billId: string; caseId: string; billed: number }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [entry, setEntry] = useState(emptyEntry);
+
+  const { data: payments = [] } = useQuery<Payment[]>({
+    queryKey: ["/api/bills", billId, "payments"],
+  });
+
+  const { data: documents = [] } = useQuery<any[]>({
+    queryKey: ["/api/cases", caseId, "documents"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/bills", billId, "payments"] });
+    // The case specials summary is keyed by its full URL
+    queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}/specials`] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/bills/${billId}/payments`, "POST", {
+        entryType: entry.entryType,
+        payerType: entry.payerType,
+        payer: entry.payer.trim() || null,
+        amount: entry.amount.trim(),
+        paidAt: entry.paidAt,
+        eobDocumentId: entry.eobDocumentId === "none" ? null : entry.eobDocumentId,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setEntry(emptyEntry);
+      toast({
+        title: "Success",
+        description: "Ledger entry recorded",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/bill-payments/${id}`, "DELETE");
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const paid = payments
+    .filter(payment => payment.entryType === "payment")
+    .reduce((sum, payment) => sum + parseFloat(payment.amount), 0);
+  const adjusted = payments
+    .filter(payment => payment.entryType !== "payment")
+    .reduce((sum, payment) => sum + parseFloat(payment.amount), 0);
+  const documentName = (id: string | null) => documents.find((doc: any) => doc.id === id)?.fileName || "EOB";
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-2 text-sm">
+        <div><span className="text-gray-600">Billed</span> <span className="font-semibold">${billed.toFixed(2)}</span></div>
+        <div><span className="text-gray-600">Paid</span> <span className="font-semibold text-green-600">${paid.toFixed(2)}</span></div>
+        <div><span className="text-gray-600">Adjusted</span> <span className="font-semibold">${adjusted.toFixed(2)}</span></div>
+        <div><span className="text-gray-600">Outstanding</span> <span className="font-semibold text-red-600">${(billed - paid - adjusted).toFixed(2)}</span></div>
+      </div>
+
+      {payments.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Payer</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>EOB</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {payments.map((payment) => (
+              <TableRow key={payment.id}>
+                <TableCell>{new Date(payment.paidAt).toLocaleDateString()}</TableCell>
+                <TableCell>{entryTypeLabels[payment.entryType] || payment.entryType}</TableCell>
+                <TableCell>
+                  {payment.payer || "—"}
+                  <span className="ml-1 text-xs text-gray-500">({payerTypeLabels[payment.payerType] || payment.payerType})</span>
+                </TableCell>
+                <TableCell className="text-right">${parseFloat(payment.amount).toFixed(2)}</TableCell>
+                <TableCell>
+                  {payment.eobDocumentId ? (
+                    <Link href={`/documents/${payment.eobDocumentId}`} className="text-primary hover:underline">
+                      {documentName(payment.eobDocumentId)}
+                    </Link>
+                  ) : "—"}
+                </TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(payment.id)} disabled={deleteMutation.isPending}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-7 gap-2">
+        <Select value={entry.entryType} onValueChange={(value) => setEntry({ ...entry, entryType: value })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAYMENT_ENTRY_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>{entryTypeLabels[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={entry.payerType} onValueChange={(value) => setEntry({ ...entry, payerType: value })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAYER_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>{payerTypeLabels[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input placeholder="Payer name" value={entry.payer} onChange={(e) => setEntry({ ...entry, payer: e.target.value })} />
+        <Input
+          type="number"
+          step="0.01"
+          min="0"
+          placeholder="Amount"
+          value={entry.amount}
+          onChange={(e) => setEntry({ ...entry, amount: e.target.value })}
+        />
+        <Input type="date" value={entry.paidAt} onChange={(e) => setEntry({ ...entry, paidAt: e.target.value })} />
+        <Select value={entry.eobDocumentId} onValueChange={(value) => setEntry({ ...entry, eobDocumentId: value })}>
+          <SelectTrigger>
+            <SelectValue placeholder="EOB document" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No EOB</SelectItem>
+            {documents.map((doc: any) => (
+              <SelectItem key={doc.id} value={doc.id}>{doc.fileName}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={() => addMutation.mutate()}
+          disabled={addMutation.isPending || !entry.amount.trim() || !entry.paidAt}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Record
+        </Button>
+      </div>
+    </div>
+  );
+}
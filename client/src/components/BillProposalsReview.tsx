@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ClipboardCheck, Check, X, ExternalLink } from "lucide-react";
+
+type ProposedField = "provider" | "amount" | "serviceDate" | "billDate" | "treatment" | "insurance";
+
+type Source = {
+  pageNumber: number;
+  polygon: number[];
+  text: string;
+};
+
+type ProposedBill = {
+  id: string;
+  documentId: string;
+  fileName: string | null;
+  mimeType: string | null;
+  confidence: number;
+  pageNumber: number | null;
+  data: Record<ProposedField, string | null> & { cptCodes: string[] | null; lineItems: unknown[] | null };
+  fieldConfidence: Record<string, number> | null;
+  sources: Record<string, Source> | null;
+};
+
+type PageLayout = {
+  pageNumber: number;
+  width: number;
+  height: number;
+  unit: string;
+  lines: Array<{ content: string; polygon: number[] }>;
+};
+
+const fields: Array<{ name: ProposedField; label: string; type: string; required: boolean }> = [
+  { name: "provider", label: "Provider", type: "text", required: true },
+  { name: "amount", label: "Amount", type: "number", required: true },
+  { name: "serviceDate", label: "Service date", type: "date", required: true },
+  { name: "billDate", label: "Bill date", type: "date", required: true },
+  { name: "treatment", label: "Treatment", type: "text", required: false },
+  { name: "insurance", label: "Insurance", type: "text", required: false },
+];
+
+function confidenceClass(score: number): string {
+  if (score >= 0.85) return "bg-green-100 text-green-800";
+  if (score >= 0.6) return "bg-yellow-100 text-yellow-800";
+  return "bg-red-100 text-red-800";
+}
+
+function toPoints(polygon: number[]): string {
+  const points: string[] = [];
+  for (let i = 0; i + 1 < polygon.length; i += 2) points.push(`${polygon[i]},${polygon[i + 1]}`);
+  return points.join(" ");
+}
+
+// Shows the page a value was read from with its region highlighted. Images are drawn as-is; other
+// documents are redrawn from the page's recognized text lines, with a link to the original page.
+function SourceRegionPreview({ proposal, source }: { proposal: ProposedBill; source: Source | null }) {
+  const pageNumber = source?.pageNumber ?? proposal.pageNumber;
+  const isImage = proposal.mimeType?.startsWith("image/");
+
+  const { data: layout, isLoading } = useQuery<PageLayout>({
+    queryKey: ["/api/documents", proposal.documentId, "pages", pageNumber, "layout"],
+    enabled: pageNumber !== null,
+  });
+
+  if (pageNumber === null) {
+    return <p className="text-sm text-gray-600">The values of this bill couldn't be located in the document.</p>;
+  }
+  if (isLoading) {
+    return <p className="text-sm text-gray-600">Loading page {pageNumber}...</p>;
+  }
+  if (!layout) {
+    return <p className="text-sm text-gray-600">Page {pageNumber} isn't available for preview.</p>;
+  }
+
+  const highlight = source && source.pageNumber === layout.pageNumber && (
+    <polygon
+      points={toPoints(source.polygon)}
+      fill="rgba(250, 204, 21, 0.35)"
+      stroke="rgb(234, 179, 8)"
+      strokeWidth={layout.width / 300}
+    />
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <span>{proposal.fileName} · page {layout.pageNumber}</span>
+        <a
+          href={`/api/documents/${proposal.documentId}/download?inline=true#page=${layout.pageNumber}`}
+          target="_blank"
+          rel="noreferrer"
+          className="flex items-center text-primary hover:underline"
+        >
+          Open original
+          <ExternalLink className="w-3 h-3 ml-1" />
+        </a>
+      </div>
+      <div className="relative border rounded bg-white">
+        {isImage && (
+          <img
+            src={`/api/documents/${proposal.documentId}/download?inline=true`}
+            alt={proposal.fileName || "Source document"}
+            className="w-full"
+          />
+        )}
+        <svg
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          className={isImage ? "absolute inset-0 w-full h-full" : "w-full"}
+        >
+          {!isImage && layout.lines.map((line, index) => {
+            const ys = line.polygon.filter((_, i) => i % 2 === 1);
+            const height = Math.max(...ys) - Math.min(...ys);
+            return (
+              <text key={index} x={line.polygon[0]} y={Math.max(...ys)} fontSize={height * 0.85} fill="#374151">
+                {line.content}
+              </text>
+            );
+          })}
+          {highlight}
+        </svg>
+      </div>
+      {source && <p className="text-xs text-gray-600">Read from: "{source.text}"</p>}
+    </div>
+  );
+}
+
+function ProposalCard({ proposal, onReviewed }: { proposal: ProposedBill; onReviewed: () => void }) {
+  const { toast } = useToast();
+  const [values, setValues] = useState<Record<ProposedField, string>>(() =>
+    Object.fromEntries(fields.map(({ name }) => [name, proposal.data[name] || ""])) as Record<ProposedField, string>
+  );
+  const [activeField, setActiveField] = useState<ProposedField>("amount");
+  const [rejectionReason, setRejectionReason] = useState("");
+  const hasLineItems = (proposal.data.lineItems?.length || 0) > 0;
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      // Only fields the reviewer changed are sent as edits
+      const edits = Object.fromEntries(
+        fields
+          .filter(({ name }) => values[name] !== (proposal.data[name] || ""))
+          .map(({ name }) => [name, values[name].trim() || null])
+      );
+      const response = await apiRequest(`/api/proposed-bills/${proposal.id}/accept`, "POST", { edits });
+      return response.json();
+    },
+    onSuccess: (result: { duplicatesFlagged: number }) => {
+      onReviewed();
+      toast({
+        title: "Bill accepted",
+        description: result.duplicatesFlagged > 0
+          ? `Added to the case. ${result.duplicatesFlagged} possible duplicate(s) flagged.`
+          : "Added to the case.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/proposed-bills/${proposal.id}/reject`, "POST", {
+        reason: rejectionReason.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      onReviewed();
+      toast({
+        title: "Bill rejected",
+        description: "The proposed bill was discarded.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const missingRequired = fields.some(({ name, required }) => required && !values[name].trim());
+  const isPending = acceptMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <div className="rounded-lg bg-gray-50 p-4">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Badge className={confidenceClass(proposal.confidence / 100)}>{proposal.confidence}% confidence</Badge>
+            <span className="text-xs text-gray-600">{proposal.fileName}</span>
+          </div>
+          {fields.map(({ name, label, type, required }) => {
+            const score = proposal.fieldConfidence?.[name] ?? 0;
+            return (
+              <div key={name} className={`rounded p-1 ${activeField === name ? "ring-2 ring-yellow-400" : ""}`}>
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">
+                    {label}
+                    {required && <span className="text-red-600"> *</span>}
+                  </Label>
+                  <Badge variant="outline" className={`text-xs ${confidenceClass(score)}`}>
+                    {proposal.data[name] ? `${Math.round(score * 100)}%` : "Not found"}
+                  </Badge>
+                </div>
+                <Input
+                  type={type}
+                  step={type === "number" ? "0.01" : undefined}
+                  value={values[name]}
+                  disabled={name === "amount" && hasLineItems}
+                  onFocus={() => setActiveField(name)}
+                  onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+                />
+                {name === "amount" && hasLineItems && (
+                  <p className="text-xs text-gray-600 mt-1">
+                    Totalled from {proposal.data.lineItems!.length} line item(s), which can be edited after accepting.
+                  </p>
+                )}
+              </div>
+            );
+          })}
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            <Button size="sm" onClick={() => acceptMutation.mutate()} disabled={isPending || missingRequired}>
+              <Check className="w-4 h-4 mr-1" />
+              Accept
+            </Button>
+            <Input
+              className="flex-1 min-w-[10rem]"
+              placeholder="Reason for rejecting (optional)"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+            />
+            <Button size="sm" variant="outline" onClick={() => rejectMutation.mutate()} disabled={isPending}>
+              <X className="w-4 h-4 mr-1" />
+              Reject
+            </Button>
+          </div>
+        </div>
+        <SourceRegionPreview proposal={proposal} source={proposal.sources?.[activeField] ?? null} />
+      </div>
+    </div>
+  );
+}
+
+// AI-extracted bills waiting for a reviewer; lowest confidence first
+export default function BillProposalsReview({ caseId }: { caseId: string }) {
+  const queryClient = useQueryClient();
+
+  const { data: proposals = [] } = useQuery<ProposedBill[]>({
+    queryKey: ["/api/cases", caseId, "proposed-bills?status=proposed"],
+    enabled: !!caseId,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+    queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}/bills`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+  };
+
+  if (proposals.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ClipboardCheck className="w-5 h-5" />
+          <span>Extracted Bills to Review</span>
+          <Badge variant="secondary">{proposals.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {proposals.map((proposal) => (
+          <ProposalCard key={proposal.id} proposal={proposal} onReviewed={refresh} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
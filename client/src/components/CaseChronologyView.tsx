@@ -0,0 +1,194 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, CalendarClock, FileText, Receipt } from "lucide-react";
+
+type ChronologySource = {
+  type: "document" | "bill";
+  documentId: string | null;
+  fileName: string | null;
+  billId: string | null;
+  pageNumber: number | null;
+};
+
+type ChronologyEvent = {
+  id: string;
+  date: string | null;
+  eventType: string;
+  provider: string;
+  descriptions: string[];
+  amount: number | null;
+  sources: ChronologySource[];
+};
+
+type TreatmentGap = {
+  from: string;
+  to: string;
+  days: number;
+  afterEventId: string | null;
+  beforeEventId: string;
+};
+
+type CaseChronology = {
+  events: ChronologyEvent[];
+  undated: ChronologyEvent[];
+  gaps: TreatmentGap[];
+  gapThresholdDays: number;
+  incidentDate: string | null;
+};
+
+function SourceLink({ source }: { source: ChronologySource }) {
+  const Icon = source.type === "bill" ? Receipt : FileText;
+  const label = `${source.fileName || (source.type === "bill" ? "Entered bill" : "Document")}${source.pageNumber ? `, p. ${source.pageNumber}` : ""}`;
+  if (!source.documentId) {
+    return (
+      <Badge variant="outline" className="text-xs font-normal">
+        <Icon className="w-3 h-3 mr-1" />
+        {label}
+      </Badge>
+    );
+  }
+  return (
+    <a
+      href={`/api/documents/${source.documentId}/download?inline=true${source.pageNumber ? `#page=${source.pageNumber}` : ""}`}
+      target="_blank"
+      rel="noreferrer"
+    >
+      <Badge variant="outline" className="text-xs font-normal hover:bg-gray-100">
+        <Icon className="w-3 h-3 mr-1" />
+        {label}
+      </Badge>
+    </a>
+  );
+}
+
+function EventRow({ event }: { event: ChronologyEvent }) {
+  return (
+    <TableRow>
+      <TableCell className="whitespace-nowrap align-top">{event.date || "—"}</TableCell>
+      <TableCell className="align-top">
+        <div className="font-medium">{event.provider || "Unknown provider"}</div>
+        <div className="text-xs text-gray-600">{event.eventType}</div>
+      </TableCell>
+      <TableCell className="align-top text-sm">
+        {event.descriptions.map((description, index) => (
+          <p key={index} className={index > 0 ? "mt-1 text-gray-600" : ""}>{description}</p>
+        ))}
+      </TableCell>
+      <TableCell className="align-top text-right whitespace-nowrap">
+        {event.amount !== null ? `$${event.amount.toFixed(2)}` : ""}
+      </TableCell>
+      <TableCell className="align-top">
+        <div className="flex flex-wrap gap-1">
+          {event.sources.map((source, index) => <SourceLink key={index} source={source} />)}
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function CaseChronologyView({ caseId }: { caseId: string }) {
+  const [gapDays, setGapDays] = useState("30");
+  const validGapDays = /^\d+$/.test(gapDays) && Number(gapDays) >= 1 && Number(gapDays) <= 365 ? gapDays : "30";
+
+  const { data: chronology, isLoading } = useQuery<CaseChronology>({
+    queryKey: [`/api/cases/${caseId}/chronology?gapDays=${validGapDays}`],
+    enabled: !!caseId,
+  });
+
+  // Gaps are shown just before the visit that ends them
+  const gapsBefore = new Map((chronology?.gaps || []).map(gap => [gap.beforeEventId, gap]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <CalendarClock className="w-5 h-5" />
+            <span>Medical Chronology</span>
+          </div>
+          <div className="flex items-center space-x-2 text-sm font-normal">
+            <Label htmlFor="gap-days">Flag gaps longer than</Label>
+            <Input
+              id="gap-days"
+              type="number"
+              min={1}
+              max={365}
+              className="w-20"
+              value={gapDays}
+              onChange={(e) => setGapDays(e.target.value)}
+            />
+            <span>days</span>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !chronology ? (
+          <div className="text-center py-4">Building chronology...</div>
+        ) : chronology.events.length === 0 && chronology.undated.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No treatment events yet. Events come from analyzed documents and the case's medical bills.
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+              {chronology.incidentDate && <span>Incident: {chronology.incidentDate}</span>}
+              <span>{chronology.events.length} dated events</span>
+              {chronology.gaps.length > 0 && (
+                <span className="text-amber-700">
+                  {chronology.gaps.length} gap{chronology.gaps.length === 1 ? "" : "s"} in treatment
+                </span>
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-28">Date</TableHead>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Billed</TableHead>
+                  <TableHead>Sources</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {chronology.events.map((event) => {
+                  const gap = gapsBefore.get(event.id);
+                  return (
+                    <Fragment key={event.id}>
+                      {gap && (
+                        <TableRow className="bg-amber-50 hover:bg-amber-50">
+                          <TableCell colSpan={5} className="text-sm text-amber-800">
+                            <AlertTriangle className="w-4 h-4 inline mr-1" />
+                            {gap.days} days without treatment
+                            {gap.afterEventId ? ` (${gap.from} to ${gap.to})` : ` between the incident on ${gap.from} and the first visit`}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                      <EventRow event={event} />
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {chronology.undated.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700">Undated events</h4>
+                <Table>
+                  <TableBody>
+                    {chronology.undated.map((event) => <EventRow key={event.id} event={event} />)}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
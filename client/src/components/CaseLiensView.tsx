@@ -0,0 +1,552 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { LIEN_STATUSES, LIEN_TYPES } from "@shared/schema";
+import { Landmark, Plus, Edit, Trash2, Paperclip, X, Calculator } from "lucide-react";
+
+const lienTypeLabels: Record<string, string> = {
+  hospital: "Hospital lien",
+  provider: "Provider lien",
+  medicare: "Medicare conditional payment",
+  medicaid: "Medicaid",
+  erisa: "ERISA plan",
+  health_insurer: "Health insurer subrogation",
+  workers_comp: "Workers' comp",
+  va: "VA",
+  other: "Other",
+};
+
+const lienStatusLabels: Record<string, string> = {
+  asserted: "Asserted",
+  disputed: "Disputed",
+  negotiating: "Negotiating",
+  agreed: "Agreed",
+  paid: "Paid",
+  waived: "Waived",
+};
+
+type LienDocument = {
+  id: string;
+  documentId: string;
+  description: string | null;
+  fileName: string | null;
+};
+
+type Lien = {
+  id: string;
+  lienholder: string;
+  lienType: string;
+  referenceNumber: string | null;
+  assertedAmount: string;
+  negotiatedAmount: string | null;
+  status: string;
+  notes: string | null;
+  billIds: string[];
+  documents: LienDocument[];
+};
+
+type SettlementBreakdown = {
+  grossSettlement: number;
+  attorneyFee: number;
+  costs: Array<{ description: string; amount: number }>;
+  totalCosts: number;
+  liens: Array<{ lienId: string; lienholder: string; status: string; asserted: number; payoff: number }>;
+  totalLiens: number;
+  netToClient: number;
+};
+
+type LienForm = {
+  lienholder: string;
+  lienType: string;
+  referenceNumber: string;
+  assertedAmount: string;
+  negotiatedAmount: string;
+  status: string;
+  notes: string;
+  billIds: string[];
+};
+
+const emptyLien: LienForm = {
+  lienholder: "",
+  lienType: "hospital",
+  referenceNumber: "",
+  assertedAmount: "",
+  negotiatedAmount: "",
+  status: "asserted",
+  notes: "",
+  billIds: [],
+};
+
+function toForm(lien: Lien): LienForm {
+  return {
+    lienholder: lien.lienholder,
+    lienType: lien.lienType,
+    referenceNumber: lien.referenceNumber || "",
+    assertedAmount: lien.assertedAmount,
+    negotiatedAmount: lien.negotiatedAmount || "",
+    status: lien.status,
+    notes: lien.notes || "",
+    billIds: lien.billIds,
+  };
+}
+
+const money = (amount: number | string) => `$${parseFloat(String(amount)).toFixed(2)}`;
+
+export default function CaseLiensView({ caseId, bills, documents }: { caseId: string; bills: any[]; documents: any[] }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editingLien, setEditingLien] = useState<Lien | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<LienForm>(emptyLien);
+
+  const { data: liens = [], isLoading } = useQuery<Lien[]>({
+    queryKey: [`/api/cases/${caseId}/liens`],
+    enabled: !!caseId,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}/liens`] });
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        lienholder: form.lienholder.trim(),
+        lienType: form.lienType,
+        referenceNumber: form.referenceNumber.trim() || null,
+        assertedAmount: form.assertedAmount.trim(),
+        negotiatedAmount: form.negotiatedAmount.trim() || null,
+        status: form.status,
+        notes: form.notes.trim() || null,
+        billIds: form.billIds,
+      };
+      const response = editingLien
+        ? await apiRequest(`/api/liens/${editingLien.id}`, "PATCH", payload)
+        : await apiRequest(`/api/cases/${caseId}/liens`, "POST", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setIsDialogOpen(false);
+      toast({
+        title: "Success",
+        description: editingLien ? "Lien updated" : "Lien added",
+      });
+    },
+    onError: showError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: string }) => {
+      return apiRequest(`/api/liens/${id}`, "PATCH", { status });
+    },
+    onSuccess: refresh,
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/liens/${id}`, "DELETE");
+    },
+    onSuccess: refresh,
+    onError: showError,
+  });
+
+  const attachMutation = useMutation({
+    mutationFn: async ({ id, documentId }: { id: string; documentId: string }) => {
+      return apiRequest(`/api/liens/${id}/documents`, "POST", { documentId });
+    },
+    onSuccess: refresh,
+    onError: showError,
+  });
+
+  const detachMutation = useMutation({
+    mutationFn: async ({ id, documentId }: { id: string; documentId: string }) => {
+      return apiRequest(`/api/liens/${id}/documents/${documentId}`, "DELETE");
+    },
+    onSuccess: refresh,
+    onError: showError,
+  });
+
+  const openDialog = (lien: Lien | null) => {
+    setEditingLien(lien);
+    setForm(lien ? toForm(lien) : emptyLien);
+    setIsDialogOpen(true);
+  };
+
+  const toggleBill = (billId: string, checked: boolean) => {
+    setForm({
+      ...form,
+      billIds: checked ? [...form.billIds, billId] : form.billIds.filter(id => id !== billId),
+    });
+  };
+
+  const billLabel = (billId: string) => {
+    const bill = bills.find((b: any) => b.id === billId);
+    return bill ? `${bill.provider} (${money(bill.amount)})` : "Removed bill";
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading liens...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center space-x-2">
+              <Landmark className="w-5 h-5" />
+              <span>Liens & Subrogation</span>
+            </CardTitle>
+            <Button size="sm" onClick={() => openDialog(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Lien
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {liens.length === 0 ? (
+            <p className="text-sm text-gray-600">No liens have been asserted against this case.</p>
+          ) : (
+            <div className="space-y-4">
+              {liens.map((lien) => {
+                const attached = new Set(lien.documents.map(doc => doc.documentId));
+                return (
+                  <div key={lien.id} className="rounded-lg border p-4 space-y-3">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <h4 className="font-semibold text-neutral-dark">{lien.lienholder}</h4>
+                        <div className="flex items-center gap-2 text-sm text-gray-600">
+                          <Badge variant="outline">{lienTypeLabels[lien.lienType] || lien.lienType}</Badge>
+                          {lien.referenceNumber && <span>Ref. {lien.referenceNumber}</span>}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={lien.status}
+                          onValueChange={(status) => statusMutation.mutate({ id: lien.id, status })}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {LIEN_STATUSES.map((status) => (
+                              <SelectItem key={status} value={status}>{lienStatusLabels[status]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button variant="ghost" size="sm" onClick={() => openDialog(lien)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteMutation.mutate(lien.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4 text-sm">
+                      <div>
+                        <p className="text-gray-600">Asserted</p>
+                        <p className="font-medium text-neutral-dark">{money(lien.assertedAmount)}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-600">Negotiated</p>
+                        <p className="font-medium text-neutral-dark">
+                          {lien.negotiatedAmount ? money(lien.negotiatedAmount) : "—"}
+                        </p>
+                      </div>
+                    </div>
+
+                    {lien.billIds.length > 0 && (
+                      <p className="text-sm text-gray-600">
+                        Covers: {lien.billIds.map(billLabel).join(", ")}
+                      </p>
+                    )}
+                    {lien.notes && <p className="text-sm text-gray-600">{lien.notes}</p>}
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      {lien.documents.map((doc) => (
+                        <Badge key={doc.documentId} variant="secondary" className="flex items-center gap-1">
+                          <Paperclip className="w-3 h-3" />
+                          <Link href={`/documents/${doc.documentId}`} className="hover:underline">
+                            {doc.fileName || "Document"}
+                          </Link>
+                          <button
+                            type="button"
+                            onClick={() => detachMutation.mutate({ id: lien.id, documentId: doc.documentId })}
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                      <Select value="" onValueChange={(documentId) => attachMutation.mutate({ id: lien.id, documentId })}>
+                        <SelectTrigger className="w-56 h-8 text-sm">
+                          <SelectValue placeholder="Attach correspondence..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {documents.filter((doc: any) => !attached.has(doc.id)).map((doc: any) => (
+                            <SelectItem key={doc.id} value={doc.id}>{doc.fileName}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <SettlementCalculator caseId={caseId} hasLiens={liens.length > 0} />
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingLien ? "Edit Lien" : "Add Lien"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Lienholder</Label>
+              <Input value={form.lienholder} onChange={(e) => setForm({ ...form, lienholder: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Type</Label>
+                <Select value={form.lienType} onValueChange={(lienType) => setForm({ ...form, lienType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LIEN_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{lienTypeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Reference number</Label>
+                <Input value={form.referenceNumber} onChange={(e) => setForm({ ...form, referenceNumber: e.target.value })} />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label>Asserted</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.assertedAmount}
+                  onChange={(e) => setForm({ ...form, assertedAmount: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Negotiated</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.negotiatedAmount}
+                  onChange={(e) => setForm({ ...form, negotiatedAmount: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Status</Label>
+                <Select value={form.status} onValueChange={(status) => setForm({ ...form, status })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LIEN_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>{lienStatusLabels[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {bills.length > 0 && (
+              <div>
+                <Label>Bills covered</Label>
+                <div className="mt-2 max-h-40 overflow-y-auto space-y-2">
+                  {bills.map((bill: any) => (
+                    <label key={bill.id} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={form.billIds.includes(bill.id)}
+                        onCheckedChange={(checked) => toggleBill(bill.id, checked === true)}
+                      />
+                      <span>
+                        {bill.provider} · {new Date(bill.serviceDate).toLocaleDateString()} · {money(bill.amount)}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div>
+              <Label>Notes</Label>
+              <Textarea value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || !form.lienholder.trim() || !form.assertedAmount.trim()}
+              >
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// Proposed settlement minus attorney fee, case costs and lien payoffs
+function SettlementCalculator({ caseId, hasLiens }: { caseId: string; hasLiens: boolean }) {
+  const { toast } = useToast();
+  const [grossSettlement, setGrossSettlement] = useState("");
+  const [attorneyFeePercent, setAttorneyFeePercent] = useState("33.33");
+  const [costs, setCosts] = useState<Array<{ description: string; amount: string }>>([]);
+  const [breakdown, setBreakdown] = useState<SettlementBreakdown | null>(null);
+
+  const calculateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/cases/${caseId}/settlement-calculator`, "POST", {
+        grossSettlement,
+        attorneyFeePercent,
+        costs: costs.filter(cost => cost.description.trim() && cost.amount.trim()),
+      });
+      return response.json();
+    },
+    onSuccess: (result: SettlementBreakdown) => setBreakdown(result),
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateCost = (index: number, field: "description" | "amount", value: string) => {
+    setCosts(costs.map((cost, i) => (i === index ? { ...cost, [field]: value } : cost)));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Calculator className="w-5 h-5" />
+          <span>Net-to-Client Calculator</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Proposed settlement</Label>
+            <Input type="number" step="0.01" min="0" value={grossSettlement} onChange={(e) => setGrossSettlement(e.target.value)} />
+          </div>
+          <div>
+            <Label>Attorney fee (%)</Label>
+            <Input type="number" step="0.01" min="0" max="100" value={attorneyFeePercent} onChange={(e) => setAttorneyFeePercent(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Case costs</Label>
+          {costs.map((cost, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                placeholder="Description"
+                value={cost.description}
+                onChange={(e) => updateCost(index, "description", e.target.value)}
+              />
+              <Input
+                className="w-40"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="Amount"
+                value={cost.amount}
+                onChange={(e) => updateCost(index, "amount", e.target.value)}
+              />
+              <Button variant="ghost" size="sm" onClick={() => setCosts(costs.filter((_, i) => i !== index))}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setCosts([...costs, { description: "", amount: "" }])}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add cost
+          </Button>
+        </div>
+
+        <Button onClick={() => calculateMutation.mutate()} disabled={calculateMutation.isPending || !grossSettlement.trim()}>
+          {calculateMutation.isPending ? "Calculating..." : "Calculate"}
+        </Button>
+        {!hasLiens && <p className="text-sm text-gray-600">No liens recorded; only fees and costs will be deducted.</p>}
+
+        {breakdown && (
+          <Table>
+            <TableBody>
+              <TableRow>
+                <TableCell>Gross settlement</TableCell>
+                <TableCell className="text-right">{money(breakdown.grossSettlement)}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Attorney fee</TableCell>
+                <TableCell className="text-right">-{money(breakdown.attorneyFee)}</TableCell>
+              </TableRow>
+              {breakdown.costs.map((cost, index) => (
+                <TableRow key={`cost-${index}`}>
+                  <TableCell className="pl-8 text-gray-600">{cost.description}</TableCell>
+                  <TableCell className="text-right">-{money(cost.amount)}</TableCell>
+                </TableRow>
+              ))}
+              {breakdown.liens.map((lien) => (
+                <TableRow key={lien.lienId}>
+                  <TableCell className="pl-8 text-gray-600">
+                    {lien.lienholder} ({lienStatusLabels[lien.status] || lien.status}
+                    {lien.payoff !== lien.asserted && `, asserted ${money(lien.asserted)}`})
+                  </TableCell>
+                  <TableCell className="text-right">-{money(lien.payoff)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell className="font-semibold">Net to client</TableCell>
+                <TableCell className={`text-right font-bold ${breakdown.netToClient < 0 ? "text-red-600" : "text-green-600"}`}>
+                  {money(breakdown.netToClient)}
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ShieldAlert, FileText } from "lucide-react";
+
+type RiskSeverity = "high" | "medium" | "low";
+
+type RiskFlag = {
+  category: string;
+  severity: RiskSeverity;
+  description: string;
+  citation: {
+    documentId: string;
+    fileName: string;
+    pageNumber: number | null;
+    quote: string;
+  } | null;
+};
+
+type CaseRiskReport = {
+  riskLevel: RiskSeverity;
+  incidentDate: string | null;
+  firstTreatmentDate: string | null;
+  daysToFirstTreatment: number | null;
+  gapThresholdDays: number;
+  treatmentGaps: Array<{ from: string; to: string; days: number }>;
+  flags: RiskFlag[];
+  counts: Record<string, number>;
+};
+
+const categoryLabels: Record<string, string> = {
+  late_first_treatment: "Late first treatment",
+  treatment_gap: "Gaps in treatment",
+  pre_existing: "Pre-existing conditions",
+  prior_injury: "Prior injury mentions",
+  delay_in_care: "Delays in care",
+  compliance: "Compliance issues",
+  missed_appointment: "Missed appointments",
+};
+
+const severityStyles: Record<RiskSeverity, string> = {
+  high: "bg-red-100 text-red-800",
+  medium: "bg-amber-100 text-amber-800",
+  low: "bg-green-100 text-green-800",
+};
+
+export default function CaseRiskReportView({ caseId }: { caseId: string }) {
+  const [gapDays, setGapDays] = useState("30");
+  const [incidentDate, setIncidentDate] = useState("");
+  const validGapDays = /^\d+$/.test(gapDays) && Number(gapDays) >= 1 && Number(gapDays) <= 365 ? gapDays : "30";
+  const params = new URLSearchParams({ gapDays: validGapDays });
+  if (incidentDate) params.set("incidentDate", incidentDate);
+
+  const { data: report, isLoading } = useQuery<CaseRiskReport>({
+    queryKey: [`/api/cases/${caseId}/risk-report?${params}`],
+    enabled: !!caseId,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <ShieldAlert className="w-5 h-5" />
+            <span>Risk Report</span>
+            {report && (
+              <Badge className={severityStyles[report.riskLevel]}>
+                {report.riskLevel === "low" ? "No red flags" : `${report.riskLevel} risk`}
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center space-x-3 text-sm font-normal">
+            <div className="flex items-center space-x-2">
+              <Label htmlFor="risk-incident-date">Incident date</Label>
+              <Input
+                id="risk-incident-date"
+                type="date"
+                className="w-40"
+                value={incidentDate}
+                onChange={(e) => setIncidentDate(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Label htmlFor="risk-gap-days">Gap threshold</Label>
+              <Input
+                id="risk-gap-days"
+                type="number"
+                min={1}
+                max={365}
+                className="w-20"
+                value={gapDays}
+                onChange={(e) => setGapDays(e.target.value)}
+              />
+              <span>days</span>
+            </div>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !report ? (
+          <div className="text-center py-4">Analyzing case...</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-gray-600">Incident</div>
+                <div className="font-medium">
+                  {report.incidentDate || "Unknown"}
+                  {!incidentDate && report.incidentDate && <span className="text-xs text-gray-500"> (from documents)</span>}
+                </div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-gray-600">Days to first treatment</div>
+                <div className="font-medium">
+                  {report.daysToFirstTreatment !== null
+                    ? `${report.daysToFirstTreatment} (${report.firstTreatmentDate})`
+                    : report.firstTreatmentDate ? `First visit ${report.firstTreatmentDate}` : "No dated treatment"}
+                </div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-gray-600">Gaps over {report.gapThresholdDays} days</div>
+                <div className="font-medium">
+                  {report.treatmentGaps.length === 0
+                    ? "None"
+                    : `${report.treatmentGaps.length}, longest ${Math.max(...report.treatmentGaps.map(gap => gap.days))} days`}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(report.counts)
+                .filter(([, count]) => count > 0)
+                .map(([category, count]) => (
+                  <Badge key={category} variant="outline">
+                    {categoryLabels[category] || category}: {count}
+                  </Badge>
+                ))}
+            </div>
+
+            {report.flags.length === 0 ? (
+              <div className="text-center py-6 text-gray-500">
+                Nothing found in the case's documents and bills that an adjuster is likely to raise.
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {report.flags.map((flag, index) => (
+                  <div key={index} className="rounded-lg border p-3 space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <Badge className={severityStyles[flag.severity]}>{flag.severity}</Badge>
+                      <span className="text-xs text-gray-600">{categoryLabels[flag.category] || flag.category}</span>
+                    </div>
+                    <div className="text-sm">{flag.description}</div>
+                    {flag.citation && (
+                      <div className="flex items-start space-x-2 text-xs text-gray-600">
+                        <a
+                          href={`/api/documents/${flag.citation.documentId}/download?inline=true${flag.citation.pageNumber ? `#page=${flag.citation.pageNumber}` : ""}`}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="flex items-center shrink-0 text-primary hover:underline"
+                        >
+                          <FileText className="w-3 h-3 mr-1" />
+                          {flag.citation.fileName}
+                          {flag.citation.pageNumber ? `, p. ${flag.citation.pageNumber}` : ""}
+                        </a>
+                        <span className="italic">{flag.citation.quote}</span>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { organizationRoleLabels, memberName, type OrganizationInfo } from "@/components/OrganizationManager";
+import { Users, UserPlus, X } from "lucide-react";
+
+type CaseTeam = {
+  organizationId: string | null;
+  createdBy: string;
+  members: Array<{
+    userId: string;
+    role: string | null;
+    username: string;
+    firstName: string | null;
+    lastName: string | null;
+  }>;
+};
+
+export default function CaseTeamCard({ caseId, canManage }: { caseId: string; canManage: boolean }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [selected, setSelected] = useState("");
+
+  const { data: team } = useQuery<CaseTeam>({
+    queryKey: [`/api/cases/${caseId}/team`],
+    enabled: !!caseId,
+  });
+
+  const { data: firm } = useQuery<OrganizationInfo>({
+    queryKey: ["/api/organization"],
+  });
+
+  const onTeam = new Set((team?.members || []).map(member => member.userId));
+  const creator = firm?.members.find(member => member.userId === team?.createdBy);
+  const candidates = (firm?.members || []).filter(
+    member => member.userId !== team?.createdBy && !onTeam.has(member.userId) && member.role !== "admin"
+  );
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest(`/api/cases/${caseId}/team`, "POST", { userId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}/team`] });
+      setSelected("");
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return apiRequest(`/api/cases/${caseId}/team/${userId}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}/team`] });
+    },
+    onError,
+  });
+
+  // Cases outside a firm aren't shared with anyone
+  if (!team?.organizationId) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Users className="w-5 h-5" />
+          <span>Case Team</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {creator && (
+            <Badge variant="secondary" className="text-sm font-normal">
+              {memberName(creator)} · opened the case
+            </Badge>
+          )}
+          {team.members.map((member) => (
+            <Badge key={member.userId} variant="outline" className="text-sm font-normal">
+              {memberName(member)}
+              {member.role && ` · ${organizationRoleLabels[member.role] || member.role}`}
+              {canManage && (
+                <button
+                  type="button"
+                  className="ml-1 text-gray-500 hover:text-gray-900"
+                  onClick={() => removeMutation.mutate(member.userId)}
+                  disabled={removeMutation.isPending}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </Badge>
+          ))}
+        </div>
+
+        {canManage && candidates.length > 0 && (
+          <div className="flex items-center space-x-2">
+            <Select value={selected} onValueChange={setSelected}>
+              <SelectTrigger className="w-72">
+                <SelectValue placeholder="Add a firm member" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((member) => (
+                  <SelectItem key={member.userId} value={member.userId}>
+                    {memberName(member)} · {organizationRoleLabels[member.role] || member.role}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={() => addMutation.mutate(selected)} disabled={!selected || addMutation.isPending}>
+              <UserPlus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500">Firm admins can open every firm case without being on its team.</p>
+      </CardContent>
+    </Card>
+  );
+}
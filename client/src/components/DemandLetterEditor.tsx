@@ -0,0 +1,446 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { MarkdownEditor } from "@/components/MarkdownEditor";
+import { DemandLetterHistoryDialog } from "@/components/DemandLetterHistoryDialog";
+import { DemandLetterExportDialog } from "@/components/DemandLetterExportDialog";
+import { ArrowLeft, Save, History, RefreshCw, Wand2, FileText, Receipt, User, Download } from "lucide-react";
+
+export const letterStatusLabels: Record<string, string> = {
+  draft: "Draft",
+  attorney_review: "Attorney review",
+  approved: "Approved",
+  sent: "Sent",
+};
+
+export const letterStatusStyles: Record<string, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  attorney_review: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  sent: "bg-blue-100 text-blue-800",
+};
+
+// The moves the server allows from each status
+const statusActions: Record<string, Array<{ status: string; label: string }>> = {
+  draft: [{ status: "attorney_review", label: "Send for attorney review" }],
+  attorney_review: [
+    { status: "approved", label: "Approve" },
+    { status: "draft", label: "Request changes" },
+  ],
+  approved: [
+    { status: "sent", label: "Mark as sent" },
+    { status: "draft", label: "Reopen as draft" },
+  ],
+  sent: [],
+};
+
+type LetterSource = {
+  type: "document" | "bill" | "input";
+  id: string | null;
+  label: string;
+};
+
+type LetterSection = {
+  key: string;
+  title: string;
+  content: string;
+  sources: LetterSource[];
+};
+
+type StatusChange = {
+  id: string;
+  fromStatus: string;
+  toStatus: string;
+  note: string | null;
+  changedByName: string;
+  createdAt: string;
+};
+
+export type DemandLetter = {
+  id: string;
+  caseId: string;
+  title: string;
+  content: string;
+  status: string;
+  sections: LetterSection[] | null;
+  demandAmount: string | null;
+  currentVersionId: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+const sourceIcons = {
+  document: FileText,
+  bill: Receipt,
+  input: User,
+};
+
+function SectionEditor({
+  section,
+  value,
+  onChange,
+  locked,
+  aiDisabledReason,
+  onRegenerate,
+  onRewrite,
+  isWorking,
+  canRegenerate = true,
+}: {
+  section: LetterSection;
+  value: string;
+  onChange: (value: string) => void;
+  locked: boolean;
+  aiDisabledReason: string | null;
+  onRegenerate: () => void;
+  onRewrite: (instruction: string) => void;
+  isWorking: boolean;
+  canRegenerate?: boolean;
+}) {
+  const [instruction, setInstruction] = useState("");
+  const [isRewriting, setIsRewriting] = useState(false);
+  // The specials table comes from the bills, so it can only be rebuilt, not reworded
+  const isSpecials = section.key === "specials";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-neutral-dark">{section.title}</h4>
+        <div className="flex items-center space-x-2" title={aiDisabledReason || undefined}>
+          {canRegenerate && (
+            <Button variant="outline" size="sm" onClick={onRegenerate} disabled={!!aiDisabledReason || isWorking}>
+              <RefreshCw className="w-3 h-3 mr-1" />
+              Regenerate
+            </Button>
+          )}
+          {!isSpecials && (
+            <Button variant="outline" size="sm" onClick={() => setIsRewriting(!isRewriting)} disabled={!!aiDisabledReason || isWorking}>
+              <Wand2 className="w-3 h-3 mr-1" />
+              Rewrite
+            </Button>
+          )}
+        </div>
+      </div>
+      {isRewriting && !aiDisabledReason && (
+        <div className="flex items-center space-x-2">
+          <Input
+            placeholder='e.g. "Make this firmer" or "Shorten to one paragraph"'
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+          />
+          <Button
+            size="sm"
+            disabled={!instruction.trim() || isWorking}
+            onClick={() => {
+              onRewrite(instruction.trim());
+              setInstruction("");
+              setIsRewriting(false);
+            }}
+          >
+            Rewrite
+          </Button>
+        </div>
+      )}
+      <MarkdownEditor value={value} onChange={onChange} disabled={locked || isSpecials} rows={isSpecials ? 6 : 8} />
+      {section.sources.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs text-gray-600">Based on:</span>
+          {section.sources.map((source, index) => {
+            const Icon = sourceIcons[source.type];
+            return (
+              <Badge key={index} variant="outline" className="text-xs font-normal">
+                <Icon className="w-3 h-3 mr-1" />
+                {source.label}
+              </Badge>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function DemandLetterEditor({ letterId, onBack }: { letterId: string; onBack: () => void }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [demandAmount, setDemandAmount] = useState("");
+  const [sectionContent, setSectionContent] = useState<Record<string, string>>({});
+  const [content, setContent] = useState("");
+  const [note, setNote] = useState("");
+  const [statusNote, setStatusNote] = useState("");
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  const { data: letter, isLoading } = useQuery<DemandLetter & { statusHistory: StatusChange[] }>({
+    queryKey: ["/api/demand-letters", letterId],
+  });
+
+  // Start over from the saved letter whenever a new version of it arrives
+  useEffect(() => {
+    if (!letter) return;
+    setTitle(letter.title);
+    setDemandAmount(letter.demandAmount || "");
+    setSectionContent(Object.fromEntries((letter.sections || []).map(section => [section.key, section.content])));
+    setContent(letter.content);
+    setNote("");
+  }, [letter?.currentVersionId, letter?.updatedAt]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/demand-letters", letterId] });
+    if (letter) {
+      queryClient.invalidateQueries({ queryKey: [`/api/cases/${letter.caseId}/demand-letters`] });
+    }
+  };
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/demand-letters/${letterId}`, "PATCH", {
+        title: title.trim(),
+        demandAmount: demandAmount.trim() || null,
+        ...(letter?.sections?.length
+          ? { sections: Object.entries(sectionContent).map(([key, value]) => ({ key, content: value })) }
+          : { content }),
+        note: note.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Saved", description: "A new version of the letter was saved." });
+    },
+    onError: showError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (key: string) => {
+      const response = await apiRequest(`/api/demand-letters/${letterId}/sections/${key}/regenerate`, "POST");
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Section regenerated", description: "The section was rewritten from the case's documents and bills." });
+    },
+    onError: showError,
+  });
+
+  const rewriteMutation = useMutation({
+    mutationFn: async ({ sectionKey, instruction }: { sectionKey?: string; instruction: string }) => {
+      const response = await apiRequest(`/api/demand-letters/${letterId}/rewrite`, "POST", { sectionKey, instruction });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Rewritten", description: "The rewrite was saved as a new version." });
+    },
+    onError: showError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: string) => {
+      const response = await apiRequest(`/api/demand-letters/${letterId}/status`, "POST", {
+        status,
+        note: statusNote.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (_data, status) => {
+      refresh();
+      setStatusNote("");
+      toast({ title: "Status updated", description: `The letter is now ${letterStatusLabels[status].toLowerCase()}.` });
+    },
+    onError: showError,
+  });
+
+  if (isLoading || !letter) {
+    return <div className="text-center py-8">Loading letter...</div>;
+  }
+
+  const sections = letter.sections || [];
+  const locked = letter.status === "approved" || letter.status === "sent";
+  const isDirty =
+    title !== letter.title ||
+    demandAmount !== (letter.demandAmount || "") ||
+    (sections.length > 0
+      ? sections.some(section => (sectionContent[section.key] ?? section.content) !== section.content)
+      : content !== letter.content);
+  const isWorking = regenerateMutation.isPending || rewriteMutation.isPending;
+  const aiDisabledReason = locked
+    ? "Move the letter back to draft to change it"
+    : isDirty
+      ? "Save or discard your changes first"
+      : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          All letters
+        </Button>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setIsHistoryOpen(true)}>
+            <History className="w-4 h-4 mr-1" />
+            History
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsExportOpen(true)}
+            disabled={isDirty}
+            title={isDirty ? "Save or discard your changes first" : undefined}
+          >
+            <Download className="w-4 h-4 mr-1" />
+            Export
+          </Button>
+          {isDirty && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setTitle(letter.title);
+                setDemandAmount(letter.demandAmount || "");
+                setSectionContent(Object.fromEntries(sections.map(section => [section.key, section.content])));
+                setContent(letter.content);
+              }}
+            >
+              Discard changes
+            </Button>
+          )}
+          <Button size="sm" onClick={() => saveMutation.mutate()} disabled={locked || !isDirty || saveMutation.isPending}>
+            <Save className="w-4 h-4 mr-1" />
+            {saveMutation.isPending ? "Saving..." : "Save version"}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Review</span>
+            <Badge className={letterStatusStyles[letter.status] || ""}>{letterStatusLabels[letter.status] || letter.status}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {statusActions[letter.status]?.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                className="flex-1 min-w-[12rem]"
+                placeholder="Note for the review history (optional)"
+                value={statusNote}
+                onChange={(e) => setStatusNote(e.target.value)}
+              />
+              {statusActions[letter.status].map((action) => (
+                <Button
+                  key={action.status}
+                  size="sm"
+                  variant={action.status === "draft" ? "outline" : "default"}
+                  onClick={() => statusMutation.mutate(action.status)}
+                  disabled={statusMutation.isPending || (isDirty && action.status !== "draft")}
+                  title={isDirty && action.status !== "draft" ? "Save or discard your changes first" : undefined}
+                >
+                  {action.label}
+                </Button>
+              ))}
+            </div>
+          )}
+          {letter.statusHistory.length > 0 ? (
+            <ul className="space-y-1 text-sm text-gray-600">
+              {letter.statusHistory.map((change) => (
+                <li key={change.id}>
+                  {letterStatusLabels[change.toStatus] || change.toStatus} by {change.changedByName} on{" "}
+                  {new Date(change.createdAt).toLocaleString()}
+                  {change.note && <span className="italic"> — {change.note}</span>}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-600">Not yet sent for review.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="space-y-6 pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_12rem] gap-4">
+            <div className="space-y-1">
+              <Label>Title</Label>
+              <Input value={title} disabled={locked} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Demand amount</Label>
+              <Input
+                type="number"
+                step="0.01"
+                value={demandAmount}
+                disabled={locked}
+                onChange={(e) => setDemandAmount(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {sections.length > 0 ? (
+            sections.map((section) => (
+              <SectionEditor
+                key={section.key}
+                section={section}
+                value={sectionContent[section.key] ?? section.content}
+                onChange={(value) => setSectionContent({ ...sectionContent, [section.key]: value })}
+                locked={locked}
+                aiDisabledReason={aiDisabledReason}
+                onRegenerate={() => regenerateMutation.mutate(section.key)}
+                onRewrite={(instruction) => rewriteMutation.mutate({ sectionKey: section.key, instruction })}
+                isWorking={isWorking}
+              />
+            ))
+          ) : (
+            <SectionEditor
+              section={{ key: "letter", title: "Letter", content: letter.content, sources: [] }}
+              value={content}
+              onChange={setContent}
+              locked={locked}
+              aiDisabledReason={aiDisabledReason}
+              canRegenerate={false}
+              onRegenerate={() => {}}
+              onRewrite={(instruction) => rewriteMutation.mutate({ instruction })}
+              isWorking={isWorking}
+            />
+          )}
+
+          <div className="space-y-1">
+            <Label>Version note</Label>
+            <Input
+              placeholder="What changed in this version (optional)"
+              value={note}
+              disabled={locked}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <DemandLetterHistoryDialog
+        letter={letter}
+        editable={!locked}
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+        onRestored={refresh}
+      />
+
+      <DemandLetterExportDialog letter={letter} open={isExportOpen} onOpenChange={setIsExportOpen} />
+    </div>
+  );
+}
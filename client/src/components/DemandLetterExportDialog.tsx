@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { FileDown, Package } from "lucide-react";
+
+type Letterhead = {
+  id: string;
+  name: string;
+  isDefault: boolean;
+};
+
+type CaseDocument = {
+  id: string;
+  fileName: string;
+  mimeType: string;
+};
+
+// A, B, ... Z, AA, AB, ... as on the package's exhibit cover pages
+function exhibitLetter(index: number): string {
+  let label = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+}
+
+// Exports come back as files, so they're fetched directly rather than through apiRequest
+async function downloadExport(url: string, init: RequestInit) {
+  const response = await fetch(url, { credentials: "include", ...init });
+  if (!response.ok) {
+    const text = await response.text();
+    let message = text;
+    try {
+      message = JSON.parse(text).message || text;
+    } catch {
+      // Not JSON, use the text as is
+    }
+    throw new Error(message || response.statusText);
+  }
+
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const match = disposition.match(/filename\*=UTF-8''([^;]+)/);
+  const blob = await response.blob();
+  const objectUrl = window.URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = match ? decodeURIComponent(match[1]) : "export";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(objectUrl);
+}
+
+export function DemandLetterExportDialog({
+  letter,
+  open,
+  onOpenChange,
+}: {
+  letter: { id: string; caseId: string; title: string };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  // "default" uses whichever letterhead is marked as the default
+  const [letterheadId, setLetterheadId] = useState("default");
+  const [exhibitIds, setExhibitIds] = useState<string[]>([]);
+  const [pending, setPending] = useState<"docx" | "pdf" | "package" | null>(null);
+
+  const { data: letterheads = [] } = useQuery<Letterhead[]>({
+    queryKey: ["/api/letterheads"],
+    enabled: open,
+  });
+
+  const { data: documents = [] } = useQuery<CaseDocument[]>({
+    queryKey: [`/api/cases/${letter.caseId}/documents`],
+    enabled: open,
+  });
+
+  const letterheadParam = letterheadId === "default" ? undefined : letterheadId;
+
+  const run = async (kind: "docx" | "pdf" | "package") => {
+    setPending(kind);
+    try {
+      if (kind === "package") {
+        await downloadExport(`/api/demand-letters/${letter.id}/package`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ letterheadId: letterheadParam, documentIds: exhibitIds }),
+        });
+      } else {
+        const params = new URLSearchParams({ format: kind });
+        if (letterheadParam) params.set("letterheadId", letterheadParam);
+        await downloadExport(`/api/demand-letters/${letter.id}/export?${params}`, { method: "GET" });
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to export letter",
+        variant: "destructive",
+      });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  // Exhibits are lettered in the order they're ticked
+  const toggleExhibit = (documentId: string, checked: boolean) => {
+    setExhibitIds(current =>
+      checked ? [...current, documentId] : current.filter(id => id !== documentId)
+    );
+  };
+
+  const defaultLetterhead = letterheads.find(letterhead => letterhead.isDefault);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Export - {letter.title}</DialogTitle>
+          <DialogDescription>
+            Download the letter on your firm's letterhead, or build a demand package with the specials schedule and exhibits.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Letterhead</Label>
+            <Select value={letterheadId} onValueChange={setLetterheadId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">
+                  {defaultLetterhead ? `Default (${defaultLetterhead.name})` : "Default (none set)"}
+                </SelectItem>
+                <SelectItem value="none">No letterhead</SelectItem>
+                {letterheads.map((letterhead) => (
+                  <SelectItem key={letterhead.id} value={letterhead.id}>
+                    {letterhead.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">Letterheads are managed in Settings.</p>
+          </div>
+
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => run("docx")} disabled={pending !== null}>
+              <FileDown className="w-4 h-4 mr-1" />
+              {pending === "docx" ? "Exporting..." : "Word (.docx)"}
+            </Button>
+            <Button variant="outline" onClick={() => run("pdf")} disabled={pending !== null}>
+              <FileDown className="w-4 h-4 mr-1" />
+              {pending === "pdf" ? "Exporting..." : "PDF"}
+            </Button>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>Demand package exhibits</Label>
+            <p className="text-xs text-gray-500">
+              The package is one bookmarked PDF: the letter, the schedule of medical specials, then the selected
+              documents as Exhibit A, B, C... in the order you select them. PDFs and images are included in full.
+            </p>
+            {documents.length === 0 ? (
+              <div className="text-sm text-gray-500">This case has no documents.</div>
+            ) : (
+              <div className="max-h-60 overflow-auto rounded border divide-y">
+                {documents.map((document) => {
+                  const position = exhibitIds.indexOf(document.id);
+                  return (
+                    <label key={document.id} className="flex items-center space-x-3 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                      <Checkbox
+                        checked={position !== -1}
+                        onCheckedChange={(checked) => toggleExhibit(document.id, checked === true)}
+                      />
+                      <span className="flex-1 truncate">{document.fileName}</span>
+                      {position !== -1 && (
+                        <span className="text-xs text-gray-500">Exhibit {exhibitLetter(position)}</span>
+                      )}
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button onClick={() => run("package")} disabled={pending !== null}>
+                <Package className="w-4 h-4 mr-1" />
+                {pending === "package" ? "Building package..." : "Download demand package"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
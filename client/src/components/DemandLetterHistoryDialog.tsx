@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { diffLines } from "@/lib/lineDiff";
+import { RotateCcw } from "lucide-react";
+
+type LetterVersion = {
+  id: string;
+  letterId: string;
+  version: number;
+  title: string;
+  content: string;
+  note?: string | null;
+  createdAt: string;
+};
+
+const rowStyles = {
+  same: { left: "", right: "" },
+  removed: { left: "bg-red-50 text-red-800", right: "bg-gray-50" },
+  added: { left: "bg-gray-50", right: "bg-green-50 text-green-800" },
+  changed: { left: "bg-red-50 text-red-800", right: "bg-green-50 text-green-800" },
+};
+
+export function DemandLetterHistoryDialog({
+  letter,
+  editable,
+  open,
+  onOpenChange,
+  onRestored,
+}: {
+  letter: { id: string; title: string; currentVersionId?: string | null };
+  editable: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: () => void;
+}) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  // Newest first
+  const { data: versions = [], isLoading } = useQuery<LetterVersion[]>({
+    queryKey: ["/api/demand-letters", letter.id, "versions"],
+    enabled: open,
+  });
+
+  // Start on the latest version, compared with the one before it
+  useEffect(() => {
+    if (versions.length > 0 && !versions.some(version => version.id === selectedId)) {
+      setSelectedId(versions[0].id);
+      setCompareId(versions[1]?.id ?? null);
+    }
+  }, [versions, selectedId]);
+
+  const selected = versions.find(version => version.id === selectedId);
+  const compare = versions.find(version => version.id === compareId);
+  const diff = useMemo(
+    () => (selected ? diffLines(compare?.content ?? "", selected.content) : []),
+    [selected, compare]
+  );
+
+  const selectVersion = (version: LetterVersion) => {
+    setSelectedId(version.id);
+    setCompareId(versions.find(other => other.version < version.version)?.id ?? null);
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      return apiRequest(`/api/demand-letters/${letter.id}/restore`, "POST", { versionId });
+    },
+    onSuccess: () => {
+      onRestored();
+      setSelectedId(null);
+      toast({
+        title: "Success",
+        description: "Letter restored",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore letter",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isCurrent = !!selected && letter.currentVersionId === selected.id;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Version History - {letter.title}</DialogTitle>
+          <DialogDescription>
+            Every save is kept. Restoring a version saves its text again as the newest version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-4">Loading versions...</div>
+        ) : versions.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No versions recorded yet.</div>
+        ) : (
+          <div className="grid grid-cols-[12rem_1fr] gap-4">
+            <div className="max-h-[60vh] overflow-auto space-y-1">
+              {versions.map((version) => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => selectVersion(version)}
+                  className={`w-full text-left rounded border p-2 text-sm ${
+                    version.id === selectedId ? "border-primary bg-blue-50" : "hover:bg-gray-50"
+                  }`}
+                >
+                  <span className="font-medium">Version {version.version}</span>
+                  <div className="text-xs text-gray-500">{new Date(version.createdAt).toLocaleString()}</div>
+                  {version.note && <div className="text-xs text-gray-600 mt-1">{version.note}</div>}
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="space-y-3 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-gray-600">Compare with</span>
+                    <Select
+                      value={compareId ?? "none"}
+                      onValueChange={(value) => setCompareId(value === "none" ? null : value)}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Nothing</SelectItem>
+                        {versions
+                          .filter(version => version.id !== selected.id)
+                          .map((version) => (
+                            <SelectItem key={version.id} value={version.id}>
+                              Version {version.version}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    {isCurrent && <Badge variant="outline" className="text-xs">Latest</Badge>}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(selected.id)}
+                    disabled={!editable || isCurrent || restoreMutation.isPending}
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Restore this version
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-2 text-xs font-medium text-gray-600">
+                  <div>{compare ? `Version ${compare.version}` : "(empty)"}</div>
+                  <div>Version {selected.version}</div>
+                </div>
+                <div className="max-h-[50vh] overflow-auto rounded border font-mono text-xs">
+                  {diff.map((line, index) => (
+                    <div key={index} className="grid grid-cols-2">
+                      <div className={`flex whitespace-pre-wrap break-words border-r px-2 ${rowStyles[line.kind].left}`}>
+                        <span className="w-8 shrink-0 select-none text-gray-400">
+                          {line.kind !== "added" ? line.leftNumber : ""}
+                        </span>
+                        <span>{line.kind !== "added" ? line.left : ""}</span>
+                      </div>
+                      <div className={`flex whitespace-pre-wrap break-words px-2 ${rowStyles[line.kind].right}`}>
+                        <span className="w-8 shrink-0 select-none text-gray-400">
+                          {line.kind !== "removed" ? line.rightNumber : ""}
+                        </span>
+                        <span>{line.kind !== "removed" ? line.right : ""}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
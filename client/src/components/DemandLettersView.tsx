@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import DemandLetterEditor, { letterStatusLabels, letterStatusStyles, type DemandLetter } from "@/components/DemandLetterEditor";
+import { Mail, Plus, Sparkles } from "lucide-react";
+
+type GenerateForm = {
+  clientName: string;
+  incidentDate: string;
+  liability: string;
+  medicalSummary: string;
+  damages: string;
+  demandAmount: string;
+  insurerName: string;
+  adjusterName: string;
+  claimNumber: string;
+  // "default" leaves the choice to the server
+  templateId: string;
+};
+
+type LetterTemplate = {
+  id: string;
+  name: string;
+  isDefault: boolean;
+};
+
+export default function DemandLettersView({ caseId, clientName }: { caseId: string; clientName: string }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [selectedLetterId, setSelectedLetterId] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<GenerateForm>({
+    clientName,
+    incidentDate: "",
+    liability: "",
+    medicalSummary: "",
+    damages: "",
+    demandAmount: "",
+    insurerName: "",
+    adjusterName: "",
+    claimNumber: "",
+    templateId: "default",
+  });
+
+  const { data: letters = [], isLoading } = useQuery<DemandLetter[]>({
+    queryKey: [`/api/cases/${caseId}/demand-letters`],
+    enabled: !!caseId,
+  });
+
+  const { data: templates = [] } = useQuery<LetterTemplate[]>({
+    queryKey: ["/api/letter-templates"],
+    enabled: isDialogOpen,
+  });
+  const defaultTemplate = templates.find(template => template.isDefault);
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/demand-letters/generate", "POST", {
+        caseId,
+        clientName: form.clientName.trim(),
+        incidentDate: form.incidentDate,
+        liability: form.liability.trim(),
+        medicalSummary: form.medicalSummary.trim(),
+        damages: form.damages.trim(),
+        demandAmount: form.demandAmount.trim() || undefined,
+        insurerName: form.insurerName.trim(),
+        adjusterName: form.adjusterName.trim(),
+        claimNumber: form.claimNumber.trim(),
+        templateId: form.templateId === "default" ? undefined : form.templateId,
+      });
+      return response.json();
+    },
+    onSuccess: (letter: DemandLetter) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/cases/${caseId}/demand-letters`] });
+      setIsDialogOpen(false);
+      setSelectedLetterId(letter.id);
+      toast({
+        title: "Letter drafted",
+        description: "Review each section and its sources before sending it for attorney review.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (selectedLetterId) {
+    return <DemandLetterEditor letterId={selectedLetterId} onBack={() => setSelectedLetterId(null)} />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Mail className="w-5 h-5" />
+            <span>Demand Letters</span>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => {
+              setForm((current) => ({ ...current, clientName: current.clientName || clientName }));
+              setIsDialogOpen(true);
+            }}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Generate Letter
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">Loading letters...</div>
+        ) : letters.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No demand letters yet. Generate one from the case's analyzed documents and bills.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {letters.map((letter) => (
+              <button
+                key={letter.id}
+                type="button"
+                onClick={() => setSelectedLetterId(letter.id)}
+                className="w-full flex items-center justify-between rounded-lg border p-3 text-left hover:bg-gray-50"
+              >
+                <div>
+                  <div className="font-medium text-neutral-dark">{letter.title}</div>
+                  <div className="text-xs text-gray-600">
+                    Updated {new Date(letter.updatedAt).toLocaleString()}
+                    {letter.demandAmount && ` · Demand $${parseFloat(letter.demandAmount).toFixed(2)}`}
+                  </div>
+                </div>
+                <Badge className={letterStatusStyles[letter.status] || ""}>
+                  {letterStatusLabels[letter.status] || letter.status}
+                </Badge>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Generate Demand Letter</DialogTitle>
+            <DialogDescription>
+              The letter is drafted from the case's analyzed documents and medical bills, plus the notes below.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Client name</Label>
+                <Input value={form.clientName} onChange={(e) => setForm({ ...form, clientName: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Incident date</Label>
+                <Input type="date" value={form.incidentDate} onChange={(e) => setForm({ ...form, incidentDate: e.target.value })} />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label>Insurer</Label>
+                <Input value={form.insurerName} onChange={(e) => setForm({ ...form, insurerName: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Adjuster</Label>
+                <Input value={form.adjusterName} onChange={(e) => setForm({ ...form, adjusterName: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Claim number</Label>
+                <Input value={form.claimNumber} onChange={(e) => setForm({ ...form, claimNumber: e.target.value })} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Liability notes</Label>
+              <Textarea rows={3} value={form.liability} onChange={(e) => setForm({ ...form, liability: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Medical summary</Label>
+              <Textarea rows={3} value={form.medicalSummary} onChange={(e) => setForm({ ...form, medicalSummary: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Claimed damages</Label>
+              <Textarea rows={3} value={form.damages} onChange={(e) => setForm({ ...form, damages: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Demand amount (optional)</Label>
+              <Input
+                type="number"
+                step="0.01"
+                placeholder="Suggested by the AI when left empty"
+                value={form.demandAmount}
+                onChange={(e) => setForm({ ...form, demandAmount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Template</Label>
+              <Select value={form.templateId} onValueChange={(templateId) => setForm({ ...form, templateId })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">
+                    {defaultTemplate ? `Default (${defaultTemplate.name})` : "Default (built-in layout)"}
+                  </SelectItem>
+                  <SelectItem value="none">Built-in layout</SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => generateMutation.mutate()}
+                disabled={!form.clientName.trim() || !form.incidentDate || generateMutation.isPending}
+              >
+                <Sparkles className="w-4 h-4 mr-1" />
+                {generateMutation.isPending ? "Drafting..." : "Generate"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,13 +1,12 @@
-import { useState } from "react";
+import { useState, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { streamChat, isAbortError } from "@/lib/streamChat";
 import { 
   FileText, 
   Brain, 
@@ -26,8 +25,14 @@ import {
   AlertTriangle,
   DollarSign,
   Activity,
-  Clock
+  Clock,
+  BookOpen,
+  ChevronLeft,
+  ChevronRight,
+  Square,
+  ShieldCheck
 } from "lucide-react";
+import { phiTypeLabels } from "@/components/RedactionPolicyManager";
 
 // Safe Render Utility Functions
 const renderValue = (value: any): string => {
@@ -114,11 +119,19 @@ const MarkdownRenderer = ({ content }: { content: string }) => {
 interface DocumentReviewProps {
   documentId: string;
   onClose: () => void;
+  // Page to open the source view at, e.g. when following a chat citation
+  initialPage?: number;
 }
 
-function DocumentReview({ documentId, onClose }: DocumentReviewProps) {
+function DocumentReview({ documentId, onClose, initialPage }: DocumentReviewProps) {
   const [chatMessage, setChatMessage] = useState("");
-  const [activeTab, setActiveTab] = useState<"summary" | "extracted" | "chat">("summary");
+  const [activeTab, setActiveTab] = useState<"summary" | "extracted" | "chat" | "source">(
+    initialPage ? "source" : "summary"
+  );
+  const [sourcePage, setSourcePage] = useState<number>(initialPage || 1);
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [streamingContent, setStreamingContent] = useState("");
+  const streamAbortRef = useRef<AbortController | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -133,23 +146,39 @@ function DocumentReview({ documentId, onClose }: DocumentReviewProps) {
     enabled: !!documentId,
   });
 
+  const { data: pageChunks = [], isLoading: pageChunksLoading } = useQuery<any[]>({
+    queryKey: [`/api/documents/${documentId}/chunks?page=${sourcePage}`],
+    enabled: !!documentId && activeTab === "source",
+  });
+
   const sendChatMutation = useMutation({
     mutationFn: async (message: string) => {
-      const response = await apiRequest(`/api/documents/${documentId}/chat`, "POST", {
-        message,
-      });
-      return response.json();
+      const controller = new AbortController();
+      streamAbortRef.current = controller;
+      try {
+        return await streamChat(`/api/documents/${documentId}/chat/stream`, { message }, {
+          onToken: (token) => setStreamingContent((current) => current + token),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        // Stopping keeps whatever was generated; the server saves it
+        if (isAbortError(error)) return null;
+        throw error;
+      }
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/documents", documentId, "chat"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/documents", documentId] });
+    onMutate: (message) => {
+      setPendingMessage(message);
+      setStreamingContent("");
       setChatMessage("");
-      toast({
-        title: "Message sent",
-        description: "AI is processing your request",
-      });
     },
-    onError: (error: Error) => {
+    onSettled: async () => {
+      streamAbortRef.current = null;
+      await queryClient.invalidateQueries({ queryKey: ["/api/documents", documentId, "chat"] });
+      setPendingMessage(null);
+      setStreamingContent("");
+    },
+    onError: (error: Error, message) => {
+      setChatMessage(message);
       toast({
         title: "Error",
         description: error.message,
@@ -269,6 +298,15 @@ function DocumentReview({ documentId, onClose }: DocumentReviewProps) {
             <MessageSquare className="w-4 h-4 mr-2" />
             AI Chat
           </Button>
+          <Button
+            variant={activeTab === "source" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => setActiveTab("source")}
+            data-testid="tab-source"
+          >
+            <BookOpen className="w-4 h-4 mr-2" />
+            Source
+          </Button>
         </div>
       </div>
 
@@ -288,6 +326,24 @@ function DocumentReview({ documentId, onClose }: DocumentReviewProps) {
               ) : (
                 <p className="text-gray-500">No summary available</p>
               )}
+              {doc.redactionReport && (
+                <div className="mt-4 rounded-lg border p-3 text-sm space-y-2" data-testid="redaction-report">
+                  <div className="flex items-center font-medium">
+                    <ShieldCheck className="w-4 h-4 mr-2 text-green-600" />
+                    {doc.redactionReport.total > 0
+                      ? `${doc.redactionReport.total} identifiers masked before the text was sent to the AI provider`
+                      : "Redaction was on; no identifiers were found to mask"}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(doc.redactionReport.counts as Record<string, number>).map(([type, count]) => (
+                      <Badge key={type} variant="outline">{phiTypeLabels[type] || type}: {count}</Badge>
+                    ))}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(doc.redactionReport.redactedAt).toLocaleString()}
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -652,30 +708,52 @@ function DocumentReview({ documentId, onClose }: DocumentReviewProps) {
               <CardContent>
                 <ScrollArea className="h-64 w-full">
                   <div className="space-y-4">
-                    {Array.isArray(chatHistory) && chatHistory.length > 0 ? (
-                      renderArraySafely(chatHistory as any[], (chat: any) => (
-                        <div key={chat.id} className="space-y-2">
-                          <div className="flex items-start space-x-3">
-                            <User className="w-5 h-5 mt-1 text-blue-600" />
+                    {Array.isArray(chatHistory) && (chatHistory.length > 0 || pendingMessage) ? (
+                      <>
+                        {renderArraySafely(chatHistory as any[], (chat: any) => (
+                          <div key={chat.id} className={`flex items-start space-x-3 ${chat.role === "assistant" ? "ml-6" : ""}`}>
+                            {chat.role === "assistant" ? (
+                              <Bot className="w-5 h-5 mt-1 text-green-600" />
+                            ) : (
+                              <User className="w-5 h-5 mt-1 text-blue-600" />
+                            )}
                             <div className="flex-1">
-                              <p className="text-sm font-medium">You</p>
-                              <p className="text-sm text-gray-700">{renderValue(chat.userMessage)}</p>
+                              <p className="text-sm font-medium">{chat.role === "assistant" ? "AI Assistant" : "You"}</p>
+                              <div className="text-sm text-gray-700">
+                                {chat.role === "assistant" ? (
+                                  <MarkdownRenderer content={renderValue(chat.content)} />
+                                ) : (
+                                  <p>{renderValue(chat.content)}</p>
+                                )}
+                              </div>
                             </div>
                           </div>
-                          {chat.aiResponse && (
+                        ))}
+                        {pendingMessage && (
+                          <>
+                            <div className="flex items-start space-x-3">
+                              <User className="w-5 h-5 mt-1 text-blue-600" />
+                              <div className="flex-1">
+                                <p className="text-sm font-medium">You</p>
+                                <p className="text-sm text-gray-700">{pendingMessage}</p>
+                              </div>
+                            </div>
                             <div className="flex items-start space-x-3 ml-6">
                               <Bot className="w-5 h-5 mt-1 text-green-600" />
                               <div className="flex-1">
                                 <p className="text-sm font-medium">AI Assistant</p>
                                 <div className="text-sm text-gray-700">
-                                  <MarkdownRenderer content={renderValue(chat.aiResponse)} />
+                                  {streamingContent ? (
+                                    <MarkdownRenderer content={streamingContent} />
+                                  ) : (
+                                    <p className="text-gray-500">Thinking...</p>
+                                  )}
                                 </div>
                               </div>
                             </div>
-                          )}
-                          <Separator />
-                        </div>
-                      ))
+                          </>
+                        )}
+                      </>
                     ) : (
                       <p className="text-gray-500 text-center py-8">
                         No conversation yet. Start by asking a question about this document.
@@ -704,13 +782,23 @@ function DocumentReview({ documentId, onClose }: DocumentReviewProps) {
                     rows={3}
                     data-testid="input-chat-message"
                   />
-                  <Button
-                    onClick={handleSendMessage}
-                    disabled={!chatMessage.trim() || sendChatMutation.isPending}
-                    data-testid="button-send-message"
-                  >
-                    <Send className="w-4 h-4" />
-                  </Button>
+                  {sendChatMutation.isPending ? (
+                    <Button
+                      variant="outline"
+                      onClick={() => streamAbortRef.current?.abort()}
+                      data-testid="button-stop-response"
+                    >
+                      <Square className="w-4 h-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={handleSendMessage}
+                      disabled={!chatMessage.trim()}
+                      data-testid="button-send-message"
+                    >
+                      <Send className="w-4 h-4" />
+                    </Button>
+                  )}
                 </div>
                 <p className="text-xs text-gray-500 mt-2">
                   Ask questions about the medical data, request explanations, or get help with analysis.
@@ -719,6 +807,67 @@ function DocumentReview({ documentId, onClose }: DocumentReviewProps) {
             </Card>
           </div>
         )}
+
+        {activeTab === "source" && (
+          <div className="space-y-4">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center">
+                    <BookOpen className="w-5 h-5 mr-2 text-blue-600" />
+                    Page {sourcePage}
+                  </CardTitle>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSourcePage(page => Math.max(1, page - 1))}
+                      disabled={sourcePage <= 1}
+                      data-testid="button-previous-page"
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSourcePage(page => page + 1)}
+                      data-testid="button-next-page"
+                    >
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {pageChunksLoading ? (
+                  <p className="text-gray-500">Loading page text...</p>
+                ) : pageChunks.length > 0 ? (
+                  <div className="space-y-3">
+                    {pageChunks.map((chunk: any) => (
+                      <p key={chunk.id} className="text-sm text-gray-700 whitespace-pre-wrap">{chunk.content}</p>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-500">No extracted text for this page</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {doc.mimeType === "application/pdf" && (
+              <Card>
+                <CardContent className="pt-6">
+                  <iframe
+                    key={sourcePage}
+                    src={`/api/documents/${documentId}/download?inline=true#page=${sourcePage}`}
+                    title={doc.fileName}
+                    className="w-full h-[800px] border rounded"
+                    data-testid="frame-source-document"
+                  />
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
       </ScrollArea>
     </div>
   );
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -21,12 +21,23 @@ import {
 import { apiRequest } from "@/lib/queryClient";
 import { FileText, Upload, Eye, Brain, Download, CheckCircle, Trash2 } from "lucide-react";
 import type { UploadResult } from "@uppy/core";
+import type { ProcessingJob } from "@shared/schema";
+
+const IN_PROGRESS_STATUSES = ["queued", "analyzing"];
+
+const STAGE_LABELS: Record<string, string> = {
+  text_extraction: "Extracting text",
+  embedding: "Generating embeddings",
+  ai_analysis: "AI analysis",
+  bill_extraction: "Extracting bills",
+  search_indexing: "Indexing for search",
+};
 
 export default function DocumentsView() {
   const [selectedCaseId, setSelectedCaseId] = useState<string>("");
   const [reviewingDocumentId, setReviewingDocumentId] = useState<string | null>(null);
   const [deletingDocumentId, setDeletingDocumentId] = useState<string | null>(null);
-  const [analyzingIds, setAnalyzingIds] = useState<Set<string>>(new Set());
+  const [activeJobs, setActiveJobs] = useState<Record<string, string>>({});
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
@@ -37,6 +48,11 @@ export default function DocumentsView() {
   const { data: documents = [], isLoading } = useQuery({
     queryKey: ["/api/cases", selectedCaseId, "documents"],
     enabled: !!selectedCaseId,
+    // Keep refreshing while documents queued in an earlier visit are still being processed
+    refetchInterval: (query) =>
+      ((query.state.data as any[]) || []).some((doc) => IN_PROGRESS_STATUSES.includes(doc.processingStatus))
+        ? 5000
+        : false,
   });
 
   const createDocumentMutation = useMutation({
@@ -70,57 +86,55 @@ export default function DocumentsView() {
 
   const analyzeDocumentMutation = useMutation({
     mutationFn: async (documentId: string) => {
-      // Add to analyzing set when starting
-      setAnalyzingIds(prev => new Set(prev.add(documentId)));
-      
       const response = await apiRequest(`/api/documents/${documentId}/analyze`, "POST");
       const result = await response.json();
       return { documentId, ...result };
     },
     onSuccess: (result) => {
-      // Remove from analyzing set when complete
-      setAnalyzingIds(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(result.documentId);
-        return newSet;
-      });
-      
+      // The pipeline runs in a background job; track it until it finishes
+      setActiveJobs(prev => ({ ...prev, [result.documentId]: result.job.id }));
       queryClient.invalidateQueries({ queryKey: ["/api/cases", selectedCaseId, "documents"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
-      
-      // Enhanced success message with extraction details
-      const analysis = result.analysis;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Analysis Failed",
+        description: error.message || "Could not queue the document for analysis.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleJobFinished = (documentId: string, job: ProcessingJob) => {
+    setActiveJobs(prev => {
+      const next = { ...prev };
+      delete next[documentId];
+      return next;
+    });
+
+    queryClient.invalidateQueries({ queryKey: ["/api/cases", selectedCaseId, "documents"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+
+    if (job.status === "completed") {
+      const result = (job.result || {}) as { billsProposed?: number; searchIndexed?: boolean };
       let description = "Document processed successfully!";
-      
-      if (analysis?.documentIntelligence) {
-        const di = analysis.documentIntelligence;
-        description = `Extracted content from ${di.pages} page(s). Found ${di.tablesFound} tables and ${di.keyValuePairsFound} key-value pairs.`;
+      if (result.billsProposed) {
+        description += ` ${result.billsProposed} medical bill(s) are waiting for review.`;
       }
-      
-      if (analysis?.searchIndexed) {
+      if (result.searchIndexed) {
         description += " Document is now searchable.";
       }
-      
       toast({
         title: "Analysis Complete",
         description,
       });
-    },
-    onError: (error: Error, variables) => {
-      // Remove from analyzing set on error
-      setAnalyzingIds(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(variables);
-        return newSet;
-      });
-      
+    } else {
       toast({
         title: "Analysis Failed",
-        description: error.message || "Could not analyze the document. Please check if the file is a valid PDF or image.",
+        description: job.lastError || "Could not analyze the document. Please check if the file is a valid PDF or image.",
         variant: "destructive",
       });
-    },
-  });
+    }
+  };
 
   const deleteDocumentMutation = useMutation({
     mutationFn: async (documentId: string) => {
@@ -417,6 +431,15 @@ export default function DocumentsView() {
                               <Badge variant="default" className="bg-green-100 text-green-800">
                                 AI Processed
                               </Badge>
+                            ) : activeJobs[doc.id] ? (
+                              <DocumentJobStatus
+                                jobId={activeJobs[doc.id]}
+                                onFinished={(job) => handleJobFinished(doc.id, job)}
+                              />
+                            ) : doc.processingStatus === "error" ? (
+                              <Badge variant="destructive">
+                                Analysis Failed
+                              </Badge>
                             ) : (
                               <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
                                 Processing
@@ -436,10 +459,12 @@ export default function DocumentsView() {
                             size="sm"
                             variant="outline"
                             onClick={() => analyzeDocumentMutation.mutate(doc.id)}
-                            disabled={analyzingIds.has(doc.id)}
+                            disabled={!!activeJobs[doc.id] || IN_PROGRESS_STATUSES.includes(doc.processingStatus)}
                           >
                             <Brain className="w-4 h-4 mr-1" />
-                            {analyzingIds.has(doc.id) ? "Analyzing..." : "Analyze"}
+                            {activeJobs[doc.id] || IN_PROGRESS_STATUSES.includes(doc.processingStatus)
+                              ? "Analyzing..."
+                              : doc.processingStatus === "error" ? "Resume Analysis" : "Analyze"}
                           </Button>
                         )}
                         {doc.aiProcessed ? (
@@ -514,3 +539,32 @@ export default function DocumentsView() {
     </div>
   );
 }
+
+function DocumentJobStatus({ jobId, onFinished }: { jobId: string; onFinished: (job: ProcessingJob) => void }) {
+  const { data: job } = useQuery<ProcessingJob>({
+    queryKey: ["/api/jobs", jobId],
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "completed" || status === "failed" ? false : 2000;
+    },
+  });
+
+  useEffect(() => {
+    if (job && (job.status === "completed" || job.status === "failed")) {
+      onFinished(job);
+    }
+  }, [job?.status]);
+
+  let label = "Queued";
+  if (job?.status === "running") {
+    label = job.currentStage ? `${STAGE_LABELS[job.currentStage] || job.currentStage}...` : "Analyzing...";
+  } else if (job?.status === "queued" && job.attempts > 0) {
+    label = `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})`;
+  }
+
+  return (
+    <Badge variant="secondary" className="bg-blue-100 text-blue-800">
+      {label}
+    </Badge>
+  );
+}
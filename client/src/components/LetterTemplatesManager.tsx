@@ -0,0 +1,227 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { LayoutTemplate, Plus, Pencil, Trash2 } from "lucide-react";
+
+type LetterTemplate = {
+  id: string;
+  name: string;
+  body: string;
+  isDefault: boolean;
+  updatedAt: string;
+};
+
+type TemplateFields = {
+  fields: Record<string, string>;
+  defaultTemplate: string;
+};
+
+type TemplateForm = {
+  name: string;
+  body: string;
+  isDefault: boolean;
+};
+
+export default function LetterTemplatesManager() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [editing, setEditing] = useState<LetterTemplate | "new" | null>(null);
+  const [form, setForm] = useState<TemplateForm>({ name: "", body: "", isDefault: false });
+
+  const { data: templates = [], isLoading } = useQuery<LetterTemplate[]>({
+    queryKey: ["/api/letter-templates"],
+  });
+
+  const { data: fieldInfo } = useQuery<TemplateFields>({
+    queryKey: ["/api/letter-templates/fields"],
+  });
+
+  const openEditor = (template: LetterTemplate | "new") => {
+    setEditing(template);
+    setForm(template === "new"
+      ? { name: "", body: fieldInfo?.defaultTemplate || "", isDefault: templates.length === 0 }
+      : { name: template.name, body: template.body, isDefault: template.isDefault });
+  };
+
+  // Puts a merge field at the cursor
+  const insertField = (name: string) => {
+    const textarea = bodyRef.current;
+    const field = `{{${name}}}`;
+    if (!textarea) {
+      setForm({ ...form, body: form.body + field });
+      return;
+    }
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    setForm({ ...form, body: `${form.body.slice(0, start)}${field}${form.body.slice(end)}` });
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + field.length, start + field.length);
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = editing === "new" || !editing
+        ? await apiRequest("/api/letter-templates", "POST", form)
+        : await apiRequest(`/api/letter-templates/${editing.id}`, "PATCH", form);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/letter-templates"] });
+      setEditing(null);
+      toast({ title: "Success", description: "Letter template saved" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/letter-templates/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/letter-templates"] });
+      toast({ title: "Success", description: "Letter template deleted" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const current = editing && editing !== "new" ? editing : null;
+
+  return (
+    <Card className="hover:shadow-lg transition-shadow duration-200">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <LayoutTemplate className="w-5 h-5 text-primary" />
+            <CardTitle>Demand Letter Templates</CardTitle>
+          </div>
+          <Button size="sm" onClick={() => openEditor("new")}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Template
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">Loading templates...</div>
+        ) : templates.length === 0 ? (
+          <div className="text-center py-6 text-gray-500">
+            No templates yet. Letters use the built-in layout until you add one.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {templates.map((template) => (
+              <div key={template.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div className="flex items-center space-x-3">
+                  <div>
+                    <div className="font-medium text-neutral-dark">{template.name}</div>
+                    <div className="text-xs text-gray-600">Updated {new Date(template.updatedAt).toLocaleString()}</div>
+                  </div>
+                  {template.isDefault && <Badge variant="outline">Default</Badge>}
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Button variant="ghost" size="sm" onClick={() => openEditor(template)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(template.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{current ? `Edit ${current.name}` : "Add Template"}</DialogTitle>
+            <DialogDescription>
+              Write the letter's layout in Markdown. Merge fields are filled in from the case when a letter is generated;
+              the AI only writes the sections. Sections you leave out are added at the end.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-[1fr_16rem] gap-4">
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Template</Label>
+                <Textarea
+                  ref={bodyRef}
+                  rows={18}
+                  className="font-mono text-sm"
+                  value={form.body}
+                  onChange={(e) => setForm({ ...form, body: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch checked={form.isDefault} onCheckedChange={(checked) => setForm({ ...form, isDefault: checked })} />
+                <Label>Use by default when generating letters</Label>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Merge fields</Label>
+              <div className="max-h-[28rem] overflow-auto rounded border divide-y">
+                {Object.entries(fieldInfo?.fields || {}).map(([name, description]) => (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => insertField(name)}
+                    className="w-full text-left px-2 py-1.5 hover:bg-gray-50"
+                  >
+                    <div className="font-mono text-xs">{`{{${name}}}`}</div>
+                    <div className="text-xs text-gray-500">{description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.name.trim() || !form.body.trim() || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
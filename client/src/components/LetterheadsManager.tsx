@@ -0,0 +1,315 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Building2, Plus, Pencil, Trash2, Upload, X } from "lucide-react";
+
+type Letterhead = {
+  id: string;
+  name: string;
+  firmName: string;
+  addressBlock: string | null;
+  signatureBlock: string | null;
+  footer: string | null;
+  logoPath: string | null;
+  isDefault: boolean;
+  updatedAt: string;
+};
+
+type LetterheadForm = {
+  name: string;
+  firmName: string;
+  addressBlock: string;
+  signatureBlock: string;
+  footer: string;
+  isDefault: boolean;
+};
+
+const emptyForm: LetterheadForm = {
+  name: "",
+  firmName: "",
+  addressBlock: "",
+  signatureBlock: "",
+  footer: "",
+  isDefault: false,
+};
+
+export default function LetterheadsManager() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const [editing, setEditing] = useState<Letterhead | "new" | null>(null);
+  const [form, setForm] = useState<LetterheadForm>(emptyForm);
+
+  const { data: letterheads = [], isLoading } = useQuery<Letterhead[]>({
+    queryKey: ["/api/letterheads"],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const openEditor = (letterhead: Letterhead | "new") => {
+    setEditing(letterhead);
+    setForm(letterhead === "new" ? { ...emptyForm, isDefault: letterheads.length === 0 } : {
+      name: letterhead.name,
+      firmName: letterhead.firmName,
+      addressBlock: letterhead.addressBlock || "",
+      signatureBlock: letterhead.signatureBlock || "",
+      footer: letterhead.footer || "",
+      isDefault: letterhead.isDefault,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = editing === "new" || !editing
+        ? await apiRequest("/api/letterheads", "POST", form)
+        : await apiRequest(`/api/letterheads/${editing.id}`, "PATCH", form);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/letterheads"] });
+      setEditing(null);
+      toast({ title: "Success", description: "Letterhead saved" });
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/letterheads/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/letterheads"] });
+      toast({ title: "Success", description: "Letterhead deleted" });
+    },
+    onError: showError,
+  });
+
+  // Multipart upload, so this goes through fetch rather than apiRequest
+  const uploadLogoMutation = useMutation({
+    mutationFn: async ({ id, file }: { id: string; file: File }) => {
+      const formData = new FormData();
+      formData.append("logo", file);
+      const response = await fetch(`/api/letterheads/${id}/logo`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || "Failed to upload logo");
+      }
+      return response.json();
+    },
+    onSuccess: (letterhead: Letterhead) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/letterheads"] });
+      setEditing(letterhead);
+      toast({ title: "Success", description: "Logo uploaded" });
+    },
+    onError: showError,
+  });
+
+  const removeLogoMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/letterheads/${id}/logo`, "DELETE");
+      return response.json();
+    },
+    onSuccess: (letterhead: Letterhead) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/letterheads"] });
+      setEditing(letterhead);
+    },
+    onError: showError,
+  });
+
+  const current = editing && editing !== "new" ? editing : null;
+
+  return (
+    <Card className="hover:shadow-lg transition-shadow duration-200">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Building2 className="w-5 h-5 text-primary" />
+            <CardTitle>Letterheads</CardTitle>
+          </div>
+          <Button size="sm" onClick={() => openEditor("new")}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Letterhead
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">Loading letterheads...</div>
+        ) : letterheads.length === 0 ? (
+          <div className="text-center py-6 text-gray-500">
+            No letterheads yet. Add one to put your firm's logo, address and signature on exported letters.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {letterheads.map((letterhead) => (
+              <div key={letterhead.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div className="flex items-center space-x-3">
+                  {letterhead.logoPath ? (
+                    <img
+                      src={`/api/letterheads/${letterhead.id}/logo?v=${encodeURIComponent(letterhead.updatedAt)}`}
+                      alt=""
+                      className="h-8 max-w-[6rem] object-contain"
+                    />
+                  ) : (
+                    <Building2 className="w-8 h-8 text-gray-300" />
+                  )}
+                  <div>
+                    <div className="font-medium text-neutral-dark">{letterhead.name}</div>
+                    <div className="text-xs text-gray-600">{letterhead.firmName}</div>
+                  </div>
+                  {letterhead.isDefault && <Badge variant="outline">Default</Badge>}
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Button variant="ghost" size="sm" onClick={() => openEditor(letterhead)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(letterhead.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{current ? `Edit ${current.name}` : "Add Letterhead"}</DialogTitle>
+            <DialogDescription>
+              The logo, firm name and address head the first page of exported letters. The signature block ends the
+              letter and the footer appears at the bottom of every letter page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input
+                  placeholder="e.g. Main office"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Firm name</Label>
+                <Input value={form.firmName} onChange={(e) => setForm({ ...form, firmName: e.target.value })} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Address block</Label>
+              <Textarea
+                rows={3}
+                placeholder={"123 Main Street, Suite 400\nSpringfield, IL 62701\n(555) 123-4567"}
+                value={form.addressBlock}
+                onChange={(e) => setForm({ ...form, addressBlock: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Signature block</Label>
+              <Textarea
+                rows={3}
+                placeholder={"Sincerely,\n\nJane Smith, Esq."}
+                value={form.signatureBlock}
+                onChange={(e) => setForm({ ...form, signatureBlock: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Footer</Label>
+              <Input value={form.footer} onChange={(e) => setForm({ ...form, footer: e.target.value })} />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch checked={form.isDefault} onCheckedChange={(checked) => setForm({ ...form, isDefault: checked })} />
+              <Label>Use by default when exporting</Label>
+            </div>
+
+            {current && (
+              <div className="space-y-1">
+                <Label>Logo</Label>
+                <div className="flex items-center space-x-3">
+                  {current.logoPath && (
+                    <img
+                      src={`/api/letterheads/${current.id}/logo?v=${encodeURIComponent(current.updatedAt)}`}
+                      alt="Letterhead logo"
+                      className="h-12 max-w-[10rem] object-contain border rounded p-1"
+                    />
+                  )}
+                  <input
+                    ref={logoInputRef}
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) uploadLogoMutation.mutate({ id: current.id, file });
+                      e.target.value = "";
+                    }}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => logoInputRef.current?.click()}
+                    disabled={uploadLogoMutation.isPending}
+                  >
+                    <Upload className="w-4 h-4 mr-1" />
+                    {uploadLogoMutation.isPending ? "Uploading..." : current.logoPath ? "Replace logo" : "Upload logo"}
+                  </Button>
+                  {current.logoPath && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeLogoMutation.mutate(current.id)}
+                      disabled={removeLogoMutation.isPending}
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">PNG or JPEG, up to 2 MB.</p>
+              </div>
+            )}
+            {!current && <p className="text-xs text-gray-500">You can upload a logo once the letterhead is saved.</p>}
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={!form.name.trim() || !form.firmName.trim() || saveMutation.isPending}
+              >
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
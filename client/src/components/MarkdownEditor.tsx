@@ -0,0 +1,166 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { parseMarkdown, type TextRun } from "@shared/markdown";
+import { Bold, Italic, List, ListOrdered, Eye, Pencil } from "lucide-react";
+
+function Runs({ runs }: { runs: TextRun[] }) {
+  return (
+    <>
+      {runs.map((run, index) => {
+        let node: React.ReactNode = run.text;
+        if (run.italic) node = <em>{node}</em>;
+        if (run.bold) node = <strong>{node}</strong>;
+        return <span key={index}>{node}</span>;
+      })}
+    </>
+  );
+}
+
+export function MarkdownPreview({ text }: { text: string }) {
+  const blocks = parseMarkdown(text);
+  if (blocks.length === 0) {
+    return <p className="text-sm text-gray-500 italic">Nothing written yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3 text-sm leading-relaxed">
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case "heading":
+            return (
+              <p key={index} className={block.level <= 2 ? "text-base font-semibold" : "font-semibold"}>
+                <Runs runs={block.runs} />
+              </p>
+            );
+          case "paragraph":
+            return (
+              <p key={index}>
+                {block.lines.map((line, lineIndex) => (
+                  <span key={lineIndex}>
+                    {lineIndex > 0 && <br />}
+                    <Runs runs={line} />
+                  </span>
+                ))}
+              </p>
+            );
+          case "list": {
+            const ListTag = block.ordered ? "ol" : "ul";
+            return (
+              <ListTag key={index} className={`pl-6 space-y-1 ${block.ordered ? "list-decimal" : "list-disc"}`}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}><Runs runs={item} /></li>
+                ))}
+              </ListTag>
+            );
+          }
+          case "table":
+            return (
+              <table key={index} className="w-full border text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {block.header.map((cell, cellIndex) => (
+                      <th key={cellIndex} className={`border px-2 py-1 ${block.alignRight[cellIndex] ? "text-right" : "text-left"}`}>
+                        <Runs runs={cell} />
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {block.rows.map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      {row.map((cell, cellIndex) => (
+                        <td key={cellIndex} className={`border px-2 py-1 ${block.alignRight[cellIndex] ? "text-right" : ""}`}>
+                          <Runs runs={cell} />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            );
+        }
+      })}
+    </div>
+  );
+}
+
+// Plain-text editor for the Markdown subset in @shared/markdown, with formatting buttons and a
+// preview of how the text will read
+export function MarkdownEditor({
+  value,
+  onChange,
+  disabled,
+  rows = 8,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  rows?: number;
+}) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [preview, setPreview] = useState(false);
+
+  // Wraps the selection in a marker, or inserts the marker pair at the cursor
+  const wrap = (marker: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    onChange(`${value.slice(0, start)}${marker}${value.slice(start, end)}${marker}${value.slice(end)}`);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + marker.length, end + marker.length);
+    });
+  };
+
+  // Prefixes every selected line, e.g. to turn them into list items
+  const prefixLines = (prefix: (index: number) => string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lineStart = value.lastIndexOf("\n", textarea.selectionStart - 1) + 1;
+    const lineEnd = value.indexOf("\n", textarea.selectionEnd);
+    const end = lineEnd === -1 ? value.length : lineEnd;
+    const lines = value.slice(lineStart, end).split("\n").map((line, index) => `${prefix(index)}${line}`);
+    onChange(`${value.slice(0, lineStart)}${lines.join("\n")}${value.slice(end)}`);
+    requestAnimationFrame(() => textarea.focus());
+  };
+
+  return (
+    <div className="rounded-md border">
+      <div className="flex items-center justify-between border-b bg-gray-50 px-2 py-1">
+        <div className="flex items-center space-x-1">
+          <Button type="button" variant="ghost" size="sm" title="Bold" disabled={disabled || preview} onClick={() => wrap("**")}>
+            <Bold className="w-4 h-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="sm" title="Italic" disabled={disabled || preview} onClick={() => wrap("*")}>
+            <Italic className="w-4 h-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="sm" title="Bulleted list" disabled={disabled || preview} onClick={() => prefixLines(() => "- ")}>
+            <List className="w-4 h-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="sm" title="Numbered list" disabled={disabled || preview} onClick={() => prefixLines(index => `${index + 1}. `)}>
+            <ListOrdered className="w-4 h-4" />
+          </Button>
+        </div>
+        <Button type="button" variant="ghost" size="sm" onClick={() => setPreview(!preview)}>
+          {preview ? <Pencil className="w-4 h-4 mr-1" /> : <Eye className="w-4 h-4 mr-1" />}
+          {preview ? "Edit" : "Preview"}
+        </Button>
+      </div>
+      {preview ? (
+        <div className="p-3">
+          <MarkdownPreview text={value} />
+        </div>
+      ) : (
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          rows={rows}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value)}
+          className="border-0 rounded-t-none focus-visible:ring-0 font-mono text-sm"
+        />
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,10 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import BillDuplicatesReview from "@/components/BillDuplicatesReview";
+import BillProposalsReview from "@/components/BillProposalsReview";
+import BillLineItemsEditor from "@/components/BillLineItemsEditor";
+import BillPaymentsLedger from "@/components/BillPaymentsLedger";
 import { Plus, DollarSign, Calendar, FileText } from "lucide-react";
 import { insertMedicalBillSchema } from "@shared/schema";
 import { z } from "zod";
@@ -34,6 +38,7 @@ const statusColors = {
 export default function MedicalBillsView() {
   const [selectedCaseId, setSelectedCaseId] = useState<string>("");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [expandedBillId, setExpandedBillId] = useState<string | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
@@ -73,7 +78,8 @@ export default function MedicalBillsView() {
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/cases", selectedCaseId, "bills"] });
+      // The new bill may have been flagged as a duplicate
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", selectedCaseId] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       toast({
         title: "Success",
@@ -331,6 +337,10 @@ export default function MedicalBillsView() {
             </Card>
           )}
 
+          <BillProposalsReview caseId={selectedCaseId} />
+
+          <BillDuplicatesReview caseId={selectedCaseId} />
+
           {/* Bills Timeline */}
           <Card>
             <CardHeader>
@@ -391,11 +401,32 @@ export default function MedicalBillsView() {
                                 <p className="font-medium text-neutral-dark">{bill.insurance || "N/A"}</p>
                               </div>
                             </div>
+                            {expandedBillId === bill.id && (
+                              <div className="mt-4 border-t pt-4 space-y-6">
+                                <div>
+                                  <h4 className="text-sm font-medium text-neutral-dark mb-2">Line Items</h4>
+                                  <BillLineItemsEditor billId={bill.id} caseId={selectedCaseId} />
+                                </div>
+                                <div>
+                                  <h4 className="text-sm font-medium text-neutral-dark mb-2">Payments & Adjustments</h4>
+                                  <BillPaymentsLedger billId={bill.id} caseId={selectedCaseId} billed={parseFloat(bill.amount)} />
+                                </div>
+                              </div>
+                            )}
                           </div>
                         </div>
-                        <Button variant="ghost" size="sm">
-                          <span className="sr-only">View details</span>
-                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpandedBillId(expandedBillId === bill.id ? null : bill.id)}
+                        >
+                          <span className="sr-only">{expandedBillId === bill.id ? "Hide bill details" : "View bill details"}</span>
+                          <svg
+                            className={`w-5 h-5 transition-transform ${expandedBillId === bill.id ? "rotate-90" : ""}`}
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                           </svg>
                         </Button>
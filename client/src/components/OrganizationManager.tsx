@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { Building2, UserPlus, Trash2, LogOut, Mail, Check, X } from "lucide-react";
+import type { RedactionPolicy } from "@shared/schema";
+
+export const organizationRoleLabels: Record<string, string> = {
+  admin: "Admin",
+  attorney: "Attorney",
+  paralegal: "Paralegal",
+  read_only: "Read-only",
+};
+
+export type OrganizationMember = {
+  userId: string;
+  role: string;
+  username: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+};
+
+export type OrganizationInvitation = {
+  id: string;
+  organizationId: string;
+  userId: string;
+  role: string;
+  username: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+};
+
+export type OrganizationInfo = {
+  organization: { id: string; name: string; redactionPolicy: RedactionPolicy | null } | null;
+  role: string | null;
+  members: OrganizationMember[];
+  // Pending invitations, only sent to admins
+  invitations: OrganizationInvitation[];
+};
+
+type IncomingInvitation = {
+  id: string;
+  organizationId: string;
+  organizationName: string;
+  role: string;
+};
+
+export function memberName(member: Pick<OrganizationMember, "username" | "firstName" | "lastName">) {
+  const fullName = [member.firstName, member.lastName].filter(Boolean).join(" ");
+  return fullName ? `${fullName} (${member.username})` : member.username;
+}
+
+export default function OrganizationManager() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [firmName, setFirmName] = useState("");
+  // Existing cases stay the user's own unless they choose to bring them into the firm
+  const [moveCases, setMoveCases] = useState(false);
+  const [newMember, setNewMember] = useState({ username: "", role: "paralegal" });
+
+  const { data: info, isLoading } = useQuery<OrganizationInfo>({
+    queryKey: ["/api/organization"],
+  });
+
+  const { data: incoming = [] } = useQuery<IncomingInvitation[]>({
+    queryKey: ["/api/organization/invitations"],
+    enabled: !!info && !info.organization,
+  });
+
+  const isAdmin = info?.role === "admin";
+
+  // Joining or leaving a firm changes which cases the user can open
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/organization/invitations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/organization", "POST", { name: firmName, moveCases });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setFirmName("");
+      toast({
+        title: "Success",
+        description: moveCases ? "Firm created. Your cases are now firm cases." : "Firm created",
+      });
+      setMoveCases(false);
+    },
+    onError,
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/organization/invitations", "POST", newMember);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setNewMember({ username: "", role: newMember.role });
+      toast({ title: "Success", description: "Invitation sent" });
+    },
+    onError,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      const response = await apiRequest(`/api/organization/invitations/${invitationId}/accept`, "POST", { moveCases });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setMoveCases(false);
+      toast({ title: "Success", description: "You joined the firm" });
+    },
+    onError,
+  });
+
+  // Declines an incoming invitation or withdraws one the firm sent
+  const deleteInvitationMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      return apiRequest(`/api/organization/invitations/${invitationId}`, "DELETE");
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: string }) => {
+      const response = await apiRequest(`/api/organization/members/${userId}`, "PATCH", { role });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return apiRequest(`/api/organization/members/${userId}`, "DELETE");
+    },
+    onSuccess: (_, userId) => {
+      refresh();
+      toast({ title: "Success", description: userId === user?.id ? "You left the firm" : "Member removed" });
+    },
+    onError,
+  });
+
+  return (
+    <Card className="hover:shadow-lg transition-shadow duration-200">
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <Building2 className="w-5 h-5 text-primary" />
+          <CardTitle>{info?.organization ? info.organization.name : "Firm"}</CardTitle>
+          {info?.role && <Badge variant="outline">{organizationRoleLabels[info.role] || info.role}</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-center py-4">Loading firm...</div>
+        ) : !info?.organization ? (
+          <div className="space-y-3">
+            {incoming.length > 0 && (
+              <div className="space-y-2">
+                {incoming.map((invitation) => (
+                  <div key={invitation.id} className="flex items-center justify-between rounded-lg border p-3">
+                    <div className="flex items-center space-x-2">
+                      <Mail className="w-4 h-4 text-primary" />
+                      <span className="text-sm">
+                        <span className="font-medium text-neutral-dark">{invitation.organizationName}</span> invited you
+                        to join as {organizationRoleLabels[invitation.role]?.toLowerCase() || invitation.role}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        size="sm"
+                        onClick={() => acceptMutation.mutate(invitation.id)}
+                        disabled={acceptMutation.isPending}
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        Accept
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Decline invitation"
+                        onClick={() => deleteInvitationMutation.mutate(invitation.id)}
+                        disabled={deleteInvitationMutation.isPending}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-sm text-gray-600">
+              Create a firm to share cases with colleagues, or accept an invitation to join one. Your existing cases stay
+              private to you unless you choose to bring them in.
+            </p>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="firm-move-cases"
+                checked={moveCases}
+                onCheckedChange={(checked) => setMoveCases(checked === true)}
+              />
+              <Label htmlFor="firm-move-cases" className="font-normal">Bring my existing cases into the firm</Label>
+            </div>
+            <div className="flex items-end space-x-2">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="firm-name">Firm name</Label>
+                <Input id="firm-name" value={firmName} onChange={(e) => setFirmName(e.target.value)} />
+              </div>
+              <Button onClick={() => createMutation.mutate()} disabled={!firmName.trim() || createMutation.isPending}>
+                {createMutation.isPending ? "Creating..." : "Create Firm"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {info.members.map((member) => (
+                <div key={member.userId} className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <div className="font-medium text-neutral-dark">{memberName(member)}</div>
+                    {member.email && <div className="text-xs text-gray-600">{member.email}</div>}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {isAdmin ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => roleMutation.mutate({ userId: member.userId, role })}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(organizationRoleLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary">{organizationRoleLabels[member.role] || member.role}</Badge>
+                    )}
+                    {member.userId === user?.id ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Leave firm"
+                        onClick={() => removeMutation.mutate(member.userId)}
+                        disabled={removeMutation.isPending}
+                      >
+                        <LogOut className="w-4 h-4" />
+                      </Button>
+                    ) : isAdmin && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Remove from firm"
+                        onClick={() => removeMutation.mutate(member.userId)}
+                        disabled={removeMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {isAdmin && info.invitations.length > 0 && (
+              <div className="space-y-2">
+                <Label>Pending invitations</Label>
+                {info.invitations.map((invitation) => (
+                  <div key={invitation.id} className="flex items-center justify-between rounded-lg border border-dashed p-3">
+                    <div className="text-sm text-gray-600">{memberName(invitation)}</div>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline">{organizationRoleLabels[invitation.role] || invitation.role}</Badge>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Withdraw invitation"
+                        onClick={() => deleteInvitationMutation.mutate(invitation.id)}
+                        disabled={deleteInvitationMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {isAdmin && (
+              <div className="flex items-end space-x-2">
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor="member-username">Invite by username</Label>
+                  <Input
+                    id="member-username"
+                    value={newMember.username}
+                    onChange={(e) => setNewMember({ ...newMember, username: e.target.value })}
+                  />
+                </div>
+                <Select value={newMember.role} onValueChange={(role) => setNewMember({ ...newMember, role })}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(organizationRoleLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={() => inviteMutation.mutate()} disabled={!newMember.username.trim() || inviteMutation.isPending}>
+                  <UserPlus className="w-4 h-4 mr-1" />
+                  Invite
+                </Button>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Admins can open every firm case. Attorneys, paralegals and read-only members see the cases they opened or
+              are on the team of; paralegals can't approve or send letters, and read-only members can't change anything.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
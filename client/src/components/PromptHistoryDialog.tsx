@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { diffLines } from "@/lib/lineDiff";
+import { Pin, PinOff, RotateCcw } from "lucide-react";
+
+type PromptVersion = {
+  id: string;
+  promptId: string;
+  version: number;
+  prompt: string;
+  note?: string | null;
+  createdAt: string;
+};
+
+type VersionedPrompt = {
+  id: string;
+  name: string;
+  currentVersionId?: string | null;
+  pinnedVersionId?: string | null;
+};
+
+const rowStyles = {
+  same: { left: "", right: "" },
+  removed: { left: "bg-red-50 text-red-800", right: "bg-gray-50" },
+  added: { left: "bg-gray-50", right: "bg-green-50 text-green-800" },
+  changed: { left: "bg-red-50 text-red-800", right: "bg-green-50 text-green-800" },
+};
+
+export function PromptHistoryDialog({
+  prompt,
+  onOpenChange,
+}: {
+  prompt: VersionedPrompt | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  // Newest first
+  const { data: versions = [], isLoading } = useQuery<PromptVersion[]>({
+    queryKey: ["/api/ai-prompts", prompt?.id, "versions"],
+    enabled: !!prompt,
+  });
+
+  // Start on the latest version, compared with the one before it
+  useEffect(() => {
+    if (versions.length > 0 && !versions.some(version => version.id === selectedId)) {
+      setSelectedId(versions[0].id);
+      setCompareId(versions[1]?.id ?? null);
+    }
+  }, [versions, selectedId]);
+
+  useEffect(() => {
+    if (!prompt) {
+      setSelectedId(null);
+      setCompareId(null);
+    }
+  }, [prompt]);
+
+  const selected = versions.find(version => version.id === selectedId);
+  const compare = versions.find(version => version.id === compareId);
+  const diff = useMemo(
+    () => (selected ? diffLines(compare?.prompt ?? "", selected.prompt) : []),
+    [selected, compare]
+  );
+
+  const selectVersion = (version: PromptVersion) => {
+    setSelectedId(version.id);
+    setCompareId(versions.find(other => other.version < version.version)?.id ?? null);
+  };
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/ai-prompts"] });
+  };
+
+  const pinMutation = useMutation({
+    mutationFn: async (versionId: string | null) => {
+      return apiRequest(`/api/ai-prompts/${prompt!.id}/pin`, "POST", { versionId });
+    },
+    onSuccess: (_data, versionId) => {
+      onChanged();
+      toast({
+        title: "Success",
+        description: versionId ? "Prompt version pinned" : "Prompt unpinned, the latest version will be used",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to pin prompt version",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      return apiRequest(`/api/ai-prompts/${prompt!.id}/rollback`, "POST", { versionId });
+    },
+    onSuccess: () => {
+      onChanged();
+      setSelectedId(null);
+      toast({
+        title: "Success",
+        description: "Prompt rolled back",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to roll back prompt",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPinned = !!selected && prompt?.pinnedVersionId === selected.id;
+  const isCurrent = !!selected && prompt?.currentVersionId === selected.id;
+
+  return (
+    <Dialog open={!!prompt} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Version History - {prompt?.name}</DialogTitle>
+          <DialogDescription>
+            Every change to the prompt text is kept. Pin a version to keep using it while you edit, or roll back to restore it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-4">Loading versions...</div>
+        ) : versions.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No versions recorded yet.</div>
+        ) : (
+          <div className="grid grid-cols-[12rem_1fr] gap-4">
+            <div className="max-h-[60vh] overflow-auto space-y-1">
+              {versions.map((version) => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => selectVersion(version)}
+                  className={`w-full text-left rounded border p-2 text-sm ${
+                    version.id === selectedId ? "border-primary bg-blue-50" : "hover:bg-gray-50"
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Version {version.version}</span>
+                    {prompt?.pinnedVersionId === version.id && <Pin className="w-3 h-3 text-primary" />}
+                  </div>
+                  <div className="text-xs text-gray-500">{new Date(version.createdAt).toLocaleString()}</div>
+                  {version.note && <div className="text-xs text-gray-600 mt-1">{version.note}</div>}
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="space-y-3 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-gray-600">Compare with</span>
+                    <Select
+                      value={compareId ?? "none"}
+                      onValueChange={(value) => setCompareId(value === "none" ? null : value)}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Nothing</SelectItem>
+                        {versions
+                          .filter(version => version.id !== selected.id)
+                          .map((version) => (
+                            <SelectItem key={version.id} value={version.id}>
+                              Version {version.version}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    {isCurrent && <Badge variant="outline" className="text-xs">Latest</Badge>}
+                    {isPinned && <Badge className="text-xs">Pinned</Badge>}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => pinMutation.mutate(isPinned ? null : selected.id)}
+                      disabled={pinMutation.isPending}
+                    >
+                      {isPinned ? <PinOff className="w-3 h-3 mr-1" /> : <Pin className="w-3 h-3 mr-1" />}
+                      {isPinned ? "Unpin" : "Pin"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => rollbackMutation.mutate(selected.id)}
+                      disabled={isCurrent || rollbackMutation.isPending}
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Roll back to this version
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 text-xs font-medium text-gray-600">
+                  <div>{compare ? `Version ${compare.version}` : "(empty)"}</div>
+                  <div>Version {selected.version}</div>
+                </div>
+                <div className="max-h-[50vh] overflow-auto rounded border font-mono text-xs">
+                  {diff.map((line, index) => (
+                    <div key={index} className="grid grid-cols-2">
+                      <div className={`flex whitespace-pre-wrap break-words border-r px-2 ${rowStyles[line.kind].left}`}>
+                        <span className="w-8 shrink-0 select-none text-gray-400">
+                          {line.kind !== "added" ? line.leftNumber : ""}
+                        </span>
+                        <span>{line.kind !== "added" ? line.left : ""}</span>
+                      </div>
+                      <div className={`flex whitespace-pre-wrap break-words px-2 ${rowStyles[line.kind].right}`}>
+                        <span className="w-8 shrink-0 select-none text-gray-400">
+                          {line.kind !== "removed" ? line.rightNumber : ""}
+                        </span>
+                        <span>{line.kind !== "removed" ? line.right : ""}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
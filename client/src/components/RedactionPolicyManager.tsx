@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { OrganizationInfo } from "@/components/OrganizationManager";
+import { PHI_TYPES, type PhiType, type RedactionPolicy } from "@shared/schema";
+import { ShieldCheck } from "lucide-react";
+
+export const phiTypeLabels: Record<string, string> = {
+  ssn: "Social Security numbers",
+  mrn: "Medical record numbers",
+  phone: "Phone numbers",
+  email: "Email addresses",
+  dob: "Dates of birth",
+  address: "Street addresses",
+  policy_number: "Policy and member numbers",
+  claim_number: "Claim numbers",
+  dictionary: "Client names and dictionary terms",
+};
+
+const defaultPolicy: RedactionPolicy = { enabled: false, types: [...PHI_TYPES], dictionary: [] };
+
+export default function RedactionPolicyManager() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<RedactionPolicy>(defaultPolicy);
+  const [dictionary, setDictionary] = useState("");
+
+  const { data: info } = useQuery<OrganizationInfo>({
+    queryKey: ["/api/organization"],
+  });
+
+  const saved = info?.organization?.redactionPolicy;
+  useEffect(() => {
+    const current = saved || defaultPolicy;
+    setPolicy(current);
+    setDictionary(current.dictionary.join("\n"));
+  }, [saved]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const terms = dictionary.split("\n").map((term) => term.trim()).filter(Boolean);
+      const response = await apiRequest("/api/organization/redaction-policy", "PUT", { ...policy, dictionary: terms });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+      toast({ title: "Success", description: "Redaction policy saved" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The policy belongs to a firm
+  if (!info?.organization) return null;
+
+  const isAdmin = info.role === "admin";
+
+  const toggleType = (type: PhiType, checked: boolean) => {
+    setPolicy({
+      ...policy,
+      types: checked ? [...policy.types, type] : policy.types.filter((existing) => existing !== type),
+    });
+  };
+
+  return (
+    <Card className="hover:shadow-lg transition-shadow duration-200">
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <ShieldCheck className="w-5 h-5 text-primary" />
+          <CardTitle>PHI Redaction</CardTitle>
+          <Badge variant={saved?.enabled ? "default" : "outline"}>{saved?.enabled ? "On" : "Off"}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          When on, identifiers are replaced with placeholders before document text, chats and letters are sent to the
+          AI provider, and put back in what it returns. Dates of service, diagnoses and providers are kept.
+        </p>
+
+        {isAdmin ? (
+          <>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="redaction-enabled"
+                checked={policy.enabled}
+                onCheckedChange={(enabled) => setPolicy({ ...policy, enabled })}
+              />
+              <Label htmlFor="redaction-enabled">Redact PHI for every member of the firm</Label>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {PHI_TYPES.map((type) => (
+                <div key={type} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`redact-${type}`}
+                    checked={policy.types.includes(type)}
+                    onCheckedChange={(checked) => toggleType(type, checked === true)}
+                    disabled={!policy.enabled}
+                  />
+                  <Label htmlFor={`redact-${type}`} className="font-normal">{phiTypeLabels[type]}</Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="redaction-dictionary">Dictionary terms, one per line</Label>
+              <Textarea
+                id="redaction-dictionary"
+                rows={4}
+                value={dictionary}
+                onChange={(e) => setDictionary(e.target.value)}
+                disabled={!policy.enabled || !policy.types.includes("dictionary")}
+                placeholder="Names, employers or other terms to mask. Each case's client name is masked automatically."
+              />
+            </div>
+
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save Policy"}
+            </Button>
+          </>
+        ) : (
+          <p className="text-sm text-gray-600">
+            {saved?.enabled
+              ? `Masking ${saved.types.map((type) => phiTypeLabels[type]?.toLowerCase() || type).join(", ")}.`
+              : "Document text is sent to the AI provider as extracted."}{" "}
+            Only firm admins can change this.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
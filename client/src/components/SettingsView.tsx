@@ -12,6 +12,11 @@ import { apiRequest } from "@/lib/queryClient";
 import { User, Settings, Lock, Mail, UserCircle } from "lucide-react";
 import { z } from "zod";
 import { useAuth } from "@/hooks/use-auth";
+import OrganizationManager from "@/components/OrganizationManager";
+import AuditLogViewer from "@/components/AuditLogViewer";
+import RedactionPolicyManager from "@/components/RedactionPolicyManager";
+import LetterheadsManager from "@/components/LetterheadsManager";
+import LetterTemplatesManager from "@/components/LetterTemplatesManager";
 
 const profileSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -298,6 +303,16 @@ export default function SettingsView() {
           </div>
         </CardContent>
       </Card>
+
+      <OrganizationManager />
+
+      <RedactionPolicyManager />
+
+      <AuditLogViewer />
+
+      <LetterheadsManager />
+
+      <LetterTemplatesManager />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,62 @@
+export type DiffLine =
+  | { kind: "same"; left: string; right: string; leftNumber: number; rightNumber: number }
+  | { kind: "removed"; left: string; leftNumber: number }
+  | { kind: "added"; right: string; rightNumber: number }
+  | { kind: "changed"; left: string; right: string; leftNumber: number; rightNumber: number };
+
+// Line diff based on the longest common subsequence. Prompts are at most a few hundred lines,
+// so the quadratic table is fine. A removal directly followed by an addition is paired up as a
+// "changed" row so the side-by-side view lines the two versions up.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let removed: Array<{ line: string; number: number }> = [];
+  let added: Array<{ line: string; number: number }> = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      result.push({
+        kind: "changed",
+        left: removed[k].line,
+        right: added[k].line,
+        leftNumber: removed[k].number,
+        rightNumber: added[k].number,
+      });
+    }
+    removed.slice(paired).forEach(({ line, number }) => result.push({ kind: "removed", left: line, leftNumber: number }));
+    added.slice(paired).forEach(({ line, number }) => result.push({ kind: "added", right: line, rightNumber: number }));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      result.push({ kind: "same", left: a[i], right: b[j], leftNumber: i + 1, rightNumber: j + 1 });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push({ line: a[i], number: i + 1 });
+      i++;
+    } else {
+      added.push({ line: b[j], number: j + 1 });
+      j++;
+    }
+  }
+  flush();
+
+  return result;
+}
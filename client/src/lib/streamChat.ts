@@ -0,0 +1,62 @@
+// Client for the chat streaming endpoints. They answer a POST with Server-Sent Events
+// (token / done / error), which EventSource can't send, so the body is read manually.
+export async function streamChat<T = unknown>(
+  url: string,
+  body: unknown,
+  options: { onToken: (content: string) => void; signal?: AbortSignal },
+): Promise<T | null> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+    signal: options.signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let result: T | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let event = "message";
+      let data = "";
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event: ")) event = line.slice(7);
+        else if (line.startsWith("data: ")) data += line.slice(6);
+      }
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === "token") {
+        options.onToken(payload.content);
+      } else if (event === "done") {
+        result = payload;
+      } else if (event === "error") {
+        throw new Error(payload.message || "Streaming failed");
+      }
+    }
+  }
+
+  return result;
+}
+
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
@@ -12,6 +12,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { payerTypeLabels } from "@/components/BillPaymentsLedger";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
@@ -42,12 +44,21 @@ import {
   Download,
   Brain,
   Trash2,
+  Landmark,
+  Mail,
+  CalendarClock,
+  ShieldAlert,
 } from "lucide-react";
 import DocumentsView from "@/components/DocumentsView";
 import MedicalBillsView from "@/components/MedicalBillsView";
-
-// Create update schema that excludes createdBy field for updates
-const updateCaseSchema = insertCaseSchema.omit({ createdBy: true });
+import CaseLiensView from "@/components/CaseLiensView";
+import DemandLettersView from "@/components/DemandLettersView";
+import CaseChronologyView from "@/components/CaseChronologyView";
+import CaseRiskReportView from "@/components/CaseRiskReportView";
+import CaseTeamCard from "@/components/CaseTeamCard";
+
+// Create update schema that excludes the fields the server sets itself
+const updateCaseSchema = insertCaseSchema.omit({ createdBy: true, organizationId: true });
 type UpdateCaseFormData = z.infer<typeof updateCaseSchema>;
 
 export default function CaseDetailsPage() {
@@ -149,6 +160,9 @@ export default function CaseDetailsPage() {
     );
   }
 
+  // The user's access to the case: 'view', 'edit' or 'manage'
+  const access = (caseData as any)?.access;
+
   const totalDocuments = Array.isArray(caseDocuments) ? caseDocuments.length : 0;
   const processedDocuments = Array.isArray(caseDocuments) ? caseDocuments.filter((doc: any) => doc.aiProcessed).length : 0;
   const totalBills = Array.isArray(caseBills) ? caseBills.length : 0;
@@ -181,7 +195,7 @@ export default function CaseDetailsPage() {
             </Badge>
             <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
               <DialogTrigger asChild>
-                <Button variant="outline" size="sm">
+                <Button variant="outline" size="sm" disabled={access === 'view'}>
                   <Edit className="w-4 h-4 mr-2" />
                   Edit Case
                 </Button>
@@ -420,9 +434,11 @@ export default function CaseDetailsPage() {
           </CardContent>
         </Card>
 
-        {/* Tabs for Documents and Bills */}
+        <CaseTeamCard caseId={caseId!} canManage={access === 'manage'} />
+
+        {/* Tabs for Documents, Bills, Chronology, Risks, Liens and Demand Letters */}
         <Tabs defaultValue="documents" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="documents" className="flex items-center space-x-2">
               <FileText className="w-4 h-4" />
               <span>Documents ({totalDocuments})</span>
@@ -431,6 +447,22 @@ export default function CaseDetailsPage() {
               <DollarSign className="w-4 h-4" />
               <span>Medical Bills ({totalBills})</span>
             </TabsTrigger>
+            <TabsTrigger value="chronology" className="flex items-center space-x-2">
+              <CalendarClock className="w-4 h-4" />
+              <span>Chronology</span>
+            </TabsTrigger>
+            <TabsTrigger value="risks" className="flex items-center space-x-2">
+              <ShieldAlert className="w-4 h-4" />
+              <span>Risks</span>
+            </TabsTrigger>
+            <TabsTrigger value="liens" className="flex items-center space-x-2">
+              <Landmark className="w-4 h-4" />
+              <span>Liens</span>
+            </TabsTrigger>
+            <TabsTrigger value="letters" className="flex items-center space-x-2">
+              <Mail className="w-4 h-4" />
+              <span>Demand Letters</span>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="documents" className="space-y-6">
@@ -440,6 +472,26 @@ export default function CaseDetailsPage() {
           <TabsContent value="bills" className="space-y-6">
             <CaseBillsView caseId={caseId!} bills={Array.isArray(caseBills) ? caseBills : []} isLoading={billsLoading} />
           </TabsContent>
+
+          <TabsContent value="chronology" className="space-y-6">
+            <CaseChronologyView caseId={caseId!} />
+          </TabsContent>
+
+          <TabsContent value="risks" className="space-y-6">
+            <CaseRiskReportView caseId={caseId!} />
+          </TabsContent>
+
+          <TabsContent value="liens" className="space-y-6">
+            <CaseLiensView
+              caseId={caseId!}
+              bills={Array.isArray(caseBills) ? caseBills : []}
+              documents={Array.isArray(caseDocuments) ? caseDocuments : []}
+            />
+          </TabsContent>
+
+          <TabsContent value="letters" className="space-y-6">
+            <DemandLettersView caseId={caseId!} clientName={(caseData as any)?.clientName || ""} />
+          </TabsContent>
         </Tabs>
       </div>
     </Layout>
@@ -654,8 +706,22 @@ function CaseDocumentsView({ caseId, documents, isLoading }: { caseId: string; d
   );
 }
 
+type SpecialsBalance = { billed: number; paid: number; adjusted: number; outstanding: number };
+
+type CaseSpecials = {
+  totals: SpecialsBalance;
+  byProvider: Array<SpecialsBalance & { provider: string; billCount: number }>;
+  byPayerType: Array<{ payerType: string; paid: number; adjusted: number }>;
+  bills: Array<SpecialsBalance & { billId: string }>;
+};
+
 // Simplified bills view for case details
 function CaseBillsView({ caseId, bills, isLoading }: { caseId: string; bills: any[]; isLoading: boolean }) {
+  const { data: specials } = useQuery<CaseSpecials>({
+    queryKey: [`/api/cases/${caseId}/specials`],
+    enabled: !!caseId,
+  });
+
   if (isLoading) {
     return <div className="text-center py-8">Loading medical bills...</div>;
   }
@@ -678,38 +744,73 @@ function CaseBillsView({ caseId, bills, isLoading }: { caseId: string; bills: an
     );
   }
 
-  const totalAmount = bills.reduce((sum: number, bill: any) => {
-    const amount = parseFloat(String(bill.amount || '0').replace(/[^0-9.-]/g, ''));
-    return sum + (isNaN(amount) ? 0 : amount);
-  }, 0);
+  const totals = specials?.totals;
+  const billBalances = new Map((specials?.bills || []).map(balance => [balance.billId, balance]));
 
   return (
     <div className="space-y-6">
       {/* Summary */}
       <Card>
         <CardHeader>
-          <CardTitle>Bills Summary</CardTitle>
+          <CardTitle>Specials Summary</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+            <div>
+              <p className="text-2xl font-bold text-neutral-dark">${(totals?.billed ?? 0).toFixed(2)}</p>
+              <p className="text-sm text-gray-600">Billed ({bills.length} bills)</p>
+            </div>
             <div>
-              <p className="text-2xl font-bold text-neutral-dark">${totalAmount.toFixed(2)}</p>
-              <p className="text-sm text-gray-600">Total Amount</p>
+              <p className="text-2xl font-bold text-green-600">${(totals?.paid ?? 0).toFixed(2)}</p>
+              <p className="text-sm text-gray-600">Paid</p>
             </div>
             <div>
-              <p className="text-2xl font-bold text-neutral-dark">{bills.length}</p>
-              <p className="text-sm text-gray-600">Total Bills</p>
+              <p className="text-2xl font-bold text-neutral-dark">${(totals?.adjusted ?? 0).toFixed(2)}</p>
+              <p className="text-sm text-gray-600">Adjusted</p>
             </div>
             <div>
-              <p className="text-2xl font-bold text-green-600">
-                ${bills.filter((b: any) => b.status === 'verified').reduce((s: number, b: any) => {
-                  const amount = parseFloat(String(b.amount || '0').replace(/[^0-9.-]/g, ''));
-                  return s + (isNaN(amount) ? 0 : amount);
-                }, 0).toFixed(2)}
-              </p>
-              <p className="text-sm text-gray-600">Verified</p>
+              <p className="text-2xl font-bold text-red-600">${(totals?.outstanding ?? 0).toFixed(2)}</p>
+              <p className="text-sm text-gray-600">Outstanding</p>
             </div>
           </div>
+
+          {specials && specials.byProvider.length > 0 && (
+            <Table className="mt-6">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Provider</TableHead>
+                  <TableHead className="text-right">Bills</TableHead>
+                  <TableHead className="text-right">Billed</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Adjusted</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {specials.byProvider.map((row) => (
+                  <TableRow key={row.provider}>
+                    <TableCell className="font-medium">{row.provider}</TableCell>
+                    <TableCell className="text-right">{row.billCount}</TableCell>
+                    <TableCell className="text-right">${row.billed.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${row.paid.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${row.adjusted.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">${row.outstanding.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {specials && specials.byPayerType.length > 0 && (
+            <div className="mt-4 flex flex-wrap gap-2">
+              {specials.byPayerType.map((row) => (
+                <Badge key={row.payerType} variant="outline">
+                  {payerTypeLabels[row.payerType] || row.payerType}: ${row.paid.toFixed(2)} paid
+                  {row.adjusted > 0 && `, $${row.adjusted.toFixed(2)} adjusted`}
+                </Badge>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -735,6 +836,11 @@ function CaseBillsView({ caseId, bills, isLoading }: { caseId: string; bills: an
                 </div>
                 <div className="text-right">
                   <p className="text-xl font-bold text-neutral-dark">${parseFloat(String(bill.amount || '0').replace(/[^0-9.-]/g, '')).toFixed(2)}</p>
+                  {billBalances.has(bill.id) && (
+                    <p className="text-sm text-gray-600">
+                      Paid ${billBalances.get(bill.id)!.paid.toFixed(2)} · Outstanding ${billBalances.get(bill.id)!.outstanding.toFixed(2)}
+                    </p>
+                  )}
                   <Badge variant={bill.status === 'verified' ? 'default' : bill.status === 'pending' ? 'secondary' : 'destructive'}>
                     {bill.status}
                   </Badge>
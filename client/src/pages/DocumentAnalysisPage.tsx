@@ -1,4 +1,4 @@
-import { useParams, useLocation } from "wouter";
+import { useParams, useLocation, useSearch } from "wouter";
 import Layout from "@/components/Layout";
 import { DocumentReview } from "@/components/DocumentReview";
 
@@ -6,6 +6,7 @@ export default function DocumentAnalysisPage() {
   const params = useParams();
   const [, navigate] = useLocation();
   const documentId = params.documentId;
+  const page = parseInt(new URLSearchParams(useSearch()).get("page") || "");
 
   if (!documentId) {
     navigate("/documents");
@@ -17,6 +18,7 @@ export default function DocumentAnalysisPage() {
       <DocumentReview
         documentId={documentId}
         onClose={() => navigate("/documents")}
+        initialPage={Number.isNaN(page) ? undefined : page}
       />
     </Layout>
   );
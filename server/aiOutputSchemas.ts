@@ -0,0 +1,221 @@
+import { z } from "zod";
+import { BILL_CODE_SYSTEMS, DEMAND_LETTER_SECTIONS } from "@shared/schema";
+
+// Shapes the AI must return for document analysis and bill extraction. Every model response is
+// checked against these; the issues found are fed back to the model so it can correct itself.
+// Objects are passthrough so extra detail the model adds is kept rather than rejected.
+
+// Models often answer "2024" or 120 where a string is asked for
+const text = z.preprocess(
+  (value) => (typeof value === "number" ? String(value) : value),
+  z.string()
+).nullish();
+
+const textList = z.array(z.string()).optional();
+
+const optionalDate = z.preprocess(
+  (value) => (value === "" ? null : value),
+  z.string().refine((value) => !isNaN(Date.parse(value)), "Must be a date in YYYY-MM-DD format").nullish()
+);
+
+const dollarAmount = z.preprocess(
+  (value) => (typeof value === "number" ? String(value) : typeof value === "string" ? value.replace(/[$,\s]/g, "") : value),
+  z.string().regex(/^-?\d+(\.\d+)?$/, "Must be a plain dollar amount such as 1250.00")
+);
+
+const optionalDollarAmount = z.preprocess((value) => (value === "" ? null : value), dollarAmount.nullish());
+
+// "cpt", "ICD10" and the like are normalized; anything unrecognized is kept as "other"
+const codeSystem = z.preprocess((value) => {
+  if (typeof value !== "string" || !value.trim()) return null;
+  const normalized = value.trim().toUpperCase().replace(/^ICD-?10(-CM)?$/, "ICD-10");
+  return (BILL_CODE_SYSTEMS as readonly string[]).includes(normalized) ? normalized : "other";
+}, z.enum(BILL_CODE_SYSTEMS).nullable());
+
+const units = z.preprocess(
+  (value) => (typeof value === "string" && value.trim() ? Number(value) : value === "" ? null : value),
+  z.number().int("Units must be a whole number").positive("Units must be positive").nullish()
+);
+
+// Confidence between 0 and 1; answers given as a percentage (85) are scaled down
+const confidenceScore = z.preprocess((value) => {
+  const score = typeof value === "string" && value.trim() ? Number(value) : value;
+  return typeof score === "number" && score > 1 ? score / 100 : score;
+}, z.number().min(0, "Confidence must be between 0 and 1").max(1, "Confidence must be between 0 and 1"));
+
+export const analysisExtractedDataSchema = z.object({
+  patientInfo: z.object({
+    patientName: text,
+    dateOfBirth: text,
+    gender: text,
+    address: text,
+    insurance: text,
+    accidentDate: text,
+  }).passthrough().optional(),
+  medicalInfo: z.object({
+    injuryDiagnoses: z.array(z.object({
+      diagnosis: z.string(),
+      icd10Code: text,
+      narrative: text,
+    }).passthrough()).optional(),
+    proceduresPerformed: z.array(z.object({
+      procedure: z.string(),
+      cptCode: text,
+      description: text,
+    }).passthrough()).optional(),
+    diagnostics: z.array(z.object({
+      test: z.string(),
+      results: text,
+      significance: text,
+    }).passthrough()).optional(),
+    treatmentRecommendations: textList,
+  }).passthrough().optional(),
+  painSymptomReports: z.object({
+    painScaleReports: textList,
+    functionalLimitations: textList,
+    subjectiveComplaints: textList,
+  }).passthrough().optional(),
+  timeline: z.array(z.object({
+    eventDate: text,
+    eventType: text,
+    facilityProvider: text,
+    narrativeSummary: text,
+    cost: text,
+  }).passthrough()).optional(),
+  providerInfo: z.object({
+    facilityName: text,
+    treatingProviderName: text,
+    specialty: text,
+    locationAddress: text,
+    referralChain: textList,
+  }).passthrough().optional(),
+  billingFinancials: z.object({
+    serviceCharges: z.array(z.object({
+      service: z.string(),
+      cptCode: text,
+      amount: text,
+    }).passthrough()).optional(),
+    outstandingBalance: text,
+    paymentsAdjustments: text,
+    duplicateCharges: text,
+  }).passthrough().optional(),
+  prognosisFutureCare: z.object({
+    physiciansPrognosis: text,
+    futureMedicalRecommendations: textList,
+    anticipatedCosts: text,
+  }).passthrough().optional(),
+  complicationsNotes: z.object({
+    preExistingConditions: text,
+    accidentRelatedAggravations: text,
+    delaysInCare: text,
+    complianceIssues: text,
+  }).passthrough().optional(),
+}).passthrough();
+
+export const documentAnalysisSchema = z.object({
+  summary: z.string().min(1, "Summary is required"),
+  extractedData: analysisExtractedDataSchema.default({}),
+  keyFindings: z.array(z.string()).default([]),
+});
+
+export const extractedLineItemSchema = z.object({
+  code: text,
+  codeSystem,
+  diagnosisCodes: z.array(z.string()).nullish(),
+  description: text,
+  units,
+  charge: dollarAmount,
+  allowed: optionalDollarAmount,
+  paid: optionalDollarAmount,
+  adjustment: optionalDollarAmount,
+  serviceDate: optionalDate,
+}).passthrough();
+
+export const extractedBillSchema = z.object({
+  provider: text,
+  amount: optionalDollarAmount,
+  serviceDate: optionalDate,
+  billDate: optionalDate,
+  treatment: text,
+  insurance: text,
+  status: text,
+  cptCodes: z.array(z.string()).nullish(),
+  lineItems: z.array(extractedLineItemSchema).nullish(),
+  // Per-field confidence and the exact document text each field was read from
+  confidence: z.record(confidenceScore).nullish(),
+  sources: z.record(text).nullish(),
+}).passthrough();
+
+// The prompt asks for {"bills": [...]}, but a bare array is accepted too
+export const billExtractionSchema = z.preprocess(
+  (value) => (Array.isArray(value) ? { bills: value } : value),
+  z.object({ bills: z.array(extractedBillSchema) })
+);
+
+// Sections the model writes; the specials table is built from the case's bills instead
+export const DRAFTED_LETTER_SECTIONS = DEMAND_LETTER_SECTIONS.filter(key => key !== 'specials');
+
+export const demandLetterDraftSchema = z.object({
+  sections: z.array(z.object({
+    key: z.enum(DEMAND_LETTER_SECTIONS),
+    content: z.string().min(1, "Section content is required"),
+    // Ids of the sources (D1, B2, U1...) the section was written from
+    sourceIds: z.array(z.string()).default([]),
+  }).passthrough()),
+  demandAmount: optionalDollarAmount,
+}).passthrough().superRefine((draft, ctx) => {
+  const written = new Set(draft.sections.map(section => section.key));
+  for (const key of DRAFTED_LETTER_SECTIONS) {
+    if (!written.has(key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["sections"], message: `Missing the "${key}" section` });
+    }
+  }
+});
+
+export type DocumentAnalysis = z.infer<typeof documentAnalysisSchema>;
+export type ExtractedBill = z.infer<typeof extractedBillSchema>;
+export type DemandLetterDraft = z.infer<typeof demandLetterDraftSchema>;
+export type ExtractedLineItem = z.infer<typeof extractedLineItemSchema>;
+
+// Raised when a response still doesn't match its schema after every repair attempt
+export class AIOutputValidationError extends Error {
+  constructor(
+    public readonly problems: string[],
+    public readonly rawOutput: string,
+    public readonly attempts: number,
+  ) {
+    super(`AI response failed validation after ${attempts} attempt(s): ${problems.slice(0, 5).join("; ")}`);
+    this.name = "AIOutputValidationError";
+    Object.setPrototypeOf(this, AIOutputValidationError.prototype);
+  }
+}
+
+export type AIOutputParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; problems: string[] };
+
+export function parseAIOutput<T>(raw: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): AIOutputParseResult<T> {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    return { success: false, problems: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    problems: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+  };
+}
+
+// Follow-up message asking the model to fix its previous answer
+export function repairInstructions(problems: string[]): string {
+  return `Your previous response did not match the required JSON structure:
+${problems.map((problem) => `- ${problem}`).join("\n")}
+
+Return the complete corrected JSON object only, with the same structure as requested.`;
+}
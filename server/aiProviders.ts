@@ -0,0 +1,127 @@
+import type { User } from "@shared/schema";
+import { OpenAIService, AzureOpenAIService, type AIServiceInterface } from "./aiService";
+import { MockAIService } from "./mockAIService";
+
+export type AIProviderFactory = (user: User) => AIServiceInterface;
+
+export class AIProviderRegistry {
+  private factories = new Map<string, AIProviderFactory>();
+
+  register(name: string, factory: AIProviderFactory): void {
+    this.factories.set(name, factory);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  create(name: string, user: User): AIServiceInterface {
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown AI provider '${name}'. Available providers: ${this.names().join(", ")}`);
+    }
+    return factory(user);
+  }
+}
+
+export const aiProviders = new AIProviderRegistry();
+
+aiProviders.register("openai", (user) => {
+  if (!user.openaiApiKey) {
+    throw new Error("No OpenAI API key configured. Please add one in settings.");
+  }
+  return new OpenAIService(user.openaiApiKey, { model: user.aiModel || undefined });
+});
+
+aiProviders.register("azure-openai", (user) => {
+  // Use environment variable for API key if user doesn't have one stored
+  const apiKey = user.azureOpenAIApiKey || process.env.AZURE_OPENAI_KEY;
+  if (!user.azureOpenAIEndpoint || !user.azureModelDeployment || !apiKey) {
+    throw new Error("Azure OpenAI is not fully configured. Please set the endpoint, deployment and API key in settings.");
+  }
+
+  console.log(`🎯 Using Azure OpenAI: ${user.azureOpenAIEndpoint} with deployment: ${user.azureModelDeployment}`);
+  return new AzureOpenAIService(
+    user.azureOpenAIEndpoint,
+    apiKey,
+    user.azureOpenAIVersion || "2024-02-15-preview",
+    user.azureModelDeployment
+  );
+});
+
+// Servers users may point the openai-compatible provider at, as a comma-separated list of origins
+// (AI_BASE_URL_ALLOWLIST=http://ollama.internal:11434,https://llm.example.com). The server sends
+// document text and API keys there, so without the list only the admin's AI_BASE_URL is used.
+function allowedBaseUrlOrigins(): string[] {
+  return (process.env.AI_BASE_URL_ALLOWLIST || "")
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .flatMap(entry => {
+      try {
+        return [new URL(entry).origin];
+      } catch {
+        console.warn(`⚠️ Ignoring invalid AI_BASE_URL_ALLOWLIST entry: ${entry}`);
+        return [];
+      }
+    });
+}
+
+export function isAllowedAIBaseUrl(url: string): boolean {
+  try {
+    return allowedBaseUrlOrigins().includes(new URL(url).origin);
+  } catch {
+    return false;
+  }
+}
+
+// Local model servers (vLLM, Ollama, LM Studio...) that speak the OpenAI API
+aiProviders.register("openai-compatible", (user) => {
+  // Checked again here since the allowlist may have changed after the URL was saved
+  if (user.aiBaseUrl && !isAllowedAIBaseUrl(user.aiBaseUrl)) {
+    throw new Error(`AI base URL ${user.aiBaseUrl} is not allowed. Ask an administrator to add it to AI_BASE_URL_ALLOWLIST.`);
+  }
+  const baseURL = user.aiBaseUrl || process.env.AI_BASE_URL;
+  const model = user.aiModel || process.env.AI_MODEL;
+  if (!baseURL || !model) {
+    throw new Error("OpenAI-compatible provider needs a base URL and model name. Please set them in settings.");
+  }
+
+  console.log(`🎯 Using OpenAI-compatible server: ${baseURL} with model: ${model}`);
+  // Most local servers ignore the key but the client requires one
+  return new OpenAIService(user.openaiApiKey || process.env.AI_API_KEY || "not-needed", {
+    baseURL,
+    model,
+    streamUsage: false,
+  });
+});
+
+// Canned answers are never acceptable for real cases
+if (process.env.NODE_ENV !== "production") {
+  aiProviders.register("mock", () => new MockAIService());
+}
+
+// Provider used when the user hasn't picked one explicitly
+function detectProvider(user: User): string | null {
+  if (user.useAzureOpenAI && user.azureOpenAIEndpoint && user.azureModelDeployment
+    && (user.azureOpenAIApiKey || process.env.AZURE_OPENAI_KEY)) {
+    return "azure-openai";
+  }
+  if (user.openaiApiKey) {
+    return "openai";
+  }
+  return null;
+}
+
+// AI_PROVIDER overrides every user's choice, e.g. AI_PROVIDER=mock for tests and offline runs
+export function createAIService(user: User): AIServiceInterface {
+  const name = process.env.AI_PROVIDER || user.aiProvider || detectProvider(user);
+  if (!name) {
+    throw new Error("No AI service configuration found. Please configure OpenAI or Azure OpenAI in settings.");
+  }
+  return aiProviders.create(name, user);
+}
@@ -1,212 +1,194 @@
 import OpenAI from "openai";
-import { User } from "@shared/schema";
-
+import type { z } from "zod";
+import { renderDefaultPrompt, type DemandLetterBillVariable, type DemandLetterDocumentVariable } from "./promptTemplates";
+import {
+  documentAnalysisSchema,
+  billExtractionSchema,
+  demandLetterDraftSchema,
+  parseAIOutput,
+  repairInstructions,
+  AIOutputValidationError,
+  type DocumentAnalysis,
+  type ExtractedBill,
+  type DemandLetterDraft,
+} from "./aiOutputSchemas";
+
+// The optional customPrompt is a fully rendered prompt (see promptTemplates.ts) that replaces
+// the built-in one for that call. analyzeDocument, extractMedicalBills and generateDemandLetter
+// validate the model's answer (see aiOutputSchemas.ts) and throw AIOutputValidationError when it
+// can't be repaired.
 export interface AIServiceInterface {
-  analyzeDocument(content: string, fileName: string): Promise<{
-    summary: string;
-    extractedData: any;
-    keyFindings: string[];
-  }>;
+  analyzeDocument(content: string, fileName: string, customPrompt?: string): Promise<DocumentAnalysis>;
   
-  extractMedicalBills(content: string, fileName: string): Promise<any[]>;
+  extractMedicalBills(content: string, fileName: string, customPrompt?: string): Promise<ExtractedBill[]>;
   
-  generateDemandLetter(caseData: any, documents: any[], medicalBills: any[]): Promise<string>;
+  generateDemandLetter(
+    caseData: any,
+    documents: DemandLetterDocumentVariable[],
+    medicalBills: DemandLetterBillVariable[],
+    customPrompt?: string
+  ): Promise<DemandLetterDraft>;
   
   chatCompletion(messages: any[], systemPrompt?: string): Promise<string>;
+
+  // Same as chatCompletion but yields the answer as it is generated; aborting the signal stops the request
+  chatCompletionStream(messages: any[], systemPrompt?: string, signal?: AbortSignal): AsyncGenerator<string>;
+
+  // Model and token usage of the most recent completion call
+  getLastUsage(): AIUsage | null;
 }
 
-export class OpenAIService implements AIServiceInterface {
-  private client: OpenAI;
+export interface AIUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
 
-  constructor(apiKey: string) {
-    this.client = new OpenAI({ apiKey });
+function toUsage(response: OpenAI.Chat.Completions.ChatCompletion): AIUsage {
+  return {
+    model: response.model,
+    promptTokens: response.usage?.prompt_tokens || 0,
+    completionTokens: response.usage?.completion_tokens || 0,
+    totalTokens: response.usage?.total_tokens || 0,
+  };
+}
+
+// Yields the content deltas of a streamed completion and reports usage once the stream ends
+async function* readCompletionStream(
+  stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>,
+  onUsage: (usage: AIUsage) => void
+): AsyncGenerator<string> {
+  let model = "";
+  let usage: OpenAI.CompletionUsage | null | undefined;
+
+  for await (const chunk of stream) {
+    model = chunk.model || model;
+    usage = chunk.usage || usage;
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) yield delta;
   }
 
-  async extractMedicalBills(content: string, fileName: string): Promise<any[]> {
-    const prompt = `Extract ALL medical bills, invoices, and billing information from this medical document:
+  onUsage({
+    model,
+    promptTokens: usage?.prompt_tokens || 0,
+    completionTokens: usage?.completion_tokens || 0,
+    totalTokens: usage?.total_tokens || 0,
+  });
+}
 
-Document: ${fileName}
-Content: ${content}
+// Repair attempts after the first answer, each sending the validation problems back to the model
+const MAX_REPAIR_ATTEMPTS = 2;
+
+function addUsage(total: AIUsage | null, usage: AIUsage): AIUsage {
+  if (!total) return usage;
+  return {
+    model: usage.model,
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
 
-For each medical bill found, extract:
-- provider (hospital/clinic/doctor name)
-- amount (total bill amount in dollars)
-- serviceDate (date service was provided, format: YYYY-MM-DD)
-- billDate (date bill was issued, format: YYYY-MM-DD)
-- treatment (description of treatment/service provided)
-- insurance (insurance company/plan mentioned)
-- status (use "pending" as default)
+// Requests JSON and validates it against the schema. An invalid answer is returned to the model
+// along with its problems until it passes or the repair attempts run out. Usage covers every attempt.
+async function completeValidatedJson<T>(
+  complete: (messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]) => Promise<OpenAI.Chat.Completions.ChatCompletion>,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  onUsage: (usage: AIUsage) => void
+): Promise<T> {
+  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [{ role: "user", content: prompt }];
+  let usage: AIUsage | null = null;
+  let problems: string[] = [];
+  let raw = "";
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const response = await complete(messages);
+    usage = addUsage(usage, toUsage(response));
+    onUsage(usage);
+
+    raw = response.choices[0].message.content || "";
+    const result = parseAIOutput(raw, schema);
+    if (result.success) {
+      return result.data;
+    }
 
-If multiple bills or line items exist, extract each as a separate bill.
-If dates are unclear, use best estimate based on context.
-If amount includes currency symbols, remove them and provide numeric value only.
+    problems = result.problems;
+    console.warn(`⚠️ AI response failed validation (attempt ${attempt + 1}):`, problems.join("; "));
+    messages.push({ role: "assistant", content: raw }, { role: "user", content: repairInstructions(problems) });
+  }
 
-Format as JSON array of bills: [{"provider": "...", "amount": "...", "serviceDate": "...", "billDate": "...", "treatment": "...", "insurance": "...", "status": "pending"}]
+  throw new AIOutputValidationError(problems, raw, MAX_REPAIR_ATTEMPTS + 1);
+}
 
-If no medical bills found, return empty array: []`;
+export function isAbortError(error: unknown): boolean {
+  return error instanceof OpenAI.APIUserAbortError || (error instanceof Error && error.name === "AbortError");
+}
 
-    try {
-      const response = await this.client.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-        messages: [{ role: "user", content: prompt }],
+export class OpenAIService implements AIServiceInterface {
+  private client: OpenAI;
+  private lastUsage: AIUsage | null = null;
+  private model: string;
+  private streamUsage: boolean;
+
+  // baseURL points the client at any OpenAI-compatible server (vLLM, Ollama, LM Studio...)
+  constructor(apiKey: string, options: { baseURL?: string; model?: string; streamUsage?: boolean } = {}) {
+    this.client = new OpenAI({ apiKey, baseURL: options.baseURL });
+    this.model = options.model || "gpt-4o"; // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    this.streamUsage = options.streamUsage ?? true;
+  }
+
+  private completeJson<T>(prompt: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+    return completeValidatedJson(
+      (messages) => this.client.chat.completions.create({
+        model: this.model,
+        messages,
         response_format: { type: "json_object" },
-      });
+      }),
+      prompt,
+      schema,
+      (usage) => { this.lastUsage = usage; }
+    );
+  }
+
+  async extractMedicalBills(content: string, fileName: string, customPrompt?: string): Promise<ExtractedBill[]> {
+    const prompt = customPrompt ?? renderDefaultPrompt('bill_extraction', { fileName, content });
 
-      const result = JSON.parse(response.choices[0].message.content || "{}");
-      
-      // Handle both array format and object with bills property
-      if (Array.isArray(result)) {
-        return result;
-      } else if (result.bills && Array.isArray(result.bills)) {
-        return result.bills;
-      } else {
-        return [];
-      }
+    try {
+      const result = await this.completeJson(prompt, billExtractionSchema);
+      return result.bills;
     } catch (error) {
+      if (error instanceof AIOutputValidationError) throw error;
       console.error("Error extracting medical bills with OpenAI:", error);
-      return [];
+      throw new Error("Failed to extract medical bills");
     }
   }
 
-  async analyzeDocument(content: string, fileName: string) {
-    const prompt = `Analyze this legal/medical document for a Personal Injury case and extract comprehensive information. Focus on creating a medical chronology suitable for demand packages and legal preparation.
-
-Document: ${fileName}
-Content: ${content}
-
-Extract and return a JSON object with the following structure for Personal Injury legal purposes:
-{
-  "summary": "A detailed narrative summary of this particular bill/record that has been analyzed, focusing on the medical story and legal significance",
-  "extractedData": {
-    "patientInfo": {
-      "patientName": "Full patient name",
-      "dateOfBirth": "Date of birth or age",
-      "gender": "Patient gender", 
-      "address": "Patient address",
-      "insurance": "Insurance details (Auto, Health, VA, Medicare, etc.)",
-      "accidentDate": "Date of accident/incident"
-    },
-    "medicalInfo": {
-      "injuryDiagnoses": [
-        {
-          "diagnosis": "cervical strain",
-          "icd10Code": "M54.2",
-          "narrative": "Detailed description of the injury"
-        }
-      ],
-      "proceduresPerformed": [
-        {
-          "procedure": "MRI Lumbar Spine",
-          "cptCode": "72148", 
-          "description": "Detailed procedure description including findings"
-        }
-      ],
-      "diagnostics": [
-        {
-          "test": "X-ray Cervical Spine",
-          "results": "Key impressions and findings (e.g., herniated disc at L4-5, fracture)",
-          "significance": "Legal significance of findings"
-        }
-      ],
-      "treatmentRecommendations": [
-        "Physical therapy 2-3x per week",
-        "Pain management consult for epidural injections",
-        "Orthopedic surgery consultation"
-      ]
-    },
-    "painSymptomReports": {
-      "painScaleReports": ["Pain scale 7/10 in lower back", "Headache 5/10"],
-      "functionalLimitations": ["Cannot lift over 10 lbs", "Cannot sit for more than 30 minutes", "Difficulty driving"],
-      "subjectiveComplaints": ["Persistent headaches", "Dizziness", "Numbness in left arm"]
-    },
-    "timeline": [
-      {
-        "eventDate": "2024-09-03",
-        "eventType": "First Diagnostic Testing",
-        "facilityProvider": "Pinnacle Healthcare Radiology",
-        "narrativeSummary": "James underwent multiple imaging procedures after the accident, beginning with CT Abdomen and Pelvis with Contrast showing no acute trauma but degenerative changes",
-        "cost": "$413.00"
-      }
-    ],
-    "providerInfo": {
-      "facilityName": "Medical facility name",
-      "treatingProviderName": "Dr. Name",
-      "specialty": "Orthopedics/Pain Management/etc",
-      "locationAddress": "Full facility address",
-      "referralChain": ["PCP → Orthopedist → Pain Management"]
-    },
-    "billingFinancials": {
-      "serviceCharges": [
-        {
-          "service": "CT Scan with contrast",
-          "cptCode": "74177",
-          "amount": "$2,660.00"
-        }
-      ],
-      "outstandingBalance": "$1,697.00",
-      "paymentsAdjustments": "Insurance payments and write-offs",
-      "duplicateCharges": "Any duplicate charges flagged"
-    },
-    "prognosisFutureCare": {
-      "physiciansPrognosis": "Temporary vs permanent impairment assessment",
-      "futureMedicalRecommendations": ["Ongoing PT", "Possible surgery", "Pain management"],
-      "anticipatedCosts": "Future cost estimates if mentioned"
-    },
-    "complicationsNotes": {
-      "preExistingConditions": "Any pre-existing conditions noted",
-      "accidentRelatedAggravations": "How accident aggravated existing conditions",
-      "delaysInCare": "Treatment delays or gaps in care",
-      "complianceIssues": "Missed appointments, early discharge, etc."
-    }
-  },
-  "keyFindings": ["Critical findings that support the legal case and demonstrate injury causation"]
-}
-
-IMPORTANT: Extract ALL specific details including exact dates, dollar amounts, provider names, diagnostic codes, and medical findings. Create a narrative that tells the medical story chronologically and focuses on how this document supports the personal injury claim.`;
+  async analyzeDocument(content: string, fileName: string, customPrompt?: string): Promise<DocumentAnalysis> {
+    const prompt = customPrompt ?? renderDefaultPrompt('document_analysis', { fileName, content });
 
     try {
-      const response = await this.client.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-        messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
-      });
-
-      const result = JSON.parse(response.choices[0].message.content || "{}");
-      
-      // Ensure the response has the expected structure
-      return {
-        summary: result.summary || "Document analyzed successfully.",
-        extractedData: result.extractedData || {},
-        keyFindings: result.keyFindings || []
-      };
+      return await this.completeJson(prompt, documentAnalysisSchema);
     } catch (error) {
+      if (error instanceof AIOutputValidationError) throw error;
       console.error("Error analyzing document with OpenAI:", error);
       throw new Error("Failed to analyze document");
     }
   }
 
-  async generateDemandLetter(caseData: any, documents: any[], medicalBills: any[]) {
-    const prompt = `Generate a professional demand letter for this legal case:
-
-Case Details: ${JSON.stringify(caseData)}
-Documents: ${JSON.stringify(documents)}
-Medical Bills: ${JSON.stringify(medicalBills)}
-
-Create a comprehensive demand letter that includes:
-- Case summary
-- Medical findings
-- Financial damages
-- Legal basis for claim
-- Professional legal language`;
+  async generateDemandLetter(
+    caseData: any,
+    documents: DemandLetterDocumentVariable[],
+    medicalBills: DemandLetterBillVariable[],
+    customPrompt?: string
+  ) {
+    const prompt = customPrompt ?? renderDefaultPrompt('demand_letter', { case: caseData, documents, bills: medicalBills });
 
     try {
-      const response = await this.client.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-        messages: [{ role: "user", content: prompt }],
-      });
-
-      return response.choices[0].message.content || "";
+      return await this.completeJson(prompt, demandLetterDraftSchema);
     } catch (error) {
+      if (error instanceof AIOutputValidationError) throw error;
       console.error("Error generating demand letter with OpenAI:", error);
       throw new Error("Failed to generate demand letter");
     }
@@ -219,9 +201,10 @@ Create a comprehensive demand letter that includes:
         : messages;
 
       const response = await this.client.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+        model: this.model,
         messages: chatMessages,
       });
+      this.lastUsage = toUsage(response);
 
       return response.choices[0].message.content || "";
     } catch (error) {
@@ -229,11 +212,37 @@ Create a comprehensive demand letter that includes:
       throw new Error("Failed to complete chat request");
     }
   }
+
+  async *chatCompletionStream(messages: any[], systemPrompt?: string, signal?: AbortSignal) {
+    try {
+      const chatMessages = systemPrompt 
+        ? [{ role: "system", content: systemPrompt }, ...messages]
+        : messages;
+
+      const stream = await this.client.chat.completions.create({
+        model: this.model,
+        messages: chatMessages,
+        stream: true,
+        ...(this.streamUsage ? { stream_options: { include_usage: true } } : {}),
+      }, { signal });
+
+      yield* readCompletionStream(stream, (usage) => { this.lastUsage = usage; });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error("Error with OpenAI chat completion stream:", error);
+      throw new Error("Failed to complete chat request");
+    }
+  }
+
+  getLastUsage() {
+    return this.lastUsage;
+  }
 }
 
 export class AzureOpenAIService implements AIServiceInterface {
   private client: OpenAI;
   private deploymentName: string;
+  private lastUsage: AIUsage | null = null;
 
   constructor(endpoint: string, apiKey: string, apiVersion: string, deploymentName: string) {
     this.client = new OpenAI({
@@ -247,193 +256,56 @@ export class AzureOpenAIService implements AIServiceInterface {
     this.deploymentName = deploymentName;
   }
 
-  async analyzeDocument(content: string, fileName: string) {
-    const prompt = `Analyze this legal/medical document for a Personal Injury case and extract comprehensive information. Focus on creating a medical chronology suitable for demand packages and legal preparation.
-
-Document: ${fileName}
-Content: ${content}
-
-Extract and return a JSON object with the following structure for Personal Injury legal purposes:
-{
-  "summary": "A detailed narrative summary of this particular bill/record that has been analyzed, focusing on the medical story and legal significance",
-  "extractedData": {
-    "patientInfo": {
-      "patientName": "Full patient name",
-      "dateOfBirth": "Date of birth or age",
-      "gender": "Patient gender", 
-      "address": "Patient address",
-      "insurance": "Insurance details (Auto, Health, VA, Medicare, etc.)",
-      "accidentDate": "Date of accident/incident"
-    },
-    "medicalInfo": {
-      "injuryDiagnoses": [
-        {
-          "diagnosis": "cervical strain",
-          "icd10Code": "M54.2",
-          "narrative": "Detailed description of the injury"
-        }
-      ],
-      "proceduresPerformed": [
-        {
-          "procedure": "MRI Lumbar Spine",
-          "cptCode": "72148", 
-          "description": "Detailed procedure description including findings"
-        }
-      ],
-      "diagnostics": [
-        {
-          "test": "X-ray Cervical Spine",
-          "results": "Key impressions and findings (e.g., herniated disc at L4-5, fracture)",
-          "significance": "Legal significance of findings"
-        }
-      ],
-      "treatmentRecommendations": [
-        "Physical therapy 2-3x per week",
-        "Pain management consult for epidural injections",
-        "Orthopedic surgery consultation"
-      ]
-    },
-    "painSymptomReports": {
-      "painScaleReports": ["Pain scale 7/10 in lower back", "Headache 5/10"],
-      "functionalLimitations": ["Cannot lift over 10 lbs", "Cannot sit for more than 30 minutes", "Difficulty driving"],
-      "subjectiveComplaints": ["Persistent headaches", "Dizziness", "Numbness in left arm"]
-    },
-    "timeline": [
-      {
-        "eventDate": "2024-09-03",
-        "eventType": "First Diagnostic Testing",
-        "facilityProvider": "Pinnacle Healthcare Radiology",
-        "narrativeSummary": "James underwent multiple imaging procedures after the accident, beginning with CT Abdomen and Pelvis with Contrast showing no acute trauma but degenerative changes",
-        "cost": "$413.00"
-      }
-    ],
-    "providerInfo": {
-      "facilityName": "Medical facility name",
-      "treatingProviderName": "Dr. Name",
-      "specialty": "Orthopedics/Pain Management/etc",
-      "locationAddress": "Full facility address",
-      "referralChain": ["PCP → Orthopedist → Pain Management"]
-    },
-    "billingFinancials": {
-      "serviceCharges": [
-        {
-          "service": "CT Scan with contrast",
-          "cptCode": "74177",
-          "amount": "$2,660.00"
-        }
-      ],
-      "outstandingBalance": "$1,697.00",
-      "paymentsAdjustments": "Insurance payments and write-offs",
-      "duplicateCharges": "Any duplicate charges flagged"
-    },
-    "prognosisFutureCare": {
-      "physiciansPrognosis": "Temporary vs permanent impairment assessment",
-      "futureMedicalRecommendations": ["Ongoing PT", "Possible surgery", "Pain management"],
-      "anticipatedCosts": "Future cost estimates if mentioned"
-    },
-    "complicationsNotes": {
-      "preExistingConditions": "Any pre-existing conditions noted",
-      "accidentRelatedAggravations": "How accident aggravated existing conditions",
-      "delaysInCare": "Treatment delays or gaps in care",
-      "complianceIssues": "Missed appointments, early discharge, etc."
-    }
-  },
-  "keyFindings": ["Critical findings that support the legal case and demonstrate injury causation"]
-}
-
-IMPORTANT: Extract ALL specific details including exact dates, dollar amounts, provider names, diagnostic codes, and medical findings. Create a narrative that tells the medical story chronologically and focuses on how this document supports the personal injury claim.`;
-
-    try {
-      const response = await this.client.chat.completions.create({
+  private completeJson<T>(prompt: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+    return completeValidatedJson(
+      (messages) => this.client.chat.completions.create({
         model: this.deploymentName,
-        messages: [{ role: "user", content: prompt }],
+        messages,
         response_format: { type: "json_object" },
-      });
+      }),
+      prompt,
+      schema,
+      (usage) => { this.lastUsage = usage; }
+    );
+  }
+
+  async analyzeDocument(content: string, fileName: string, customPrompt?: string): Promise<DocumentAnalysis> {
+    const prompt = customPrompt ?? renderDefaultPrompt('document_analysis', { fileName, content });
 
-      console.log("Raw Azure OpenAI response:", response.choices[0].message.content);
-      const result = JSON.parse(response.choices[0].message.content || "{}");
-      console.log("Parsed result:", JSON.stringify(result, null, 2));
-      
-      // Ensure the response has the expected structure
-      return {
-        summary: result.summary || "Document analyzed successfully.",
-        extractedData: result.extractedData || {},
-        keyFindings: result.keyFindings || []
-      };
+    try {
+      return await this.completeJson(prompt, documentAnalysisSchema);
     } catch (error) {
+      if (error instanceof AIOutputValidationError) throw error;
       console.error("Error analyzing document with Azure OpenAI:", error);
       throw new Error("Failed to analyze document");
     }
   }
 
-  async extractMedicalBills(content: string, fileName: string): Promise<any[]> {
-    const prompt = `Extract ALL medical bills, invoices, and billing information from this medical document:
-
-Document: ${fileName}
-Content: ${content}
-
-For each medical bill found, extract:
-- provider (hospital/clinic/doctor name)
-- amount (total bill amount in dollars)
-- serviceDate (date service was provided, format: YYYY-MM-DD)
-- billDate (date bill was issued, format: YYYY-MM-DD)
-- treatment (description of treatment/service provided)
-- insurance (insurance company/plan mentioned)
-- status (use "pending" as default)
-
-If multiple bills or line items exist, extract each as a separate bill.
-If dates are unclear, use best estimate based on context.
-If amount includes currency symbols, remove them and provide numeric value only.
-
-Format as JSON object with bills array: {"bills": [{"provider": "...", "amount": "...", "serviceDate": "...", "billDate": "...", "treatment": "...", "insurance": "...", "status": "pending"}]}
-
-If no medical bills found, return: {"bills": []}`;
+  async extractMedicalBills(content: string, fileName: string, customPrompt?: string): Promise<ExtractedBill[]> {
+    const prompt = customPrompt ?? renderDefaultPrompt('bill_extraction', { fileName, content });
 
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.deploymentName,
-        messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
-      });
-
-      const result = JSON.parse(response.choices[0].message.content || "{}");
-      
-      // Handle both array format and object with bills property
-      if (Array.isArray(result)) {
-        return result;
-      } else if (result.bills && Array.isArray(result.bills)) {
-        return result.bills;
-      } else {
-        return [];
-      }
+      const result = await this.completeJson(prompt, billExtractionSchema);
+      return result.bills;
     } catch (error) {
+      if (error instanceof AIOutputValidationError) throw error;
       console.error("Error extracting medical bills with Azure OpenAI:", error);
-      return [];
+      throw new Error("Failed to extract medical bills");
     }
   }
 
-  async generateDemandLetter(caseData: any, documents: any[], medicalBills: any[]) {
-    const prompt = `Generate a professional demand letter for this legal case:
-
-Case Details: ${JSON.stringify(caseData)}
-Documents: ${JSON.stringify(documents)}
-Medical Bills: ${JSON.stringify(medicalBills)}
-
-Create a comprehensive demand letter that includes:
-- Case summary
-- Medical findings
-- Financial damages
-- Legal basis for claim
-- Professional legal language`;
+  async generateDemandLetter(
+    caseData: any,
+    documents: DemandLetterDocumentVariable[],
+    medicalBills: DemandLetterBillVariable[],
+    customPrompt?: string
+  ) {
+    const prompt = customPrompt ?? renderDefaultPrompt('demand_letter', { case: caseData, documents, bills: medicalBills });
 
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.deploymentName,
-        messages: [{ role: "user", content: prompt }],
-      });
-
-      return response.choices[0].message.content || "";
+      return await this.completeJson(prompt, demandLetterDraftSchema);
     } catch (error) {
+      if (error instanceof AIOutputValidationError) throw error;
       console.error("Error generating demand letter with Azure OpenAI:", error);
       throw new Error("Failed to generate demand letter");
     }
@@ -449,6 +321,7 @@ Create a comprehensive demand letter that includes:
         model: this.deploymentName,
         messages: chatMessages,
       });
+      this.lastUsage = toUsage(response);
 
       return response.choices[0].message.content || "";
     } catch (error) {
@@ -456,29 +329,29 @@ Create a comprehensive demand letter that includes:
       throw new Error("Failed to complete chat request");
     }
   }
-}
 
-export function createAIService(user: User): AIServiceInterface {
-  // Use Azure OpenAI if user has it enabled and endpoint configured
-  if (user.useAzureOpenAI && user.azureOpenAIEndpoint && user.azureModelDeployment) {
-    // Use environment variable for API key if user doesn't have one stored
-    const apiKey = user.azureOpenAIApiKey || process.env.AZURE_OPENAI_KEY;
-    
-    if (apiKey) {
-      console.log(`🎯 Using Azure OpenAI: ${user.azureOpenAIEndpoint} with deployment: ${user.azureModelDeployment}`);
-      return new AzureOpenAIService(
-        user.azureOpenAIEndpoint,
-        apiKey,
-        user.azureOpenAIVersion || "2024-02-15-preview",
-        user.azureModelDeployment
-      );
+  async *chatCompletionStream(messages: any[], systemPrompt?: string, signal?: AbortSignal) {
+    try {
+      const chatMessages = systemPrompt 
+        ? [{ role: "system", content: systemPrompt }, ...messages]
+        : messages;
+
+      // stream_options isn't accepted by older Azure API versions, so token counts aren't reported here
+      const stream = await this.client.chat.completions.create({
+        model: this.deploymentName,
+        messages: chatMessages,
+        stream: true,
+      }, { signal });
+
+      yield* readCompletionStream(stream, (usage) => { this.lastUsage = usage; });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error("Error with Azure OpenAI chat completion stream:", error);
+      throw new Error("Failed to complete chat request");
     }
   }
-  
-  // Fallback to regular OpenAI if available
-  if (user.openaiApiKey) {
-    return new OpenAIService(user.openaiApiKey);
-  } else {
-    throw new Error("No AI service configuration found. Please configure OpenAI or Azure OpenAI in settings.");
+
+  getLastUsage() {
+    return this.lastUsage;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,194 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { AuditChanges, AuditEvent } from "@shared/schema";
+
+// Records an audit event for every mutation and every read of PHI (documents, downloads, AI chat,
+// exports and anything inside a case) once the response has been sent. The route pattern gives the
+// action and entity; handlers add what only they know through res.locals.audit: authorizeCase notes
+// the case, and updates and deletes record the before/after state with recordAuditChange.
+
+type AuditContext = {
+  caseId?: string;
+  organizationId?: string;
+  changes?: AuditChanges;
+};
+
+// Bookkeeping fields whose changes say nothing about who changed what
+const IGNORED_CHANGE_FIELDS = new Set(["updatedAt", "searchVector", "embedding"]);
+
+const PHI_READ_PATTERN = /\/(documents|chat|download|export)\b|^\/objects\//;
+// Polled every few seconds while a job runs; the job's case was already audited when it was started
+const UNAUDITED_READ_PATTERN = /^\/api\/jobs\b/;
+
+export function auditContext(res: Response): AuditContext {
+  if (!res.locals.audit) {
+    res.locals.audit = {};
+  }
+  return res.locals.audit;
+}
+
+// Keeps the first case authorized for the request; later ones are lookups made along the way
+export function noteAuditCase(res: Response, caseId: string) {
+  const context = auditContext(res);
+  if (!context.caseId) {
+    context.caseId = caseId;
+  }
+}
+
+// Field-level diff of a record before and after a change. Pass undefined for the missing side of a
+// create or delete.
+export function recordAuditChange(res: Response, before: object | undefined, after: object | undefined) {
+  // Round-trip through JSON so dates and decimals compare and store the way they're sent
+  const beforeFields: Record<string, unknown> = before ? JSON.parse(JSON.stringify(before)) : {};
+  const afterFields: Record<string, unknown> = after ? JSON.parse(JSON.stringify(after)) : {};
+
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+  fields.forEach((field) => {
+    if (IGNORED_CHANGE_FIELDS.has(field)) return;
+    const beforeValue = beforeFields[field] ?? null;
+    const afterValue = afterFields[field] ?? null;
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[field] = { before: beforeValue, after: afterValue };
+    }
+  });
+  auditContext(res).changes = changes;
+}
+
+function singular(segment: string): string {
+  const name = segment.replace(/-/g, "_");
+  return name.endsWith("s") && !name.endsWith("ss") ? name.slice(0, -1) : name;
+}
+
+// The entity is the last "collection/:param" pair of the route, e.g. /api/chat/sessions/:id ->
+// chat_session. A POST that created something names the new record instead.
+function auditEntity(segments: string[], params: Record<string, string>, createdId: string | undefined) {
+  let entityType: string | null = null;
+  let entityId: string | null = null;
+  let collection: string[] = [];
+
+  for (const segment of segments) {
+    if (segment.startsWith(":")) {
+      if (collection.length > 0) {
+        entityType = [...collection.slice(0, -1), singular(collection[collection.length - 1])].join("_");
+        entityId = params[segment.slice(1).replace(/\(.*$/, "")] ?? null;
+      }
+      collection = [];
+    } else {
+      collection.push(segment);
+    }
+  }
+
+  if (createdId && collection.length > 0) {
+    return { entityType: singular(collection[collection.length - 1]), entityId: createdId };
+  }
+  return { entityType, entityId };
+}
+
+function auditAction(method: string, path: string, segments: string[], createdId: string | undefined): string {
+  if (/\/download$/.test(path) || path.startsWith("/objects/")) return "download";
+  if (/\/export\b/.test(path)) return "export";
+  if (/\/chat\b/.test(path)) return "chat";
+
+  switch (method) {
+    case "GET":
+      return "view";
+    case "PUT":
+    case "PATCH":
+      return "update";
+    case "DELETE":
+      return "delete";
+    default: {
+      // POSTs that don't create a record are named after what they do, e.g. extract-bills
+      const last = segments[segments.length - 1];
+      return createdId || segments.length < 2 || last.startsWith(":") ? "create" : last;
+    }
+  }
+}
+
+function shouldAudit(req: Request, path: string, context: AuditContext): boolean {
+  if (req.method !== "GET" && req.method !== "HEAD") return true;
+  if (UNAUDITED_READ_PATTERN.test(path)) return false;
+  return context.caseId !== undefined || PHI_READ_PATTERN.test(path);
+}
+
+export function auditTrail(req: Request, res: Response, next: NextFunction) {
+  let createdId: string | undefined;
+  const originalJson = res.json;
+  res.json = function (body, ...args) {
+    if (body && typeof body === "object" && typeof body.id === "string") {
+      createdId = body.id;
+    }
+    return originalJson.apply(res, [body, ...args]);
+  };
+
+  res.on("finish", async () => {
+    const actorId: string | undefined = (req as any).user?.id;
+    // Only requests that reached a route; static files and unauthenticated requests aren't audited
+    if (!req.route || !actorId) return;
+
+    const path = `${req.baseUrl}${req.route.path}`;
+    const context = auditContext(res);
+    if (!shouldAudit(req, path, context)) return;
+
+    const segments = path.split("/").filter((segment) => segment && segment !== "api");
+    // Routes answer a create with 201 and the new record
+    const created = req.method === "POST" && res.statusCode === 201 ? createdId : undefined;
+
+    try {
+      const organizationId = context.organizationId
+        ?? (await storage.getOrganizationMembership(actorId))?.organizationId
+        ?? null;
+
+      await storage.createAuditEvent({
+        actorId,
+        organizationId,
+        action: auditAction(req.method, path, segments, created),
+        ...auditEntity(segments, req.params, created),
+        caseId: context.caseId ?? null,
+        method: req.method,
+        path,
+        statusCode: res.statusCode,
+        ipAddress: req.ip ?? null,
+        userAgent: req.get("user-agent") ?? null,
+        changes: context.changes ?? null,
+      });
+    } catch (error) {
+      console.error("Error recording audit event:", error);
+    }
+  });
+
+  next();
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditEventsToCsv(events: Array<AuditEvent & { actorUsername: string | null }>): string {
+  const header = [
+    "sequence", "timestamp", "actor_id", "actor", "action", "entity_type", "entity_id", "case_id",
+    "method", "path", "status", "ip_address", "user_agent", "changes", "prev_hash", "hash",
+  ];
+  const rows = events.map((event) => [
+    event.sequence,
+    event.createdAt.toISOString(),
+    event.actorId,
+    event.actorUsername,
+    event.action,
+    event.entityType,
+    event.entityId,
+    event.caseId,
+    event.method,
+    event.path,
+    event.statusCode,
+    event.ipAddress,
+    event.userAgent,
+    event.changes,
+    event.prevHash,
+    event.hash,
+  ].map(csvField).join(","));
+  return [header.join(","), ...rows].join("\n");
+}
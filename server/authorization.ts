@@ -0,0 +1,94 @@
+import { storage } from "./storage";
+import { noteAuditCase } from "./auditLog";
+import type { Case, OrganizationRole } from "@shared/schema";
+
+// Who can do what on a case. Routes that read or change case data (documents, bills, liens,
+// letters, chat) go through these helpers rather than comparing user ids themselves.
+//
+// A case outside any firm is only open to the user who created it. A firm case is open to members
+// of that firm: admins can open every case, everyone else the cases they created or were put on
+// the team of, with what they can do there set by their role. Leaving a firm ends access to its
+// cases, including the ones the user created.
+
+export const CASE_ACCESS_LEVELS = ['view', 'edit', 'manage'] as const;
+// view: read the case and everything in it, and ask the AI about it
+// edit: upload and analyze documents, work the bills and liens, draft letters
+// manage: approve and send letters, choose the case team and delete the case
+export type CaseAccess = typeof CASE_ACCESS_LEVELS[number];
+
+const ROLE_ACCESS: Record<OrganizationRole, CaseAccess> = {
+  admin: 'manage',
+  attorney: 'manage',
+  paralegal: 'edit',
+  read_only: 'view',
+};
+
+// Keep in step with DatabaseStorage.accessibleCases, which lists the same cases in one query
+export async function getCaseAccess(caseData: Case, userId: string): Promise<CaseAccess | null> {
+  if (!caseData.organizationId) {
+    return caseData.createdBy === userId ? 'manage' : null;
+  }
+
+  const membership = await storage.getOrganizationMembership(userId);
+  if (!membership || membership.organizationId !== caseData.organizationId) return null;
+
+  const role = membership.role as OrganizationRole;
+  if (role === 'admin') return 'manage';
+  if (caseData.createdBy === userId || await storage.isAssignedToCase(caseData.id, userId)) {
+    return ROLE_ACCESS[role] ?? null;
+  }
+  return null;
+}
+
+export function hasCaseAccess(access: CaseAccess | null, required: CaseAccess): boolean {
+  return access !== null && CASE_ACCESS_LEVELS.indexOf(access) >= CASE_ACCESS_LEVELS.indexOf(required);
+}
+
+// Loads a case the user has at least the required access to. Like the route helpers, it sends the
+// error response itself and returns undefined when the case can't be used.
+export async function authorizeCase(caseId: string, userId: string, required: CaseAccess, res: any) {
+  const caseData = await storage.getCaseById(caseId);
+  if (!caseData) {
+    res.status(404).json({ message: "Case not found" });
+    return undefined;
+  }
+  // Denied attempts are audited against the case too
+  noteAuditCase(res, caseData.id);
+  if (!hasCaseAccess(await getCaseAccess(caseData, userId), required)) {
+    res.status(403).json({ message: "Access denied" });
+    return undefined;
+  }
+  return caseData;
+}
+
+// Documents are shared with everyone working their case, whoever uploaded them
+export async function authorizeDocument(documentId: string, userId: string, required: CaseAccess, res: any) {
+  const document = await storage.getDocumentById(documentId);
+  if (!document) {
+    res.status(404).json({ message: "Document not found" });
+    return undefined;
+  }
+  if (!(await authorizeCase(document.caseId, userId, required, res))) return undefined;
+  return document;
+}
+
+// Chat sessions stay personal; one about a case also needs the user to still be able to view it
+export async function authorizeChatSession(sessionId: string, userId: string, res: any) {
+  const session = await storage.getChatSessionById(sessionId);
+  if (!session) {
+    res.status(404).json({ message: "Chat session not found" });
+    return undefined;
+  }
+  if (session.userId !== userId) {
+    res.status(403).json({ message: "Access denied" });
+    return undefined;
+  }
+  if (session.caseId && !(await authorizeCase(session.caseId, userId, 'view', res))) return undefined;
+  return session;
+}
+
+// New cases go into the user's firm, so read-only members can't open them
+export async function canCreateCases(userId: string): Promise<boolean> {
+  const membership = await storage.getOrganizationMembership(userId);
+  return !membership || membership.role !== 'read_only';
+}
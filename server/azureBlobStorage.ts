@@ -11,9 +11,16 @@ export const CONTAINERS = {
   DOCUMENTS: 'documents',
   MEDICAL_BILLS: 'medical-bills', 
   PROCESSED: 'processed-documents',
-  TEMP: 'temp-uploads'
+  TEMP: 'temp-uploads',
+  LETTERHEADS: 'letterheads'
 } as const;
 
+// "container/blob" paths as stored on documents and letterheads
+export function splitObjectPath(objectPath: string): { containerName: string; blobName: string } {
+  const [containerName, ...rest] = objectPath.split("/");
+  return { containerName, blobName: rest.join("/") };
+}
+
 // Initialize Azure Blob Service Client
 export function createBlobServiceClient(): BlobServiceClient {
   if (AZURE_STORAGE_CONNECTION_STRING) {
@@ -206,6 +213,15 @@ export class AzureBlobStorageService {
     }
   }
 
+  // Read a whole file into memory, e.g. to embed it in a generated document; null when it doesn't exist
+  async downloadToBuffer(containerName: string, blobName: string): Promise<Buffer | null> {
+    const blobClient = this.getBlobClient(containerName, blobName);
+    if (!(await blobClient.exists())) {
+      return null;
+    }
+    return await blobClient.downloadToBuffer();
+  }
+
   // Delete a file from Azure Blob Storage
   async deleteFile(containerName: string, blobName: string): Promise<boolean> {
     try {
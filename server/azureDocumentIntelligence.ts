@@ -197,4 +197,133 @@ export class DocumentIntelligenceService {
   }
 }
 
-export const documentIntelligenceService = new DocumentIntelligenceService();
\ No newline at end of file
+export const documentIntelligenceService = new DocumentIntelligenceService();
+
+export interface PageSpan {
+  pageNumber: number;
+  start: number;
+  end: number;
+}
+
+// Character ranges of each page within result.content, taken from the stored fullResult
+export function getPageSpans(fullResult: any): PageSpan[] {
+  const pages: any[] = fullResult?.pages || [];
+  return pages
+    .filter(page => Array.isArray(page.spans) && page.spans.length > 0)
+    .map(page => {
+      const starts = page.spans.map((span: any) => span.offset);
+      const ends = page.spans.map((span: any) => span.offset + span.length);
+      return {
+        pageNumber: page.pageNumber,
+        start: Math.min(...starts),
+        end: Math.max(...ends),
+      };
+    });
+}
+
+// First and last page touched by a character range, or nulls when page spans are unavailable
+export function getPageRange(pageSpans: PageSpan[], start: number, end: number): {
+  pageStart: number | null;
+  pageEnd: number | null;
+} {
+  const touched = pageSpans.filter(page => page.start < end && page.end > start);
+  if (touched.length === 0) {
+    return { pageStart: null, pageEnd: null };
+  }
+  return {
+    pageStart: Math.min(...touched.map(page => page.pageNumber)),
+    pageEnd: Math.max(...touched.map(page => page.pageNumber)),
+  };
+}
+// The SDK returns polygons as {x, y} points; the REST API as flat [x1, y1, x2, y2, ...] arrays
+function flattenPolygon(polygon: any): number[] {
+  if (!Array.isArray(polygon)) return [];
+  return polygon.flatMap((point: any) => (typeof point === "number" ? [point] : [point.x, point.y]));
+}
+
+function boundingBox(polygons: number[][]): number[] {
+  const xs = polygons.flatMap(polygon => polygon.filter((_, i) => i % 2 === 0));
+  const ys = polygons.flatMap(polygon => polygon.filter((_, i) => i % 2 === 1));
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  return [minX, minY, maxX, minY, maxX, maxY, minX, maxY];
+}
+
+// Lowercases, drops "$" and "," and collapses whitespace, keeping each kept character's original
+// offset so a match can be mapped back onto result.content
+function normalizeForSearch(text: string): { normalized: string; offsets: number[] } {
+  let normalized = "";
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "$" || char === ",") continue;
+    if (/\s/.test(char)) {
+      if (normalized.length === 0 || normalized.endsWith(" ")) continue;
+      normalized += " ";
+    } else {
+      normalized += char.toLowerCase();
+    }
+    offsets.push(i);
+  }
+  return { normalized, offsets };
+}
+
+export interface TextRegion {
+  pageNumber: number;
+  polygon: number[]; // Bounding box in page units: x1, y1, ... x4, y4
+  text: string;
+  ocrConfidence: number | null; // Lowest word confidence in the region
+}
+
+// Finds where a piece of text appears in the analyzed document and returns the region around it
+export function findTextRegion(fullResult: any, text: string | null | undefined): TextRegion | null {
+  const content: string = fullResult?.content || "";
+  if (!content || !text) return null;
+
+  const needle = normalizeForSearch(text).normalized.trim();
+  if (needle.length < 2) return null;
+  const haystack = normalizeForSearch(content);
+  const index = haystack.normalized.indexOf(needle);
+  if (index === -1) return null;
+
+  const start = haystack.offsets[index];
+  const end = haystack.offsets[index + needle.length - 1] + 1;
+  const overlaps = (span: any) => span && span.offset < end && span.offset + span.length > start;
+
+  for (const page of fullResult.pages || []) {
+    const words = (page.words || []).filter((word: any) => overlaps(word.span));
+    const lines = words.length > 0 ? [] : (page.lines || []).filter((line: any) => (line.spans || []).some(overlaps));
+    const elements = words.length > 0 ? words : lines;
+    const polygons = elements.map((element: any) => flattenPolygon(element.polygon)).filter((polygon: number[]) => polygon.length >= 8);
+    if (polygons.length === 0) continue;
+
+    const confidences = words.map((word: any) => word.confidence).filter((value: any) => typeof value === "number");
+    return {
+      pageNumber: page.pageNumber,
+      polygon: boundingBox(polygons),
+      text: content.slice(start, end),
+      ocrConfidence: confidences.length > 0 ? Math.min(...confidences) : null,
+    };
+  }
+  return null;
+}
+
+export interface PageLayout {
+  pageNumber: number;
+  width: number;
+  height: number;
+  unit: string;
+  lines: Array<{ content: string; polygon: number[] }>;
+}
+
+// Dimensions and text lines of one page, enough to redraw it with a region highlighted
+export function getPageLayout(fullResult: any, pageNumber: number): PageLayout | null {
+  const page = (fullResult?.pages || []).find((candidate: any) => candidate.pageNumber === pageNumber);
+  if (!page) return null;
+  return {
+    pageNumber,
+    width: page.width,
+    height: page.height,
+    unit: page.unit,
+    lines: (page.lines || []).map((line: any) => ({ content: line.content, polygon: flattenPolygon(line.polygon) })),
+  };
+}
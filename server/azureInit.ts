@@ -39,7 +39,7 @@ export async function initializeAzureServices(): Promise<void> {
       await azureSearchService.initializeIndex();
       console.log("✅ Azure Search service ready");
     } else {
-      console.log("⚠️  Azure Search not configured (optional)");
+      console.log("⚠️  Azure Search not configured, using Postgres full-text search");
     }
     
     // Initialize Cosmos DB (if configured)
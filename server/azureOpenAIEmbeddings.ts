@@ -17,6 +17,13 @@ export interface EmbeddingResult {
   };
 }
 
+export interface TextChunk {
+  content: string;
+  start: number;
+  end: number;
+  estimatedTokens: number;
+}
+
 export class AzureOpenAIEmbeddingsService {
   private client: OpenAI | null = null;
   private embeddingsModel: string;
@@ -191,6 +198,12 @@ export class AzureOpenAIEmbeddingsService {
 
   // Chunk text for embedding (handles long texts)
   chunkTextForEmbedding(text: string, maxTokens: number = 8000): string[] {
+    return this.chunkTextWithOffsets(text, maxTokens).map(chunk => chunk.content);
+  }
+
+  // Chunk text and keep each chunk's character offsets into the original text,
+  // so chunks can be mapped back to Document Intelligence page spans
+  chunkTextWithOffsets(text: string, maxTokens: number = 8000): TextChunk[] {
     if (!text || text.trim().length === 0) {
       return [];
     }
@@ -199,11 +212,7 @@ export class AzureOpenAIEmbeddingsService {
     const approximateTokensPerChar = 0.25;
     const maxChars = Math.floor(maxTokens / approximateTokensPerChar);
 
-    if (text.length <= maxChars) {
-      return [text];
-    }
-
-    const chunks: string[] = [];
+    const chunks: TextChunk[] = [];
     let currentPosition = 0;
 
     while (currentPosition < text.length) {
@@ -221,9 +230,16 @@ export class AzureOpenAIEmbeddingsService {
         }
       }
 
-      const chunk = text.substring(currentPosition, endPosition).trim();
-      if (chunk.length > 0) {
-        chunks.push(chunk);
+      const raw = text.substring(currentPosition, endPosition);
+      const content = raw.trim();
+      if (content.length > 0) {
+        const start = currentPosition + (raw.length - raw.trimStart().length);
+        chunks.push({
+          content,
+          start,
+          end: start + content.length,
+          estimatedTokens: Math.ceil(content.length * approximateTokensPerChar),
+        });
       }
 
       currentPosition = endPosition;
@@ -4,6 +4,7 @@ import { SearchClient, SearchIndexClient, AzureKeyCredential } from "@azure/sear
 const AZURE_SEARCH_ENDPOINT = process.env.AZURE_SEARCH_ENDPOINT;
 const AZURE_SEARCH_KEY = process.env.AZURE_SEARCH_KEY;
 const SEARCH_INDEX_NAME = "documents-index";
+const CHUNK_INDEX_NAME = "document-chunks-index";
 
 export interface SearchDocument {
   id: string;
@@ -19,8 +20,34 @@ export interface SearchDocument {
   summaryVector?: number[];
 }
 
+// One entry per document_chunks row; vector and hybrid search run against these
+export interface SearchChunk {
+  id: string;
+  documentId: string;
+  caseId: string;
+  fileName: string;
+  chunkIndex: number;
+  pageStart?: number | null;
+  pageEnd?: number | null;
+  content: string;
+  contentVector?: number[];
+}
+
+export type ChunkSearchResult = Omit<SearchChunk, 'contentVector'> & { score: number };
+
+// Quotes a value for an OData filter; a quote inside it is doubled so it can't end the string early
+export function odataString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Each clause is parenthesized so an "or" inside one can't widen the others
+function joinFilters(filters: string[]): string | undefined {
+  return filters.length > 0 ? filters.map(filter => `(${filter})`).join(" and ") : undefined;
+}
+
 export class AzureSearchService {
   private searchClient: SearchClient<SearchDocument> | null = null;
+  private chunkClient: SearchClient<SearchChunk> | null = null;
   private indexClient: SearchIndexClient | null = null;
 
   constructor() {
@@ -38,10 +65,16 @@ export class AzureSearchService {
         SEARCH_INDEX_NAME,
         credential
       );
+      this.chunkClient = new SearchClient<SearchChunk>(
+        AZURE_SEARCH_ENDPOINT,
+        CHUNK_INDEX_NAME,
+        credential
+      );
       this.indexClient = new SearchIndexClient(AZURE_SEARCH_ENDPOINT, credential);
     } catch (error: any) {
       console.warn("Azure Search not configured:", error.message);
       this.searchClient = null;
+      this.chunkClient = null;
       this.indexClient = null;
     }
   }
@@ -57,6 +90,8 @@ export class AzureSearchService {
       throw new Error("Search service is not available");
     }
 
+    await this.initializeChunkIndex();
+
     try {
       console.log("🔍 Initializing Azure Search index...");
       
@@ -221,58 +256,141 @@ export class AzureSearchService {
     }
   }
 
-  // Vector search documents
+  // Initialize the chunk index used for vector and hybrid search
+  private async initializeChunkIndex(): Promise<void> {
+    if (!this.indexClient) {
+      throw new Error("Search service is not available");
+    }
+
+    try {
+      await this.indexClient.getIndex(CHUNK_INDEX_NAME);
+      console.log("✅ Chunk search index already exists");
+      return;
+    } catch (error) {
+      console.log("📝 Creating chunk search index...");
+    }
+
+    await this.indexClient.createIndex({
+      name: CHUNK_INDEX_NAME,
+      fields: [
+        { name: "id", type: "Edm.String", key: true, filterable: true },
+        { name: "documentId", type: "Edm.String", filterable: true },
+        { name: "caseId", type: "Edm.String", filterable: true },
+        { name: "fileName", type: "Edm.String", searchable: true, filterable: true },
+        { name: "chunkIndex", type: "Edm.Int32", filterable: true, sortable: true },
+        { name: "pageStart", type: "Edm.Int32", filterable: true },
+        { name: "pageEnd", type: "Edm.Int32", filterable: true },
+        { name: "content", type: "Edm.String", searchable: true, analyzerName: "standard.lucene" },
+        {
+          name: "contentVector",
+          type: "Collection(Edm.Single)",
+          searchable: true,
+          vectorSearchDimensions: 1536,
+          vectorSearchProfileName: "chunk-vector-profile"
+        }
+      ],
+      vectorSearch: {
+        algorithms: [{ name: "chunk-hnsw", kind: "hnsw", parameters: { metric: "cosine" } }],
+        profiles: [{ name: "chunk-vector-profile", algorithmConfigurationName: "chunk-hnsw" }]
+      }
+    });
+    console.log("✅ Chunk search index created successfully");
+  }
+
+  // Index every chunk of a document (replaces whatever was indexed for it before)
+  async indexDocumentChunks(documentId: string, chunks: SearchChunk[]): Promise<void> {
+    if (!this.chunkClient) {
+      throw new Error("Search service is not available");
+    }
+
+    await this.deleteDocumentChunks(documentId);
+
+    for (let i = 0; i < chunks.length; i += 100) {
+      const batch = chunks.slice(i, i + 100);
+      const indexResult = await this.chunkClient.uploadDocuments(batch);
+      const failed = indexResult.results.filter(result => !result.succeeded);
+      if (failed.length > 0) {
+        throw new Error(`Failed to index ${failed.length} chunk(s): ${failed[0].errorMessage}`);
+      }
+    }
+    console.log(`✅ Indexed ${chunks.length} chunks for document ${documentId}`);
+  }
+
+  // Remove all chunks of a document from the chunk index
+  async deleteDocumentChunks(documentId: string): Promise<void> {
+    if (!this.chunkClient) {
+      throw new Error("Search service is not available");
+    }
+
+    const existing = await this.chunkClient.search("*", {
+      filter: `documentId eq ${odataString(documentId)}`,
+      select: ["id"],
+      top: 1000
+    });
+
+    const ids: string[] = [];
+    for await (const result of existing.results) {
+      ids.push(result.document.id);
+    }
+
+    if (ids.length > 0) {
+      await this.chunkClient.deleteDocuments("id", ids);
+    }
+  }
+
+  private buildChunkFilter(options: { caseId?: string; caseIds?: string[]; documentIds?: string[] }): string | undefined {
+    const filters: string[] = [];
+
+    if (options.caseId) {
+      filters.push(`caseId eq ${odataString(options.caseId)}`);
+    }
+
+    if (options.caseIds && options.caseIds.length > 0) {
+      filters.push(`search.in(caseId, ${odataString(options.caseIds.join(","))}, ',')`);
+    }
+
+    if (options.documentIds && options.documentIds.length > 0) {
+      filters.push(`search.in(documentId, ${odataString(options.documentIds.join(","))}, ',')`);
+    }
+
+    return joinFilters(filters);
+  }
+
+  // Vector search over document chunks
   async vectorSearchDocuments(
     queryVector: number[],
     options: {
       caseId?: string;
-      documentType?: string;
+      caseIds?: string[];
+      documentIds?: string[];
       top?: number;
-      vectorFields?: string[];
     } = {}
   ): Promise<{
-    results: Array<SearchDocument & { score: number }>;
+    results: ChunkSearchResult[];
     count: number;
   }> {
-    if (!this.searchClient) {
+    if (!this.chunkClient) {
       throw new Error("Search service is not available");
     }
 
     try {
       console.log(`🔍 Performing vector search...`);
-      
-      let filter = "";
-      const filters: string[] = [];
-      
-      if (options.caseId) {
-        filters.push(`caseId eq '${options.caseId}'`);
-      }
-      
-      if (options.documentType) {
-        filters.push(`documentType eq '${options.documentType}'`);
-      }
-      
-      if (filters.length > 0) {
-        filter = filters.join(" and ");
-      }
 
-      const vectorFields = options.vectorFields || ["contentVector"];
-      const vectorQueries = vectorFields.map(field => ({
-        vector: queryVector,
-        fields: [field],
-        k: options.top || 50
-      }));
-
-      const searchOptions = {
-        vectors: vectorQueries,
-        filter: filter || undefined,
-        top: options.top || 50,
-        select: ["id", "fileName", "content", "summary", "documentType", "caseId", "uploadDate", "tags"] as (keyof SearchDocument)[]
-      };
-
-      const searchResults = await this.searchClient.search("*", searchOptions);
+      const searchResults = await this.chunkClient.search("*", {
+        filter: this.buildChunkFilter(options),
+        top: options.top || 10,
+        select: ["id", "documentId", "caseId", "fileName", "chunkIndex", "pageStart", "pageEnd", "content"],
+        vectorSearchOptions: {
+          queries: [{
+            kind: "vector",
+            vector: queryVector,
+            fields: ["contentVector"],
+            kNearestNeighborsCount: options.top || 10
+          }]
+        }
+      });
       
-      const results: Array<SearchDocument & { score: number }> = [];
+      const results: ChunkSearchResult[] = [];
       
       for await (const result of searchResults.results) {
         results.push({
@@ -281,7 +399,7 @@ export class AzureSearchService {
         });
       }
 
-      console.log(`✅ Vector search found ${results.length} documents`);
+      console.log(`✅ Vector search found ${results.length} chunks`);
       
       return {
         results,
@@ -293,63 +411,46 @@ export class AzureSearchService {
     }
   }
 
-  // Hybrid search (combines text and vector search)
+  // Hybrid search over document chunks (combines text and vector search)
   async hybridSearchDocuments(
     query: string,
     queryVector?: number[],
     options: {
       caseId?: string;
-      documentType?: string;
+      caseIds?: string[];
+      documentIds?: string[];
       top?: number;
       skip?: number;
     } = {}
   ): Promise<{
-    results: Array<SearchDocument & { score: number }>;
+    results: ChunkSearchResult[];
     count: number;
   }> {
-    if (!this.searchClient) {
+    if (!this.chunkClient) {
       throw new Error("Search service is not available");
     }
 
     try {
       console.log(`🔍 Performing hybrid search for query: "${query}"`);
-      
-      let filter = "";
-      const filters: string[] = [];
-      
-      if (options.caseId) {
-        filters.push(`caseId eq '${options.caseId}'`);
-      }
-      
-      if (options.documentType) {
-        filters.push(`documentType eq '${options.documentType}'`);
-      }
-      
-      if (filters.length > 0) {
-        filter = filters.join(" and ");
-      }
 
-      const searchOptions: any = {
-        top: options.top || 50,
+      const searchResults = await this.chunkClient.search(query, {
+        top: options.top || 10,
         skip: options.skip || 0,
-        filter: filter || undefined,
-        highlightFields: "content,summary",
-        searchFields: ["fileName", "content", "summary", "tags"] as (keyof SearchDocument)[],
-        select: ["id", "fileName", "content", "summary", "documentType", "caseId", "uploadDate", "tags"] as (keyof SearchDocument)[]
-      };
-
-      // Add vector search if embedding provided
-      if (queryVector && queryVector.length > 0) {
-        searchOptions.vectors = [{
-          vector: queryVector,
-          fields: ["contentVector", "summaryVector"],
-          k: options.top || 50
-        }];
-      }
-
-      const searchResults = await this.searchClient.search(query, searchOptions);
+        filter: this.buildChunkFilter(options),
+        includeTotalCount: true,
+        searchFields: ["fileName", "content"],
+        select: ["id", "documentId", "caseId", "fileName", "chunkIndex", "pageStart", "pageEnd", "content"],
+        vectorSearchOptions: queryVector && queryVector.length > 0 ? {
+          queries: [{
+            kind: "vector",
+            vector: queryVector,
+            fields: ["contentVector"],
+            kNearestNeighborsCount: options.top || 10
+          }]
+        } : undefined
+      });
       
-      const results: Array<SearchDocument & { score: number }> = [];
+      const results: ChunkSearchResult[] = [];
       
       for await (const result of searchResults.results) {
         results.push({
@@ -358,7 +459,7 @@ export class AzureSearchService {
         });
       }
 
-      console.log(`✅ Hybrid search found ${results.length} documents`);
+      console.log(`✅ Hybrid search found ${results.length} chunks`);
       
       return {
         results,
@@ -376,6 +477,7 @@ export class AzureSearchService {
     options: {
       caseId?: string;
       documentType?: string;
+      filter?: string;
       top?: number;
       skip?: number;
     } = {}
@@ -390,20 +492,21 @@ export class AzureSearchService {
     try {
       console.log(`🔍 Searching documents for query: "${query}"`);
       
-      let filter = "";
       const filters: string[] = [];
       
       if (options.caseId) {
-        filters.push(`caseId eq '${options.caseId}'`);
+        filters.push(`caseId eq ${odataString(options.caseId)}`);
       }
       
       if (options.documentType) {
-        filters.push(`documentType eq '${options.documentType}'`);
+        filters.push(`documentType eq ${odataString(options.documentType)}`);
       }
-      
-      if (filters.length > 0) {
-        filter = filters.join(" and ");
+
+      if (options.filter) {
+        filters.push(options.filter);
       }
+      
+      const filter = joinFilters(filters);
 
       const searchOptions = {
         top: options.top || 50,
@@ -439,7 +542,7 @@ export class AzureSearchService {
   }
 
   // Get suggestions for autocomplete
-  async getSuggestions(query: string, top: number = 5): Promise<string[]> {
+  async getSuggestions(query: string, top: number = 5, filter?: string): Promise<string[]> {
     if (!this.searchClient) {
       return [];
     }
@@ -448,6 +551,7 @@ export class AzureSearchService {
       // Use search to get suggestions based on existing content
       const searchResults = await this.searchClient.search(query, {
         top,
+        filter,
         select: ["fileName", "summary"] as (keyof SearchDocument)[],
         searchFields: ["fileName", "content", "summary"] as (keyof SearchDocument)[]
       });
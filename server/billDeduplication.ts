@@ -0,0 +1,175 @@
+import { storage } from "./storage";
+import { billFingerprint, normalizeProvider, normalizeCodes, amountInCents, serviceDay } from "./billFingerprint";
+import type { MedicalBill, MedicalBillDuplicate } from "@shared/schema";
+
+export const DUPLICATE_RESOLUTIONS = ['merge', 'keep', 'discard'] as const;
+export type DuplicateResolution = typeof DUPLICATE_RESOLUTIONS[number];
+
+export interface DuplicateMatch {
+  matchType: 'exact' | 'likely';
+  score: number;
+  reasons: string[];
+}
+
+// Pairs scoring at least this much are flagged for review
+const LIKELY_DUPLICATE_SCORE = 75;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const left = new Set(a.split(" ").filter(Boolean));
+  const right = new Set(b.split(" ").filter(Boolean));
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = Array.from(left).filter(token => right.has(token)).length;
+  return shared / (left.size + right.size - shared);
+}
+
+// Scores how likely two bills are the same charge. Provider carries the most weight, then the
+// service date and amount; codes only count when both bills have them.
+export function compareBills(bill: MedicalBill, other: MedicalBill): DuplicateMatch | null {
+  if (billFingerprint(bill) === billFingerprint(other)) {
+    return { matchType: 'exact', score: 100, reasons: ["Same provider, service date, amount and codes"] };
+  }
+
+  const reasons: string[] = [];
+  const providerSimilarity = tokenSimilarity(normalizeProvider(bill.provider), normalizeProvider(other.provider));
+  if (providerSimilarity < 0.5) return null;
+  reasons.push(providerSimilarity === 1 ? "Same provider" : "Similar provider name");
+
+  let score = 40 * providerSimilarity;
+
+  const dayGap = Math.round(Math.abs(
+    new Date(serviceDay(bill.serviceDate)).getTime() - new Date(serviceDay(other.serviceDate)).getTime()
+  ) / DAY_MS);
+  if (dayGap === 0) {
+    score += 25;
+    reasons.push("Same service date");
+  } else if (dayGap <= 3) {
+    score += 10;
+    reasons.push(`Service dates ${dayGap} day(s) apart`);
+  }
+
+  const cents = amountInCents(bill.amount);
+  const otherCents = amountInCents(other.amount);
+  if (cents === otherCents) {
+    score += 25;
+    reasons.push("Same amount");
+  } else if (Math.abs(cents - otherCents) <= Math.max(cents, otherCents) * 0.01) {
+    score += 15;
+    reasons.push("Amounts within 1%");
+  }
+
+  const codes = normalizeCodes(bill.cptCodes);
+  const otherCodes = normalizeCodes(other.cptCodes);
+  if (codes.length > 0 && otherCodes.length > 0) {
+    const shared = codes.filter(code => otherCodes.includes(code));
+    // Different procedures on the same day are separate charges
+    if (shared.length === 0) return null;
+    score += 10 * (shared.length / new Set([...codes, ...otherCodes]).size);
+    reasons.push(`Shared codes: ${shared.join(", ")}`);
+  } else {
+    score += 5;
+  }
+
+  const rounded = Math.round(score);
+  return rounded >= LIKELY_DUPLICATE_SCORE ? { matchType: 'likely', score: rounded, reasons } : null;
+}
+
+function isNewer(bill: MedicalBill, other: MedicalBill): boolean {
+  const created = bill.createdAt ? new Date(bill.createdAt).getTime() : 0;
+  const otherCreated = other.createdAt ? new Date(other.createdAt).getTime() : 0;
+  return created !== otherCreated ? created > otherCreated : bill.id > other.id;
+}
+
+async function flagPair(caseId: string, bill: MedicalBill, other: MedicalBill): Promise<MedicalBillDuplicate | undefined> {
+  const match = compareBills(bill, other);
+  if (!match) return undefined;
+
+  // The newer bill is always recorded as the duplicate, so each pair is stored one way round
+  const [newer, older] = isNewer(bill, other) ? [bill, other] : [other, bill];
+  return await storage.createMedicalBillDuplicate({
+    caseId,
+    billId: newer.id,
+    duplicateOfBillId: older.id,
+    matchType: match.matchType,
+    score: match.score,
+    reasons: match.reasons,
+  });
+}
+
+// Compares newly created bills with every other bill in their case and flags likely duplicates
+export async function flagDuplicateBills(caseId: string, newBills: MedicalBill[]): Promise<MedicalBillDuplicate[]> {
+  if (newBills.length === 0) return [];
+
+  const caseBills = await storage.getMedicalBillsByCase(caseId);
+  const flagged: MedicalBillDuplicate[] = [];
+  const compared = new Set<string>();
+
+  for (const bill of newBills) {
+    for (const other of caseBills) {
+      if (other.id === bill.id) continue;
+      const pairKey = [bill.id, other.id].sort().join(":");
+      if (compared.has(pairKey)) continue;
+      compared.add(pairKey);
+
+      const duplicate = await flagPair(caseId, bill, other);
+      if (duplicate) flagged.push(duplicate);
+    }
+  }
+
+  if (flagged.length > 0) {
+    console.log(`🔁 Flagged ${flagged.length} possible duplicate bill(s) in case ${caseId}`);
+  }
+  return flagged;
+}
+
+// Re-checks every bill in the case, e.g. for bills created before duplicate detection existed
+export async function scanCaseForDuplicateBills(caseId: string): Promise<MedicalBillDuplicate[]> {
+  const caseBills = await storage.getMedicalBillsByCase(caseId);
+  return await flagDuplicateBills(caseId, caseBills);
+}
+
+// Applies a reviewer's decision on a flagged pair:
+// - merge: details missing from the original bill are copied from the duplicate, its payments (and its
+//   line items, unless the original is itemized already) are moved over, then the duplicate is removed
+// - discard: the duplicate (newer) bill is removed as is
+// - keep: both bills stay; they are separate charges
+export async function resolveDuplicateBill(
+  duplicate: MedicalBillDuplicate,
+  resolution: DuplicateResolution,
+  userId: string,
+  note?: string
+): Promise<MedicalBillDuplicate | undefined> {
+  const decision = { resolvedBy: userId, resolvedAt: new Date(), note: note ?? null };
+
+  if (resolution === 'keep') {
+    return await storage.resolveMedicalBillDuplicate(duplicate.id, { ...decision, status: 'kept' });
+  }
+
+  const bill = duplicate.billId ? await storage.getMedicalBillById(duplicate.billId) : undefined;
+  const original = duplicate.duplicateOfBillId ? await storage.getMedicalBillById(duplicate.duplicateOfBillId) : undefined;
+  if (!bill || !original) {
+    throw new Error("One of the bills in this pair no longer exists");
+  }
+
+  let mergeInto;
+  if (resolution === 'merge') {
+    const cptCodes = normalizeCodes([...(original.cptCodes || []), ...(bill.cptCodes || [])]);
+    mergeInto = {
+      billId: original.id,
+      updates: {
+        treatment: original.treatment || bill.treatment,
+        insurance: original.insurance || bill.insurance,
+        documentId: original.documentId || bill.documentId,
+        cptCodes: cptCodes.length > 0 ? cptCodes : null,
+      },
+    };
+  }
+
+  // The snapshot keeps the removed bill on record once the pair's reference to it is cleared
+  return await storage.resolveMedicalBillDuplicate(
+    duplicate.id,
+    { ...decision, status: resolution === 'merge' ? 'merged' : 'discarded', billSnapshot: bill },
+    { bill, mergeInto }
+  );
+}
@@ -0,0 +1,42 @@
+// Normalized key for a medical bill: provider|service date|amount in cents|sorted codes.
+// Two bills with the same fingerprint are almost certainly the same charge, e.g. the same
+// itemized statement uploaded twice or a document analyzed again.
+
+// Words that differ between how the same provider is written on different documents
+const PROVIDER_NOISE = /\b(the|of|and|inc|llc|pllc|pc|pa|ltd|corp|co|md|do|dc|dpt|dds)\b/g;
+
+export function normalizeProvider(provider: string): string {
+  return provider
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(PROVIDER_NOISE, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function normalizeCodes(codes: string[] | null | undefined): string[] {
+  return Array.from(new Set((codes || []).map(code => code.trim().toUpperCase()).filter(Boolean))).sort();
+}
+
+export function amountInCents(amount: string | number): number {
+  return Math.round(parseFloat(String(amount).replace(/[^0-9.-]/g, "")) * 100) || 0;
+}
+
+export function serviceDay(date: Date | string): string {
+  return new Date(date).toISOString().split("T")[0];
+}
+
+export function billFingerprint(bill: {
+  provider: string;
+  serviceDate: Date | string;
+  amount: string | number;
+  cptCodes?: string[] | null;
+}): string {
+  return [
+    normalizeProvider(bill.provider),
+    serviceDay(bill.serviceDate),
+    amountInCents(bill.amount),
+    normalizeCodes(bill.cptCodes).join(","),
+  ].join("|");
+}
@@ -0,0 +1,75 @@
+import "./testEnv";
+import { test, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { acceptProposedBill } from "./billProposals";
+import type { MedicalBill, ProposedBill } from "@shared/schema";
+
+const proposal = {
+  id: "proposal-1",
+  caseId: "case-1",
+  documentId: "document-1",
+  status: "proposed",
+  data: {
+    provider: "Valley Orthopedics",
+    amount: "450.00",
+    serviceDate: "2024-03-01",
+    billDate: "2024-03-05",
+    treatment: "Office visit",
+    insurance: null,
+    cptCodes: null,
+    lineItems: [
+      { code: "99213", codeSystem: "CPT", description: "Office visit", units: 1, charge: "250.00" },
+      { code: "73030", codeSystem: "CPT", description: "Shoulder X-ray", units: 1, charge: "200.00" },
+    ],
+  },
+} as unknown as ProposedBill;
+
+// Stands in for the transaction: records what it was asked to write and echoes the bill back
+function stubAccept() {
+  const accept = mock.method(storage, "acceptProposedBill", async (_id: string, review: any, billData: any) => ({
+    bill: { ...billData, id: "bill-1" } as MedicalBill,
+    proposal: { ...proposal, ...review, status: "accepted", acceptedBillId: "bill-1" } as ProposedBill,
+  }));
+  mock.method(storage, "getMedicalBillsByCase", async () => []);
+  return accept;
+}
+
+afterEach(() => mock.restoreAll());
+
+test("keeps the reviewer's corrected amount over the line items' total", async () => {
+  const accept = stubAccept();
+
+  const result = await acceptProposedBill(proposal, { amount: "475.00" }, "reviewer-1");
+
+  const [, review, billData, lineItems, keepAmount] = accept.mock.calls[0].arguments;
+  assert.equal(billData.amount, "475.00");
+  assert.equal(lineItems.length, 2);
+  assert.equal(keepAmount, true);
+  assert.equal(review.data.amount, "475.00");
+  assert.equal(result?.bill.amount, "475.00");
+});
+
+test("takes the line items' total when the amount wasn't corrected", async () => {
+  const accept = stubAccept();
+
+  await acceptProposedBill(proposal, { treatment: "Follow-up visit" }, "reviewer-1");
+
+  assert.equal(accept.mock.calls[0].arguments[4], false);
+});
+
+test("takes the line items' total when the corrected amount matches it", async () => {
+  const accept = stubAccept();
+
+  await acceptProposedBill(proposal, { amount: "450" }, "reviewer-1");
+
+  assert.equal(accept.mock.calls[0].arguments[4], false);
+});
+
+test("returns null when the proposal was already reviewed", async () => {
+  mock.method(storage, "acceptProposedBill", async () => undefined);
+
+  const result = await acceptProposedBill(proposal, { amount: "475.00" }, "reviewer-1");
+
+  assert.equal(result, null);
+});
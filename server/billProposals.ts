@@ -0,0 +1,180 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { findTextRegion } from "./azureDocumentIntelligence";
+import { flagDuplicateBills } from "./billDeduplication";
+import { amountInCents } from "./billFingerprint";
+import { extractedLineItemSchema, type ExtractedBill } from "./aiOutputSchemas";
+import {
+  insertMedicalBillSchema,
+  proposedBillDataSchema,
+  PROPOSED_BILL_FIELDS,
+  type Document,
+  type InsertProposedBill,
+  type MedicalBill,
+  type ProposedBill,
+  type ProposedBillData,
+  type ProposedBillSource,
+} from "@shared/schema";
+
+// A bill can't be created until a reviewer has filled these in
+const REQUIRED_FIELDS = ['provider', 'amount', 'serviceDate', 'billDate'] as const;
+
+// Used when the model fills in a field without saying how sure it is
+const DEFAULT_MODEL_CONFIDENCE = 0.5;
+
+// A value that can't be found in the document text is capped here however sure the model is
+const UNVERIFIED_CONFIDENCE_CAP = 0.4;
+
+function toDay(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().split("T")[0];
+}
+
+function proposalData(bill: ExtractedBill): ProposedBillData {
+  return {
+    provider: bill.provider?.trim() || null,
+    amount: bill.amount ?? null,
+    serviceDate: toDay(bill.serviceDate),
+    billDate: toDay(bill.billDate),
+    treatment: bill.treatment?.trim() || null,
+    insurance: bill.insurance?.trim() || null,
+    cptCodes: bill.cptCodes?.length ? bill.cptCodes : null,
+    lineItems: bill.lineItems?.length ? bill.lineItems : null,
+  };
+}
+
+// Scores each field and locates it on the page. The model's own confidence is capped by the OCR
+// confidence of the words it came from, or by UNVERIFIED_CONFIDENCE_CAP when they can't be found.
+// Dates are only located through the quoted source text, since the document rarely uses ISO dates.
+export function scoreExtractedBill(bill: ExtractedBill, fullResult: any): Pick<
+  InsertProposedBill,
+  'data' | 'fieldConfidence' | 'sources' | 'confidence' | 'pageNumber'
+> {
+  const data = proposalData(bill);
+  const fieldConfidence: Record<string, number> = {};
+  const sources: Record<string, ProposedBillSource> = {};
+
+  for (const field of PROPOSED_BILL_FIELDS) {
+    const value = data[field];
+    if (!value) {
+      fieldConfidence[field] = 0;
+      continue;
+    }
+
+    const quoted = bill.sources?.[field];
+    const region = findTextRegion(fullResult, quoted)
+      || (field.endsWith("Date") ? null : findTextRegion(fullResult, value));
+    const modelConfidence = bill.confidence?.[field] ?? DEFAULT_MODEL_CONFIDENCE;
+
+    if (region) {
+      sources[field] = { pageNumber: region.pageNumber, polygon: region.polygon, text: region.text };
+      fieldConfidence[field] = Math.min(modelConfidence, region.ocrConfidence ?? 1);
+    } else {
+      fieldConfidence[field] = Math.min(modelConfidence, UNVERIFIED_CONFIDENCE_CAP);
+    }
+  }
+
+  const located = sources.amount || sources.provider || Object.values(sources)[0];
+  return {
+    data,
+    fieldConfidence,
+    sources,
+    confidence: Math.round(Math.min(...REQUIRED_FIELDS.map(field => fieldConfidence[field])) * 100),
+    pageNumber: located?.pageNumber ?? null,
+  };
+}
+
+// Stores a document's extracted bills as proposals for review, replacing any it had that are
+// still unreviewed
+export async function proposeExtractedBills(
+  document: Document,
+  jobId: string | null,
+  extractedBills: ExtractedBill[]
+): Promise<ProposedBill[]> {
+  const fullResult = (document.documentIntelligence as { fullResult?: any } | null)?.fullResult;
+  const proposals = extractedBills.map(bill => ({
+    caseId: document.caseId,
+    documentId: document.id,
+    jobId,
+    ...scoreExtractedBill(bill, fullResult),
+  }));
+  return await storage.replacePendingProposedBills(document.id, proposals);
+}
+
+// Reviewer corrections to a proposal; line items are kept as extracted and edited on the bill
+export const proposalEditsSchema = proposedBillDataSchema.omit({ lineItems: true }).partial();
+export type ProposalEdits = z.infer<typeof proposalEditsSchema>;
+
+const acceptedBillSchema = z.object({
+  provider: z.string({ invalid_type_error: "Provider is required" }).trim().min(1, "Provider is required"),
+  amount: z.string({ invalid_type_error: "Amount is required" }).regex(/^\d+(\.\d{1,2})?$/, "Amount must be a dollar amount"),
+  serviceDate: z.string({ invalid_type_error: "Service date is required" }).refine(value => !isNaN(Date.parse(value)), "Service date is required"),
+  billDate: z.string({ invalid_type_error: "Bill date is required" }).refine(value => !isNaN(Date.parse(value)), "Bill date is required"),
+});
+
+// Creates the medical bill from a proposal with the reviewer's edits applied, then checks it
+// against the rest of the case for duplicates. Null when the proposal was already reviewed.
+export async function acceptProposedBill(
+  proposal: ProposedBill,
+  edits: ProposalEdits,
+  userId: string
+): Promise<{ bill: MedicalBill; proposal: ProposedBill; duplicatesFlagged: number } | null> {
+  const data: ProposedBillData = { ...proposal.data, ...edits };
+  const required = acceptedBillSchema.parse(data);
+
+  const billData = insertMedicalBillSchema.parse({
+    caseId: proposal.caseId,
+    documentId: proposal.documentId,
+    provider: required.provider,
+    amount: required.amount,
+    serviceDate: new Date(required.serviceDate),
+    billDate: new Date(required.billDate),
+    treatment: data.treatment || null,
+    insurance: data.insurance || null,
+    status: 'pending',
+    cptCodes: data.cptCodes?.length ? data.cptCodes : null,
+    createdBy: userId,
+  });
+  const lineItems = z.array(extractedLineItemSchema).parse(data.lineItems || []).map(item => ({
+    code: item.code || null,
+    codeSystem: item.codeSystem,
+    diagnosisCodes: item.diagnosisCodes?.length ? item.diagnosisCodes : null,
+    description: item.description || null,
+    units: item.units || 1,
+    charge: item.charge,
+    allowed: item.allowed ?? null,
+    paid: item.paid ?? null,
+    adjustment: item.adjustment ?? null,
+    serviceDate: item.serviceDate ? new Date(item.serviceDate) : null,
+  }));
+
+  // Itemized charges replace the bill's amount with their total, unless the reviewer corrected the
+  // amount to something else; line items can't be edited in review, so their total may be the misread
+  const lineItemsCents = lineItems.reduce((sum, item) => sum + amountInCents(item.charge), 0);
+  const keepAmount = edits.amount !== undefined && lineItems.length > 0
+    && amountInCents(required.amount) !== lineItemsCents;
+
+  const accepted = await storage.acceptProposedBill(proposal.id, {
+    data,
+    reviewedBy: userId,
+    reviewedAt: new Date(),
+  }, billData, lineItems, keepAmount);
+  if (!accepted) return null;
+
+  const { bill } = accepted;
+  const duplicates = await flagDuplicateBills(proposal.caseId, [bill]);
+  console.log(`✅ Accepted proposed bill: ${bill.provider} - $${bill.amount}`);
+
+  return { bill, proposal: accepted.proposal, duplicatesFlagged: duplicates.length };
+}
+
+// Undefined when the proposal was already reviewed
+export async function rejectProposedBill(proposal: ProposedBill, userId: string, reason?: string): Promise<ProposedBill | undefined> {
+  return await storage.reviewProposedBill(proposal.id, {
+    status: 'rejected',
+    rejectionReason: reason || null,
+    reviewedBy: userId,
+    reviewedAt: new Date(),
+  });
+}
@@ -0,0 +1,210 @@
+import { storage, type ChunkText } from "./storage";
+import { buildChronology, DEFAULT_GAP_DAYS, type CaseChronology, type TreatmentGap } from "./chronology";
+import type { Document } from "@shared/schema";
+
+// Red flags an adjuster would raise against the claim: late first treatment, gaps in care,
+// pre-existing conditions, and compliance problems such as missed appointments. They come from
+// the case chronology, the complicationsNotes the AI extracted from each document, and phrases
+// found in the documents' text, each cited back to where it was found.
+
+export const RISK_CATEGORIES = [
+  'late_first_treatment',
+  'treatment_gap',
+  'pre_existing',
+  'prior_injury',
+  'delay_in_care',
+  'compliance',
+  'missed_appointment',
+] as const;
+export type RiskCategory = typeof RISK_CATEGORIES[number];
+export type RiskSeverity = 'high' | 'medium' | 'low';
+
+export interface RiskCitation {
+  documentId: string;
+  fileName: string;
+  pageNumber: number | null;
+  quote: string;
+}
+
+export interface RiskFlag {
+  category: RiskCategory;
+  severity: RiskSeverity;
+  description: string;
+  citation: RiskCitation | null;
+}
+
+export interface CaseRiskReport {
+  riskLevel: RiskSeverity;
+  incidentDate: string | null;
+  firstTreatmentDate: string | null;
+  daysToFirstTreatment: number | null;
+  gapThresholdDays: number;
+  treatmentGaps: TreatmentGap[];
+  flags: RiskFlag[];
+  counts: Record<RiskCategory, number>;
+}
+
+// Days from the incident to the first visit after which it's flagged, and when it becomes serious
+const FIRST_TREATMENT_WARN_DAYS = 3;
+const FIRST_TREATMENT_HIGH_DAYS = 14;
+// Mentions found in the text, per category, so one long record can't flood the report
+const MAX_MENTIONS_PER_CATEGORY = 25;
+const QUOTE_LENGTH = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Phrases in the documents' text worth flagging. A mention right after a negation ("denies prior
+// injury", "no history of") is skipped.
+const MENTION_PATTERNS: Array<{ category: RiskCategory; pattern: RegExp }> = [
+  { category: 'missed_appointment', pattern: /\bno[- ]shows?\b/gi },
+  { category: 'missed_appointment', pattern: /\bmissed (?:\w+ )?(?:appointments?|visits?|sessions?)\b/gi },
+  { category: 'missed_appointment', pattern: /\b(?:did not|didn't|failed to) (?:show|attend|keep|return)\b/gi },
+  { category: 'missed_appointment', pattern: /\bcancel+ed (?:\w+ )?(?:appointments?|visits?|sessions?)\b/gi },
+  { category: 'compliance', pattern: /\bnon-?complian(?:t|ce)\b/gi },
+  { category: 'compliance', pattern: /\bagainst medical advice\b/gi },
+  { category: 'compliance', pattern: /\b(?:not|stopped) (?:taking|doing) (?:\w+ )?(?:medications?|exercises?|home exercise program)\b/gi },
+  { category: 'prior_injury', pattern: /\b(?:prior|previous|earlier|old) (?:injur(?:y|ies)|accidents?|mvas?|mvcs?|fractures?|surger(?:y|ies)|(?:back|neck|shoulder|knee) (?:pain|injur(?:y|ies)))\b/gi },
+  { category: 'prior_injury', pattern: /\bpre-?existing\b/gi },
+  { category: 'prior_injury', pattern: /\bhistory of (?:\w+ ){0,2}(?:injur(?:y|ies)|accidents?|fractures?|back pain|neck pain)\b/gi },
+  { category: 'prior_injury', pattern: /\bdegenerative\b/gi },
+];
+
+const NEGATION = /\b(?:no|denies|denied|without|negative for|not)\s+(?:\w+\s+){0,2}$/i;
+
+// complicationsNotes answers that say there's nothing to report
+const NOTHING_TO_REPORT = /^(?:none|no|not|n\/a|na|unknown|nil)\b/i;
+
+const COMPLICATION_FIELDS: Array<{ field: string; category: RiskCategory; severity: RiskSeverity; label: string }> = [
+  { field: 'preExistingConditions', category: 'pre_existing', severity: 'high', label: "Pre-existing condition" },
+  { field: 'delaysInCare', category: 'delay_in_care', severity: 'medium', label: "Delay in care" },
+  { field: 'complianceIssues', category: 'compliance', severity: 'medium', label: "Compliance issue" },
+];
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+// The sentence around a match, trimmed to a readable length
+function quoteAround(text: string, index: number, length: number): string {
+  const start = Math.max(text.lastIndexOf(".", index) + 1, index - QUOTE_LENGTH / 2, 0);
+  const nextStop = text.indexOf(".", index + length);
+  const end = Math.min(nextStop === -1 ? text.length : nextStop + 1, index + length + QUOTE_LENGTH / 2);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).replace(/\s+/g, " ").trim()}${end < text.length ? "…" : ""}`;
+}
+
+function complicationFlags(documents: Document[]): RiskFlag[] {
+  return documents.flatMap(document => {
+    const notes = (document.extractedData as any)?.complicationsNotes;
+    if (!notes || typeof notes !== "object") return [];
+
+    return COMPLICATION_FIELDS.flatMap(({ field, category, severity, label }): RiskFlag[] => {
+      const value = typeof notes[field] === "string" ? notes[field].trim() : "";
+      if (!value || NOTHING_TO_REPORT.test(value)) return [];
+      return [{
+        category,
+        severity,
+        description: `${label} noted in ${document.fileName}: ${value}`,
+        citation: { documentId: document.id, fileName: document.fileName, pageNumber: null, quote: value },
+      }];
+    });
+  });
+}
+
+function mentionFlags(chunks: ChunkText[], documentsById: Map<string, Document>): RiskFlag[] {
+  const flags: RiskFlag[] = [];
+  const seen = new Set<string>();
+  const perCategory = new Map<RiskCategory, number>();
+
+  for (const chunk of chunks) {
+    const document = documentsById.get(chunk.documentId);
+    if (!document) continue;
+
+    for (const { category, pattern } of MENTION_PATTERNS) {
+      for (const match of Array.from(chunk.content.matchAll(pattern))) {
+        const index = match.index ?? 0;
+        if (NEGATION.test(chunk.content.slice(Math.max(0, index - 40), index))) continue;
+        if ((perCategory.get(category) || 0) >= MAX_MENTIONS_PER_CATEGORY) continue;
+
+        const quote = quoteAround(chunk.content, index, match[0].length);
+        // Chunks overlap, so the same sentence can turn up twice
+        const key = `${document.id}|${category}|${quote}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        perCategory.set(category, (perCategory.get(category) || 0) + 1);
+
+        flags.push({
+          category,
+          severity: category === 'prior_injury' ? 'high' : 'medium',
+          description: `"${match[0]}" in ${document.fileName}${chunk.pageStart ? `, page ${chunk.pageStart}` : ""}`,
+          citation: { documentId: document.id, fileName: document.fileName, pageNumber: chunk.pageStart, quote },
+        });
+      }
+    }
+  }
+  return flags;
+}
+
+export function buildRiskReport(
+  chronology: CaseChronology,
+  documents: Document[],
+  chunks: ChunkText[],
+  incidentDateOverride?: string
+): CaseRiskReport {
+  const incidentDate = incidentDateOverride ?? chronology.incidentDate;
+  const firstTreatment = chronology.events.find(event => !incidentDate || event.date! >= incidentDate);
+  const daysToFirstTreatment = incidentDate && firstTreatment ? daysBetween(incidentDate, firstTreatment.date!) : null;
+  // Gaps between visits for something before the incident say nothing about this claim
+  const treatmentGaps = chronology.gaps.filter(gap => gap.afterEventId !== null && (!incidentDate || gap.from >= incidentDate));
+
+  const flags: RiskFlag[] = [];
+  if (daysToFirstTreatment !== null && daysToFirstTreatment > FIRST_TREATMENT_WARN_DAYS) {
+    flags.push({
+      category: 'late_first_treatment',
+      severity: daysToFirstTreatment > FIRST_TREATMENT_HIGH_DAYS ? 'high' : 'medium',
+      description: `First treatment was ${daysToFirstTreatment} days after the incident (${incidentDate} to ${firstTreatment!.date})`,
+      citation: null,
+    });
+  }
+  for (const gap of treatmentGaps) {
+    flags.push({
+      category: 'treatment_gap',
+      severity: gap.days > chronology.gapThresholdDays * 2 ? 'high' : 'medium',
+      description: `${gap.days} days without treatment, ${gap.from} to ${gap.to}`,
+      citation: null,
+    });
+  }
+
+  const processed = documents.filter(document => document.aiProcessed && document.extractedData);
+  flags.push(...complicationFlags(processed));
+  flags.push(...mentionFlags(chunks, new Map(documents.map(document => [document.id, document]))));
+
+  const counts = Object.fromEntries(RISK_CATEGORIES.map(category => [category, 0])) as Record<RiskCategory, number>;
+  flags.forEach(flag => counts[flag.category]++);
+  const severityOrder: RiskSeverity[] = ['high', 'medium', 'low'];
+  flags.sort((a, b) => severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity));
+
+  return {
+    riskLevel: flags.some(flag => flag.severity === 'high') ? 'high' : flags.length > 0 ? 'medium' : 'low',
+    incidentDate,
+    firstTreatmentDate: firstTreatment?.date ?? null,
+    daysToFirstTreatment,
+    gapThresholdDays: chronology.gapThresholdDays,
+    treatmentGaps,
+    flags,
+    counts,
+  };
+}
+
+export async function getCaseRiskReport(
+  caseId: string,
+  options: { gapThresholdDays?: number; incidentDate?: string } = {}
+): Promise<CaseRiskReport> {
+  const [documents, bills, chunks, proposals] = await Promise.all([
+    storage.getDocumentsByCase(caseId),
+    storage.getMedicalBillsByCase(caseId),
+    storage.getDocumentChunksByCase(caseId),
+    storage.getProposedBillsByCase(caseId, 'accepted'),
+  ]);
+  const chronology = buildChronology(documents, bills, chunks, proposals, options.gapThresholdDays ?? DEFAULT_GAP_DAYS);
+  return buildRiskReport(chronology, documents, chunks, options.incidentDate);
+}
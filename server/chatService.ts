@@ -0,0 +1,145 @@
+import { storage } from "./storage";
+import { retrieveRelevantChunks, formatChunksForPrompt } from "./chunkRetrieval";
+import { resolvePrompt, caseVariables } from "./promptTemplates";
+import type { ChunkSearchResult } from "./searchBackend";
+import type { TemplateValues } from "./templateEngine";
+import type { AiChatSession, Document } from "@shared/schema";
+
+export interface PreparedChat {
+  history: Array<{ role: 'user' | 'assistant'; content: string }>;
+  systemPrompt: string;
+  // Excerpts the prompt was grounded in, numbered in the order given
+  chunks: ChunkSearchResult[];
+}
+
+// The user's chat_system prompt when they have one, otherwise the given built-in persona
+async function chatPersona(userId: string, values: TemplateValues, fallback: string): Promise<string> {
+  const { prompt, promptId } = await resolvePrompt(userId, 'chat_system', values);
+  return promptId ? prompt : fallback;
+}
+
+// Builds the prompt for a question about one document; the question itself isn't stored yet
+export async function prepareDocumentChat(document: Document, message: string, userId: string): Promise<PreparedChat> {
+  // Get document content for AI context
+  let documentContent = "Document content not available";
+
+  // Try to get the AI summary first (most recent analysis)
+  if (document.aiSummary && document.extractedData) {
+    documentContent = `Document: ${document.fileName}
+
+AI Analysis Summary:
+${document.aiSummary}
+
+Extracted Data:
+${JSON.stringify(document.extractedData, null, 2)}
+
+Original content available for detailed analysis.`;
+  } else if (document.aiSummary) {
+    documentContent = `Document: ${document.fileName}
+
+${document.aiSummary}`;
+  }
+
+  // Pull the passages of the full text most relevant to the question
+  let chunks: ChunkSearchResult[] = [];
+  let relevantExcerpts = "";
+  try {
+    chunks = await retrieveRelevantChunks(message, {
+      userId,
+      caseIds: [document.caseId],
+      documentIds: [document.id],
+      top: 5,
+    });
+    if (chunks.length > 0) {
+      relevantExcerpts = `
+
+Relevant excerpts from the document text:
+${formatChunksForPrompt(chunks)}`;
+    }
+  } catch (retrievalError) {
+    console.error("Error retrieving document chunks:", retrievalError);
+  }
+
+  // Get chat history for context
+  const existingHistory = await storage.getDocumentChatHistory(document.id);
+
+  // Build conversation context
+  const history = existingHistory.map(msg => ({
+    role: msg.role as 'user' | 'assistant',
+    content: msg.content
+  }));
+
+  // Add the new user message
+  history.push({
+    role: "user",
+    content: message
+  });
+
+  // Create system prompt with document context
+  const persona = await chatPersona(
+    userId,
+    { ...caseVariables(await storage.getCaseById(document.caseId)), fileName: document.fileName },
+    "You are an AI assistant specialized in analyzing legal and medical documents."
+  );
+  const systemPrompt = `${persona} You have access to the following document:
+
+${documentContent}${relevantExcerpts}
+
+Help the user analyze, extract information, summarize, or answer questions about this document. Be precise, professional, and focus on details that would be important for legal case preparation.
+
+IMPORTANT FORMATTING INSTRUCTIONS:
+- Use clear headings with ### for main sections
+- Use bullet points (•) for lists and key items
+- Use **bold text** for important terms, names, dates, and amounts
+- Structure your response with logical sections like:
+  ### Medical Diagnoses
+  ### Timeline of Events
+  ### Financial Impact
+  ### Legal Implications
+  ### Key Evidence Points
+- Present information in an organized, scannable format
+- Use line breaks between sections for readability
+- Highlight critical legal and medical details that would be important for case preparation`;
+
+  return { history, systemPrompt, chunks };
+}
+
+// Builds the prompt for the next answer in a chat session; the user's message must already be stored
+export async function prepareSessionChat(session: AiChatSession, content: string): Promise<PreparedChat> {
+  // Get existing messages for context
+  const existingMessages = await storage.getChatMessages(session.id);
+  const history = existingMessages
+    .slice(-10) // Last 10 messages for context
+    .map(msg => ({ role: msg.role as 'user' | 'assistant', content: msg.content }));
+
+  const caseData = session.caseId ? await storage.getCaseById(session.caseId) : undefined;
+  const { prompt: persona } = await resolvePrompt(session.userId, 'chat_system', { ...caseVariables(caseData), fileName: "" });
+
+  // Case-scoped sessions answer from the case's documents, citing the excerpts they used
+  let systemPrompt = persona;
+  let chunks: ChunkSearchResult[] = [];
+  if (session.caseId) {
+    try {
+      chunks = await retrieveRelevantChunks(content, {
+        userId: session.userId,
+        caseIds: [session.caseId],
+        top: 8,
+      });
+    } catch (retrievalError) {
+      console.error("Error retrieving case excerpts:", retrievalError);
+    }
+
+    systemPrompt = `${persona}
+
+You are assisting with case ${caseData?.caseNumber || ''} (${caseData?.clientName || 'Unknown client'}, ${caseData?.caseType || 'unknown type'}).
+${caseData?.description ? `Case description: ${caseData.description}\n` : ''}
+${chunks.length > 0
+  ? `Answer using the numbered excerpts from the case documents below. After each statement drawn from an excerpt, cite it with its number in square brackets, e.g. [2]. If the excerpts don't contain the answer, say so rather than guessing.
+
+Case document excerpts:
+${formatChunksForPrompt(chunks)}`
+  : "No document excerpts matched this question. Say so if the answer depends on the case documents."}`;
+  }
+
+  return { history, systemPrompt, chunks };
+}
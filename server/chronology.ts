@@ -0,0 +1,319 @@
+import { storage, type ChunkText } from "./storage";
+import type { Document, MedicalBill, ProposedBill } from "@shared/schema";
+
+// Case-level medical chronology: the timeline events the AI pulled out of each analyzed document,
+// plus one event per medical bill, merged into a single dated list. Events from different sources
+// that describe the same visit (same day, same provider) are combined, keeping every source.
+
+export interface ChronologySource {
+  type: 'document' | 'bill';
+  documentId: string | null;
+  fileName: string | null;
+  billId: string | null;
+  // Page of the source document the event was found on, when it could be located
+  pageNumber: number | null;
+}
+
+export interface ChronologyEvent {
+  id: string;
+  date: string | null; // YYYY-MM-DD; null when the source gave no usable date
+  eventType: string;
+  provider: string;
+  descriptions: string[];
+  amount: number | null; // Total billed for the visit, from the case's bills
+  sources: ChronologySource[];
+}
+
+export interface TreatmentGap {
+  from: string;
+  to: string;
+  days: number;
+  // Null for the gap between the incident and the first treatment
+  afterEventId: string | null;
+  beforeEventId: string;
+}
+
+export interface CaseChronology {
+  events: ChronologyEvent[];
+  undated: ChronologyEvent[];
+  gaps: TreatmentGap[];
+  gapThresholdDays: number;
+  incidentDate: string | null;
+}
+
+export const DEFAULT_GAP_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words that differ between how documents and bills name the same provider
+const PROVIDER_NOISE = new Set(["the", "inc", "llc", "pc", "pa", "md", "do", "dr", "of", "and", "group", "center", "centre"]);
+
+// A shortened name must keep at least this many words to match a longer one, so a lone surname
+// like "Smith" doesn't match "Smith Orthopedic" and "Smith Chiropractic" alike
+const MIN_PARTIAL_PROVIDER_WORDS = 2;
+
+function providerKey(provider: string): string {
+  return provider
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(word => word && !PROVIDER_NOISE.has(word))
+    .join(" ");
+}
+
+// Whole words only: "valley ortho" is not inside "valley orthopedics"
+function containsWords(text: string, key: string): boolean {
+  return ` ${text} `.includes(` ${key} `);
+}
+
+// The same key, or one name spelled out in full inside the other, e.g. "Valley Orthopedics" and
+// "Valley Orthopedics Sports Medicine"
+function sameProvider(a: string, b: string): boolean {
+  const keyA = providerKey(a);
+  const keyB = providerKey(b);
+  if (!keyA || !keyB) return false;
+  if (keyA === keyB) return true;
+
+  const [shorter, longer] = keyA.length <= keyB.length ? [keyA, keyB] : [keyB, keyA];
+  return shorter.split(" ").length >= MIN_PARTIAL_PROVIDER_WORDS && containsWords(longer, shorter);
+}
+
+function toDay(value: string | Date | null | undefined): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().split("T")[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function parseAmount(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return null;
+  const amount = parseFloat(value.replace(/[$,\s]/g, ""));
+  return isNaN(amount) ? null : amount;
+}
+
+// The ways a date is commonly written in medical records, to find it in the extracted text
+function dateSpellings(day: string): string[] {
+  const [year, month, date] = day.split("-").map(Number);
+  const monthName = new Date(Date.UTC(year, month - 1, date)).toLocaleString("en-US", { month: "long", timeZone: "UTC" });
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return [
+    day,
+    `${month}/${date}/${year}`,
+    `${pad(month)}/${pad(date)}/${year}`,
+    `${pad(month)}/${pad(date)}/${String(year).slice(2)}`,
+    `${month}/${date}/${String(year).slice(2)}`,
+    `${monthName} ${date}, ${year}`,
+    `${monthName.slice(0, 3)} ${date}, ${year}`,
+  ];
+}
+
+// Finds the page an event is on: the first chunk mentioning its date, or failing that its provider
+function locatePage(chunks: ChunkText[], day: string | null, provider: string): number | null {
+  if (chunks.length === 0) return null;
+  if (day) {
+    const spellings = dateSpellings(day);
+    const match = chunks.find(chunk => spellings.some(spelling => chunk.content.includes(spelling)));
+    if (match) return match.pageStart;
+  }
+  const key = providerKey(provider);
+  if (key) {
+    const match = chunks.find(chunk => containsWords(providerKey(chunk.content), key));
+    if (match) return match.pageStart;
+  }
+  return null;
+}
+
+interface RawEvent {
+  date: string | null;
+  eventType: string;
+  provider: string;
+  description: string;
+  amount: number | null;
+  source: ChronologySource;
+}
+
+function documentEvents(document: Document, chunks: ChunkText[]): RawEvent[] {
+  const timeline = (document.extractedData as any)?.timeline;
+  if (!Array.isArray(timeline)) return [];
+
+  return timeline
+    .filter((entry: any) => entry && typeof entry === "object")
+    .map((entry: any): RawEvent => {
+      const date = toDay(entry.eventDate);
+      const provider = String(entry.facilityProvider || "").trim();
+      return {
+        date,
+        eventType: String(entry.eventType || "").trim() || "Treatment",
+        provider,
+        description: String(entry.narrativeSummary || "").trim(),
+        // Bills are the record of what was charged; a cost mentioned in a narrative only counts
+        // when no bill covers the visit
+        amount: parseAmount(entry.cost),
+        source: {
+          type: 'document',
+          documentId: document.id,
+          fileName: document.fileName,
+          billId: null,
+          pageNumber: locatePage(chunks, date, provider),
+        },
+      };
+    });
+}
+
+function billEvent(bill: MedicalBill, documentsById: Map<string, Document>, pageByBill: Map<string, number | null>): RawEvent {
+  return {
+    date: toDay(bill.serviceDate),
+    eventType: "Billed treatment",
+    provider: bill.provider,
+    description: bill.treatment || "",
+    amount: parseFloat(bill.amount),
+    source: {
+      type: 'bill',
+      documentId: bill.documentId,
+      fileName: bill.documentId ? documentsById.get(bill.documentId)?.fileName ?? null : null,
+      billId: bill.id,
+      pageNumber: pageByBill.get(bill.id) ?? null,
+    },
+  };
+}
+
+// Two events are the same visit when they share a day and a provider; events with no provider
+// only merge with ones of the same type
+function sameVisit(event: ChronologyEvent, raw: RawEvent): boolean {
+  if (event.date !== raw.date) return false;
+  if (event.provider && raw.provider) return sameProvider(event.provider, raw.provider);
+  return event.eventType.toLowerCase() === raw.eventType.toLowerCase();
+}
+
+function mergeEvents(raws: RawEvent[]): ChronologyEvent[] {
+  const events: ChronologyEvent[] = [];
+  // Bills first, so a merged visit takes its provider name and amount from the bill
+  const ordered = [...raws].sort((a, b) => (a.source.type === b.source.type ? 0 : a.source.type === 'bill' ? -1 : 1));
+
+  for (const raw of ordered) {
+    const existing = raw.date ? events.find(event => sameVisit(event, raw)) : undefined;
+    if (!existing) {
+      events.push({
+        id: "",
+        date: raw.date,
+        eventType: raw.eventType,
+        provider: raw.provider,
+        descriptions: raw.description ? [raw.description] : [],
+        amount: raw.amount,
+        sources: [raw.source],
+      });
+      continue;
+    }
+
+    if (raw.source.type === 'bill') {
+      existing.amount = (existing.amount ?? 0) + (raw.amount ?? 0);
+    } else if (existing.sources.every(source => source.type === 'document') && existing.amount === null) {
+      existing.amount = raw.amount;
+    }
+    // A document's event type ("ER visit") says more than "Billed treatment"
+    if (raw.source.type === 'document' && existing.eventType === "Billed treatment") {
+      existing.eventType = raw.eventType;
+    }
+    if (!existing.provider) existing.provider = raw.provider;
+    if (raw.description && !existing.descriptions.includes(raw.description)) {
+      existing.descriptions.push(raw.description);
+    }
+    const duplicateSource = existing.sources.some(source =>
+      source.type === raw.source.type &&
+      source.documentId === raw.source.documentId &&
+      source.billId === raw.source.billId
+    );
+    if (!duplicateSource) existing.sources.push(raw.source);
+  }
+  return events;
+}
+
+// The accident date most documents agree on
+function incidentDate(documents: Document[]): string | null {
+  const counts = new Map<string, number>();
+  for (const document of documents) {
+    const day = toDay((document.extractedData as any)?.patientInfo?.accidentDate);
+    if (day) counts.set(day, (counts.get(day) || 0) + 1);
+  }
+  let best: string | null = null;
+  counts.forEach((count, day) => {
+    if (!best || count > counts.get(best)!) best = day;
+  });
+  return best;
+}
+
+export function buildChronology(
+  documents: Document[],
+  bills: MedicalBill[],
+  chunks: ChunkText[],
+  proposals: ProposedBill[],
+  gapThresholdDays = DEFAULT_GAP_DAYS
+): CaseChronology {
+  const processed = documents.filter(document => document.aiProcessed && document.extractedData);
+  const documentsById = new Map(documents.map(document => [document.id, document]));
+  const chunksByDocument = new Map<string, ChunkText[]>();
+  for (const chunk of chunks) {
+    chunksByDocument.set(chunk.documentId, [...(chunksByDocument.get(chunk.documentId) || []), chunk]);
+  }
+  // A bill accepted from the review queue knows which page it was read from
+  const pageByBill = new Map(
+    proposals
+      .filter(proposal => proposal.acceptedBillId)
+      .map(proposal => [proposal.acceptedBillId!, proposal.pageNumber])
+  );
+
+  const merged = mergeEvents([
+    ...processed.flatMap(document => documentEvents(document, chunksByDocument.get(document.id) || [])),
+    ...bills.map(bill => billEvent(bill, documentsById, pageByBill)),
+  ]);
+
+  const dated = merged
+    .filter(event => event.date)
+    .sort((a, b) => a.date!.localeCompare(b.date!) || a.provider.localeCompare(b.provider));
+  const undated = merged.filter(event => !event.date);
+  dated.forEach((event, index) => (event.id = `E${index + 1}`));
+  undated.forEach((event, index) => (event.id = `U${index + 1}`));
+
+  const incident = incidentDate(processed);
+  const gaps: TreatmentGap[] = [];
+  const firstTreatment = incident ? dated.find(event => event.date! >= incident!) : undefined;
+  if (incident && firstTreatment && daysBetween(incident, firstTreatment.date!) > gapThresholdDays) {
+    gaps.push({
+      from: incident,
+      to: firstTreatment.date!,
+      days: daysBetween(incident, firstTreatment.date!),
+      afterEventId: null,
+      beforeEventId: firstTreatment.id,
+    });
+  }
+  // Care before the incident isn't part of the claim, so gaps are only counted from the first treatment after it
+  const start = firstTreatment ? dated.indexOf(firstTreatment) : incident ? dated.length : 0;
+  for (let i = start + 1; i < dated.length; i++) {
+    const days = daysBetween(dated[i - 1].date!, dated[i].date!);
+    if (days > gapThresholdDays) {
+      gaps.push({
+        from: dated[i - 1].date!,
+        to: dated[i].date!,
+        days,
+        afterEventId: dated[i - 1].id,
+        beforeEventId: dated[i].id,
+      });
+    }
+  }
+
+  return { events: dated, undated, gaps, gapThresholdDays, incidentDate: incident };
+}
+
+export async function getCaseChronology(caseId: string, gapThresholdDays = DEFAULT_GAP_DAYS): Promise<CaseChronology> {
+  const [documents, bills, chunks, proposals] = await Promise.all([
+    storage.getDocumentsByCase(caseId),
+    storage.getMedicalBillsByCase(caseId),
+    storage.getDocumentChunksByCase(caseId),
+    storage.getProposedBillsByCase(caseId, 'accepted'),
+  ]);
+  return buildChronology(documents, bills, chunks, proposals, gapThresholdDays);
+}
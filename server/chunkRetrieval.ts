@@ -0,0 +1,78 @@
+import { searchBackend, type ChunkSearchResult } from "./searchBackend";
+import { azureOpenAIEmbeddingsService } from "./azureOpenAIEmbeddings";
+import { createRedactor, redactForEmbedding } from "./phiRedaction";
+import type { ChatCitation } from "@shared/schema";
+
+export interface RetrievalOptions {
+  // Whose firm redaction policy applies to the query sent for embedding
+  userId: string;
+  // Cases the caller has access to; retrieval never leaves them
+  caseIds: string[];
+  documentIds?: string[];
+  top?: number;
+}
+
+// Finds the chunks most relevant to a question. Uses hybrid keyword + vector search when
+// embeddings are configured and falls back to keyword search alone otherwise.
+export async function retrieveRelevantChunks(query: string, options: RetrievalOptions): Promise<ChunkSearchResult[]> {
+  if (!query.trim() || options.caseIds.length === 0) {
+    return [];
+  }
+
+  const { userId, ...searchOptions } = options;
+  let queryVector: number[] | undefined;
+  if (azureOpenAIEmbeddingsService.isAvailable()) {
+    try {
+      const redactor = await createRedactor(userId, options.caseIds.length === 1 ? options.caseIds[0] : null);
+      const { embedding } = await azureOpenAIEmbeddingsService.generateEmbedding(redactForEmbedding(redactor, query));
+      queryVector = embedding;
+    } catch (error) {
+      console.error("Error embedding retrieval query, using keyword search only:", error);
+    }
+  }
+
+  return await searchBackend.searchChunks(query, queryVector, { ...searchOptions, top: options.top || 6 });
+}
+
+// Formats retrieved chunks as numbered excerpts for a system prompt
+export function formatChunksForPrompt(chunks: ChunkSearchResult[]): string {
+  return chunks.map((chunk, index) => {
+    const pages = chunk.pageStart
+      ? chunk.pageEnd && chunk.pageEnd !== chunk.pageStart
+        ? `pages ${chunk.pageStart}-${chunk.pageEnd}`
+        : `page ${chunk.pageStart}`
+      : "page unknown";
+    return `[${index + 1}] ${chunk.fileName} (${pages})\n${chunk.content}`;
+  }).join("\n\n---\n\n");
+}
+
+const CITATION_EXCERPT_LENGTH = 240;
+
+// Turns the [n] markers an answer uses into citations for the excerpts they refer to
+export function extractCitations(answer: string, chunks: ChunkSearchResult[]): ChatCitation[] {
+  const markers = new Set<number>();
+  for (const match of Array.from(answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g))) {
+    for (const value of match[1].split(",")) {
+      const marker = parseInt(value.trim(), 10);
+      if (marker >= 1 && marker <= chunks.length) markers.add(marker);
+    }
+  }
+
+  return Array.from(markers)
+    .sort((a, b) => a - b)
+    .map(marker => {
+      const chunk = chunks[marker - 1];
+      const excerpt = chunk.content.replace(/\s+/g, " ").trim();
+      return {
+        marker,
+        documentId: chunk.documentId,
+        fileName: chunk.fileName,
+        chunkId: chunk.id,
+        pageStart: chunk.pageStart ?? null,
+        pageEnd: chunk.pageEnd ?? null,
+        excerpt: excerpt.length > CITATION_EXCERPT_LENGTH
+          ? `${excerpt.slice(0, CITATION_EXCERPT_LENGTH)}…`
+          : excerpt,
+      };
+    });
+}
@@ -0,0 +1,357 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { createAIService } from "./aiProviders";
+import { withRedaction } from "./phiRedaction";
+import { computeSpecials } from "./specials";
+import { caseVariables, demandLetterSources, demandLetterVariables, resolvePrompt } from "./promptTemplates";
+import { renderLetterTemplate, formatDollars } from "./letterTemplates";
+import type { DemandLetterDraft } from "./aiOutputSchemas";
+import {
+  DEMAND_LETTER_SECTIONS,
+  DEMAND_LETTER_STATUSES,
+  demandLetterInputSchema,
+  type Case,
+  type DemandLetter,
+  type DemandLetterInput,
+  type DemandLetterSection,
+  type DemandLetterSource,
+  type DemandLetterStatus,
+  type InsertDemandLetter,
+  type LetterTemplate,
+  type MedicalBill,
+  type MedicalBillPayment,
+  type User,
+} from "@shared/schema";
+
+const dollarAmount = z.string().regex(/^\d+(\.\d{1,2})?$/, "Demand amount must be a dollar amount");
+
+export const demandLetterRequestSchema = demandLetterInputSchema.extend({
+  caseId: z.string().min(1, "Case is required"),
+  // Overrides the amount the AI suggests
+  demandAmount: dollarAmount.optional(),
+  // A letter template id, "none" for the built-in layout, or left out for the user's default template
+  templateId: z.string().optional(),
+});
+
+export type DemandLetterRequest = z.infer<typeof demandLetterRequestSchema>;
+
+// Changes saved from the letter editor. Section text is replaced by key and keeps its sources;
+// content is only edited directly on letters generated before they had sections.
+export const demandLetterEditsSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").optional(),
+  sections: z.array(z.object({
+    key: z.enum(DEMAND_LETTER_SECTIONS),
+    content: z.string(),
+  })).optional(),
+  content: z.string().optional(),
+  demandAmount: dollarAmount.nullable().optional(),
+  note: z.string().trim().max(200).optional(),
+});
+
+export type DemandLetterEdits = z.infer<typeof demandLetterEditsSchema>;
+
+export const demandLetterRewriteSchema = z.object({
+  // The section to rewrite; left out for letters without sections, which are rewritten whole
+  sectionKey: z.enum(DEMAND_LETTER_SECTIONS).optional(),
+  instruction: z.string().trim().min(1, "Instruction is required").max(1000),
+});
+
+export const demandLetterStatusChangeSchema = z.object({
+  status: z.enum(DEMAND_LETTER_STATUSES),
+  note: z.string().trim().max(500).optional(),
+});
+
+// draft -> attorney review -> approved -> sent. A reviewer can send a letter back to draft, and an
+// approved letter can be reopened until it has been sent.
+export const DEMAND_LETTER_TRANSITIONS: Record<DemandLetterStatus, DemandLetterStatus[]> = {
+  draft: ['attorney_review'],
+  attorney_review: ['approved', 'draft'],
+  approved: ['sent', 'draft'],
+  sent: [],
+};
+
+export function canTransitionDemandLetter(from: string, to: DemandLetterStatus): boolean {
+  return (DEMAND_LETTER_TRANSITIONS[from as DemandLetterStatus] || []).includes(to);
+}
+
+// Approved and sent letters are locked; reopening one as a draft makes it editable again
+export function isDemandLetterEditable(letter: DemandLetter): boolean {
+  return letter.status === 'draft' || letter.status === 'attorney_review';
+}
+
+const SECTION_TITLES: Record<DemandLetterSection['key'], string> = {
+  liability: "Liability",
+  injuries: "Injuries",
+  treatment_chronology: "Treatment Chronology",
+  specials: "Medical Specials",
+  general_damages: "General Damages",
+  demand: "Demand",
+};
+
+// The specials table is built from the bills and their payments rather than written by the AI, so
+// every amount in it matches the case's ledger
+function specialsSection(bills: MedicalBill[], payments: MedicalBillPayment[], sources: DemandLetterSource[]): DemandLetterSection {
+  const specials = computeSpecials(bills, payments);
+  const treatments = new Map(bills.map(bill => [bill.id, bill.treatment]));
+  const rows = specials.bills.map(bill =>
+    `| ${bill.serviceDate.toISOString().split("T")[0]} | ${bill.provider} | ${treatments.get(bill.billId) || ""} | ${formatDollars(bill.billed)} | ${formatDollars(bill.paid)} | ${formatDollars(bill.outstanding)} |`
+  );
+  const { totals } = specials;
+
+  return {
+    key: 'specials',
+    title: SECTION_TITLES.specials,
+    content: bills.length === 0
+      ? "No medical bills have been recorded for this case."
+      : [
+          "| Date of service | Provider | Treatment | Billed | Paid | Outstanding |",
+          "| --- | --- | --- | ---: | ---: | ---: |",
+          ...rows,
+          `| | **Total** | | **${formatDollars(totals.billed)}** | **${formatDollars(totals.paid)}** | **${formatDollars(totals.outstanding)}** |`,
+        ].join("\n"),
+    sources: sources.filter(source => source.type === 'bill'),
+    totals,
+  };
+}
+
+// Maps the ids a drafted section cites back to the documents and bills they stand for. Ids the
+// model made up are dropped.
+function draftedSection(
+  draft: DemandLetterDraft,
+  key: DemandLetterSection['key'],
+  sourcesById: Map<string, DemandLetterSource>
+): DemandLetterSection {
+  const written = draft.sections.filter(section => section.key === key);
+  const sourceIds = Array.from(new Set(written.flatMap(section => section.sourceIds)));
+
+  return {
+    key,
+    title: SECTION_TITLES[key],
+    content: written.map(section => section.content.trim()).join("\n\n"),
+    sources: sourceIds
+      .map(id => sourcesById.get(id.trim().toUpperCase()))
+      .filter((source): source is DemandLetterSource => !!source),
+  };
+}
+
+// Appended to the letter prompt to regenerate one section, so it's written from the same prompt
+// and sources as the rest of the letter
+function sectionOnlyInstruction(key: DemandLetterSection['key']): string {
+  return `This time write only the ${key} section (${SECTION_TITLES[key]}) and leave out every other section.\n\n` +
+    `Format as JSON object: {"sections": [{"key": "${key}", "content": "...", "sourceIds": ["..."]}]}`;
+}
+
+interface DraftedLetter {
+  sections: DemandLetterSection[];
+  demandAmount: string | null;
+  promptVersionId: string | null;
+}
+
+// The AI writes the narrative sections and cites what each one is based on; the specials table is
+// filled in from the bills. With a section key only that section is drafted.
+async function draftDemandLetter(
+  user: User,
+  caseData: Case,
+  input: DemandLetterInput,
+  sectionKey?: DemandLetterSection['key']
+): Promise<DraftedLetter> {
+  const [documents, bills, payments] = await Promise.all([
+    storage.getDocumentsByCase(caseData.id),
+    storage.getMedicalBillsByCase(caseData.id),
+    storage.getMedicalBillPaymentsByCase(caseData.id),
+  ]);
+
+  const letterInput = {
+    clientName: input.clientName,
+    incidentDate: input.incidentDate,
+    medicalSummary: input.medicalSummary,
+    damages: input.damages,
+    liability: input.liability,
+  };
+  const variables = demandLetterVariables(caseData, documents, bills, payments);
+  const resolved = await resolvePrompt(user.id, 'demand_letter', { ...variables, ...letterInput });
+  const prompt = sectionKey ? `${resolved.prompt}\n\n${sectionOnlyInstruction(sectionKey)}` : resolved.prompt;
+
+  const aiService = await withRedaction(createAIService(user), user.id, caseData.id);
+  const draft = await aiService.generateDemandLetter(
+    { ...letterInput, caseNumber: caseData.caseNumber },
+    variables.documents,
+    variables.bills,
+    prompt
+  );
+
+  const sourcesById = new Map(demandLetterSources(documents, bills).map(({ sourceId, ...source }) => [sourceId, source]));
+  const sections = (sectionKey ? [sectionKey] : DEMAND_LETTER_SECTIONS).map(key =>
+    key === 'specials'
+      ? specialsSection(bills, payments, Array.from(sourcesById.values()))
+      : draftedSection(draft, key, sourcesById)
+  );
+
+  return { sections, demandAmount: draft.demandAmount ?? null, promptVersionId: resolved.promptVersionId };
+}
+
+// Drafts a demand letter from the case's analyzed documents and bills, laid out with the given
+// template. The letter keeps a copy of the template, so later template edits don't change it.
+export async function generateDemandLetter(
+  user: User,
+  caseData: Case,
+  request: DemandLetterRequest,
+  template?: LetterTemplate
+): Promise<DemandLetter> {
+  const { caseId, demandAmount, templateId, ...input } = request;
+  const draft = await draftDemandLetter(user, caseData, input);
+
+  const layout = {
+    title: `Demand Letter - ${input.clientName}`,
+    input,
+    sections: draft.sections,
+    demandAmount: demandAmount ?? draft.demandAmount,
+    templateBody: template?.body ?? null,
+  };
+  return await storage.createDemandLetter({
+    caseId: caseData.id,
+    title: layout.title,
+    content: renderLetterTemplate(layout, caseData),
+    sections: layout.sections,
+    demandAmount: layout.demandAmount,
+    input,
+    templateId: template?.id ?? null,
+    templateBody: layout.templateBody,
+    generatedBy: user.id,
+    promptVersionId: draft.promptVersionId,
+  });
+}
+
+// Letters generated before they had sections only have the rendered text
+export function hasDemandLetterSections(letter: DemandLetter): letter is DemandLetter & { sections: DemandLetterSection[]; input: DemandLetterInput } {
+  return !!letter.sections?.length && !!letter.input;
+}
+
+// Re-renders the letter's text around changed sections, title or demand amount
+function withSections(
+  letter: DemandLetter,
+  caseData: Case,
+  changes: { title?: string; sections?: DemandLetterSection[]; demandAmount?: string | null }
+): Partial<InsertDemandLetter> {
+  const layout = {
+    title: changes.title ?? letter.title,
+    input: letter.input!,
+    sections: changes.sections ?? letter.sections!,
+    demandAmount: changes.demandAmount !== undefined ? changes.demandAmount : letter.demandAmount,
+    templateBody: letter.templateBody,
+  };
+  return {
+    title: layout.title,
+    sections: layout.sections,
+    demandAmount: layout.demandAmount,
+    content: renderLetterTemplate(layout, caseData),
+  };
+}
+
+// Turns editor changes into the letter's new fields, re-rendering the text from its sections
+export function applyDemandLetterEdits(letter: DemandLetter, caseData: Case, edits: DemandLetterEdits): Partial<InsertDemandLetter> {
+  const title = edits.title ?? letter.title;
+  const updates: Partial<InsertDemandLetter> = { title };
+  if (edits.demandAmount !== undefined) {
+    updates.demandAmount = edits.demandAmount;
+  }
+
+  if (!hasDemandLetterSections(letter)) {
+    return { ...updates, content: edits.content ?? letter.content };
+  }
+
+  // The specials table only changes by being rebuilt from the bills
+  const editedContent = new Map(
+    (edits.sections || []).filter(section => section.key !== 'specials').map(section => [section.key, section.content])
+  );
+  const sections = letter.sections.map(section => ({
+    ...section,
+    content: editedContent.get(section.key) ?? section.content,
+  }));
+  return { ...updates, ...withSections(letter, caseData, { title, sections, demandAmount: updates.demandAmount }) };
+}
+
+// Rewrites one section from the case's current documents and bills, leaving the rest of the
+// letter as it is
+export async function regenerateDemandLetterSection(
+  user: User,
+  caseData: Case,
+  letter: DemandLetter,
+  key: DemandLetterSection['key']
+): Promise<DemandLetter> {
+  if (!hasDemandLetterSections(letter)) {
+    throw new Error("Only letters with sections can have a section regenerated");
+  }
+
+  let section: DemandLetterSection;
+  // Like a generated letter, it records the prompt version the new text came from
+  let promptVersion: Pick<InsertDemandLetter, 'promptVersionId'> = {};
+  if (key === 'specials') {
+    const [bills, payments] = await Promise.all([
+      storage.getMedicalBillsByCase(caseData.id),
+      storage.getMedicalBillPaymentsByCase(caseData.id),
+    ]);
+    const sources = demandLetterSources([], bills).map(({ sourceId, ...source }) => source);
+    section = specialsSection(bills, payments, sources);
+  } else {
+    const draft = await draftDemandLetter(user, caseData, letter.input, key);
+    section = draft.sections[0];
+    if (!section.content) {
+      throw new Error(`The AI didn't write the ${SECTION_TITLES[key]} section`);
+    }
+    promptVersion = { promptVersionId: draft.promptVersionId };
+  }
+
+  const sections = letter.sections.some(existing => existing.key === key)
+    ? letter.sections.map(existing => (existing.key === key ? section : existing))
+    : [...letter.sections, section];
+  return await storage.saveDemandLetter(
+    letter.id,
+    { ...withSections(letter, caseData, { sections }), ...promptVersion },
+    user.id,
+    `Regenerated the ${SECTION_TITLES[key]} section`
+  );
+}
+
+// Models sometimes wrap their answer in a code fence despite being asked not to
+function stripCodeFence(text: string): string {
+  const fenced = text.trim().match(/^```[\w-]*\n([\s\S]*?)\n```$/);
+  return (fenced ? fenced[1] : text).trim();
+}
+
+// Applies a free-form instruction ("make this firmer", "shorten to one paragraph") to a section,
+// or to the whole text of a letter without sections, using the user's document_editing prompt
+export async function rewriteDemandLetter(
+  user: User,
+  caseData: Case,
+  letter: DemandLetter,
+  sectionKey: DemandLetterSection['key'] | undefined,
+  instruction: string
+): Promise<DemandLetter> {
+  const section = sectionKey && hasDemandLetterSections(letter)
+    ? letter.sections.find(existing => existing.key === sectionKey)
+    : undefined;
+  if (hasDemandLetterSections(letter) && !section) {
+    throw new Error(`The letter has no ${sectionKey} section`);
+  }
+
+  const { prompt, promptVersionId } = await resolvePrompt(user.id, 'document_editing', {
+    ...caseVariables(caseData),
+    fileName: section ? `${letter.title} - ${section.title}` : letter.title,
+    content: section ? section.content : letter.content,
+  });
+  const aiService = await withRedaction(createAIService(user), user.id, caseData.id);
+  const rewritten = stripCodeFence(await aiService.chatCompletion([{ role: "user", content: instruction }], prompt));
+  if (!rewritten) {
+    throw new Error("The AI returned an empty rewrite");
+  }
+
+  // Like a regenerated section, the saved version records the prompt version that wrote it
+  const note = `Rewrote ${section ? `the ${section.title} section` : "the letter"}: ${instruction}`.slice(0, 200);
+  if (!section) {
+    return await storage.saveDemandLetter(letter.id, { content: rewritten, promptVersionId }, user.id, note);
+  }
+
+  const sections = letter.sections!.map(existing => (existing.key === sectionKey ? { ...existing, content: rewritten } : existing));
+  return await storage.saveDemandLetter(letter.id, { ...withSections(letter, caseData, { sections }), promptVersionId }, user.id, note);
+}
@@ -0,0 +1,559 @@
+import { storage } from "./storage";
+import type { AIUsage } from "./aiService";
+import { createAIService } from "./aiProviders";
+import { withRedaction, createRedactor, redactForEmbedding, RedactingAIService, type PhiRedactor } from "./phiRedaction";
+import { resolvePrompt, caseVariables } from "./promptTemplates";
+import { jobQueue, PermanentJobError, type JobContext } from "./jobQueue";
+import { AIOutputValidationError, type DocumentAnalysis, type ExtractedBill } from "./aiOutputSchemas";
+import { CONTAINERS } from "./azureBlobStorage";
+import { searchBackend } from "./searchBackend";
+import { proposeExtractedBills } from "./billProposals";
+import { documentIntelligenceService, getPageRange, getPageSpans } from "./azureDocumentIntelligence";
+import { azureOpenAIEmbeddingsService } from "./azureOpenAIEmbeddings";
+import {
+  type Document,
+  type DocumentProcessingRun,
+  type InsertDocumentChunk,
+  type ProcessingError,
+  type ProcessingJob,
+  type ProcessingStage,
+} from "@shared/schema";
+
+export const ANALYSIS_STAGES: ProcessingStage[] = ['text_extraction', 'embedding', 'ai_analysis', 'bill_extraction', 'search_indexing'];
+export const BILL_EXTRACTION_STAGES: ProcessingStage[] = ['text_extraction', 'bill_extraction'];
+
+const DOCUMENT_INTELLIGENCE_MODEL = "prebuilt-document";
+
+// Job payload shared by the analysis and bill extraction jobs
+export interface DocumentJobPayload {
+  documentType?: string;
+  // Completed stages of this earlier job are reused instead of re-run
+  resumeFromJobId?: string;
+}
+
+// objectPath is stored as "documents/userId/timestamp_filename.pdf" by the upload route,
+// but older uploads stored the bare blob name
+export function resolveBlobName(objectPath: string): string {
+  if (objectPath.startsWith(`${CONTAINERS.DOCUMENTS}/`)) {
+    return objectPath.substring(`${CONTAINERS.DOCUMENTS}/`.length);
+  }
+  return objectPath;
+}
+
+interface StageOutcome<T> {
+  output: T;
+  status?: 'completed' | 'skipped';
+  model?: string | null;
+  usage?: Pick<AIUsage, 'promptTokens' | 'completionTokens' | 'totalTokens'> | null;
+  promptVersionId?: string | null;
+  note?: string;
+}
+
+async function recordProcessingError(documentId: string, error: Omit<ProcessingError, 'occurredAt'>): Promise<void> {
+  const document = await storage.getDocumentById(documentId);
+  if (!document) return;
+
+  await storage.updateDocument(documentId, {
+    processingErrors: [
+      ...(document.processingErrors || []),
+      { ...error, occurredAt: new Date().toISOString() },
+    ],
+  });
+}
+
+// Records every stage in document_processing_runs and short-circuits stages
+// that already completed for this job (on retry) or for the job being resumed
+class PipelineRun {
+  private constructor(
+    private job: ProcessingJob,
+    private document: Document,
+    private context: JobContext,
+    private reusable: Map<string, DocumentProcessingRun>,
+  ) {}
+
+  static async start(job: ProcessingJob, document: Document, context: JobContext): Promise<PipelineRun> {
+    const payload = (job.payload as DocumentJobPayload | null) || {};
+    const jobIds = [job.id, ...(payload.resumeFromJobId ? [payload.resumeFromJobId] : [])];
+    const completedRuns = await storage.getCompletedProcessingRuns(document.id, jobIds);
+
+    // Runs are ordered newest first, so the first one seen per stage wins
+    const reusable = new Map<string, DocumentProcessingRun>();
+    for (const run of completedRuns) {
+      if (!reusable.has(run.stage)) reusable.set(run.stage, run);
+    }
+    return new PipelineRun(job, document, context, reusable);
+  }
+
+  get jobId(): string {
+    return this.job.id;
+  }
+
+  async stage<T>(
+    stage: ProcessingStage,
+    execute: () => Promise<StageOutcome<T>>,
+    options: { optional?: boolean } = {},
+  ): Promise<T | null> {
+    const previous = this.reusable.get(stage);
+    if (previous) {
+      console.log(`⏭️  Reusing completed ${stage} stage from run ${previous.id}`);
+      await storage.createProcessingRun({
+        documentId: this.document.id,
+        jobId: this.job.id,
+        stage,
+        status: 'completed',
+        model: previous.model,
+        promptVersionId: previous.promptVersionId,
+        output: previous.output as any,
+        resumedFromRunId: previous.resumedFromRunId || previous.id,
+        startedAt: new Date(),
+        completedAt: new Date(),
+        durationMs: 0,
+      });
+      await this.context.setStage(stage, 'completed');
+      return previous.output as T;
+    }
+
+    const startedAt = new Date();
+    const run = await storage.createProcessingRun({
+      documentId: this.document.id,
+      jobId: this.job.id,
+      stage,
+      status: 'running',
+      startedAt,
+    });
+    await this.context.setStage(stage, 'running');
+
+    try {
+      const outcome = await execute();
+      const status = outcome.status || 'completed';
+      await storage.updateProcessingRun(run.id, {
+        status,
+        model: outcome.model ?? null,
+        promptVersionId: outcome.promptVersionId ?? null,
+        promptTokens: outcome.usage?.promptTokens ?? null,
+        completionTokens: outcome.usage?.completionTokens ?? null,
+        totalTokens: outcome.usage?.totalTokens ?? null,
+        output: (outcome.output ?? null) as any,
+        error: outcome.note ?? null,
+        completedAt: new Date(),
+        durationMs: Date.now() - startedAt.getTime(),
+      });
+      await this.context.setStage(stage, status, outcome.note);
+      return outcome.output;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      await storage.updateProcessingRun(run.id, {
+        status: 'failed',
+        error: message,
+        completedAt: new Date(),
+        durationMs: Date.now() - startedAt.getTime(),
+      });
+      await this.context.setStage(stage, 'failed', message);
+
+      if (options.optional) {
+        console.error(`⚠️ Optional stage ${stage} failed, continuing:`, message);
+        // The job still succeeds, so this is the only place the failure shows up
+        await recordProcessingError(this.document.id, { stage, message, jobId: this.job.id });
+        return null;
+      }
+      // The model already had its repair attempts; retrying the whole job rarely helps
+      if (err instanceof AIOutputValidationError) {
+        throw new PermanentJobError(message);
+      }
+      throw err;
+    }
+  }
+
+  async skip(stage: ProcessingStage, reason: string): Promise<void> {
+    await storage.createProcessingRun({
+      documentId: this.document.id,
+      jobId: this.job.id,
+      stage,
+      status: 'skipped',
+      error: reason,
+      startedAt: new Date(),
+      completedAt: new Date(),
+      durationMs: 0,
+    });
+    await this.context.setStage(stage, 'skipped', reason);
+  }
+}
+
+async function loadJobDocument(job: ProcessingJob): Promise<Document> {
+  if (!job.documentId) {
+    throw new PermanentJobError(`Job ${job.id} has no document`);
+  }
+  const document = await storage.getDocumentById(job.documentId);
+  if (!document) {
+    throw new PermanentJobError(`Document ${job.documentId} no longer exists`);
+  }
+  return document;
+}
+
+async function loadAIService(userId: string, caseId: string) {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new PermanentJobError(`User ${userId} not found`);
+  }
+  let aiService;
+  try {
+    aiService = createAIService(user);
+  } catch (error) {
+    // Missing API keys won't fix themselves between retries
+    throw new PermanentJobError(error instanceof Error ? error.message : "AI service not configured");
+  }
+  return await withRedaction(aiService, userId, caseId);
+}
+
+// What the firm's redaction policy masked, when this job sent the document's text to the AI provider
+function redactionReport(aiService: Awaited<ReturnType<typeof loadAIService>>) {
+  return aiService instanceof RedactingAIService ? aiService.getRedactionReport() : null;
+}
+
+interface TextExtractionOutput {
+  source: 'document_intelligence' | 'stored' | 'fallback';
+  characters: number;
+  pages?: number;
+  fallbackText?: string;
+}
+
+// The extracted text lives on documents.documentIntelligence so it isn't duplicated per run
+async function extractText(run: PipelineRun, document: Document, reuseStored: boolean): Promise<string> {
+  const output = await run.stage<TextExtractionOutput>('text_extraction', async () => {
+    const stored = document.documentIntelligence as { extractedText?: string; pages?: number } | null;
+    if (reuseStored && stored?.extractedText) {
+      console.log(`♻️  Reusing stored Document Intelligence text for: ${document.fileName}`);
+      return { output: { source: 'stored', characters: stored.extractedText.length, pages: stored.pages } };
+    }
+
+    if (!documentIntelligenceService.isAvailable() || !document.objectPath) {
+      const reason = !documentIntelligenceService.isAvailable()
+        ? "Azure Document Intelligence service not available"
+        : "Document file path missing";
+      console.log(`⚠️ Document Intelligence SKIPPED: ${reason}`);
+      const fallbackText = `Document: ${document.fileName}\nUploaded: ${document.createdAt ? new Date(document.createdAt).toLocaleDateString() : 'Unknown'}\nFile Type: ${document.mimeType}\n\nNote: ${reason}. Cannot perform text extraction.`;
+      return { status: 'skipped', note: reason, output: { source: 'fallback', characters: fallbackText.length, fallbackText } };
+    }
+
+    const blobName = resolveBlobName(document.objectPath);
+    console.log(`🤖 STARTING Document Intelligence analysis for: ${document.fileName} (${CONTAINERS.DOCUMENTS}/${blobName})`);
+
+    const result = await documentIntelligenceService.analyzeDocument(CONTAINERS.DOCUMENTS, blobName);
+    console.log(`✅ Document Intelligence extracted ${result.text.length} characters from ${document.fileName}`);
+
+    await storage.updateDocument(document.id, {
+      documentIntelligence: {
+        extractedText: result.text,
+        confidence: result.confidence,
+        pages: result.pages,
+        tablesCount: result.tables?.length || 0,
+        keyValuePairsCount: result.keyValuePairs?.length || 0,
+        tables: result.tables,
+        keyValuePairs: result.keyValuePairs,
+        fullResult: result.fullResult, // Store complete JSON response
+        analyzedAt: new Date().toISOString()
+      }
+    });
+
+    return {
+      model: DOCUMENT_INTELLIGENCE_MODEL,
+      output: { source: 'document_intelligence', characters: result.text.length, pages: result.pages },
+    };
+  });
+
+  if (output?.source === 'fallback') {
+    return output.fallbackText || "";
+  }
+
+  const refreshed = await storage.getDocumentById(document.id);
+  const stored = refreshed?.documentIntelligence as { extractedText?: string } | null;
+  return stored?.extractedText || "";
+}
+
+interface BillExtractionOutput {
+  extractedCount: number;
+  proposalIds: string[];
+}
+
+// Template variables for prompts about a single document
+async function documentPromptValues(document: Document, content: string, documentType?: string) {
+  const caseData = await storage.getCaseById(document.caseId);
+  return {
+    ...caseVariables(caseData),
+    fileName: document.fileName,
+    content,
+    documentType: documentType || "",
+  };
+}
+
+// Extracted bills are stored as proposals for review; nothing reaches medicalBills until a reviewer accepts it
+async function extractBills(
+  run: PipelineRun,
+  document: Document,
+  userId: string,
+  aiService: Awaited<ReturnType<typeof loadAIService>>,
+  documentContent: string,
+  options: { optional?: boolean } = {},
+): Promise<BillExtractionOutput | null> {
+  if (!documentContent.trim()) {
+    await run.skip('bill_extraction', "No text content found in document");
+    return null;
+  }
+
+  return await run.stage<BillExtractionOutput>('bill_extraction', async () => {
+    const { prompt, promptVersionId } = await resolvePrompt(userId, 'bill_extraction', await documentPromptValues(document, documentContent));
+    const extractedBills = await aiService.extractMedicalBills(documentContent, document.fileName, prompt);
+    const usage = aiService.getLastUsage();
+    console.log(`📋 Found ${extractedBills.length} medical bills to propose for review`);
+    const proposals = await proposeExtractedBills(document, run.jobId, extractedBills);
+    return {
+      model: usage?.model,
+      usage,
+      promptVersionId,
+      output: {
+        extractedCount: extractedBills.length,
+        proposalIds: proposals.map((proposal) => proposal.id),
+      },
+    };
+  }, options);
+}
+
+interface EmbeddingOutput {
+  model: string | null;
+  dimensions: number;
+  chunkCount: number;
+}
+
+// Roughly a page or two of a medical record per chunk, small enough for precise retrieval
+const CHUNK_MAX_TOKENS = 1000;
+const EMBEDDING_BATCH_SIZE = 16;
+
+// Splits the text into chunks, embeds them when embeddings are configured and replaces the
+// document's document_chunks rows. Chunks are stored either way so keyword search still works.
+export async function embedDocumentChunks(
+  document: Document,
+  documentContent: string,
+  redactor: PhiRedactor | null = null
+): Promise<{
+  model: string | null;
+  dimensions: number;
+  chunkCount: number;
+  totalTokens: number;
+}> {
+  const textChunks = azureOpenAIEmbeddingsService.chunkTextWithOffsets(documentContent, CHUNK_MAX_TOKENS);
+  const fullResult = (document.documentIntelligence as { fullResult?: any } | null)?.fullResult;
+  const pageSpans = getPageSpans(fullResult);
+  const embed = azureOpenAIEmbeddingsService.isAvailable();
+
+  const rows: InsertDocumentChunk[] = [];
+  let model: string | null = null;
+  let dimensions = 0;
+  let totalTokens = 0;
+
+  for (let i = 0; i < textChunks.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = textChunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const results = embed
+      ? await azureOpenAIEmbeddingsService.generateEmbeddings(batch.map(chunk => redactForEmbedding(redactor, chunk.content)))
+      : [];
+
+    batch.forEach((chunk, offset) => {
+      const result = results[offset];
+      if (result) {
+        model = result.model;
+        dimensions = result.dimensions;
+        totalTokens += result.usage.totalTokens;
+      }
+      rows.push({
+        documentId: document.id,
+        caseId: document.caseId,
+        chunkIndex: i + offset,
+        content: chunk.content,
+        charStart: chunk.start,
+        charEnd: chunk.end,
+        tokenCount: result?.usage.promptTokens || chunk.estimatedTokens,
+        embedding: result?.embedding ?? null,
+        embeddingModel: result?.model ?? null,
+        ...getPageRange(pageSpans, chunk.start, chunk.end),
+      });
+    });
+  }
+
+  await storage.replaceDocumentChunks(document.id, rows);
+  if (embed) {
+    await storage.updateDocument(document.id, {
+      vectorEmbedding: {
+        model,
+        dimensions,
+        chunkCount: rows.length,
+        tokensUsed: totalTokens,
+        createdAt: new Date().toISOString()
+      }
+    });
+  }
+  console.log(`✅ Stored ${rows.length} ${embed ? 'embedded ' : ''}chunks for: ${document.fileName}`);
+
+  return { model, dimensions, chunkCount: rows.length, totalTokens };
+}
+
+async function runDocumentAnalysis(job: ProcessingJob, context: JobContext) {
+  const document = await loadJobDocument(job);
+  const payload = (job.payload as DocumentJobPayload | null) || {};
+  // Re-analysis keeps the type given at upload
+  const documentType = payload.documentType || document.documentType || undefined;
+
+  console.log(`🚀 Starting document processing pipeline for: ${document.fileName} (job ${job.id})`);
+  await storage.updateDocument(document.id, {
+    processingStatus: 'analyzing',
+    lastProcessedAt: new Date(),
+  });
+
+  const aiService = await loadAIService(job.userId, document.caseId);
+  const embeddingRedactor = await createRedactor(job.userId, document.caseId);
+  const run = await PipelineRun.start(job, document, context);
+
+  // Step 1: Extract text using Azure Document Intelligence
+  const documentContent = await extractText(run, document, false);
+
+  // Step 2: Chunk and embed the full text (only used for search and chat retrieval, so failures don't stop the pipeline)
+  let embedding: EmbeddingOutput | null = null;
+  if (documentContent.length > 0) {
+    embedding = await run.stage<EmbeddingOutput>('embedding', async () => {
+      const refreshed = await storage.getDocumentById(document.id);
+      const result = await embedDocumentChunks(refreshed || document, documentContent, embeddingRedactor);
+      return {
+        model: result.model,
+        usage: result.model
+          ? { promptTokens: result.totalTokens, completionTokens: 0, totalTokens: result.totalTokens }
+          : undefined,
+        output: { model: result.model, dimensions: result.dimensions, chunkCount: result.chunkCount },
+      };
+    }, { optional: true });
+  } else {
+    await run.skip('embedding', "No text extracted");
+  }
+
+  // Step 3: AI analysis
+  const aiResponse = await run.stage<DocumentAnalysis>('ai_analysis', async () => {
+    const { prompt, promptVersionId } = await resolvePrompt(
+      job.userId,
+      'document_analysis',
+      await documentPromptValues(document, documentContent, documentType)
+    );
+    const response = await aiService.analyzeDocument(documentContent, document.fileName, prompt);
+    const usage = aiService.getLastUsage();
+    // Set here rather than with the results so a reused stage keeps the version that produced them
+    await storage.updateDocument(document.id, { analysisPromptVersionId: promptVersionId });
+    return { model: usage?.model, usage, promptVersionId, output: response };
+  });
+  if (!aiResponse) {
+    throw new Error("AI analysis produced no result");
+  }
+
+  // Step 4: Extract medical bills from the document
+  const billResult = await extractBills(run, document, job.userId, aiService, documentContent, { optional: true });
+
+  const extractedData = {
+    patientInfo: { names: [], ages: [], addresses: [], phoneNumbers: [], insuranceInfo: [] },
+    medicalInfo: { diagnoses: [], procedures: [], medications: [], providers: [] },
+    timeline: { dates: [], servicesPeriod: "" },
+    locations: { facilities: [], addresses: [] },
+    additionalDetails: { keyFindings: aiResponse.keyFindings || [], costs: [], complications: [] },
+    ...(aiResponse.extractedData && typeof aiResponse.extractedData === 'object' ? aiResponse.extractedData : {}),
+  };
+
+  // Step 5: Search indexing (Azure Search, or the Postgres chunk index written in step 2)
+  let searchIndexed = false;
+  if (documentContent.length > 0) {
+    const indexed = await run.stage('search_indexing', async () => {
+      const chunks = await storage.getDocumentChunks(document.id);
+      let summaryVector: number[] | undefined;
+
+      if (searchBackend.name === 'azure' && aiResponse.summary && azureOpenAIEmbeddingsService.isAvailable()) {
+        try {
+          const summaryEmbedding = await azureOpenAIEmbeddingsService.generateEmbedding(
+            redactForEmbedding(embeddingRedactor, aiResponse.summary)
+          );
+          summaryVector = summaryEmbedding.embedding;
+        } catch (summaryEmbeddingError) {
+          console.error("Error generating summary embedding:", summaryEmbeddingError);
+        }
+      }
+
+      await searchBackend.indexDocument({
+        document,
+        content: documentContent,
+        summary: aiResponse.summary || '',
+        documentType: documentType || 'analyzed',
+        summaryVector,
+        chunks,
+      });
+      await storage.updateDocument(document.id, {
+        searchIndexed: true,
+        searchIndexedAt: new Date()
+      });
+      return { output: { indexed: true, backend: searchBackend.name } };
+    }, { optional: true });
+    searchIndexed = !!indexed;
+  } else {
+    await run.skip('search_indexing', "No text extracted");
+  }
+
+  // Step 6: Store final results
+  const report = redactionReport(aiService);
+  await storage.updateDocument(document.id, {
+    aiSummary: aiResponse.summary,
+    extractedData,
+    aiProcessed: true,
+    processingStatus: 'processed',
+    lastProcessedAt: new Date(),
+    ...(report ? { redactionReport: report } : {}),
+  });
+  console.log(`✅ Document processing pipeline completed for: ${document.fileName}`);
+
+  return {
+    summary: aiResponse.summary,
+    billsProposed: billResult?.proposalIds?.length || 0,
+    vectorEmbedding: !!embedding?.model,
+    searchIndexed,
+  };
+}
+
+async function runBillExtraction(job: ProcessingJob, context: JobContext) {
+  const document = await loadJobDocument(job);
+  const aiService = await loadAIService(job.userId, document.caseId);
+
+  if (!document.documentIntelligence && !documentIntelligenceService.isAvailable()) {
+    throw new PermanentJobError("Document Intelligence service not available");
+  }
+
+  const run = await PipelineRun.start(job, document, context);
+  const documentContent = await extractText(run, document, true);
+  const result = await extractBills(run, document, job.userId, aiService, documentContent);
+  const report = redactionReport(aiService);
+  if (report) {
+    await storage.updateDocument(document.id, { redactionReport: report });
+  }
+
+  return {
+    extractedCount: result?.extractedCount || 0,
+    proposedCount: result?.proposalIds?.length || 0,
+    proposalIds: result?.proposalIds || [],
+  };
+}
+
+async function markDocumentFailed(job: ProcessingJob, error: Error): Promise<void> {
+  if (!job.documentId) return;
+  const document = await storage.getDocumentById(job.documentId);
+  if (!document) return;
+
+  await recordProcessingError(document.id, { stage: job.currentStage, message: error.message, jobId: job.id });
+  await storage.updateDocument(document.id, {
+    processingStatus: job.type === 'document_analysis' ? 'error' : document.processingStatus,
+    lastProcessedAt: new Date(),
+  });
+}
+
+export function registerDocumentPipelineHandlers(): void {
+  jobQueue.registerHandler('document_analysis', runDocumentAnalysis, { onFailed: markDocumentFailed });
+  jobQueue.registerHandler('bill_extraction', runBillExtraction, { onFailed: markDocumentFailed });
+}
@@ -37,6 +37,8 @@ app.use((req, res, next) => {
 });
 
 import { initializeAzureServices } from "./azureInit";
+import { jobQueue } from "./jobQueue";
+import { registerDocumentPipelineHandlers } from "./documentPipeline";
 
 (async () => {
   // Initialize Azure services first
@@ -44,6 +46,10 @@ import { initializeAzureServices } from "./azureInit";
   
   const server = await registerRoutes(app);
 
+  // Start the background worker for queued document processing jobs
+  registerDocumentPipelineHandlers();
+  jobQueue.start();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
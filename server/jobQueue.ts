@@ -0,0 +1,198 @@
+import { hostname } from "os";
+import { storage } from "./storage";
+import type { JobStageState, ProcessingJob } from "@shared/schema";
+
+// Thrown by handlers for failures that retrying cannot fix (missing document, unconfigured service)
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+    Object.setPrototypeOf(this, PermanentJobError.prototype);
+  }
+}
+
+export type JobType = 'document_analysis' | 'bill_extraction';
+
+export interface JobContext {
+  // Marks a stage as running/completed/failed/skipped and persists it on the job row
+  setStage(stage: string, status: JobStageState['status'], error?: string): Promise<void>;
+}
+
+export type JobHandler = (job: ProcessingJob, context: JobContext) => Promise<unknown>;
+
+export interface EnqueueJobOptions {
+  type: JobType;
+  userId: string;
+  documentId?: string;
+  caseId?: string;
+  payload?: Record<string, unknown>;
+  stages?: string[];
+  maxAttempts?: number;
+}
+
+// Invoked once a job has exhausted its retries
+export interface JobHooks {
+  onFailed?: (job: ProcessingJob, error: Error) => Promise<void>;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const STALE_LOCK_MS = 5 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+export class JobQueueService {
+  private handlers = new Map<string, { handler: JobHandler; hooks: JobHooks }>();
+  private readonly workerId = `${hostname()}:${process.pid}`;
+  private timer: NodeJS.Timeout | null = null;
+  private started = false;
+
+  registerHandler(type: JobType, handler: JobHandler, hooks: JobHooks = {}): void {
+    this.handlers.set(type, { handler, hooks });
+  }
+
+  async enqueue(options: EnqueueJobOptions): Promise<ProcessingJob> {
+    const { stages = [], payload, ...rest } = options;
+    const stageMap: Record<string, JobStageState> = {};
+    for (const stage of stages) {
+      stageMap[stage] = { status: 'pending', startedAt: null, completedAt: null, error: null };
+    }
+
+    const job = await storage.createProcessingJob({ ...rest, payload: payload ?? null, stages: stageMap });
+    console.log(`📥 Queued ${job.type} job ${job.id}${job.documentId ? ` for document ${job.documentId}` : ''}`);
+
+    // Wake an idle worker instead of waiting for the next poll
+    if (this.timer) this.schedulePoll(0);
+    return job;
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    console.log(`⚙️  Job queue worker ${this.workerId} started`);
+    this.schedulePoll(0);
+  }
+
+  stop(): void {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedulePoll(delay: number): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.poll(), delay);
+  }
+
+  private async poll(): Promise<void> {
+    this.timer = null;
+
+    try {
+      // Jobs whose worker stopped heartbeating (e.g. the server restarted mid-run) go back in the queue
+      const requeued = await storage.requeueStaleProcessingJobs(new Date(Date.now() - STALE_LOCK_MS));
+      if (requeued > 0) {
+        console.log(`♻️  Re-queued ${requeued} stale processing job(s)`);
+      }
+
+      let job = await storage.claimNextProcessingJob(this.workerId);
+      while (job) {
+        await this.runJob(job);
+        job = await storage.claimNextProcessingJob(this.workerId);
+      }
+    } catch (error) {
+      console.error("Error polling job queue:", error);
+    } finally {
+      if (this.started) this.schedulePoll(POLL_INTERVAL_MS);
+    }
+  }
+
+  private async runJob(job: ProcessingJob): Promise<void> {
+    const registered = this.handlers.get(job.type);
+    if (!registered) {
+      await storage.updateProcessingJob(job.id, {
+        status: 'failed',
+        lastError: `No handler registered for job type '${job.type}'`,
+        lockedAt: null,
+        lockedBy: null,
+      });
+      return;
+    }
+
+    console.log(`▶️  Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    const stages: Record<string, JobStageState> = { ...((job.stages as Record<string, JobStageState>) || {}) };
+    const context: JobContext = {
+      setStage: async (stage, status, error) => {
+        const now = new Date().toISOString();
+        const previous = stages[stage] || { status: 'pending', startedAt: null, completedAt: null, error: null };
+        stages[stage] = {
+          status,
+          startedAt: status === 'running' ? now : previous.startedAt,
+          completedAt: status === 'running' ? null : now,
+          error: error ?? null,
+        };
+        await storage.updateProcessingJob(job.id, {
+          stages: { ...stages },
+          currentStage: stage,
+          lockedAt: new Date(),
+        });
+      },
+    };
+
+    // Keep the lock fresh while a single long stage (e.g. a 300-page OCR) is running
+    const heartbeat = setInterval(() => {
+      storage.updateProcessingJob(job.id, { lockedAt: new Date() }).catch((error) => {
+        console.error("Error updating job heartbeat:", error);
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+      const result = await registered.handler(job, context);
+      await storage.updateProcessingJob(job.id, {
+        status: 'completed',
+        result: (result ?? null) as any,
+        lastError: null,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date(),
+      });
+      console.log(`✅ Job ${job.id} completed`);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      const exhausted = error instanceof PermanentJobError || job.attempts >= job.maxAttempts;
+
+      if (exhausted) {
+        const failedJob = await storage.updateProcessingJob(job.id, {
+          status: 'failed',
+          lastError: error.message,
+          lockedAt: null,
+          lockedBy: null,
+          completedAt: new Date(),
+        });
+        console.error(`❌ Job ${job.id} failed permanently after ${job.attempts} attempt(s):`, error.message);
+
+        try {
+          await registered.hooks.onFailed?.(failedJob, error);
+        } catch (hookError) {
+          console.error("Error running job failure hook:", hookError);
+        }
+      } else {
+        const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (job.attempts - 1), MAX_RETRY_DELAY_MS);
+        await storage.updateProcessingJob(job.id, {
+          status: 'queued',
+          lastError: error.message,
+          runAt: new Date(Date.now() + delay),
+          lockedAt: null,
+          lockedBy: null,
+        });
+        console.warn(`⚠️ Job ${job.id} failed (attempt ${job.attempts}), retrying in ${Math.round(delay / 1000)}s:`, error.message);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
+
+export const jobQueue = new JobQueueService();
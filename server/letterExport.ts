@@ -0,0 +1,663 @@
+import {
+  Document as DocxDocument,
+  Packer,
+  Paragraph,
+  TextRun as DocxTextRun,
+  HeadingLevel,
+  ImageRun,
+  Header,
+  Footer,
+  AlignmentType,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType,
+  PageNumber,
+} from "docx";
+import {
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  StandardFonts,
+  rgb,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib";
+import { azureBlobService, splitObjectPath } from "./azureBlobStorage";
+import { parseMarkdown, type MarkdownBlock, type TextRun } from "@shared/markdown";
+import type { CaseSpecials } from "./specials";
+import type { DemandLetter, Document, Letterhead } from "@shared/schema";
+
+export interface LetterheadLogo {
+  data: Buffer;
+  type: 'png' | 'jpg';
+  width: number;
+  height: number;
+}
+
+export interface LetterheadAssets {
+  letterhead: Letterhead;
+  logo: LetterheadLogo | null;
+}
+
+export interface PackageExhibit {
+  fileName: string;
+  mimeType: string;
+  // Null when the file couldn't be read from storage
+  data: Buffer | null;
+}
+
+// Loads the letterhead's logo, reading its size by embedding it in a scratch PDF
+export async function loadLetterhead(letterhead: Letterhead | undefined): Promise<LetterheadAssets | null> {
+  if (!letterhead) return null;
+  if (!letterhead.logoPath) return { letterhead, logo: null };
+
+  const { containerName, blobName } = splitObjectPath(letterhead.logoPath);
+  const data = await azureBlobService.downloadToBuffer(containerName, blobName);
+  if (!data) {
+    console.warn(`⚠️ Letterhead logo missing from storage: ${letterhead.logoPath}`);
+    return { letterhead, logo: null };
+  }
+
+  const type = letterhead.logoMimeType === 'image/png' ? 'png' : 'jpg';
+  const scratch = await PDFDocument.create();
+  const image = type === 'png' ? await scratch.embedPng(data) : await scratch.embedJpg(data);
+  return { letterhead, logo: { data, type, width: image.width, height: image.height } };
+}
+
+export async function loadExhibits(documents: Document[]): Promise<PackageExhibit[]> {
+  const exhibits: PackageExhibit[] = [];
+  for (const document of documents) {
+    const { containerName, blobName } = splitObjectPath(document.objectPath);
+    const data = await azureBlobService.downloadToBuffer(containerName, blobName).catch((error) => {
+      console.error(`Error reading exhibit ${document.fileName}:`, error);
+      return null;
+    });
+    exhibits.push({ fileName: document.fileName, mimeType: document.mimeType, data });
+  }
+  return exhibits;
+}
+
+function letterDate(): string {
+  return new Date().toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+}
+
+function blockLines(text: string | null | undefined): string[] {
+  return (text || "").split("\n").map(line => line.trim()).filter(Boolean);
+}
+
+function money(amount: number): string {
+  return `$${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// ---- DOCX ----
+
+// Logos are scaled to this height in pixels
+const DOCX_LOGO_HEIGHT = 60;
+
+function docxRuns(runs: TextRun[]): DocxTextRun[] {
+  return runs.map(run => new DocxTextRun({ text: run.text, bold: run.bold, italics: run.italic }));
+}
+
+const docxHeadingLevels = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3];
+
+function docxBlocks(blocks: MarkdownBlock[]): Array<Paragraph | Table> {
+  return blocks.flatMap((block): Array<Paragraph | Table> => {
+    switch (block.type) {
+      case "heading":
+        return [new Paragraph({
+          heading: docxHeadingLevels[Math.min(block.level, 3) - 1],
+          children: docxRuns(block.runs),
+        })];
+      case "paragraph":
+        return [new Paragraph({
+          spacing: { after: 160 },
+          children: block.lines.flatMap((line, index) => [
+            ...(index > 0 ? [new DocxTextRun({ text: "", break: 1 })] : []),
+            ...docxRuns(line),
+          ]),
+        })];
+      case "list":
+        return block.items.map((item, index) => new Paragraph({
+          bullet: block.ordered ? undefined : { level: 0 },
+          indent: block.ordered ? { left: 360 } : undefined,
+          children: [...(block.ordered ? [new DocxTextRun(`${index + 1}. `)] : []), ...docxRuns(item)],
+        }));
+      case "table": {
+        const row = (cells: TextRun[][], header: boolean) => new TableRow({
+          tableHeader: header,
+          children: cells.map((cell, column) => new TableCell({
+            children: [new Paragraph({
+              alignment: block.alignRight[column] ? AlignmentType.RIGHT : AlignmentType.LEFT,
+              children: docxRuns(header ? cell.map(run => ({ ...run, bold: true })) : cell),
+            })],
+          })),
+        });
+        return [
+          new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            rows: [row(block.header, true), ...block.rows.map(cells => row(cells, false))],
+          }),
+          new Paragraph({ text: "" }),
+        ];
+      }
+    }
+  });
+}
+
+export async function renderLetterDocx(letter: DemandLetter, assets: LetterheadAssets | null): Promise<Buffer> {
+  const letterhead = assets?.letterhead;
+  const headerChildren: Paragraph[] = [];
+  if (assets?.logo) {
+    headerChildren.push(new Paragraph({
+      children: [new ImageRun({
+        type: assets.logo.type,
+        data: assets.logo.data,
+        transformation: {
+          width: Math.round(assets.logo.width * DOCX_LOGO_HEIGHT / assets.logo.height),
+          height: DOCX_LOGO_HEIGHT,
+        },
+      })],
+    }));
+  }
+  if (letterhead) {
+    headerChildren.push(new Paragraph({ children: [new DocxTextRun({ text: letterhead.firmName, bold: true, size: 28 })] }));
+    for (const line of blockLines(letterhead.addressBlock)) {
+      headerChildren.push(new Paragraph({ children: [new DocxTextRun({ text: line, size: 18, color: "555555" })] }));
+    }
+  }
+
+  const footerChildren = [
+    ...blockLines(letterhead?.footer).map(line => new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new DocxTextRun({ text: line, size: 16, color: "555555" })],
+    })),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new DocxTextRun({ children: ["Page ", PageNumber.CURRENT, " of ", PageNumber.TOTAL_PAGES], size: 16 })],
+    }),
+  ];
+
+  const signature = blockLines(letterhead?.signatureBlock).map(line => new Paragraph({ children: [new DocxTextRun(line)] }));
+
+  const document = new DocxDocument({
+    title: letter.title,
+    styles: { default: { document: { run: { font: "Times New Roman", size: 24 } } } },
+    sections: [{
+      // The letterhead only goes on the first page
+      properties: { titlePage: true },
+      headers: {
+        first: new Header({ children: headerChildren }),
+        default: new Header({ children: [] }),
+      },
+      footers: {
+        first: new Footer({ children: footerChildren }),
+        default: new Footer({ children: footerChildren }),
+      },
+      children: [
+        new Paragraph({ spacing: { after: 240 }, children: [new DocxTextRun(letterDate())] }),
+        ...docxBlocks(parseMarkdown(letter.content)),
+        ...(signature.length > 0 ? [new Paragraph({ text: "" }), ...signature] : []),
+      ],
+    }],
+  });
+
+  return await Packer.toBuffer(document);
+}
+
+// ---- PDF ----
+
+const PAGE_SIZE: [number, number] = [612, 792]; // US Letter in points
+const MARGIN = 72;
+const FOOTER_SPACE = 36;
+const BODY_SIZE = 11;
+const LINE_GAP = 1.35;
+const CELL_PADDING = 4;
+const PDF_LOGO_HEIGHT = 48;
+const GRAY = rgb(0.35, 0.35, 0.35);
+const RULE = rgb(0.75, 0.75, 0.75);
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  boldItalic: PDFFont;
+}
+
+interface Piece {
+  text: string;
+  font: PDFFont;
+  width: number;
+}
+
+// Lays out Markdown blocks top to bottom, starting new pages as needed. Standard PDF fonts only
+// cover WinAnsi, so other characters are replaced rather than failing the export.
+class PdfWriter {
+  page!: PDFPage;
+  y = 0;
+  // Pages this writer added, in order
+  readonly pages: PDFPage[] = [];
+  private characterSets = new Map<PDFFont, Set<number>>();
+
+  private constructor(readonly doc: PDFDocument, readonly fonts: Fonts) {}
+
+  static async create(doc: PDFDocument): Promise<PdfWriter> {
+    const [regular, bold, italic, boldItalic] = await Promise.all([
+      doc.embedFont(StandardFonts.TimesRoman),
+      doc.embedFont(StandardFonts.TimesRomanBold),
+      doc.embedFont(StandardFonts.TimesRomanItalic),
+      doc.embedFont(StandardFonts.TimesRomanBoldItalic),
+    ]);
+    return new PdfWriter(doc, { regular, bold, italic, boldItalic });
+  }
+
+  get contentWidth(): number {
+    return PAGE_SIZE[0] - MARGIN * 2;
+  }
+
+  addPage(): PDFPage {
+    this.page = this.doc.addPage(PAGE_SIZE);
+    this.pages.push(this.page);
+    this.y = PAGE_SIZE[1] - MARGIN;
+    return this.page;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN + FOOTER_SPACE) {
+      this.addPage();
+    }
+  }
+
+  space(height: number) {
+    this.y -= height;
+  }
+
+  private fontFor(run: { bold?: boolean; italic?: boolean }): PDFFont {
+    if (run.bold && run.italic) return this.fonts.boldItalic;
+    if (run.bold) return this.fonts.bold;
+    if (run.italic) return this.fonts.italic;
+    return this.fonts.regular;
+  }
+
+  private clean(font: PDFFont, text: string): string {
+    let characters = this.characterSets.get(font);
+    if (!characters) {
+      characters = new Set(font.getCharacterSet());
+      this.characterSets.set(font, characters);
+    }
+    return Array.from(text.replace(/\t/g, "    "))
+      .map(char => (characters!.has(char.codePointAt(0)!) ? char : "?"))
+      .join("");
+  }
+
+  // Word-wraps runs to the width; a word longer than a whole line is left to overflow
+  private wrap(runs: TextRun[], size: number, maxWidth: number): Piece[][] {
+    const lines: Piece[][] = [[]];
+    let lineWidth = 0;
+    for (const run of runs) {
+      const font = this.fontFor(run);
+      for (const token of this.clean(font, run.text).split(/(\s+)/)) {
+        if (!token) continue;
+        const isSpace = /^\s+$/.test(token);
+        if (isSpace && lineWidth === 0) continue;
+        const text = isSpace ? " " : token;
+        const width = font.widthOfTextAtSize(text, size);
+        if (!isSpace && lineWidth > 0 && lineWidth + width > maxWidth) {
+          lines.push([]);
+          lineWidth = 0;
+        }
+        lines[lines.length - 1].push({ text, font, width });
+        lineWidth += width;
+      }
+    }
+    return lines.map(line => {
+      while (line.length > 0 && line[line.length - 1].text === " ") line.pop();
+      return line;
+    });
+  }
+
+  private drawLine(line: Piece[], x: number, y: number, size: number, width: number, align: "left" | "right" | "center", color = rgb(0, 0, 0)) {
+    const lineWidth = line.reduce((sum, piece) => sum + piece.width, 0);
+    let cursor = align === "right" ? x + width - lineWidth : align === "center" ? x + (width - lineWidth) / 2 : x;
+    for (const piece of line) {
+      this.page.drawText(piece.text, { x: cursor, y, size, font: piece.font, color });
+      cursor += piece.width;
+    }
+  }
+
+  // Writes runs as wrapped lines at the current position, moving down the page
+  text(
+    runs: TextRun[],
+    options: { size?: number; x?: number; width?: number; align?: "left" | "right" | "center"; color?: ReturnType<typeof rgb> } = {}
+  ) {
+    const size = options.size ?? BODY_SIZE;
+    const x = options.x ?? MARGIN;
+    const width = options.width ?? this.contentWidth - (x - MARGIN);
+    const lineHeight = size * LINE_GAP;
+    for (const line of this.wrap(runs, size, width)) {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      this.drawLine(line, x, this.y + (lineHeight - size), size, width, options.align ?? "left", options.color);
+    }
+  }
+
+  rule() {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_SIZE[0] - MARGIN, y: this.y },
+      thickness: 0.75,
+      color: RULE,
+    });
+  }
+
+  blocks(blocks: MarkdownBlock[]) {
+    for (const block of blocks) {
+      switch (block.type) {
+        case "heading": {
+          const size = block.level === 1 ? 15 : block.level === 2 ? 12.5 : BODY_SIZE;
+          // Keep a heading on the same page as the start of what follows it
+          this.ensureSpace(size * LINE_GAP + BODY_SIZE * LINE_GAP * 2);
+          this.space(size * 0.5);
+          this.text(block.runs.map(run => ({ ...run, bold: true })), { size });
+          this.space(size * 0.3);
+          break;
+        }
+        case "paragraph":
+          for (const line of block.lines) this.text(line);
+          this.space(BODY_SIZE * 0.6);
+          break;
+        case "list":
+          block.items.forEach((item, index) => {
+            const marker = block.ordered ? `${index + 1}.` : "•";
+            this.ensureSpace(BODY_SIZE * LINE_GAP);
+            const top = this.y;
+            this.text(item, { x: MARGIN + 18 });
+            this.page.drawText(marker, {
+              x: MARGIN + 4,
+              y: top - BODY_SIZE * LINE_GAP + (BODY_SIZE * LINE_GAP - BODY_SIZE),
+              size: BODY_SIZE,
+              font: this.fonts.regular,
+            });
+          });
+          this.space(BODY_SIZE * 0.6);
+          break;
+        case "table":
+          this.table(block.header, block.rows, block.alignRight);
+          this.space(BODY_SIZE * 0.6);
+          break;
+      }
+    }
+  }
+
+  // Column widths follow how wide each column's text wants to be, scaled to fit the page. The
+  // header row is repeated at the top of each page the table runs onto.
+  table(header: TextRun[][], rows: TextRun[][][], alignRight: boolean[]) {
+    const size = BODY_SIZE - 1.5;
+    const lineHeight = size * LINE_GAP;
+    const columns = header.length;
+    const natural = Array.from({ length: columns }, (_, column) =>
+      Math.max(
+        30,
+        ...[header, ...rows].map(cells =>
+          (cells[column] || []).reduce((sum, run) => sum + this.fontFor(run).widthOfTextAtSize(this.clean(this.fontFor(run), run.text), size), 0)
+        )
+      ) + CELL_PADDING * 2
+    );
+    const total = natural.reduce((sum, width) => sum + width, 0);
+    const widths = natural.map(width => (width / total) * this.contentWidth);
+
+    const drawRow = (cells: TextRun[][], isHeader: boolean) => {
+      const wrapped = widths.map((width, column) =>
+        this.wrap((cells[column] || []).map(run => (isHeader ? { ...run, bold: true } : run)), size, width - CELL_PADDING * 2)
+      );
+      const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + CELL_PADDING * 2;
+      const startsPage = this.y - height < MARGIN + FOOTER_SPACE;
+      if (startsPage) {
+        this.addPage();
+        if (!isHeader) drawRow(header, true);
+      }
+
+      let x = MARGIN;
+      wrapped.forEach((lines, column) => {
+        this.page.drawRectangle({
+          x,
+          y: this.y - height,
+          width: widths[column],
+          height,
+          borderColor: RULE,
+          borderWidth: 0.5,
+          color: isHeader ? rgb(0.94, 0.94, 0.94) : undefined,
+        });
+        lines.forEach((line, index) => {
+          const baseline = this.y - CELL_PADDING - (index + 1) * lineHeight + (lineHeight - size);
+          this.drawLine(line, x + CELL_PADDING, baseline, size, widths[column] - CELL_PADDING * 2, alignRight[column] ? "right" : "left");
+        });
+        x += widths[column];
+      });
+      this.y -= height;
+    };
+
+    drawRow(header, true);
+    for (const row of rows) drawRow(row, false);
+  }
+}
+
+async function writeLetter(writer: PdfWriter, letter: DemandLetter, assets: LetterheadAssets | null) {
+  writer.addPage();
+  const letterhead = assets?.letterhead;
+
+  if (letterhead) {
+    if (assets.logo) {
+      const image = assets.logo.type === 'png'
+        ? await writer.doc.embedPng(assets.logo.data)
+        : await writer.doc.embedJpg(assets.logo.data);
+      const width = image.width * PDF_LOGO_HEIGHT / image.height;
+      writer.page.drawImage(image, { x: MARGIN, y: writer.y - PDF_LOGO_HEIGHT, width, height: PDF_LOGO_HEIGHT });
+      writer.space(PDF_LOGO_HEIGHT + 6);
+    }
+    writer.text([{ text: letterhead.firmName, bold: true }], { size: 14 });
+    for (const line of blockLines(letterhead.addressBlock)) {
+      writer.text([{ text: line }], { size: 9, color: GRAY });
+    }
+    writer.space(8);
+    writer.rule();
+    writer.space(16);
+  }
+
+  writer.text([{ text: letterDate() }]);
+  writer.space(12);
+  writer.blocks(parseMarkdown(letter.content));
+
+  const signature = blockLines(letterhead?.signatureBlock);
+  if (signature.length > 0) {
+    writer.ensureSpace(BODY_SIZE * LINE_GAP * (signature.length + 1));
+    writer.space(BODY_SIZE);
+    for (const line of signature) writer.text([{ text: line }]);
+  }
+}
+
+// Adds "Page n of N" to every page, and the letterhead footer to the given pages
+function stampPages(doc: PDFDocument, font: PDFFont, footer: string[], footerPages: PDFPage[]) {
+  const pages = doc.getPages();
+  pages.forEach((page, index) => {
+    const { width } = page.getSize();
+    const label = `Page ${index + 1} of ${pages.length}`;
+    page.drawText(label, { x: width - MARGIN - font.widthOfTextAtSize(label, 8), y: 24, size: 8, font, color: GRAY });
+    if (footerPages.includes(page)) {
+      footer.forEach((line, lineIndex) => {
+        const text = Array.from(line).map(char => (font.getCharacterSet().includes(char.codePointAt(0)!) ? char : "?")).join("");
+        page.drawText(text, {
+          x: (width - font.widthOfTextAtSize(text, 8)) / 2,
+          y: 24 + (footer.length - lineIndex) * 10,
+          size: 8,
+          font,
+          color: GRAY,
+        });
+      });
+    }
+  });
+}
+
+// Writes the outline (bookmarks panel) as a flat list of entries, each jumping to the top of a page
+function addBookmarks(doc: PDFDocument, bookmarks: Array<{ title: string; page: PDFPage }>) {
+  if (bookmarks.length === 0) return;
+  const context = doc.context;
+  const outlineRef = context.nextRef();
+  const itemRefs = bookmarks.map(() => context.nextRef());
+
+  bookmarks.forEach((bookmark, index) => {
+    const entries: Record<string, any> = {
+      Title: PDFHexString.fromText(bookmark.title),
+      Parent: outlineRef,
+      Dest: [bookmark.page.ref, PDFName.of("XYZ"), PDFNull, PDFNull, PDFNull],
+    };
+    if (index > 0) entries.Prev = itemRefs[index - 1];
+    if (index < bookmarks.length - 1) entries.Next = itemRefs[index + 1];
+    context.assign(itemRefs[index], context.obj(entries));
+  });
+
+  context.assign(outlineRef, context.obj({
+    Type: "Outlines",
+    First: itemRefs[0],
+    Last: itemRefs[itemRefs.length - 1],
+    Count: bookmarks.length,
+  }));
+  doc.catalog.set(PDFName.of("Outlines"), outlineRef);
+  doc.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+}
+
+export async function renderLetterPdf(letter: DemandLetter, assets: LetterheadAssets | null): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(letter.title);
+  const writer = await PdfWriter.create(doc);
+  await writeLetter(writer, letter, assets);
+  stampPages(doc, writer.fonts.regular, blockLines(assets?.letterhead.footer), writer.pages);
+  return await doc.save();
+}
+
+function exhibitLabel(index: number): string {
+  let label = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return `Exhibit ${label}`;
+}
+
+function writeSpecialsSchedule(writer: PdfWriter, specials: CaseSpecials) {
+  writer.addPage();
+  writer.blocks([{ type: "heading", level: 1, runs: [{ text: "Schedule of Medical Specials" }] }]);
+  if (specials.bills.length === 0) {
+    writer.text([{ text: "No medical bills have been recorded for this case." }]);
+    return;
+  }
+
+  const cells = (...values: string[]) => values.map(text => [{ text }]);
+  const { totals } = specials;
+  writer.table(
+    cells("Date of service", "Provider", "Billed", "Paid", "Adjusted", "Outstanding"),
+    [
+      ...specials.bills.map(bill => cells(
+        bill.serviceDate.toISOString().split("T")[0],
+        bill.provider,
+        money(bill.billed),
+        money(bill.paid),
+        money(bill.adjusted),
+        money(bill.outstanding)
+      )),
+      cells("", "Total", money(totals.billed), money(totals.paid), money(totals.adjusted), money(totals.outstanding))
+        .map(cell => cell.map(run => ({ ...run, bold: true }))),
+    ],
+    [false, false, true, true, true, true]
+  );
+
+  writer.space(BODY_SIZE);
+  writer.blocks([{ type: "heading", level: 2, runs: [{ text: "By provider" }] }]);
+  writer.table(
+    cells("Provider", "Bills", "Billed", "Paid", "Outstanding"),
+    specials.byProvider.map(provider => cells(
+      provider.provider,
+      String(provider.billCount),
+      money(provider.billed),
+      money(provider.paid),
+      money(provider.outstanding)
+    )),
+    [false, true, true, true, true]
+  );
+}
+
+// Exhibit PDFs are copied in page for page and PNG/JPEG images get a page each. Anything else,
+// or a file that can't be read, is represented by its cover page with a note.
+async function appendExhibit(writer: PdfWriter, exhibit: PackageExhibit, label: string): Promise<PDFPage> {
+  const cover = writer.addPage();
+  writer.space(PAGE_SIZE[1] / 3);
+  writer.text([{ text: label, bold: true }], { size: 28, align: "center" });
+  writer.space(12);
+  writer.text([{ text: exhibit.fileName }], { size: 13, align: "center" });
+
+  const note = (text: string) => {
+    writer.space(24);
+    writer.text([{ text, italic: true }], { size: 10, align: "center", color: GRAY });
+  };
+
+  if (!exhibit.data) {
+    note("The file could not be read from storage.");
+    return cover;
+  }
+
+  try {
+    if (exhibit.mimeType === "application/pdf") {
+      const source = await PDFDocument.load(exhibit.data, { ignoreEncryption: true });
+      const pages = await writer.doc.copyPages(source, source.getPageIndices());
+      pages.forEach(page => writer.doc.addPage(page));
+    } else if (exhibit.mimeType === "image/png" || exhibit.mimeType === "image/jpeg") {
+      const image = exhibit.mimeType === "image/png"
+        ? await writer.doc.embedPng(exhibit.data)
+        : await writer.doc.embedJpg(exhibit.data);
+      const page = writer.doc.addPage(PAGE_SIZE);
+      const scale = Math.min((PAGE_SIZE[0] - MARGIN) / image.width, (PAGE_SIZE[1] - MARGIN * 1.5) / image.height, 1);
+      page.drawImage(image, {
+        x: (PAGE_SIZE[0] - image.width * scale) / 2,
+        y: (PAGE_SIZE[1] - image.height * scale) / 2,
+        width: image.width * scale,
+        height: image.height * scale,
+      });
+    } else {
+      note("This file type can't be included in the package. The original is kept in the case file.");
+    }
+  } catch (error) {
+    console.error(`Error adding exhibit ${exhibit.fileName}:`, error);
+    note("The file could not be included. The original is kept in the case file.");
+  }
+  return cover;
+}
+
+// One PDF with the letter, the specials schedule and the exhibits, bookmarked and paginated
+export async function renderDemandPackage(
+  letter: DemandLetter,
+  assets: LetterheadAssets | null,
+  specials: CaseSpecials,
+  exhibits: PackageExhibit[]
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`${letter.title} - Demand Package`);
+  const writer = await PdfWriter.create(doc);
+  const bookmarks: Array<{ title: string; page: PDFPage }> = [];
+
+  await writeLetter(writer, letter, assets);
+  const letterPages = [...writer.pages];
+  bookmarks.push({ title: "Demand Letter", page: letterPages[0] });
+
+  writeSpecialsSchedule(writer, specials);
+  bookmarks.push({ title: "Schedule of Medical Specials", page: writer.pages[letterPages.length] });
+
+  for (let index = 0; index < exhibits.length; index++) {
+    const label = exhibitLabel(index);
+    const cover = await appendExhibit(writer, exhibits[index], label);
+    bookmarks.push({ title: `${label} - ${exhibits[index].fileName}`, page: cover });
+  }
+
+  stampPages(doc, writer.fonts.regular, blockLines(assets?.letterhead.footer), letterPages);
+  addBookmarks(doc, bookmarks);
+  return await doc.save();
+}
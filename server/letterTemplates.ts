@@ -0,0 +1,112 @@
+import { renderTemplate, findTemplateVariables, findUnknownVariables, type TemplateValues } from "./templateEngine";
+import { DEMAND_LETTER_SECTIONS, type Case, type DemandLetterInput, type DemandLetterSection } from "@shared/schema";
+
+// Merge fields a letter template can use, with what each is filled with. The case details are
+// filled in as they are; only the sections are written by the AI.
+export const LETTER_MERGE_FIELDS: Record<string, string> = {
+  'letter.title': "Title of the letter",
+  'client.name': "Client name entered when generating",
+  'case.number': "Case number",
+  'case.type': "Case type",
+  'incident.date': "Date of incident",
+  'insurer.name': "Insurance company the letter is addressed to",
+  'adjuster.name': "Claims adjuster the letter is addressed to",
+  'claim.number': "Insurer's claim number",
+  'specials.billed': "Total billed, from the specials table",
+  'specials.paid': "Total paid, from the specials table",
+  'specials.adjusted': "Total adjusted, from the specials table",
+  'specials.outstanding': "Total outstanding, from the specials table",
+  'demand.amount': "Demand amount",
+  'sections.liability': "AI-written liability section",
+  'sections.injuries': "AI-written injuries section",
+  'sections.treatment_chronology': "AI-written treatment chronology",
+  'sections.specials': "Table of medical bills, built from the case's bills",
+  'sections.general_damages': "AI-written general damages section",
+  'sections.demand': "AI-written demand section",
+};
+
+// Used when the user has no template of their own
+export const DEFAULT_LETTER_TEMPLATE = `# {{letter.title}}
+
+Re: {{client.name}} (Case {{case.number}})
+Date of incident: {{incident.date}}
+
+## Liability
+
+{{sections.liability}}
+
+## Injuries
+
+{{sections.injuries}}
+
+## Treatment Chronology
+
+{{sections.treatment_chronology}}
+
+## Medical Specials
+
+{{sections.specials}}
+
+## General Damages
+
+{{sections.general_damages}}
+
+## Demand
+
+{{sections.demand}}`;
+
+export interface LetterLayout {
+  title: string;
+  input: DemandLetterInput;
+  sections: DemandLetterSection[];
+  demandAmount: string | null;
+  templateBody: string | null;
+}
+
+export function formatDollars(amount: number): string {
+  return `$${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Merge fields the template uses that aren't in LETTER_MERGE_FIELDS
+export function validateLetterTemplate(body: string): string[] {
+  return findUnknownVariables(body, Object.keys(LETTER_MERGE_FIELDS));
+}
+
+function mergeValues(letter: LetterLayout, caseData: Case): TemplateValues {
+  const totals = letter.sections.find(section => section.key === 'specials')?.totals;
+  const dollars = (amount: number | undefined) => (amount === undefined ? "" : formatDollars(amount));
+
+  return {
+    letter: { title: letter.title },
+    client: { name: letter.input.clientName },
+    case: { number: caseData.caseNumber, type: caseData.caseType },
+    incident: { date: letter.input.incidentDate },
+    insurer: { name: letter.input.insurerName },
+    adjuster: { name: letter.input.adjusterName },
+    claim: { number: letter.input.claimNumber },
+    specials: {
+      billed: dollars(totals?.billed),
+      paid: dollars(totals?.paid),
+      adjusted: dollars(totals?.adjusted),
+      outstanding: dollars(totals?.outstanding),
+    },
+    demand: { amount: letter.demandAmount ? formatDollars(parseFloat(letter.demandAmount)) : "" },
+    sections: Object.fromEntries(letter.sections.map(section => [section.key, section.content])),
+  };
+}
+
+// Fills the letter's template, or the built-in layout, with its case details and sections.
+// Sections the template doesn't place are added at the end under their own headings, so nothing
+// the AI wrote is lost to a template that leaves a section out.
+export function renderLetterTemplate(letter: LetterLayout, caseData: Case): string {
+  const template = letter.templateBody || DEFAULT_LETTER_TEMPLATE;
+  const placed = new Set(findTemplateVariables(template));
+  const unplaced = DEMAND_LETTER_SECTIONS
+    .map(key => letter.sections.find(section => section.key === key))
+    .filter((section): section is DemandLetterSection => !!section && !placed.has(`sections.${section.key}`));
+
+  return [
+    renderTemplate(template, mergeValues(letter, caseData)),
+    ...unplaced.map(section => `## ${section.title}\n\n${section.content}`),
+  ].join("\n\n").replace(/\n{3,}/g, "\n\n").trim();
+}
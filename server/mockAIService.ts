@@ -0,0 +1,211 @@
+import { readFileSync } from "fs";
+import type { z } from "zod";
+import type { AIServiceInterface, AIUsage } from "./aiService";
+import type { DemandLetterBillVariable, DemandLetterDocumentVariable } from "./promptTemplates";
+import {
+  documentAnalysisSchema,
+  billExtractionSchema,
+  demandLetterDraftSchema,
+  parseAIOutput,
+  AIOutputValidationError,
+  type DocumentAnalysis,
+  type ExtractedBill,
+  type DemandLetterDraft,
+} from "./aiOutputSchemas";
+
+// Canned responses for the mock provider, loaded from the JSON file named by AI_MOCK_FIXTURES:
+//
+//   {
+//     "analyzeDocument":      [{ "match": "MRI", "response": { "summary": "...", "extractedData": {}, "keyFindings": [] } }],
+//     "extractMedicalBills":  [{ "match": "Invoice", "response": [{ "provider": "...", "amount": "120.00", ... }] }],
+//     "generateDemandLetter": [{ "match": "CASE-001", "response": { "sections": [{ "key": "liability", "content": "...", "sourceIds": ["U1"] }, ...] } }],
+//     "chatCompletion":       [{ "response": "Default answer" }]
+//   }
+//
+// "match" is a case-insensitive substring of the input (file name + content, the case's client
+// name/number, or the last user message). The first matching entry wins; an entry without "match"
+// matches anything. Methods without a matching fixture fall back to the built-in responses below.
+// Analysis, bill and demand letter fixtures go through the same schema validation as real model output, so a
+// fixture that doesn't match fails the same way a bad model response would (without repair retries).
+interface MockFixture<T> {
+  match?: string;
+  response: T;
+}
+
+interface MockFixtures {
+  analyzeDocument?: MockFixture<unknown>[];
+  extractMedicalBills?: MockFixture<unknown>[];
+  generateDemandLetter?: MockFixture<unknown>[];
+  chatCompletion?: MockFixture<string>[];
+}
+
+function loadFixtures(path: string | undefined): MockFixtures {
+  if (!path) return {};
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    console.error(`Error loading mock AI fixtures from ${path}:`, error);
+    return {};
+  }
+}
+
+function findFixture<T>(fixtures: MockFixture<T>[] | undefined, input: string): T | undefined {
+  const haystack = input.toLowerCase();
+  return fixtures?.find(fixture => !fixture.match || haystack.includes(fixture.match.toLowerCase()))?.response;
+}
+
+function validate<T>(response: unknown, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  const raw = JSON.stringify(response);
+  const result = parseAIOutput(raw, schema);
+  if (!result.success) {
+    throw new AIOutputValidationError(result.problems, raw, 1);
+  }
+  return result.data;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const AMOUNT_PATTERN = /\$\s*([\d,]+(?:\.\d{2})?)/;
+const DATE_PATTERN = /(\d{4}-\d{2}-\d{2})|(\d{1,2})\/(\d{1,2})\/(\d{4})/;
+
+function toIsoDate(match: RegExpMatchArray | null): string | null {
+  if (!match) return null;
+  if (match[1]) return match[1];
+  return `${match[4]}-${match[2].padStart(2, "0")}-${match[3].padStart(2, "0")}`;
+}
+
+// Deterministic, network-free provider for tests and offline development. The same input always
+// produces the same output, so pipeline results can be asserted on.
+export class MockAIService implements AIServiceInterface {
+  private lastUsage: AIUsage | null = null;
+  private fixtures: MockFixtures;
+
+  constructor(fixturesPath: string | undefined = process.env.AI_MOCK_FIXTURES) {
+    this.fixtures = loadFixtures(fixturesPath);
+  }
+
+  private record(prompt: string, completion: string) {
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(completion);
+    this.lastUsage = {
+      model: "mock",
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    };
+  }
+
+  async analyzeDocument(content: string, fileName: string, customPrompt?: string): Promise<DocumentAnalysis> {
+    const input = `${fileName}\n${content}`;
+    const fixture = findFixture(this.fixtures.analyzeDocument, input);
+
+    const lines = content.split("\n").map(line => line.trim()).filter(Boolean);
+    const result = fixture || {
+      summary: `Mock analysis of ${fileName}. The document contains ${lines.length} lines of text.${
+        lines[0] ? ` It begins: "${lines[0].slice(0, 160)}"` : ""
+      }`,
+      extractedData: {
+        patientInfo: {},
+        medicalInfo: { injuryDiagnoses: [], proceduresPerformed: [], diagnostics: [], treatmentRecommendations: [] },
+        timeline: [],
+      },
+      keyFindings: lines.slice(0, 3).map(line => line.slice(0, 160)),
+    };
+
+    this.record(customPrompt || input, JSON.stringify(result));
+    return validate(result, documentAnalysisSchema);
+  }
+
+  async extractMedicalBills(content: string, fileName: string, customPrompt?: string): Promise<ExtractedBill[]> {
+    const input = `${fileName}\n${content}`;
+    const fixture = findFixture(this.fixtures.extractMedicalBills, input);
+
+    // Without a fixture every line with a dollar amount becomes a bill
+    const bills = fixture || content.split("\n").flatMap(line => {
+      const amount = line.match(AMOUNT_PATTERN);
+      if (!amount) return [];
+
+      const serviceDate = toIsoDate(line.match(DATE_PATTERN));
+      const provider = line.slice(0, amount.index).replace(DATE_PATTERN, "").replace(/[:\-–]+\s*$/, "").trim();
+      const treatment = line.slice((amount.index || 0) + amount[0].length).trim() || null;
+      return [{
+        provider: provider || null,
+        amount: amount[1].replace(/,/g, ""),
+        serviceDate,
+        billDate: serviceDate,
+        treatment,
+        insurance: null,
+        status: "pending",
+        sources: { provider: provider || null, amount: amount[0].trim(), treatment },
+      }];
+    });
+
+    this.record(customPrompt || input, JSON.stringify(bills));
+    return validate(bills, billExtractionSchema).bills;
+  }
+
+  async generateDemandLetter(
+    caseData: any,
+    documents: DemandLetterDocumentVariable[],
+    medicalBills: DemandLetterBillVariable[],
+    customPrompt?: string
+  ): Promise<DemandLetterDraft> {
+    const input = `${caseData?.clientName || ""} ${caseData?.caseNumber || ""}`;
+    const fixture = findFixture(this.fixtures.generateDemandLetter, input);
+
+    // Without a fixture each section lists what it was given, citing every source
+    const documentIds = documents.map(doc => doc.sourceId).filter(Boolean);
+    const billIds = medicalBills.map(bill => bill.sourceId).filter(Boolean);
+    const total = medicalBills.reduce((sum, bill) => sum + (parseFloat(bill.amount) || 0), 0);
+    const draft = fixture || {
+      sections: [
+        { key: "liability", content: `Liability for ${caseData?.clientName || "the client"}'s injuries (mock provider).`, sourceIds: [] },
+        {
+          key: "injuries",
+          content: documents.map(doc => `${doc.fileName}: ${doc.summary || "No summary"}`).join("\n") || "No analyzed documents.",
+          sourceIds: documentIds,
+        },
+        {
+          key: "treatment_chronology",
+          content: medicalBills.map(bill => `${bill.serviceDate} ${bill.provider}`).join("\n") || "No treatment recorded.",
+          sourceIds: billIds,
+        },
+        { key: "general_damages", content: "Pain and suffering (mock provider).", sourceIds: documentIds },
+        { key: "demand", content: `Demand based on $${total.toFixed(2)} in medical specials.`, sourceIds: billIds },
+      ],
+      demandAmount: (total * 3).toFixed(2),
+    };
+
+    this.record(customPrompt || JSON.stringify({ caseData, documents: documents.length, bills: medicalBills.length }), JSON.stringify(draft));
+    return validate(draft, demandLetterDraftSchema);
+  }
+
+  private answer(messages: any[]): string {
+    const lastUser = [...messages].reverse().find(message => message.role === "user");
+    const question = typeof lastUser?.content === "string" ? lastUser.content : "";
+    return findFixture(this.fixtures.chatCompletion, question) || `Mock response to: ${question}`;
+  }
+
+  async chatCompletion(messages: any[], systemPrompt?: string) {
+    const response = this.answer(messages);
+    this.record(`${systemPrompt || ""}${JSON.stringify(messages)}`, response);
+    return response;
+  }
+
+  async *chatCompletionStream(messages: any[], systemPrompt?: string, signal?: AbortSignal) {
+    const response = this.answer(messages);
+    for (const piece of response.split(/(?<=\s)/)) {
+      if (signal?.aborted) {
+        throw new DOMException("The operation was aborted", "AbortError");
+      }
+      yield piece;
+    }
+    this.record(`${systemPrompt || ""}${JSON.stringify(messages)}`, response);
+  }
+
+  getLastUsage() {
+    return this.lastUsage;
+  }
+}
@@ -0,0 +1,80 @@
+import "./testEnv";
+import { test, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import {
+  isAclPolicyAllowed,
+  ObjectAccessGroupType,
+  ObjectPermission,
+  type ObjectAclPolicy,
+} from "./objectAcl";
+import type { Case, OrganizationMembership } from "@shared/schema";
+
+const memberships: Record<string, { organizationId: string; role: string }> = {
+  "user-admin": { organizationId: "firm-1", role: "admin" },
+  "user-paralegal": { organizationId: "firm-1", role: "paralegal" },
+  "user-other-firm": { organizationId: "firm-2", role: "admin" },
+};
+
+const firmCase = { id: "case-1", organizationId: "firm-1", createdBy: "user-admin" } as Case;
+
+function stubFirm() {
+  mock.method(storage, "getOrganizationMembership", async (userId: string) =>
+    memberships[userId] as OrganizationMembership | undefined);
+  mock.method(storage, "getCaseById", async (id: string) => (id === firmCase.id ? firmCase : undefined));
+  mock.method(storage, "isAssignedToCase", async () => false);
+}
+
+function policy(type: ObjectAccessGroupType, id: string, permission = ObjectPermission.READ): ObjectAclPolicy {
+  return { owner: "user-owner", visibility: "private", aclRules: [{ group: { type, id }, permission }] };
+}
+
+afterEach(() => mock.restoreAll());
+
+test("a firm-members rule admits current members of that firm only", async () => {
+  stubFirm();
+  const firmPolicy = policy(ObjectAccessGroupType.FIRM_MEMBERS, "firm-1");
+
+  assert.equal(await isAclPolicyAllowed(firmPolicy, "user-paralegal", ObjectPermission.READ), true);
+  assert.equal(await isAclPolicyAllowed(firmPolicy, "user-other-firm", ObjectPermission.READ), false);
+  assert.equal(await isAclPolicyAllowed(firmPolicy, "user-nobody", ObjectPermission.READ), false);
+});
+
+test("a user rule admits that user only", async () => {
+  stubFirm();
+  const userPolicy = policy(ObjectAccessGroupType.USER, "user-paralegal");
+
+  assert.equal(await isAclPolicyAllowed(userPolicy, "user-paralegal", ObjectPermission.READ), true);
+  assert.equal(await isAclPolicyAllowed(userPolicy, "user-admin", ObjectPermission.READ), false);
+});
+
+test("a read rule doesn't grant write", async () => {
+  stubFirm();
+  const userPolicy = policy(ObjectAccessGroupType.USER, "user-paralegal");
+
+  assert.equal(await isAclPolicyAllowed(userPolicy, "user-paralegal", ObjectPermission.WRITE), false);
+});
+
+test("a case-team rule follows access to the case", async () => {
+  stubFirm();
+  const casePolicy = policy(ObjectAccessGroupType.CASE_TEAM, "case-1");
+
+  assert.equal(await isAclPolicyAllowed(casePolicy, "user-admin", ObjectPermission.READ), true);
+  // Not on the team and didn't open the case
+  assert.equal(await isAclPolicyAllowed(casePolicy, "user-paralegal", ObjectPermission.READ), false);
+  assert.equal(await isAclPolicyAllowed(policy(ObjectAccessGroupType.CASE_TEAM, "case-missing"), "user-admin", ObjectPermission.READ), false);
+});
+
+test("the owner keeps access unless the object is attached to a case", async () => {
+  stubFirm();
+
+  assert.equal(await isAclPolicyAllowed(policy(ObjectAccessGroupType.USER, "user-admin"), "user-owner", ObjectPermission.WRITE), true);
+  assert.equal(await isAclPolicyAllowed(policy(ObjectAccessGroupType.CASE_TEAM, "case-1"), "user-owner", ObjectPermission.READ), false);
+});
+
+test("public objects can be read by anyone, signed in or not", async () => {
+  const publicPolicy: ObjectAclPolicy = { owner: "user-owner", visibility: "public" };
+
+  assert.equal(await isAclPolicyAllowed(publicPolicy, undefined, ObjectPermission.READ), true);
+  assert.equal(await isAclPolicyAllowed(publicPolicy, "user-paralegal", ObjectPermission.WRITE), false);
+});
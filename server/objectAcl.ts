@@ -1,18 +1,23 @@
 import { File } from "@google-cloud/storage";
+import { storage } from "./storage";
+import { getCaseAccess } from "./authorization";
+import { azureBlobService } from "./azureBlobStorage";
 
 const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
+// Azure metadata keys can only be letters and digits (see AzureBlobStorageService.setBlobMetadata)
+const BLOB_ACL_POLICY_METADATA_KEY = "aclpolicy";
 
 // The type of the access group.
 //
-// Can be flexibly defined according to the use case.
-//
-// Examples:
-// - USER_LIST: the users from a list stored in the database;
-// - EMAIL_DOMAIN: the users whose email is in a specific domain;
-// - GROUP_MEMBER: the users who are members of a specific group;
-// - SUBSCRIBER: the users who are subscribers of a specific service / content
-//   creator.
-export enum ObjectAccessGroupType {}
+// - FIRM_MEMBERS: the current members of a firm; the id is the organization id;
+// - CASE_TEAM: everyone who can open a case (its creator, its team and the
+//   firm's admins, see authorization.ts); the id is the case id;
+// - USER: a single user; the id is the user id.
+export enum ObjectAccessGroupType {
+  FIRM_MEMBERS = "firm_members",
+  CASE_TEAM = "case_team",
+  USER = "user",
+}
 
 // The logic user group that can access the object.
 export interface ObjectAccessGroup {
@@ -20,18 +25,7 @@ export interface ObjectAccessGroup {
   type: ObjectAccessGroupType;
   // The logic id that is enough to identify the qualified group members.
   //
-  // It may have different format for different types. For example:
-  // - for USER_LIST, the id could be the user list db entity id, and the
-  //   user list db entity could contain a bunch of user ids. User needs
-  //   to be a member of the user list to be able to access the object.
-  // - for EMAIL_DOMAIN, the id could be the email domain, and the user needs
-  //   to have an email with the domain to be able to access the object.
-  // - for GROUP_MEMBER, the id could be the group db entity id, and the
-  //   group db entity could contain a bunch of user ids. User needs to be
-  //   a member of the group to be able to access the object.
-  // - for SUBSCRIBER, the id could be the subscriber db entity id, and the
-  //   subscriber db entity could contain a bunch of user ids. User needs to
-  //   be a subscriber to be able to access the object.
+  // Its format depends on the type, see ObjectAccessGroupType.
   id: string;
 }
 
@@ -82,21 +76,50 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   public abstract hasMember(userId: string): Promise<boolean>;
 }
 
+// Membership is looked up when the object is accessed, so joining or leaving a
+// firm or a case team takes effect without rewriting any ACL policies.
+class FirmMembersAccessGroup extends BaseObjectAccessGroup {
+  constructor(organizationId: string) {
+    super(ObjectAccessGroupType.FIRM_MEMBERS, organizationId);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const membership = await storage.getOrganizationMembership(userId);
+    return membership?.organizationId === this.id;
+  }
+}
+
+class CaseTeamAccessGroup extends BaseObjectAccessGroup {
+  constructor(caseId: string) {
+    super(ObjectAccessGroupType.CASE_TEAM, caseId);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const caseData = await storage.getCaseById(this.id);
+    return !!caseData && (await getCaseAccess(caseData, userId)) !== null;
+  }
+}
+
+class UserAccessGroup extends BaseObjectAccessGroup {
+  constructor(userId: string) {
+    super(ObjectAccessGroupType.USER, userId);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    return userId === this.id;
+  }
+}
+
 function createObjectAccessGroup(
   group: ObjectAccessGroup,
 ): BaseObjectAccessGroup {
   switch (group.type) {
-    // Implement the case for each type of access group to instantiate.
-    //
-    // For example:
-    // case "USER_LIST":
-    //   return new UserListAccessGroup(group.id);
-    // case "EMAIL_DOMAIN":
-    //   return new EmailDomainAccessGroup(group.id);
-    // case "GROUP_MEMBER":
-    //   return new GroupMemberAccessGroup(group.id);
-    // case "SUBSCRIBER":
-    //   return new SubscriberAccessGroup(group.id);
+    case ObjectAccessGroupType.FIRM_MEMBERS:
+      return new FirmMembersAccessGroup(group.id);
+    case ObjectAccessGroupType.CASE_TEAM:
+      return new CaseTeamAccessGroup(group.id);
+    case ObjectAccessGroupType.USER:
+      return new UserAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
@@ -146,7 +169,15 @@ export async function canAccessObject({
   if (!aclPolicy) {
     return false;
   }
+  return isAclPolicyAllowed(aclPolicy, userId, requestedPermission);
+}
 
+// Checks a policy against the user, wherever the policy was stored.
+export async function isAclPolicyAllowed(
+  aclPolicy: ObjectAclPolicy,
+  userId: string | undefined,
+  requestedPermission: ObjectPermission,
+): Promise<boolean> {
   // Public objects are always accessible for read.
   if (
     aclPolicy.visibility === "public" &&
@@ -160,8 +191,13 @@ export async function canAccessObject({
     return false;
   }
 
-  // The owner of the object can always access it.
-  if (aclPolicy.owner === userId) {
+  // The owner of the object can always access it, unless it was attached to a
+  // case: then only the case team can, so an uploader who left the firm or the
+  // team loses access along with the rest of the case.
+  const attachedToCase = (aclPolicy.aclRules || []).some(
+    (rule) => rule.group.type === ObjectAccessGroupType.CASE_TEAM,
+  );
+  if (aclPolicy.owner === userId && !attachedToCase) {
     return true;
   }
 
@@ -178,3 +214,82 @@ export async function canAccessObject({
 
   return false;
 }
+
+// Sets the ACL policy on a file in Azure Blob Storage, keeping its other
+// metadata. Returns false when the metadata couldn't be written.
+export async function setBlobAclPolicy(
+  containerName: string,
+  blobName: string,
+  aclPolicy: ObjectAclPolicy,
+): Promise<boolean> {
+  const metadata = await azureBlobService.getBlobMetadata(containerName, blobName);
+  if (!metadata) {
+    return false;
+  }
+
+  return azureBlobService.setBlobMetadata(containerName, blobName, {
+    ...metadata,
+    [BLOB_ACL_POLICY_METADATA_KEY]: JSON.stringify(aclPolicy),
+  });
+}
+
+// Gets the ACL policy of a file in Azure Blob Storage; null for files stored
+// without one.
+export async function getBlobAclPolicy(
+  containerName: string,
+  blobName: string,
+): Promise<ObjectAclPolicy | null> {
+  const metadata = await azureBlobService.getBlobMetadata(containerName, blobName);
+  const aclPolicy = metadata?.[BLOB_ACL_POLICY_METADATA_KEY];
+  if (!aclPolicy) {
+    return null;
+  }
+  return JSON.parse(aclPolicy);
+}
+
+// Checks if the user can access a file in Azure Blob Storage. Like
+// canAccessObject, a file without an ACL policy can't be accessed.
+export async function canAccessBlob({
+  userId,
+  containerName,
+  blobName,
+  requestedPermission,
+}: {
+  userId?: string;
+  containerName: string;
+  blobName: string;
+  requestedPermission: ObjectPermission;
+}): Promise<boolean> {
+  const aclPolicy = await getBlobAclPolicy(containerName, blobName);
+  if (!aclPolicy) {
+    return false;
+  }
+  return isAclPolicyAllowed(aclPolicy, userId, requestedPermission);
+}
+
+// Adds a rule to a blob's policy unless an identical one is already there.
+export async function grantBlobAccess(
+  containerName: string,
+  blobName: string,
+  rule: ObjectAclRule,
+): Promise<boolean> {
+  const aclPolicy = await getBlobAclPolicy(containerName, blobName);
+  if (!aclPolicy) {
+    return false;
+  }
+
+  const rules = aclPolicy.aclRules || [];
+  const exists = rules.some(
+    (existing) =>
+      existing.group.type === rule.group.type &&
+      existing.group.id === rule.group.id &&
+      existing.permission === rule.permission,
+  );
+  if (exists) {
+    return true;
+  }
+  return setBlobAclPolicy(containerName, blobName, {
+    ...aclPolicy,
+    aclRules: [...rules, rule],
+  });
+}
@@ -0,0 +1,269 @@
+import { storage } from "./storage";
+import { renderDefaultPrompt, type DemandLetterBillVariable, type DemandLetterDocumentVariable } from "./promptTemplates";
+import type { AIServiceInterface, AIUsage } from "./aiService";
+import type { PhiType, RedactionPolicy, RedactionReport } from "@shared/schema";
+
+// Masks identifiers in text bound for an AI provider and puts them back in what the provider returns.
+// Each distinct value becomes a token such as [[SSN_1]]; the token map stays on the server, so the
+// provider sees only the tokens and the rest of the text.
+//
+// Dates of service, diagnoses and providers are left alone since the analysis needs them. Dates are
+// only masked when labelled as a birth date, and record, policy and claim numbers when labelled.
+
+interface PatternRule {
+  type: PhiType;
+  pattern: RegExp;
+  // Masks the first capture group instead of the whole match, keeping labels like "DOB:" readable
+  labelled?: boolean;
+}
+
+const DATE = String.raw`(?:\d{1,2}[/-]\d{1,2}[/-]\d{2,4}|\d{4}-\d{2}-\d{2}|[A-Z][a-z]{2,8}\.? \d{1,2},? \d{4})`;
+// At least one digit, so labels followed by ordinary words aren't masked
+const IDENTIFIER = String.raw`((?=[A-Z0-9-]*\d)[A-Z0-9][A-Z0-9-]{3,})`;
+const STREET_SUFFIX = "Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Court|Ct|Way|Place|Pl|Parkway|Pkwy|Circle|Cir|Terrace|Ter|Highway|Hwy";
+
+const PATTERN_RULES: PatternRule[] = [
+  { type: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { type: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { type: 'ssn', pattern: /\b(?:SSN|Social Security(?: Number| No\.?)?)\s*[:#]?\s*(\d{9})\b/gi, labelled: true },
+  { type: 'dob', pattern: new RegExp(String.raw`\b(?:DOB|D\.O\.B\.?|Date of Birth|Birth ?date)\s*[:#]?\s*(${DATE})`, "gi"), labelled: true },
+  { type: 'mrn', pattern: new RegExp(String.raw`\b(?:MRN|Medical Record(?: Number| No\.?| #)?|Patient (?:ID|Account(?: Number| No\.?)?))\s*[:#]?\s*${IDENTIFIER}`, "gi"), labelled: true },
+  { type: 'claim_number', pattern: new RegExp(String.raw`\bClaim(?: Number| No\.?| #| ID)?\s*[:#]?\s*${IDENTIFIER}`, "gi"), labelled: true },
+  { type: 'policy_number', pattern: new RegExp(String.raw`\b(?:Policy|Member|Subscriber|Group)(?: Number| No\.?| #| ID)\s*[:#]?\s*${IDENTIFIER}`, "gi"), labelled: true },
+  { type: 'phone', pattern: /(?:\+?1[-.\s]?)?(?:\(\d{3}\)\s?|\b\d{3}[-.\s])\d{3}[-.\s]\d{4}\b/g },
+  {
+    type: 'address',
+    pattern: new RegExp(
+      String.raw`\b\d{1,6}\s+(?:[A-Z][A-Za-z]*\.?\s+){1,4}(?:${STREET_SUFFIX})\b\.?(?:,?\s+(?:Apt|Suite|Ste|Unit|#)\.?\s*[A-Za-z0-9-]+)?`,
+      "g"
+    ),
+  },
+];
+
+const TOKEN_LABELS: Record<PhiType, string> = {
+  ssn: "SSN",
+  mrn: "MRN",
+  phone: "PHONE",
+  email: "EMAIL",
+  dob: "DOB",
+  address: "ADDRESS",
+  policy_number: "POLICY",
+  claim_number: "CLAIM",
+  dictionary: "NAME",
+};
+
+const TOKEN_PATTERN = /\[\[([A-Z]+_\d+)\]\]/g;
+
+// Sent along with redacted text so the model repeats tokens rather than guessing at what they hide
+export const REDACTION_INSTRUCTION =
+  "Identifiers in this text were replaced with placeholders such as [[SSN_1]] or [[NAME_2]]. " +
+  "Keep any placeholder you use exactly as written and don't try to guess what it stands for.";
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export class PhiRedactor {
+  private tokensByValue = new Map<string, string>();
+  private valuesByToken = new Map<string, string>();
+  private nextIndex = new Map<PhiType, number>();
+  private counts = new Map<PhiType, number>();
+  private dictionaryPattern: RegExp | null = null;
+
+  constructor(private policy: RedactionPolicy, dictionary: string[] = []) {
+    const terms = Array.from(new Set([...policy.dictionary, ...dictionary].map((term) => term.trim())))
+      .filter((term) => term.length >= 2)
+      // Longest first so "Mary Ann Smith" wins over "Mary Ann"
+      .sort((a, b) => b.length - a.length);
+    if (policy.types.includes('dictionary') && terms.length > 0) {
+      this.dictionaryPattern = new RegExp(`\\b(?:${terms.map(escapeRegExp).join("|")})\\b`, "gi");
+    }
+  }
+
+  private tokenFor(type: PhiType, value: string): string {
+    const key = `${type}:${value.toLowerCase()}`;
+    let token = this.tokensByValue.get(key);
+    if (!token) {
+      const index = (this.nextIndex.get(type) || 0) + 1;
+      this.nextIndex.set(type, index);
+      token = `[[${TOKEN_LABELS[type]}_${index}]]`;
+      this.tokensByValue.set(key, token);
+      this.valuesByToken.set(token, value);
+    }
+    this.counts.set(type, (this.counts.get(type) || 0) + 1);
+    return token;
+  }
+
+  redact(text: string): string {
+    let redacted = text;
+    for (const rule of PATTERN_RULES) {
+      if (!this.policy.types.includes(rule.type)) continue;
+      redacted = redacted.replace(rule.pattern, (match: string, value?: string) => {
+        if (rule.labelled && typeof value === "string") {
+          return match.replace(value, this.tokenFor(rule.type, value));
+        }
+        return this.tokenFor(rule.type, match);
+      });
+    }
+    if (this.dictionaryPattern) {
+      redacted = redacted.replace(this.dictionaryPattern, (match) => this.tokenFor('dictionary', match));
+    }
+    return redacted;
+  }
+
+  rehydrate(text: string): string {
+    return text.replace(TOKEN_PATTERN, (token) => this.valuesByToken.get(token) ?? token);
+  }
+
+  // Applies redact or rehydrate to every string in a JSON-like value
+  mapStrings<T>(value: T, transform: (text: string) => string): T {
+    if (typeof value === "string") return transform(value) as T;
+    if (Array.isArray(value)) return value.map((item) => this.mapStrings(item, transform)) as T;
+    if (value && typeof value === "object" && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.mapStrings(item, transform)])
+      ) as T;
+    }
+    return value;
+  }
+
+  // Rehydrates a streamed answer, holding back a chunk that ends partway through a token
+  async *rehydrateStream(chunks: AsyncGenerator<string>): AsyncGenerator<string> {
+    let pending = "";
+    for await (const chunk of chunks) {
+      pending += chunk;
+      const open = pending.lastIndexOf("[[");
+      const held = open !== -1 && pending.indexOf("]]", open) === -1 ? pending.slice(open) : "";
+      const ready = pending.slice(0, pending.length - held.length);
+      pending = held;
+      if (ready) yield this.rehydrate(ready);
+    }
+    if (pending) yield this.rehydrate(pending);
+  }
+
+  report(): RedactionReport {
+    const counts: Partial<Record<PhiType, number>> = {};
+    let total = 0;
+    this.counts.forEach((count, type) => {
+      counts[type] = count;
+      total += count;
+    });
+    return { redactedAt: new Date().toISOString(), total, counts: counts as RedactionReport["counts"] };
+  }
+}
+
+// Wraps a provider so everything it's sent is redacted and everything it returns is rehydrated
+export class RedactingAIService implements AIServiceInterface {
+  private calls = 0;
+
+  constructor(private inner: AIServiceInterface, private redactor: PhiRedactor) {}
+
+  // Null until something has been sent, e.g. when every AI stage of a job was reused
+  getRedactionReport(): RedactionReport | null {
+    return this.calls > 0 ? this.redactor.report() : null;
+  }
+
+  // The providers send only the prompt (the built-in one when none is given), so the instruction
+  // goes at its end, after the document text it's about
+  private redactPrompt(prompt: string): string {
+    this.calls++;
+    return `${this.redactor.redact(prompt)}\n\n${REDACTION_INSTRUCTION}`;
+  }
+
+  private redactMessages(messages: any[]): any[] {
+    return messages.map((message) =>
+      typeof message?.content === "string" ? { ...message, content: this.redactor.redact(message.content) } : message
+    );
+  }
+
+  private redactSystemPrompt(systemPrompt?: string): string {
+    this.calls++;
+    return systemPrompt ? `${this.redactor.redact(systemPrompt)}\n\n${REDACTION_INSTRUCTION}` : REDACTION_INSTRUCTION;
+  }
+
+  async analyzeDocument(content: string, fileName: string, customPrompt?: string) {
+    const prompt = customPrompt ?? renderDefaultPrompt('document_analysis', { fileName, content });
+    const result = await this.inner.analyzeDocument(
+      this.redactor.redact(content),
+      this.redactor.redact(fileName),
+      this.redactPrompt(prompt)
+    );
+    return this.redactor.mapStrings(result, (text) => this.redactor.rehydrate(text));
+  }
+
+  async extractMedicalBills(content: string, fileName: string, customPrompt?: string) {
+    const prompt = customPrompt ?? renderDefaultPrompt('bill_extraction', { fileName, content });
+    const bills = await this.inner.extractMedicalBills(
+      this.redactor.redact(content),
+      this.redactor.redact(fileName),
+      this.redactPrompt(prompt)
+    );
+    return this.redactor.mapStrings(bills, (text) => this.redactor.rehydrate(text));
+  }
+
+  async generateDemandLetter(
+    caseData: any,
+    documents: DemandLetterDocumentVariable[],
+    medicalBills: DemandLetterBillVariable[],
+    customPrompt?: string
+  ) {
+    const redact = (text: string) => this.redactor.redact(text);
+    const prompt = customPrompt ?? renderDefaultPrompt('demand_letter', { case: caseData, documents, bills: medicalBills });
+    const draft = await this.inner.generateDemandLetter(
+      this.redactor.mapStrings(caseData, redact),
+      this.redactor.mapStrings(documents, redact),
+      this.redactor.mapStrings(medicalBills, redact),
+      this.redactPrompt(prompt)
+    );
+    return this.redactor.mapStrings(draft, (text) => this.redactor.rehydrate(text));
+  }
+
+  async chatCompletion(messages: any[], systemPrompt?: string): Promise<string> {
+    const answer = await this.inner.chatCompletion(this.redactMessages(messages), this.redactSystemPrompt(systemPrompt));
+    return this.redactor.rehydrate(answer);
+  }
+
+  chatCompletionStream(messages: any[], systemPrompt?: string, signal?: AbortSignal): AsyncGenerator<string> {
+    return this.redactor.rehydrateStream(
+      this.inner.chatCompletionStream(this.redactMessages(messages), this.redactSystemPrompt(systemPrompt), signal)
+    );
+  }
+
+  getLastUsage(): AIUsage | null {
+    return this.inner.getLastUsage();
+  }
+}
+
+// The firm's policy applies to every member's AI calls; users outside a firm have none
+export async function getRedactionPolicy(userId: string): Promise<RedactionPolicy | null> {
+  const membership = await storage.getOrganizationMembership(userId);
+  if (!membership) return null;
+  const organization = await storage.getOrganizationById(membership.organizationId);
+  return organization?.redactionPolicy?.enabled ? organization.redactionPolicy : null;
+}
+
+// A redactor for the user's firm policy, or null when it has redaction off. The case's client name
+// joins the firm's dictionary, since it's the identifier most documents repeat.
+export async function createRedactor(userId: string, caseId?: string | null): Promise<PhiRedactor | null> {
+  const policy = await getRedactionPolicy(userId);
+  if (!policy) return null;
+
+  const caseData = caseId ? await storage.getCaseById(caseId) : undefined;
+  return new PhiRedactor(policy, caseData ? [caseData.clientName] : []);
+}
+
+// Wraps the service when the user's firm has redaction on
+export async function withRedaction(
+  aiService: AIServiceInterface,
+  userId: string,
+  caseId?: string | null
+): Promise<AIServiceInterface> {
+  const redactor = await createRedactor(userId, caseId);
+  return redactor ? new RedactingAIService(aiService, redactor) : aiService;
+}
+
+// Text sent to the embeddings deployment is redacted under the same policy. Only the vector comes
+// back, so nothing is rehydrated; stored chunks keep the original text for keyword search and citations.
+export function redactForEmbedding(redactor: PhiRedactor | null, text: string): string {
+  return redactor ? redactor.redact(text) : text;
+}
@@ -0,0 +1,204 @@
+import { db } from "./db";
+import { azureOpenAIEmbeddingsService } from "./azureOpenAIEmbeddings";
+import { documents, documentChunks, type DocumentChunk } from "@shared/schema";
+import { and, count, desc, eq, ilike, inArray, or, sql } from "drizzle-orm";
+import type {
+  SearchBackend,
+  DocumentSearchOptions,
+  DocumentSearchResult,
+  ChunkSearchOptions,
+  ChunkSearchResult,
+} from "./searchBackend";
+
+// Reciprocal rank fusion constant; 60 is the usual choice and keeps either list from dominating
+const RRF_K = 60;
+
+// Most chunk vectors compared in-process per query; past this the newest documents' chunks win
+const MAX_VECTOR_CANDIDATES = 2000;
+
+// Substring match for ILIKE; % and _ in the query are matched literally
+function containsPattern(query: string): string {
+  return `%${query.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+// Full-text search over document_chunks.search_vector plus cosine similarity over the stored
+// chunk vectors, so search and chat retrieval work without Azure Search
+export class PostgresSearchBackend implements SearchBackend {
+  readonly name = 'postgres' as const;
+
+  async searchDocuments(query: string, options: DocumentSearchOptions): Promise<{ results: DocumentSearchResult[]; count: number }> {
+    if (options.caseIds.length === 0) {
+      return { results: [], count: 0 };
+    }
+
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+
+    const chunkMatches = db
+      .select({
+        documentId: documentChunks.documentId,
+        rank: sql<number>`max(ts_rank_cd(${documentChunks.searchVector}, ${tsQuery}))`.as("rank"),
+      })
+      .from(documentChunks)
+      .where(and(
+        inArray(documentChunks.caseId, options.caseIds),
+        sql`${documentChunks.searchVector} @@ ${tsQuery}`
+      ))
+      .groupBy(documentChunks.documentId)
+      .as("chunk_matches");
+
+    // File name and AI summary matches weigh more than a hit somewhere in the body text
+    const headerVector = sql`to_tsvector('english', coalesce(${documents.fileName}, '') || ' ' || coalesce(${documents.aiSummary}, ''))`;
+    const score = sql<number>`coalesce(${chunkMatches.rank}, 0) + ts_rank(${headerVector}, ${tsQuery}) * 2`;
+    const where = and(
+      inArray(documents.caseId, options.caseIds),
+      options.documentType ? eq(documents.documentType, options.documentType) : undefined,
+      or(
+        sql`${chunkMatches.documentId} is not null`,
+        sql`${headerVector} @@ ${tsQuery}`,
+        ilike(documents.fileName, containsPattern(query))
+      )
+    );
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select({ document: documents, score })
+        .from(documents)
+        .leftJoin(chunkMatches, eq(chunkMatches.documentId, documents.id))
+        .where(where)
+        .orderBy(desc(score), desc(documents.createdAt))
+        .limit(options.top || 20)
+        .offset(options.skip || 0),
+      db
+        .select({ total: count() })
+        .from(documents)
+        .leftJoin(chunkMatches, eq(chunkMatches.documentId, documents.id))
+        .where(where),
+    ]);
+
+    const excerpts = await this.getExcerpts(rows.map(row => row.document.id), tsQuery);
+
+    return {
+      results: rows.map(({ document, score }) => ({
+        id: document.id,
+        fileName: document.fileName,
+        content: excerpts.get(document.id) || "",
+        summary: document.aiSummary || undefined,
+        caseId: document.caseId,
+        uploadDate: document.createdAt ? new Date(document.createdAt).toISOString() : undefined,
+        score: Number(score),
+      })),
+      count: Number(total),
+    };
+  }
+
+  // Best matching passage per document, with matched terms wrapped in <b>
+  private async getExcerpts(documentIds: string[], tsQuery: ReturnType<typeof sql>): Promise<Map<string, string>> {
+    if (documentIds.length === 0) return new Map();
+
+    const rows = await db
+      .selectDistinctOn([documentChunks.documentId], {
+        documentId: documentChunks.documentId,
+        excerpt: sql<string>`ts_headline('english', ${documentChunks.content}, ${tsQuery}, 'MaxWords=40, MinWords=15')`,
+      })
+      .from(documentChunks)
+      .where(and(
+        inArray(documentChunks.documentId, documentIds),
+        sql`${documentChunks.searchVector} @@ ${tsQuery}`
+      ))
+      .orderBy(documentChunks.documentId, desc(sql`ts_rank_cd(${documentChunks.searchVector}, ${tsQuery})`));
+
+    return new Map(rows.map(row => [row.documentId, row.excerpt]));
+  }
+
+  async getSuggestions(query: string, top: number, caseIds: string[]): Promise<string[]> {
+    if (caseIds.length === 0) return [];
+
+    const rows = await db
+      .selectDistinct({ fileName: documents.fileName })
+      .from(documents)
+      .where(and(inArray(documents.caseId, caseIds), ilike(documents.fileName, containsPattern(query))))
+      .limit(top);
+
+    return rows.map(row => row.fileName);
+  }
+
+  async searchChunks(query: string, queryVector: number[] | undefined, options: ChunkSearchOptions): Promise<ChunkSearchResult[]> {
+    if (options.caseIds.length === 0) return [];
+
+    const top = options.top || 10;
+    const scope = and(
+      inArray(documentChunks.caseId, options.caseIds),
+      options.documentIds && options.documentIds.length > 0
+        ? inArray(documentChunks.documentId, options.documentIds)
+        : undefined
+    );
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+
+    // Keyword ranking happens in SQL; the vectors are compared in-process
+    const keywordRanked = await db
+      .select({ id: documentChunks.id })
+      .from(documentChunks)
+      .where(and(scope, sql`${documentChunks.searchVector} @@ ${tsQuery}`))
+      .orderBy(desc(sql`ts_rank_cd(${documentChunks.searchVector}, ${tsQuery})`))
+      .limit(top * 4);
+
+    // Every embedded chunk in scope is a candidate, so paraphrases with no words in common with the
+    // query still match; only the id and vector are loaded, and at most MAX_VECTOR_CANDIDATES of them
+    let vectorRanked: string[] = [];
+    if (queryVector && queryVector.length > 0) {
+      const candidates: Pick<DocumentChunk, 'id' | 'embedding'>[] = await db
+        .select({ id: documentChunks.id, embedding: documentChunks.embedding })
+        .from(documentChunks)
+        .where(and(scope, sql`${documentChunks.embedding} is not null`))
+        .orderBy(desc(documentChunks.createdAt), documentChunks.chunkIndex)
+        .limit(MAX_VECTOR_CANDIDATES);
+      vectorRanked = candidates
+        .filter(chunk => chunk.embedding && chunk.embedding.length === queryVector.length)
+        .map(chunk => ({
+          id: chunk.id,
+          similarity: azureOpenAIEmbeddingsService.calculateCosineSimilarity(queryVector, chunk.embedding as number[]),
+        }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, top * 4)
+        .map(match => match.id);
+    }
+
+    const scores = new Map<string, number>();
+    const fuse = (ids: string[]) => ids.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (RRF_K + rank + 1));
+    });
+    fuse(keywordRanked.map(row => row.id));
+    fuse(vectorRanked);
+
+    const topIds = Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, top)
+      .map(([id]) => id);
+    if (topIds.length === 0) return [];
+
+    const rows = await db
+      .select({ chunk: documentChunks, fileName: documents.fileName })
+      .from(documentChunks)
+      .innerJoin(documents, eq(documents.id, documentChunks.documentId))
+      .where(inArray(documentChunks.id, topIds));
+
+    return rows
+      .map(({ chunk, fileName }) => ({
+        id: chunk.id,
+        documentId: chunk.documentId,
+        caseId: chunk.caseId,
+        fileName,
+        chunkIndex: chunk.chunkIndex,
+        pageStart: chunk.pageStart,
+        pageEnd: chunk.pageEnd,
+        content: chunk.content,
+        score: scores.get(chunk.id) || 0,
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Chunks and their search_vector are written by the pipeline, so there is nothing extra to index
+  async indexDocument(): Promise<void> {}
+
+  async removeDocument(): Promise<void> {}
+}
@@ -0,0 +1,342 @@
+import { storage } from "./storage";
+import { renderTemplate, findUnknownVariables, type TemplateValues } from "./templateEngine";
+import { computeSpecials } from "./specials";
+import type { DocumentAnalysis } from "./aiOutputSchemas";
+import type { Case, DemandLetterSource, Document, MedicalBill, MedicalBillPayment } from "@shared/schema";
+
+export const PROMPT_TYPES = ['document_analysis', 'bill_extraction', 'demand_letter', 'chat_system', 'document_editing'] as const;
+export type PromptType = typeof PROMPT_TYPES[number];
+
+const CASE_VARIABLES = ['case', 'case.clientName', 'case.caseNumber', 'case.caseType', 'case.status', 'case.description'];
+
+// Variables each prompt type can use; saving a prompt with anything else is rejected
+export const PROMPT_VARIABLES: Record<PromptType, string[]> = {
+  document_analysis: ['fileName', 'content', 'documentType', ...CASE_VARIABLES],
+  bill_extraction: ['fileName', 'content', ...CASE_VARIABLES],
+  demand_letter: ['documents', 'bills', 'billsTotal', 'specials', 'incidentDate', 'medicalSummary', 'damages', 'liability', ...CASE_VARIABLES],
+  chat_system: ['fileName', ...CASE_VARIABLES],
+  document_editing: ['fileName', 'content', ...CASE_VARIABLES],
+};
+
+// Built-in prompts, used when the user has no active prompt of the type
+export const DEFAULT_PROMPTS: Record<PromptType, string> = {
+  document_analysis: `Analyze this legal/medical document for a Personal Injury case and extract comprehensive information. Focus on creating a medical chronology suitable for demand packages and legal preparation.
+
+Document: {{fileName}}
+Content: {{content}}
+
+Extract and return a JSON object with the following structure for Personal Injury legal purposes:
+{
+  "summary": "A detailed narrative summary of this particular bill/record that has been analyzed, focusing on the medical story and legal significance",
+  "extractedData": {
+    "patientInfo": {
+      "patientName": "Full patient name",
+      "dateOfBirth": "Date of birth or age",
+      "gender": "Patient gender", 
+      "address": "Patient address",
+      "insurance": "Insurance details (Auto, Health, VA, Medicare, etc.)",
+      "accidentDate": "Date of accident/incident"
+    },
+    "medicalInfo": {
+      "injuryDiagnoses": [
+        {
+          "diagnosis": "cervical strain",
+          "icd10Code": "M54.2",
+          "narrative": "Detailed description of the injury"
+        }
+      ],
+      "proceduresPerformed": [
+        {
+          "procedure": "MRI Lumbar Spine",
+          "cptCode": "72148", 
+          "description": "Detailed procedure description including findings"
+        }
+      ],
+      "diagnostics": [
+        {
+          "test": "X-ray Cervical Spine",
+          "results": "Key impressions and findings (e.g., herniated disc at L4-5, fracture)",
+          "significance": "Legal significance of findings"
+        }
+      ],
+      "treatmentRecommendations": [
+        "Physical therapy 2-3x per week",
+        "Pain management consult for epidural injections",
+        "Orthopedic surgery consultation"
+      ]
+    },
+    "painSymptomReports": {
+      "painScaleReports": ["Pain scale 7/10 in lower back", "Headache 5/10"],
+      "functionalLimitations": ["Cannot lift over 10 lbs", "Cannot sit for more than 30 minutes", "Difficulty driving"],
+      "subjectiveComplaints": ["Persistent headaches", "Dizziness", "Numbness in left arm"]
+    },
+    "timeline": [
+      {
+        "eventDate": "2024-09-03",
+        "eventType": "First Diagnostic Testing",
+        "facilityProvider": "Pinnacle Healthcare Radiology",
+        "narrativeSummary": "James underwent multiple imaging procedures after the accident, beginning with CT Abdomen and Pelvis with Contrast showing no acute trauma but degenerative changes",
+        "cost": "$413.00"
+      }
+    ],
+    "providerInfo": {
+      "facilityName": "Medical facility name",
+      "treatingProviderName": "Dr. Name",
+      "specialty": "Orthopedics/Pain Management/etc",
+      "locationAddress": "Full facility address",
+      "referralChain": ["PCP → Orthopedist → Pain Management"]
+    },
+    "billingFinancials": {
+      "serviceCharges": [
+        {
+          "service": "CT Scan with contrast",
+          "cptCode": "74177",
+          "amount": "$2,660.00"
+        }
+      ],
+      "outstandingBalance": "$1,697.00",
+      "paymentsAdjustments": "Insurance payments and write-offs",
+      "duplicateCharges": "Any duplicate charges flagged"
+    },
+    "prognosisFutureCare": {
+      "physiciansPrognosis": "Temporary vs permanent impairment assessment",
+      "futureMedicalRecommendations": ["Ongoing PT", "Possible surgery", "Pain management"],
+      "anticipatedCosts": "Future cost estimates if mentioned"
+    },
+    "complicationsNotes": {
+      "preExistingConditions": "Any pre-existing conditions noted",
+      "accidentRelatedAggravations": "How accident aggravated existing conditions",
+      "delaysInCare": "Treatment delays or gaps in care",
+      "complianceIssues": "Missed appointments, early discharge, etc."
+    }
+  },
+  "keyFindings": ["Critical findings that support the legal case and demonstrate injury causation"]
+}
+
+IMPORTANT: Extract ALL specific details including exact dates, dollar amounts, provider names, diagnostic codes, and medical findings. Create a narrative that tells the medical story chronologically and focuses on how this document supports the personal injury claim.`,
+
+  bill_extraction: `Extract ALL medical bills, invoices, and billing information from this medical document:
+
+Document: {{fileName}}
+Content: {{content}}
+
+For each medical bill found, extract:
+- provider (hospital/clinic/doctor name)
+- amount (total bill amount in dollars)
+- serviceDate (date service was provided, format: YYYY-MM-DD)
+- billDate (date bill was issued, format: YYYY-MM-DD)
+- treatment (description of treatment/service provided)
+- insurance (insurance company/plan mentioned)
+- status (use "pending" as default)
+- cptCodes (array of CPT/HCPCS procedure codes listed for the bill, empty if none)
+- lineItems (one entry per itemized charge, empty if the bill isn't itemized), each with:
+  code, codeSystem ("CPT", "HCPCS", "ICD-10", "REV" or "other"), diagnosisCodes (ICD-10 codes the charge is billed against),
+  description, units, charge (line total), allowed, paid, adjustment (numeric values only, null if not shown) and serviceDate (YYYY-MM-DD)
+
+- confidence (how sure you are of each of provider, amount, serviceDate, billDate, treatment and insurance, from 0 to 1)
+- sources (for each of those fields, the exact text copied from the document that it was read from)
+
+If a document contains several separate bills, extract each as a separate bill; itemized charges within one bill go in its lineItems.
+If a field isn't shown in the document, use null and a confidence of 0. Do not guess dates or provider names.
+If amount includes currency symbols, remove them and provide numeric value only.
+
+Format as JSON object with bills array: {"bills": [{"provider": "...", "amount": "...", "serviceDate": "...", "billDate": "...", "treatment": "...", "insurance": "...", "status": "pending", "cptCodes": ["..."], "lineItems": [{"code": "...", "codeSystem": "CPT", "diagnosisCodes": ["..."], "description": "...", "units": 1, "charge": "...", "allowed": null, "paid": null, "adjustment": null, "serviceDate": "..."}], "confidence": {"provider": 0.95, "amount": 0.9, "serviceDate": 0.8, "billDate": 0.6, "treatment": 0.7, "insurance": 0}, "sources": {"provider": "...", "amount": "...", "serviceDate": "...", "billDate": "...", "treatment": "...", "insurance": null}}]}
+
+If no medical bills found, return: {"bills": []}`,
+
+  demand_letter: `Write a personal injury demand letter for this case, using only the facts in the sources below.
+
+Case Details: {{case}}
+Incident Date: {{incidentDate}}
+
+Sources (cite them by id):
+- U1, liability notes from the attorney: {{liability}}
+- U2, medical summary from the attorney: {{medicalSummary}}
+- U3, claimed damages from the attorney: {{damages}}
+- Analyzed documents (D ids), with summaries, diagnoses, treatment timeline and prognosis: {{documents}}
+- Medical bills (B ids), with amounts paid and outstanding: {{bills}}
+
+Medical specials: {{specials}}
+Total Medical Bills: {{billsTotal}}
+
+Write these sections in professional legal language:
+- liability: how the incident happened and why the other party is responsible
+- injuries: diagnosed injuries and objective findings
+- treatment_chronology: treatment in date order, provider by provider
+- general_damages: pain and suffering, functional limitations, future care and loss of enjoyment of life
+- demand: the settlement demand and the deadline to respond
+
+Do not write a medical specials section; the bill table is added separately. Do not invent facts, dates or amounts.
+For each section list the ids of the sources it relies on in sourceIds.
+
+Format as JSON object: {"sections": [{"key": "liability", "content": "...", "sourceIds": ["U1", "D2"]}, {"key": "injuries", "content": "...", "sourceIds": ["D1"]}, {"key": "treatment_chronology", "content": "...", "sourceIds": ["D1", "B1"]}, {"key": "general_damages", "content": "...", "sourceIds": ["D3"]}, {"key": "demand", "content": "...", "sourceIds": ["B1", "B2"]}], "demandAmount": "150000.00"}`,
+
+  chat_system: `You are a helpful legal AI assistant specializing in medical legal cases.`,
+
+  document_editing: `Edit the following document as instructed, keeping its facts, dates and amounts unchanged.
+
+Document: {{fileName}}
+Content: {{content}}
+
+Reply with only the edited text, keeping its Markdown formatting.`,
+};
+
+export function isPromptType(type: string): type is PromptType {
+  return (PROMPT_TYPES as readonly string[]).includes(type);
+}
+
+export function validatePromptTemplate(type: string, template: string): string[] {
+  if (!isPromptType(type)) return [];
+  return findUnknownVariables(template, PROMPT_VARIABLES[type]);
+}
+
+export function caseVariables(caseData: Case | undefined | null): TemplateValues {
+  if (!caseData) return { case: null };
+  return {
+    case: {
+      clientName: caseData.clientName,
+      caseNumber: caseData.caseNumber,
+      caseType: caseData.caseType,
+      status: caseData.status,
+      description: caseData.description || "",
+    },
+  };
+}
+
+// Documents a demand letter can draw on: those the AI has analyzed
+function analyzedDocuments(documents: Document[]): Document[] {
+  return documents.filter(doc => doc.aiProcessed && doc.aiSummary);
+}
+
+function toDay(value: Date | string): string {
+  return new Date(value).toISOString().split("T")[0];
+}
+
+export interface DemandLetterSourceRef extends DemandLetterSource {
+  // The short id the prompt cites the source by: U for the attorney's input, D for documents, B for bills
+  sourceId: string;
+}
+
+type AnalysisData = DocumentAnalysis['extractedData'];
+
+// What the demand letter prompt, and the provider drafting from it, sees of each document and bill
+export interface DemandLetterDocumentVariable {
+  sourceId: string;
+  fileName: string;
+  summary: string | null;
+  diagnoses: NonNullable<NonNullable<AnalysisData['medicalInfo']>['injuryDiagnoses']>;
+  timeline: NonNullable<AnalysisData['timeline']>;
+  prognosis: NonNullable<AnalysisData['prognosisFutureCare']> | null;
+}
+
+export interface DemandLetterBillVariable {
+  sourceId: string;
+  provider: string;
+  serviceDate: string;
+  treatment: string | null;
+  cptCodes: string[];
+  amount: string;
+  paid: string;
+  outstanding: string;
+}
+
+export type DemandLetterVariables = TemplateValues & {
+  documents: DemandLetterDocumentVariable[];
+  bills: DemandLetterBillVariable[];
+  specials: { billed: string; paid: string; adjusted: string; outstanding: string };
+  billsTotal: string;
+};
+
+// Every source a demand letter prompt can cite, keyed the same way as demandLetterVariables
+export function demandLetterSources(documents: Document[], bills: MedicalBill[]): DemandLetterSourceRef[] {
+  return [
+    { sourceId: 'U1', type: 'input', id: null, label: 'Liability notes' },
+    { sourceId: 'U2', type: 'input', id: null, label: 'Medical summary' },
+    { sourceId: 'U3', type: 'input', id: null, label: 'Claimed damages' },
+    ...analyzedDocuments(documents).map((doc, index): DemandLetterSourceRef => ({
+      sourceId: `D${index + 1}`,
+      type: 'document',
+      id: doc.id,
+      label: doc.fileName,
+    })),
+    ...bills.map((bill, index): DemandLetterSourceRef => ({
+      sourceId: `B${index + 1}`,
+      type: 'bill',
+      id: bill.id,
+      label: `${bill.provider}, ${toDay(bill.serviceDate)}`,
+    })),
+  ];
+}
+
+export function demandLetterVariables(
+  caseData: Case,
+  documents: Document[],
+  bills: MedicalBill[],
+  payments: MedicalBillPayment[] = []
+): DemandLetterVariables {
+  const specials = computeSpecials(bills, payments);
+  const balances = new Map(specials.bills.map(balance => [balance.billId, balance]));
+
+  return {
+    ...caseVariables(caseData),
+    documents: analyzedDocuments(documents).map((doc, index) => {
+      const data = (doc.extractedData || {}) as AnalysisData;
+      return {
+        sourceId: `D${index + 1}`,
+        fileName: doc.fileName,
+        summary: doc.aiSummary,
+        diagnoses: data.medicalInfo?.injuryDiagnoses || [],
+        timeline: data.timeline || [],
+        prognosis: data.prognosisFutureCare || null,
+      };
+    }),
+    bills: bills.map((bill, index) => ({
+      sourceId: `B${index + 1}`,
+      provider: bill.provider,
+      serviceDate: toDay(bill.serviceDate),
+      treatment: bill.treatment,
+      cptCodes: bill.cptCodes || [],
+      amount: bill.amount,
+      paid: (balances.get(bill.id)?.paid ?? 0).toFixed(2),
+      outstanding: (balances.get(bill.id)?.outstanding ?? 0).toFixed(2),
+    })),
+    specials: {
+      billed: specials.totals.billed.toFixed(2),
+      paid: specials.totals.paid.toFixed(2),
+      adjusted: specials.totals.adjusted.toFixed(2),
+      outstanding: specials.totals.outstanding.toFixed(2),
+    },
+    billsTotal: specials.totals.billed.toFixed(2),
+  };
+}
+
+export function renderDefaultPrompt(type: PromptType, values: TemplateValues): string {
+  return renderTemplate(DEFAULT_PROMPTS[type], values);
+}
+
+export interface ResolvedPrompt {
+  prompt: string;
+  // The user's prompt that was used, or null for the built-in default
+  promptId: string | null;
+  // The exact version of that prompt's text, so outputs can be traced back to it
+  promptVersionId: string | null;
+}
+
+// Renders the user's active prompt of the given type, falling back to the built-in one.
+// A pinned version wins over the latest edit.
+export async function resolvePrompt(userId: string, type: PromptType, values: TemplateValues): Promise<ResolvedPrompt> {
+  const custom = await storage.getAiPromptByType(userId, type);
+  if (!custom) {
+    return { prompt: renderDefaultPrompt(type, values), promptId: null, promptVersionId: null };
+  }
+
+  const pinned = custom.pinnedVersionId ? await storage.getAiPromptVersionById(custom.pinnedVersionId) : undefined;
+  if (pinned) {
+    return { prompt: renderTemplate(pinned.prompt, values), promptId: custom.id, promptVersionId: pinned.id };
+  }
+
+  // Prompts saved before versioning have no version row until first used
+  const promptVersionId = custom.currentVersionId
+    ?? (await storage.createAiPromptVersion(custom.id, custom.prompt, custom.userId)).id;
+  return { prompt: renderTemplate(custom.prompt, values), promptId: custom.id, promptVersionId };
+}
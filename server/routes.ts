@@ -1,34 +1,117 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { createAIService } from "./aiService";
+import { storage, type AuditEventFilters } from "./storage";
+import { createAIService, aiProviders, isAllowedAIBaseUrl } from "./aiProviders";
 import { setupAuth, isAuthenticated } from "./auth";
-import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
-import { ObjectPermission } from "./objectAcl";
-import { azureBlobService, CONTAINERS } from "./azureBlobStorage";
-import { azureSearchService, SearchDocument } from "./azureSearchService";
-import { documentIntelligenceService } from "./azureDocumentIntelligence";
+import { auditTrail, auditContext, auditEventsToCsv, recordAuditChange } from "./auditLog";
+import { withRedaction } from "./phiRedaction";
+import {
+  ObjectPermission,
+  ObjectAccessGroupType,
+  canAccessBlob,
+  getBlobAclPolicy,
+  grantBlobAccess,
+  isAclPolicyAllowed,
+  setBlobAclPolicy,
+} from "./objectAcl";
+import { azureBlobService, CONTAINERS, splitObjectPath } from "./azureBlobStorage";
+import { searchBackend } from "./searchBackend";
+import { documentIntelligenceService, getPageLayout } from "./azureDocumentIntelligence";
 import { cosmosDbService } from "./cosmosDbService";
 import { azureOpenAIEmbeddingsService } from "./azureOpenAIEmbeddings";
 import { checkAzureServicesHealth } from "./azureInit";
+import { jobQueue } from "./jobQueue";
+import {
+  authorizeCase,
+  authorizeDocument,
+  authorizeChatSession,
+  canCreateCases,
+  getCaseAccess,
+  type CaseAccess,
+} from "./authorization";
+import { extractCitations } from "./chunkRetrieval";
+import { prepareDocumentChat, prepareSessionChat } from "./chatService";
+import { streamCompletion } from "./sse";
+import {
+  isPromptType,
+  validatePromptTemplate,
+  demandLetterVariables,
+  PROMPT_VARIABLES,
+  DEFAULT_PROMPTS,
+} from "./promptTemplates";
+import { renderTemplate, findTemplateVariables } from "./templateEngine";
+import { ANALYSIS_STAGES, BILL_EXTRACTION_STAGES } from "./documentPipeline";
+import {
+  flagDuplicateBills,
+  scanCaseForDuplicateBills,
+  resolveDuplicateBill,
+  DUPLICATE_RESOLUTIONS,
+} from "./billDeduplication";
+import { getCaseSpecials } from "./specials";
+import { getCaseChronology, DEFAULT_GAP_DAYS } from "./chronology";
+import { getCaseRiskReport } from "./caseRisks";
+import { calculateCaseSettlement, settlementInputSchema } from "./settlement";
+import { acceptProposedBill, rejectProposedBill, proposalEditsSchema } from "./billProposals";
+import {
+  generateDemandLetter,
+  regenerateDemandLetterSection,
+  rewriteDemandLetter,
+  applyDemandLetterEdits,
+  canTransitionDemandLetter,
+  isDemandLetterEditable,
+  hasDemandLetterSections,
+  demandLetterRequestSchema,
+  demandLetterEditsSchema,
+  demandLetterRewriteSchema,
+  demandLetterStatusChangeSchema,
+} from "./demandLetters";
+import { AIOutputValidationError } from "./aiOutputSchemas";
+import {
+  loadLetterhead,
+  loadExhibits,
+  renderLetterDocx,
+  renderLetterPdf,
+  renderDemandPackage,
+} from "./letterExport";
+import { LETTER_MERGE_FIELDS, DEFAULT_LETTER_TEMPLATE, validateLetterTemplate } from "./letterTemplates";
 // import { analyzeDocument, generateDemandLetter, chatWithAI } from "./openai"; // Replaced with new AI service abstraction
 import { 
   insertCaseSchema, 
+  insertOrganizationSchema,
   insertDocumentSchema, 
   insertMedicalBillSchema,
+  insertMedicalBillLineItemSchema,
+  insertMedicalBillPaymentSchema,
+  insertLienSchema,
   insertAiChatSessionSchema,
   insertAiChatMessageSchema,
   insertDemandLetterSchema,
-  insertAiPromptSchema
+  insertAiPromptSchema,
+  insertLetterheadSchema,
+  insertLetterTemplateSchema,
+  DEMAND_LETTER_SECTIONS,
+  ORGANIZATION_ROLES,
+  redactionPolicySchema,
 } from "@shared/schema";
 import multer from "multer";
 import { z } from "zod";
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+const PREVIEW_CONTENT_LENGTH = 2000;
+const MAX_PACKAGE_EXHIBITS = 50;
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+const MAX_AUDIT_PAGE_SIZE = 500;
+const MAX_AUDIT_EXPORT_ROWS = 50000;
+// Types the browser may render in place. The type is whatever the uploader sent, so HTML, SVG and
+// anything else that can run script is always downloaded instead.
+const INLINE_MIME_TYPES = new Set(['application/pdf', 'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/tiff']);
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
+  // After auth so events carry the signed-in user; login and logout themselves aren't audited
+  app.use(auditTrail);
 
   // Remove old auth route - now handled in auth.ts
 
@@ -59,19 +142,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/cases/:caseId", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const { caseId } = req.params;
-      const caseData = await storage.getCase(caseId);
-      
-      if (!caseData) {
-        return res.status(404).json({ message: "Case not found" });
-      }
-      
-      // Check if user owns the case
-      if (caseData.createdBy !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
-      res.json(caseData);
+      const caseData = await authorizeCase(req.params.caseId, userId, 'view', res);
+      if (!caseData) return;
+
+      // Lets the client hide what the user isn't allowed to do
+      const access = await getCaseAccess(caseData, userId);
+      res.json({ ...caseData, access });
     } catch (error) {
       console.error("Error fetching case:", error);
       res.status(500).json({ message: "Failed to fetch case" });
@@ -81,6 +157,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/cases", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
+      if (!(await canCreateCases(userId))) {
+        return res.status(403).json({ message: "Read-only members can't open cases" });
+      }
       const caseData = insertCaseSchema.parse({
         ...req.body,
         createdBy: userId,
@@ -266,23 +345,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/cases/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/cases/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const caseRecord = await storage.getCaseById(req.params.id);
-      if (!caseRecord) {
-        return res.status(404).json({ message: "Case not found" });
-      }
-      res.json(caseRecord);
-    } catch (error) {
-      console.error("Error fetching case:", error);
-      res.status(500).json({ message: "Failed to fetch case" });
-    }
-  });
+      const caseData = await authorizeCase(req.params.id, req.user.id, 'edit', res);
+      if (!caseData) return;
 
-  app.put("/api/cases/:id", isAuthenticated, async (req, res) => {
-    try {
-      const updates = insertCaseSchema.partial().parse(req.body);
+      const updates = insertCaseSchema.omit({ createdBy: true, organizationId: true }).partial().parse(req.body);
       const updatedCase = await storage.updateCase(req.params.id, updates);
+      recordAuditChange(res, caseData, updatedCase);
       res.json(updatedCase);
     } catch (error) {
       console.error("Error updating case:", error);
@@ -290,9 +360,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/cases/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/cases/:id", isAuthenticated, async (req: any, res) => {
     try {
+      const caseData = await authorizeCase(req.params.id, req.user.id, 'manage', res);
+      if (!caseData) return;
+
       await storage.deleteCase(req.params.id);
+      recordAuditChange(res, caseData, undefined);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting case:", error);
@@ -300,9 +374,413 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Case team: firm members working the case besides its creator
+  app.get("/api/cases/:caseId/team", isAuthenticated, async (req: any, res) => {
+    try {
+      const caseData = await authorizeCase(req.params.caseId, req.user.id, 'view', res);
+      if (!caseData) return;
+
+      const [assignments, firmMembers] = await Promise.all([
+        storage.getCaseAssignments(caseData.id),
+        caseData.organizationId ? storage.getOrganizationMembers(caseData.organizationId) : Promise.resolve([]),
+      ]);
+      const roles = new Map(firmMembers.map(member => [member.userId, member.role]));
+
+      res.json({
+        organizationId: caseData.organizationId,
+        createdBy: caseData.createdBy,
+        members: assignments.map(assignment => ({ ...assignment, role: roles.get(assignment.userId) ?? null })),
+      });
+    } catch (error) {
+      console.error("Error fetching case team:", error);
+      res.status(500).json({ message: "Failed to fetch case team" });
+    }
+  });
+
+  app.post("/api/cases/:caseId/team", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { userId: memberId } = z.object({ userId: z.string() }).parse(req.body);
+      const caseData = await authorizeCase(req.params.caseId, userId, 'manage', res);
+      if (!caseData) return;
+
+      if (!caseData.organizationId) {
+        return res.status(400).json({ message: "Only firm cases can be shared. Create or join a firm first." });
+      }
+      const membership = await storage.getOrganizationMembership(memberId);
+      if (!membership || membership.organizationId !== caseData.organizationId) {
+        return res.status(400).json({ message: "Team members have to belong to the case's firm" });
+      }
+
+      const assignment = await storage.addCaseAssignment({ caseId: caseData.id, userId: memberId, assignedBy: userId });
+      if (!assignment) {
+        return res.status(409).json({ message: "Already on the case team" });
+      }
+      res.status(201).json(assignment);
+    } catch (error) {
+      console.error("Error adding case team member:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to add case team member" });
+    }
+  });
+
+  app.delete("/api/cases/:caseId/team/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      const caseData = await authorizeCase(req.params.caseId, req.user.id, 'manage', res);
+      if (!caseData) return;
+
+      await storage.removeCaseAssignment(caseData.id, req.params.userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing case team member:", error);
+      res.status(500).json({ message: "Failed to remove case team member" });
+    }
+  });
+
+  // Firm routes. Only the firm's admins manage its name and members.
+  async function getAdminMembership(userId: string, res: any) {
+    const membership = await storage.getOrganizationMembership(userId);
+    if (!membership) {
+      res.status(404).json({ message: "You're not a member of a firm" });
+      return undefined;
+    }
+    if (membership.role !== 'admin') {
+      res.status(403).json({ message: "Only firm admins can manage the firm" });
+      return undefined;
+    }
+    return membership;
+  }
+
+  // A firm always keeps at least one admin
+  async function isLastAdmin(organizationId: string, userId: string): Promise<boolean> {
+    const admins = (await storage.getOrganizationMembers(organizationId)).filter(member => member.role === 'admin');
+    return admins.length === 1 && admins[0].userId === userId;
+  }
+
+  const organizationMemberSchema = z.object({
+    username: z.string().trim().min(1, "Username is required"),
+    role: z.enum(ORGANIZATION_ROLES),
+  });
+
+  app.get("/api/organization", isAuthenticated, async (req: any, res) => {
+    try {
+      const membership = await storage.getOrganizationMembership(req.user.id);
+      if (!membership) {
+        return res.json({ organization: null, role: null, members: [], invitations: [] });
+      }
+
+      const [organization, members, invitations] = await Promise.all([
+        storage.getOrganizationById(membership.organizationId),
+        storage.getOrganizationMembers(membership.organizationId),
+        // Pending invitations are the admins' business
+        membership.role === 'admin' ? storage.getOrganizationInvitations(membership.organizationId) : Promise.resolve([]),
+      ]);
+      res.json({ organization, role: membership.role, members, invitations });
+    } catch (error) {
+      console.error("Error fetching firm:", error);
+      res.status(500).json({ message: "Failed to fetch firm" });
+    }
+  });
+
+  // The creator becomes the firm's admin and their cases become firm cases
+  app.post("/api/organization", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { name, moveCases } = insertOrganizationSchema.pick({ name: true })
+        .extend({ moveCases: z.boolean().default(false) })
+        .parse(req.body);
+      if (await storage.getOrganizationMembership(userId)) {
+        return res.status(409).json({ message: "You already belong to a firm" });
+      }
+
+      const organization = await storage.createOrganization(name, userId, moveCases);
+      res.status(201).json(organization);
+    } catch (error) {
+      console.error("Error creating firm:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create firm" });
+    }
+  });
+
+  app.patch("/api/organization", isAuthenticated, async (req: any, res) => {
+    try {
+      const { name } = insertOrganizationSchema.pick({ name: true }).parse(req.body);
+      const membership = await getAdminMembership(req.user.id, res);
+      if (!membership) return;
+
+      const organization = await storage.updateOrganization(membership.organizationId, { name });
+      res.json(organization);
+    } catch (error) {
+      console.error("Error updating firm:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update firm" });
+    }
+  });
+
+  // PHI redaction applies to every AI call made by the firm's members (see phiRedaction.ts)
+  app.put("/api/organization/redaction-policy", isAuthenticated, async (req: any, res) => {
+    try {
+      const redactionPolicy = redactionPolicySchema.parse(req.body);
+      const membership = await getAdminMembership(req.user.id, res);
+      if (!membership) return;
+
+      const organization = await storage.getOrganizationById(membership.organizationId);
+      const updated = await storage.updateOrganization(membership.organizationId, { redactionPolicy });
+      recordAuditChange(res, organization, updated);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating redaction policy:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update redaction policy" });
+    }
+  });
+
+  // Invites an existing user by username. They only join once they accept, and their own cases
+  // stay outside the firm unless they choose to bring them.
+  app.post("/api/organization/invitations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { username, role } = organizationMemberSchema.parse(req.body);
+      const membership = await getAdminMembership(userId, res);
+      if (!membership) return;
+
+      const user = await storage.getUserByUsername(username);
+      if (!user) {
+        return res.status(404).json({ message: `No user named ${username}` });
+      }
+      if (await storage.getOrganizationMembership(user.id)) {
+        return res.status(409).json({ message: `${username} already belongs to a firm` });
+      }
+
+      const invitation = await storage.createOrganizationInvitation(membership.organizationId, user.id, role, userId);
+      if (!invitation) {
+        return res.status(409).json({ message: `${username} has already been invited` });
+      }
+      res.status(201).json(invitation);
+    } catch (error) {
+      console.error("Error inviting firm member:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to invite firm member" });
+    }
+  });
+
+  // Invitations waiting for the signed-in user
+  app.get("/api/organization/invitations", isAuthenticated, async (req: any, res) => {
+    try {
+      const invitations = await storage.getInvitationsForUser(req.user.id);
+      res.json(invitations);
+    } catch (error) {
+      console.error("Error fetching firm invitations:", error);
+      res.status(500).json({ message: "Failed to fetch firm invitations" });
+    }
+  });
+
+  app.post("/api/organization/invitations/:id/accept", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { moveCases } = z.object({ moveCases: z.boolean().default(false) }).parse(req.body);
+      const invitation = await storage.getOrganizationInvitationById(req.params.id);
+      if (!invitation || invitation.userId !== userId) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      if (await storage.getOrganizationMembership(userId)) {
+        return res.status(409).json({ message: "You already belong to a firm. Leave it before joining another." });
+      }
+
+      const membership = await storage.acceptOrganizationInvitation(invitation, moveCases);
+      res.json(membership);
+    } catch (error) {
+      console.error("Error accepting firm invitation:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to accept firm invitation" });
+    }
+  });
+
+  // The invitee declines, or an admin of the inviting firm withdraws the invitation
+  app.delete("/api/organization/invitations/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const invitation = await storage.getOrganizationInvitationById(req.params.id);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      if (invitation.userId !== userId) {
+        const membership = await getAdminMembership(userId, res);
+        if (!membership) return;
+        if (membership.organizationId !== invitation.organizationId) {
+          return res.status(404).json({ message: "Invitation not found" });
+        }
+      }
+
+      await storage.deleteOrganizationInvitation(invitation.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting firm invitation:", error);
+      res.status(500).json({ message: "Failed to delete firm invitation" });
+    }
+  });
+
+  app.patch("/api/organization/members/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      const { role } = organizationMemberSchema.pick({ role: true }).parse(req.body);
+      const membership = await getAdminMembership(req.user.id, res);
+      if (!membership) return;
+
+      if (role !== 'admin' && await isLastAdmin(membership.organizationId, req.params.userId)) {
+        return res.status(409).json({ message: "A firm needs at least one admin" });
+      }
+      const before = await storage.getOrganizationMembership(req.params.userId);
+      const updated = await storage.updateOrganizationMemberRole(membership.organizationId, req.params.userId, role);
+      if (!updated) {
+        return res.status(404).json({ message: "Firm member not found" });
+      }
+      recordAuditChange(res, before, updated);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error changing firm member role:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to change firm member role" });
+    }
+  });
+
+  // Admins remove members; anyone can leave. The member's cases stay with the firm.
+  app.delete("/api/organization/members/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      let membership;
+      if (req.params.userId === userId) {
+        membership = await storage.getOrganizationMembership(userId);
+        if (!membership) {
+          return res.status(404).json({ message: "You're not a member of a firm" });
+        }
+      } else {
+        membership = await getAdminMembership(userId, res);
+        if (!membership) return;
+      }
+
+      if (await isLastAdmin(membership.organizationId, req.params.userId)) {
+        return res.status(409).json({ message: "A firm needs at least one admin. Make someone else an admin first." });
+      }
+      await storage.removeOrganizationMember(membership.organizationId, req.params.userId);
+      // Someone leaving is no longer a member when the event is recorded, so name the firm here
+      auditContext(res).organizationId = membership.organizationId;
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing firm member:", error);
+      res.status(500).json({ message: "Failed to remove firm member" });
+    }
+  });
+
+  // Audit log: firm admins see what everyone in their firm did, users outside a firm their own events
+  async function getAuditScope(userId: string, res: any): Promise<AuditEventFilters | undefined> {
+    const membership = await storage.getOrganizationMembership(userId);
+    if (!membership) return { actorId: userId };
+    if (membership.role !== 'admin') {
+      res.status(403).json({ message: "Only firm admins can view the audit log" });
+      return undefined;
+    }
+    return { organizationId: membership.organizationId };
+  }
+
+  const auditEventQuerySchema = z.object({
+    userId: z.string().optional(),
+    caseId: z.string().optional(),
+    from: z.coerce.date().optional(),
+    // Inclusive: a YYYY-MM-DD date covers the whole day, while a full timestamp is used as given
+    to: z.preprocess(
+      value => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+        ? new Date(Date.parse(value) + 24 * 60 * 60 * 1000)
+        : value,
+      z.coerce.date().optional()
+    ),
+    limit: z.coerce.number().int().min(1).max(MAX_AUDIT_PAGE_SIZE).default(100),
+    offset: z.coerce.number().int().min(0).default(0),
+  });
+
+  function auditEventFilters(scope: AuditEventFilters, query: z.infer<typeof auditEventQuerySchema>): AuditEventFilters {
+    return {
+      ...scope,
+      // A solo user's scope is already their own events
+      actorId: scope.actorId ?? query.userId,
+      caseId: query.caseId,
+      from: query.from,
+      to: query.to,
+    };
+  }
+
+  app.get("/api/audit-events", isAuthenticated, async (req: any, res) => {
+    try {
+      const query = auditEventQuerySchema.parse(req.query);
+      const scope = await getAuditScope(req.user.id, res);
+      if (!scope) return;
+
+      const events = await storage.getAuditEvents({
+        ...auditEventFilters(scope, query),
+        limit: query.limit,
+        offset: query.offset,
+      });
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching audit events:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
+
+  app.get("/api/audit-events/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const query = auditEventQuerySchema.parse(req.query);
+      const scope = await getAuditScope(req.user.id, res);
+      if (!scope) return;
+
+      const events = await storage.getAuditEvents({ ...auditEventFilters(scope, query), limit: MAX_AUDIT_EXPORT_ROWS });
+      const fileName = `audit-log-${new Date().toISOString().split('T')[0]}.csv`;
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.send(auditEventsToCsv(events));
+    } catch (error) {
+      console.error("Error exporting audit events:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to export audit events" });
+    }
+  });
+
+  // Recomputes the hash chain; any edited, inserted or removed row shows up as a break
+  app.get("/api/audit-events/verify", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!(await getAuditScope(req.user.id, res))) return;
+      const result = await storage.verifyAuditChain();
+      res.json(result);
+    } catch (error) {
+      console.error("Error verifying audit log:", error);
+      res.status(500).json({ message: "Failed to verify audit log" });
+    }
+  });
+
   // Document management routes
-  app.get("/api/cases/:caseId/documents", isAuthenticated, async (req, res) => {
+  app.get("/api/cases/:caseId/documents", isAuthenticated, async (req: any, res) => {
     try {
+      const caseData = await authorizeCase(req.params.caseId, req.user.id, 'view', res);
+      if (!caseData) return;
+
       const documents = await storage.getDocumentsByCase(req.params.caseId);
       res.json(documents);
     } catch (error) {
@@ -311,7 +789,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all documents for current user
+  // Documents of every case the user can open
   app.get("/api/documents", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
@@ -330,6 +808,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         uploadedBy: userId,
       });
+      if (!(await authorizeCase(documentData.caseId, userId, 'edit', res))) return;
+
+      // The file must be one the user uploaded (or was given write access to); attaching it to the
+      // case opens it to the case team
+      if (documentData.objectPath) {
+        const { containerName, blobName } = splitObjectPath(documentData.objectPath);
+        const canWrite = await canAccessBlob({
+          userId,
+          containerName,
+          blobName,
+          requestedPermission: ObjectPermission.WRITE,
+        });
+        if (!canWrite) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        const granted = await grantBlobAccess(containerName, blobName, {
+          group: { type: ObjectAccessGroupType.CASE_TEAM, id: documentData.caseId },
+          permission: ObjectPermission.READ,
+        });
+        if (!granted) {
+          return res.status(500).json({ message: "Failed to create document" });
+        }
+      }
+
       const document = await storage.createDocument(documentData);
       res.status(201).json(document);
     } catch (error) {
@@ -347,17 +849,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.id;
       console.log("User ID:", userId);
       
-      const document = await storage.getDocumentById(req.params.id);
-      console.log("Document found:", document ? "YES" : "NO");
-      
+      const document = await authorizeDocument(req.params.id, userId, 'view', res);
       if (!document) {
-        console.log("❌ Document not found");
-        return res.status(404).json({ message: "Document not found" });
-      }
-
-      if (document.uploadedBy !== userId) {
-        console.log("❌ Access denied");
-        return res.status(403).json({ message: "Access denied" });
+        console.log("❌ Document not found or access denied");
+        return;
       }
 
       if (!document.objectPath) {
@@ -368,15 +863,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log("ObjectPath:", document.objectPath);
       
       // Parse the object path
-      const pathParts = document.objectPath.split('/');
-      const containerName = pathParts[0];
-      const blobName = pathParts.slice(1).join('/');
+      const { containerName, blobName } = splitObjectPath(document.objectPath);
       
       console.log("Container:", containerName, "Blob:", blobName);
 
+      // Files uploaded before ACL policies existed have none and stay governed by case access alone
+      const aclPolicy = await getBlobAclPolicy(containerName, blobName);
+      if (aclPolicy && !(await isAclPolicyAllowed(aclPolicy, userId, ObjectPermission.READ))) {
+        console.log("❌ Blocked by the file's ACL policy");
+        return res.status(403).json({ message: "Access denied" });
+      }
+
       // Set headers
       const safeFileName = encodeURIComponent(document.fileName).replace(/'/g, '%27');
-      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${safeFileName}`);
+      // ?inline=true lets the browser render the file in place (used to open a PDF at a cited page)
+      const inline = req.query.inline === 'true' && INLINE_MIME_TYPES.has(document.mimeType.toLowerCase());
+      res.setHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${safeFileName}`);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
       
       // Download file
       await azureBlobService.downloadFile(containerName, blobName, res);
@@ -388,13 +891,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get individual document by ID  
-  app.get("/api/documents/:id", isAuthenticated, async (req, res) => {
+  // Extracted text chunks of a document, optionally only those covering one page
+  app.get("/api/documents/:id/chunks", isAuthenticated, async (req: any, res) => {
     try {
-      const document = await storage.getDocumentById(req.params.id);
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
+      const userId = req.user.id;
+      const document = await authorizeDocument(req.params.id, userId, 'view', res);
+      if (!document) return;
+
+      const page = req.query.page ? parseInt(req.query.page as string) : null;
+      const chunks = (await storage.getDocumentChunks(document.id))
+        .filter(chunk => page === null || (
+          chunk.pageStart !== null && chunk.pageStart <= page && (chunk.pageEnd ?? chunk.pageStart) >= page
+        ))
+        .map(({ embedding, ...chunk }) => chunk);
+
+      res.json(chunks);
+    } catch (error) {
+      console.error("Error fetching document chunks:", error);
+      res.status(500).json({ message: "Failed to fetch document chunks" });
+    }
+  });
+
+  // Size and text lines of one analyzed page, used to show where extracted values came from
+  app.get("/api/documents/:id/pages/:pageNumber/layout", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const document = await authorizeDocument(req.params.id, userId, 'view', res);
+      if (!document) return;
+
+      const fullResult = (document.documentIntelligence as { fullResult?: any } | null)?.fullResult;
+      const layout = getPageLayout(fullResult, parseInt(req.params.pageNumber));
+      if (!layout) {
+        return res.status(404).json({ message: "Page layout not available" });
       }
+      res.json(layout);
+    } catch (error) {
+      console.error("Error fetching page layout:", error);
+      res.status(500).json({ message: "Failed to fetch page layout" });
+    }
+  });
+
+  // Get individual document by ID  
+  app.get("/api/documents/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const document = await authorizeDocument(req.params.id, req.user.id, 'view', res);
+      if (!document) return;
       res.json(document);
     } catch (error) {
       console.error("Error fetching document:", error);
@@ -408,15 +949,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const documentId = req.params.id;
       const userId = req.user.id;
 
-      // Get the document and verify ownership
-      const document = await storage.getDocumentById(documentId);
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
-      }
-
-      if (document.uploadedBy !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
+      // Get the document and check the user can work on its case
+      const document = await authorizeDocument(documentId, userId, 'edit', res);
+      if (!document) return;
 
       // Delete from Azure Blob Storage if objectPath exists
       if (document.objectPath) {
@@ -437,8 +972,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // Delete from database
+      // Remove the document and its chunks from the search indexes
+      try {
+        await searchBackend.removeDocument(documentId);
+      } catch (searchError) {
+        console.error("Error removing document from search index:", searchError);
+      }
+
+      // Delete from database (document_chunks rows cascade)
       await storage.deleteDocument(documentId);
+      recordAuditChange(res, document, undefined);
       
       console.log(`✅ Document ${documentId} deleted successfully`);
       res.status(204).send();
@@ -454,15 +997,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const documentId = req.params.id;
       const userId = req.user.id;
 
-      // Get the document to verify ownership
-      const document = await storage.getDocumentById(documentId);
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
-      }
-
-      if (document.uploadedBy !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
+      // Get the document and check the user can see its case
+      const document = await authorizeDocument(documentId, userId, 'view', res);
+      if (!document) return;
 
       // Get real chat history for this document from database
       const chatHistory = await storage.getDocumentChatHistory(documentId);
@@ -479,15 +1016,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const documentId = req.params.id;
       const userId = req.user.id;
 
-      // Get the document and verify ownership
-      const document = await storage.getDocumentById(documentId);
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
-      }
-
-      if (document.uploadedBy !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
+      // Get the document and check the user can work on its case
+      const document = await authorizeDocument(documentId, userId, 'view', res);
+      if (!document) return;
 
       // Get user for AI service configuration
       const user = await storage.getUser(userId);
@@ -496,67 +1027,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Create AI service
-      const aiService = createAIService(user);
-
-      // Get document content for AI context
-      let documentContent = "Document content not available";
-      
-      // Try to get the AI summary first (most recent analysis)
-      if (document.aiSummary && document.extractedData) {
-        documentContent = `Document: ${document.fileName}
-        
-AI Analysis Summary:
-${document.aiSummary}
-
-Extracted Data:
-${JSON.stringify(document.extractedData, null, 2)}
-
-Original content available for detailed analysis.`;
-      } else if (document.aiSummary) {
-        documentContent = `Document: ${document.fileName}
-        
-${document.aiSummary}`;
-      }
-
-      // Get chat history for context
-      const existingHistory = await storage.getDocumentChatHistory(documentId);
-      
-      // Build conversation context
-      const conversationHistory = existingHistory.map((msg: any) => ({
-        role: msg.role,
-        content: msg.content
-      }));
-
-      // Add the new user message
-      conversationHistory.push({
-        role: "user",
-        content: message
-      });
-
-      // Create system prompt with document context
-      const systemPrompt = `You are an AI assistant specialized in analyzing legal and medical documents. You have access to the following document:
-
-${documentContent}
-
-Help the user analyze, extract information, summarize, or answer questions about this document. Be precise, professional, and focus on details that would be important for legal case preparation.
-
-IMPORTANT FORMATTING INSTRUCTIONS:
-- Use clear headings with ### for main sections
-- Use bullet points (•) for lists and key items
-- Use **bold text** for important terms, names, dates, and amounts
-- Structure your response with logical sections like:
-  ### Medical Diagnoses
-  ### Timeline of Events  
-  ### Financial Impact
-  ### Legal Implications
-  ### Key Evidence Points
-- Present information in an organized, scannable format
-- Use line breaks between sections for readability
-- Highlight critical legal and medical details that would be important for case preparation`;
+      const aiService = await withRedaction(createAIService(user), userId, document.caseId);
+      const { history, systemPrompt } = await prepareDocumentChat(document, message, userId);
 
       // Get AI response
       console.log(`🤖 Processing document chat: "${message.substring(0, 100)}..."`);
-      const aiResponse = await aiService.chatCompletion(conversationHistory, systemPrompt);
+      const aiResponse = await aiService.chatCompletion(history, systemPrompt);
 
       // Store both user message and AI response
       await storage.addDocumentChatMessage(documentId, {
@@ -585,19 +1061,145 @@ IMPORTANT FORMATTING INSTRUCTIONS:
     }
   });
 
-  // Azure health check endpoint
-  app.get("/api/azure/health", isAuthenticated, async (req, res) => {
+  // Streaming variant of document chat (Server-Sent Events, see sse.ts)
+  app.post("/api/documents/:id/chat/stream", isAuthenticated, async (req: any, res) => {
     try {
-      const { getAzureServiceStatus } = await import("./azureHealthCheck");
-      const status = await getAzureServiceStatus();
-      res.json(status);
-    } catch (error) {
-      console.error("Error checking Azure health:", error);
-      res.status(500).json({ error: "Failed to check Azure services health" });
-    }
-  });
-
+      const { message } = req.body;
+      const documentId = req.params.id;
+      const userId = req.user.id;
+
+      if (!message) {
+        return res.status(400).json({ message: "Message is required" });
+      }
+
+      const document = await authorizeDocument(documentId, userId, 'view', res);
+      if (!document) return;
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const aiService = await withRedaction(createAIService(user), userId, document.caseId);
+      const { history, systemPrompt } = await prepareDocumentChat(document, message, userId);
+
+      console.log(`🤖 Streaming document chat: "${message.substring(0, 100)}..."`);
+      await streamCompletion(
+        res,
+        (signal) => aiService.chatCompletionStream(history, systemPrompt, signal),
+        async (content, stopped) => {
+          await storage.addDocumentChatMessage(documentId, { role: "user", content: message, userId });
+          if (stopped && !content) return null;
+
+          const assistantMessage = await storage.addDocumentChatMessage(documentId, {
+            role: "assistant",
+            content,
+            userId,
+          });
+          return {
+            id: assistantMessage.id,
+            role: "assistant",
+            content,
+            createdAt: assistantMessage.createdAt,
+          };
+        },
+        "Failed to process chat message"
+      );
+    } catch (error) {
+      console.error("Error processing chat message:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to process chat message" });
+      }
+    }
+  });
+
+  // Azure health check endpoint
+  app.get("/api/azure/health", isAuthenticated, async (req, res) => {
+    try {
+      const { getAzureServiceStatus } = await import("./azureHealthCheck");
+      const status = await getAzureServiceStatus();
+      res.json(status);
+    } catch (error) {
+      console.error("Error checking Azure health:", error);
+      res.status(500).json({ error: "Failed to check Azure services health" });
+    }
+  });
+
   // AI Prompts routes
+  function checkPromptTemplate(type: string, template: string) {
+    if (!isPromptType(type)) {
+      return { message: `Unknown prompt type '${type}'` };
+    }
+    const unknownVariables = validatePromptTemplate(type, template);
+    if (unknownVariables.length > 0) {
+      return {
+        message: `Unknown template variables: ${unknownVariables.map(name => `{{${name}}}`).join(", ")}`,
+        unknownVariables,
+        allowedVariables: PROMPT_VARIABLES[type],
+      };
+    }
+    return null;
+  }
+
+  app.get("/api/ai-prompts/variables", isAuthenticated, async (req: any, res) => {
+    res.json({ variables: PROMPT_VARIABLES, defaults: DEFAULT_PROMPTS });
+  });
+
+  // Renders a prompt against one of the user's cases (and optionally a document) without calling the AI
+  app.post("/api/ai-prompts/preview", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { type, prompt, caseId, documentId } = z.object({
+        type: z.string(),
+        prompt: z.string(),
+        caseId: z.string(),
+        documentId: z.string().optional(),
+      }).parse(req.body);
+
+      const templateError = checkPromptTemplate(type, prompt);
+      if (templateError) {
+        return res.status(400).json(templateError);
+      }
+
+      const caseData = await authorizeCase(caseId, userId, 'view', res);
+      if (!caseData) return;
+
+      const [documents, bills, payments] = await Promise.all([
+        storage.getDocumentsByCase(caseId),
+        storage.getMedicalBillsByCase(caseId),
+        storage.getMedicalBillPaymentsByCase(caseId),
+      ]);
+      const document = documentId ? documents.find(doc => doc.id === documentId) : documents[0];
+      const extractedText = (document?.documentIntelligence as { extractedText?: string } | null)?.extractedText;
+
+      // Long document text is cut short so the preview stays readable
+      const content = extractedText
+        ? extractedText.length > PREVIEW_CONTENT_LENGTH
+          ? `${extractedText.slice(0, PREVIEW_CONTENT_LENGTH)}\n[... ${extractedText.length - PREVIEW_CONTENT_LENGTH} more characters]`
+          : extractedText
+        : "";
+
+      const rendered = renderTemplate(prompt, {
+        ...demandLetterVariables(caseData, documents, bills, payments),
+        fileName: document?.fileName || "",
+        content,
+        documentType: "",
+      });
+
+      res.json({
+        rendered,
+        variables: findTemplateVariables(prompt),
+        document: document ? { id: document.id, fileName: document.fileName } : null,
+      });
+    } catch (error) {
+      console.error("Error previewing AI prompt:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to preview AI prompt" });
+    }
+  });
+
   app.get("/api/ai-prompts", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
@@ -616,6 +1218,12 @@ IMPORTANT FORMATTING INSTRUCTIONS:
         ...req.body,
         userId,
       });
+
+      const templateError = checkPromptTemplate(promptData.type, promptData.prompt);
+      if (templateError) {
+        return res.status(400).json(templateError);
+      }
+
       const prompt = await storage.createAiPrompt(promptData);
       res.status(201).json(prompt);
     } catch (error) {
@@ -663,7 +1271,14 @@ IMPORTANT FORMATTING INSTRUCTIONS:
       }
 
       const updates = insertAiPromptSchema.partial().parse(req.body);
-      const updatedPrompt = await storage.updateAiPrompt(req.params.id, updates);
+
+      const templateError = checkPromptTemplate(updates.type ?? prompt.type, updates.prompt ?? prompt.prompt);
+      if (templateError) {
+        return res.status(400).json(templateError);
+      }
+
+      // A changed prompt text is saved as a new version
+      const updatedPrompt = await storage.updateAiPrompt(req.params.id, updates, userId);
       res.json(updatedPrompt);
     } catch (error) {
       console.error("Error updating AI prompt:", error);
@@ -674,6 +1289,96 @@ IMPORTANT FORMATTING INSTRUCTIONS:
     }
   });
 
+  app.get("/api/ai-prompts/:id/versions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const prompt = await storage.getAiPromptById(req.params.id);
+
+      if (!prompt) {
+        return res.status(404).json({ message: "AI prompt not found" });
+      }
+
+      // Check if user owns the prompt
+      if (prompt.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const versions = await storage.getAiPromptVersions(prompt.id);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching AI prompt versions:", error);
+      res.status(500).json({ message: "Failed to fetch AI prompt versions" });
+    }
+  });
+
+  // Rolling back never rewrites history: the old text is saved again as the newest version
+  app.post("/api/ai-prompts/:id/rollback", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { versionId } = z.object({ versionId: z.string() }).parse(req.body);
+      const prompt = await storage.getAiPromptById(req.params.id);
+
+      if (!prompt) {
+        return res.status(404).json({ message: "AI prompt not found" });
+      }
+
+      // Check if user owns the prompt
+      if (prompt.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const target = await storage.getAiPromptVersionById(versionId);
+      if (!target || target.promptId !== prompt.id) {
+        return res.status(404).json({ message: "Prompt version not found" });
+      }
+
+      await storage.createAiPromptVersion(prompt.id, target.prompt, userId, `Rolled back to version ${target.version}`);
+      // A pin would keep hiding the rolled-back text, so rolling back clears it
+      const updatedPrompt = await storage.setAiPromptPinnedVersion(prompt.id, null);
+      res.json(updatedPrompt);
+    } catch (error) {
+      console.error("Error rolling back AI prompt:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to roll back AI prompt" });
+    }
+  });
+
+  // Pinning keeps the AI on one version while the prompt is edited; versionId null unpins
+  app.post("/api/ai-prompts/:id/pin", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { versionId } = z.object({ versionId: z.string().nullable() }).parse(req.body);
+      const prompt = await storage.getAiPromptById(req.params.id);
+
+      if (!prompt) {
+        return res.status(404).json({ message: "AI prompt not found" });
+      }
+
+      // Check if user owns the prompt
+      if (prompt.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (versionId) {
+        const target = await storage.getAiPromptVersionById(versionId);
+        if (!target || target.promptId !== prompt.id) {
+          return res.status(404).json({ message: "Prompt version not found" });
+        }
+      }
+
+      const updatedPrompt = await storage.setAiPromptPinnedVersion(prompt.id, versionId);
+      res.json(updatedPrompt);
+    } catch (error) {
+      console.error("Error pinning AI prompt version:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to pin AI prompt version" });
+    }
+  });
+
   app.delete("/api/ai-prompts/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
@@ -696,26 +1401,29 @@ IMPORTANT FORMATTING INSTRUCTIONS:
     }
   });
 
-  // Object storage routes for documents
+  // Object storage routes for documents; objectPath is "container/blob" as returned by the upload
   app.get("/objects/:objectPath(*)", isAuthenticated, async (req: any, res) => {
-    const userId = req.user?.claims?.sub;
-    const objectStorageService = new ObjectStorageService();
+    const userId = req.user.id;
     try {
-      const objectFile = await objectStorageService.getObjectEntityFile(req.path);
-      const canAccess = await objectStorageService.canAccessObjectEntity({
-        objectFile,
-        userId: userId,
+      const { containerName, blobName } = splitObjectPath(req.params.objectPath);
+      if (!blobName || !(await azureBlobService.getBlobMetadata(containerName, blobName))) {
+        return res.sendStatus(404);
+      }
+      const canAccess = await canAccessBlob({
+        userId,
+        containerName,
+        blobName,
         requestedPermission: ObjectPermission.READ,
       });
       if (!canAccess) {
         return res.sendStatus(401);
       }
-      objectStorageService.downloadObject(objectFile, res);
+      // Never rendered in place; see INLINE_MIME_TYPES
+      res.setHeader('Content-Disposition', 'attachment');
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      await azureBlobService.downloadFile(containerName, blobName, res);
     } catch (error) {
       console.error("Error accessing object:", error);
-      if (error instanceof ObjectNotFoundError) {
-        return res.sendStatus(404);
-      }
       return res.sendStatus(500);
     }
   });
@@ -754,6 +1462,16 @@ IMPORTANT FORMATTING INSTRUCTIONS:
             size: file.size.toString(),
             type: file.mimetype.replace(/[^a-zA-Z0-9]/g, '') // Sanitize MIME type
           });
+
+          // Private to the uploader until it's attached to a case (POST /api/documents)
+          const aclSet = await setBlobAclPolicy(CONTAINERS.DOCUMENTS, blobName, {
+            owner: userId,
+            visibility: "private",
+            aclRules: [],
+          });
+          if (!aclSet) {
+            throw new Error("Failed to set the file's ACL policy");
+          }
           
           const objectPath = `${CONTAINERS.DOCUMENTS}/${blobName}`;
           
@@ -801,664 +1519,1374 @@ IMPORTANT FORMATTING INSTRUCTIONS:
   // This endpoint is no longer needed since we handle uploads server-side
   // Keeping for backward compatibility but should not be used with new Azure flow
 
-  // Enhanced AI document analysis with Azure Document Intelligence
+  // Queue the document analysis pipeline (Document Intelligence, embeddings, AI analysis, bill extraction, search indexing)
   app.post("/api/documents/:id/analyze", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const document = await storage.getDocumentById(req.params.id);
-      
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
+      const document = await authorizeDocument(req.params.id, userId, 'edit', res);
+      if (!document) return;
+
+      const [latestJob] = await storage.getProcessingJobsByDocument(document.id);
+      if (latestJob && (latestJob.status === 'queued' || latestJob.status === 'running')) {
+        return res.status(409).json({ message: "Document is already being processed", job: latestJob });
+      }
+
+      // A failed analysis resumes from its failed stage unless a full re-run is requested
+      const restart = req.body?.restart === true;
+      const resumeFromJobId = !restart && latestJob?.type === 'document_analysis' && latestJob.status === 'failed'
+        ? latestJob.id
+        : undefined;
+
+      // Marked queued before the job exists, so a worker that picks it up at once isn't overwritten
+      const updatedDocument = await storage.updateDocument(document.id, {
+        processingStatus: 'queued',
+      });
+
+      const job = await jobQueue.enqueue({
+        type: 'document_analysis',
+        userId,
+        documentId: document.id,
+        caseId: document.caseId,
+        payload: resumeFromJobId ? { resumeFromJobId } : undefined,
+        stages: ANALYSIS_STAGES,
+      });
+
+      res.status(202).json({ document: updatedDocument, job });
+    } catch (error) {
+      console.error("Error queueing document analysis:", error);
+      res.status(500).json({ message: "Failed to analyze document" });
+    }
+  });
+
+  // Per-stage processing history for a document
+  app.get("/api/documents/:id/processing-runs", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const document = await authorizeDocument(req.params.id, userId, 'view', res);
+      if (!document) return;
+
+      const [jobs, runs] = await Promise.all([
+        storage.getProcessingJobsByDocument(document.id),
+        storage.getProcessingRunsByDocument(document.id),
+      ]);
+
+      res.json({ jobs, runs, processingErrors: document.processingErrors || [] });
+    } catch (error) {
+      console.error("Error fetching processing history:", error);
+      res.status(500).json({ message: "Failed to fetch processing history" });
+    }
+  });
+
+  // Processing job status
+  app.get("/api/jobs/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const job = await storage.getProcessingJobById(req.params.id);
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
       }
 
-      if (document.uploadedBy !== userId) {
+      // A job is visible to everyone on its case
+      if (job.caseId) {
+        if (!(await authorizeCase(job.caseId, userId, 'view', res))) return;
+      } else if (job.userId !== userId) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      try {
-        // Enhanced Document Processing Pipeline
-        // Step 1: Extract text using Azure Document Intelligence
-        console.log(`\n=== ANALYZE REQUEST STARTED ===`);
-        console.log(`🚀 Starting enhanced document processing pipeline for: ${document.fileName}`);
-        console.log(`📄 Document ID: ${document.id}`);
-        console.log(`👤 User ID: ${userId}`);
-        console.log(`===================================`);
-        
-        let documentContent = "";
-        let documentIntelligenceResult = null;
-        let embeddingResult = null;
-        let cosmosMetadata = null;
-
-        // Step 1.1: Update document status to analyzing in PostgreSQL
-        await storage.updateDocument(document.id, {
-          processingStatus: 'analyzing',
-          lastProcessedAt: new Date(),
-        });
-        console.log(`✅ Document processing status updated to 'analyzing'`);
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ message: "Failed to fetch job" });
+    }
+  });
 
-        // Step 1.2: Extract text using Document Intelligence
-        console.log(`\n🔍 Document Intelligence Check:`);
-        console.log(`   Service available: ${documentIntelligenceService.isAvailable()}`);
-        console.log(`   Object path: ${document.objectPath}`);
-        console.log(`   Will proceed: ${documentIntelligenceService.isAvailable() && !!document.objectPath}`);
-        
-        if (documentIntelligenceService.isAvailable() && document.objectPath) {
-          try {
-            console.log(`🤖 STARTING Document Intelligence analysis for: ${document.fileName}`);
-            console.log(`📂 Object path: ${document.objectPath}`);
-            console.log(`📁 Container: ${CONTAINERS.DOCUMENTS}`);
-            
-            // Extract blob name from objectPath (remove container prefix if present)
-            // objectPath format: "documents/userId/timestamp_filename.pdf"
-            // We need just: "userId/timestamp_filename.pdf"
-            let blobName = document.objectPath;
-            if (blobName.startsWith(`${CONTAINERS.DOCUMENTS}/`)) {
-              blobName = blobName.substring(`${CONTAINERS.DOCUMENTS}/`.length);
-            }
-            
-            console.log(`🔧 Original objectPath: ${document.objectPath}`);
-            console.log(`🔧 Extracted blobName: ${blobName}`);
-            console.log(`🔧 Final URL will be: https://demandgenrg.blob.core.windows.net/${CONTAINERS.DOCUMENTS}/${blobName}`);
-            
-            console.log(`📄 Extracted blob name: ${blobName}`);
-            
-            documentIntelligenceResult = await documentIntelligenceService.analyzeDocument(
-              CONTAINERS.DOCUMENTS, 
-              blobName
-            );
-            
-            documentContent = documentIntelligenceResult.text;
-            
-            console.log(`✅ Document Intelligence extracted ${documentContent.length} characters from ${document.fileName}`);
-            console.log(`📊 Document Intelligence found ${documentIntelligenceResult.tables?.length || 0} tables, ${documentIntelligenceResult.keyValuePairs?.length || 0} key-value pairs`);
-            
-            // Store Document Intelligence results in PostgreSQL
-            await storage.updateDocument(document.id, {
-              documentIntelligence: {
-                extractedText: documentIntelligenceResult.text,
-                confidence: documentIntelligenceResult.confidence,
-                pages: documentIntelligenceResult.pages,
-                tablesCount: documentIntelligenceResult.tables?.length || 0,
-                keyValuePairsCount: documentIntelligenceResult.keyValuePairs?.length || 0,
-                tables: documentIntelligenceResult.tables,
-                keyValuePairs: documentIntelligenceResult.keyValuePairs,
-                fullResult: documentIntelligenceResult.fullResult, // Store complete JSON response
-                analyzedAt: new Date().toISOString()
-              }
-            });
-            console.log(`✅ Document Intelligence results stored in PostgreSQL`);
-            
-          } catch (extractError) {
-            console.error("❌ Document Intelligence FAILED:");
-            console.error("❌ Error type:", typeof extractError);
-            console.error("❌ Full error:", extractError);
-            if (extractError instanceof Error) {
-              console.error("❌ Error message:", extractError.message);
-              console.error("❌ Error name:", extractError.name);
-              console.error("❌ Error stack:", extractError.stack);
-            }
-            
-            // Log the document path and service status
-            console.error("❌ Document path that failed:", document.objectPath);
-            console.error("❌ Document Intelligence available:", documentIntelligenceService.isAvailable());
-            
-            // Try to construct the blob URL to see what was attempted
-            let blobName = document.objectPath;
-            if (blobName.startsWith(`${CONTAINERS.DOCUMENTS}/`)) {
-              blobName = blobName.substring(`${CONTAINERS.DOCUMENTS}/`.length);
-            }
-            const blobClient = azureBlobService.getBlobClient(CONTAINERS.DOCUMENTS, blobName);
-            console.error("❌ Blob URL that was attempted:", blobClient.url);
-            
-            // Fallback to basic document info
-            documentContent = `Document: ${document.fileName}\nUploaded: ${document.createdAt ? new Date(document.createdAt).toLocaleDateString() : 'Unknown'}\nFile Type: ${document.mimeType}\n\nNote: Unable to extract text content from this document using Azure Document Intelligence. Error: ${extractError instanceof Error ? extractError.message : 'Unknown error'}`;
-          }
-        } else {
-          const reason = !documentIntelligenceService.isAvailable() 
-            ? "Azure Document Intelligence service not available" 
-            : "Document file path missing";
-          console.log(`⚠️ Document Intelligence SKIPPED: ${reason}`);
-          console.log(`⚠️ Service available: ${documentIntelligenceService.isAvailable()}`);  
-          console.log(`⚠️ Object path: ${document.objectPath}`);
-          documentContent = `Document: ${document.fileName}\nUploaded: ${document.createdAt ? new Date(document.createdAt).toLocaleDateString() : 'Unknown'}\nFile Type: ${document.mimeType}\n\nNote: ${reason}. Cannot perform text extraction.`;
-        }
+  // Medical Bills routes
+  app.get("/api/cases/:caseId/bills", isAuthenticated, async (req: any, res) => {
+    try {
+      const caseData = await authorizeCase(req.params.caseId, req.user.id, 'view', res);
+      if (!caseData) return;
 
-        // Step 2: Generate Vector Embeddings
-        if (azureOpenAIEmbeddingsService.isAvailable() && documentContent.length > 0) {
-          try {
-            console.log(`🔢 Generating vector embeddings for document content...`);
-            
-            // Chunk text if it's too long
-            const textChunks = azureOpenAIEmbeddingsService.chunkTextForEmbedding(documentContent);
-            console.log(`📝 Split document into ${textChunks.length} chunks for embedding`);
-            
-            // Generate embeddings for the main content (use first chunk as primary)
-            embeddingResult = await azureOpenAIEmbeddingsService.generateEmbedding(textChunks[0]);
-            console.log(`✅ Generated ${embeddingResult.dimensions}-dimensional embedding`);
-            
-            // Store vector embedding metadata in PostgreSQL
-            await storage.updateDocument(document.id, {
-              vectorEmbedding: {
-                model: embeddingResult.model,
-                dimensions: embeddingResult.dimensions,
-                tokensUsed: embeddingResult.usage.totalTokens,
-                createdAt: new Date().toISOString()
-              }
-            });
-            console.log(`✅ Vector embedding metadata stored in PostgreSQL`);
-            
-          } catch (embeddingError) {
-            console.error("Error generating vector embeddings:", embeddingError);
-            // Continue without embeddings
-          }
-        }
+      const bills = await storage.getMedicalBillsByCase(req.params.caseId);
+      res.json(bills);
+    } catch (error) {
+      console.error("Error fetching medical bills:", error);
+      res.status(500).json({ message: "Failed to fetch medical bills" });
+    }
+  });
 
-        // Step 3: AI Analysis using Azure OpenAI
-        console.log(`🤖 Starting AI analysis with Azure OpenAI...`);
-        
-        // Get user for AI service configuration
-        const user = await storage.getUser(userId);
-        if (!user) {
-          return res.status(404).json({ message: "User not found" });
-        }
+  app.post("/api/bills", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const billData = insertMedicalBillSchema.parse({
+        ...req.body,
+        createdBy: userId,
+      });
+      if (!(await authorizeCase(billData.caseId, userId, 'edit', res))) return;
 
-        // Create AI service based on user configuration
-        const aiService = createAIService(user);
-        console.log("Sending document content to AI service:", documentContent.substring(0, 200) + "...");
-        const aiResponse = await aiService.analyzeDocument(documentContent, document.fileName);
-        console.log("AI Response received:", JSON.stringify(aiResponse, null, 2));
-        
-        // Step 3.5: Extract medical bills from the document
-        let extractedBills: any[] = [];
-        console.log("🔍 Medical Bill Extraction Debug:");
-        console.log(`   Document content length: ${documentContent ? documentContent.length : 'null'}`);
-        console.log(`   Document content exists: ${!!documentContent}`);
-        console.log(`   Document content trimmed length: ${documentContent ? documentContent.trim().length : 'null'}`);
-        console.log(`   Will attempt extraction: ${!!(documentContent && documentContent.trim().length > 0)}`);
-        
-        try {
-          if (documentContent && documentContent.trim().length > 0) {
-            console.log("💊 Extracting medical bills from document...");
-            extractedBills = await aiService.extractMedicalBills(documentContent, document.fileName);
-            console.log(`📋 Found ${extractedBills.length} medical bills to extract`);
-
-            // Store extracted medical bills in database
-            for (const billData of extractedBills) {
-              try {
-                const medicalBillData = {
-                  caseId: document.caseId,
-                  documentId: document.id,
-                  provider: billData.provider || 'Unknown Provider',
-                  amount: billData.amount?.toString() || '0.00',
-                  serviceDate: billData.serviceDate ? new Date(billData.serviceDate) : new Date(),
-                  billDate: billData.billDate ? new Date(billData.billDate) : new Date(),
-                  treatment: billData.treatment || '',
-                  insurance: billData.insurance || '',
-                  status: billData.status || 'pending',
-                  createdBy: userId,
-                };
-
-                const validatedBill = insertMedicalBillSchema.parse(medicalBillData);
-                const createdBill = await storage.createMedicalBill(validatedBill);
-                console.log(`✅ Created medical bill: ${billData.provider} - $${billData.amount}`);
-              } catch (billError: any) {
-                console.error("Error creating medical bill:", billError, billData);
-                // Continue with other bills even if one fails
-              }
-            }
-          }
-        } catch (billExtractionError) {
-          console.error("Medical bill extraction failed:", billExtractionError);
-          // Continue without bill extraction
-        }
-        
-        // Parse and structure the extracted data from AI response
-        let extractedData: any = {
-          patientInfo: {
-            names: [] as string[],
-            ages: [] as string[],
-            addresses: [] as string[],
-            phoneNumbers: [] as string[],
-            insuranceInfo: [] as string[]
-          },
-          medicalInfo: {
-            diagnoses: [] as string[],
-            procedures: [] as string[],
-            medications: [] as string[],
-            providers: [] as string[]
-          },
-          timeline: {
-            dates: [] as string[],
-            servicesPeriod: ""
-          },
-          locations: {
-            facilities: [] as string[],
-            addresses: [] as string[]
-          },
-          additionalDetails: {
-            keyFindings: aiResponse.keyFindings || [] as string[],
-            costs: [] as string[],
-            complications: [] as string[]
-          }
-        };
-
-        // If AI response includes extractedData, use it; otherwise extract from the medical document content
-        if (aiResponse.extractedData && typeof aiResponse.extractedData === 'object') {
-          extractedData = { ...extractedData, ...aiResponse.extractedData };
-        } else {
-          // Extract data from the specific medical record content for Rahul Sharma
-          if (documentContent.includes('Rahul Sharma')) {
-            extractedData = {
-              patientInfo: {
-                names: ["Rahul Sharma"],
-                ages: ["32 years"],
-                addresses: ["45, Green Park Colony, New Delhi, India"],
-                phoneNumbers: ["+91 9876543210"],
-                insuranceInfo: ["Blood Group: O+", "Emergency Contact: Neha Sharma (Wife) - +91 9123456780"]
-              },
-              medicalInfo: {
-                diagnoses: ["Road Traffic Accident injuries", "Left forearm injury", "Head/neck trauma", "Right knee injury", "Superficial leg wounds"],
-                procedures: ["Emergency Room treatment", "X-ray (2 views)", "CT Scan (Brain)", "Plaster Cast & Dressing", "Doctor Consultation", "Physiotherapy Session"],
-                medications: ["Antibiotics (5 days)", "Painkillers as prescribed"],
-                providers: ["CityCare Multi-Speciality Hospital"]
-              },
-              timeline: {
-                dates: ["14 Aug 2025, 09:15 AM - Accident occurred", "14 Aug 2025 - Hospital admission", "4 days hospital stay", "Follow-up in 2 weeks"],
-                servicesPeriod: "14 Aug 2025 - 4 days treatment"
-              },
-              locations: {
-                facilities: ["CityCare Multi-Speciality Hospital"],
-                addresses: ["Near AIIMS Flyover, Ring Road, New Delhi (accident location)"]
-              },
-              additionalDetails: {
-                keyFindings: [
-                  "Rear-end collision with truck and sedan",
-                  "Patient conscious but dizzy after accident",
-                  "Left forearm struck steering wheel",
-                  "Head jerked backward hitting headrest",
-                  "Right knee scraped against dashboard",
-                  "Ambulance arrival within 10 minutes"
-                ],
-                costs: [
-                  "Emergency Room Charges: ₹4,000",
-                  "X-ray (2 views): ₹1,200", 
-                  "CT Scan (Brain): ₹6,500",
-                  "Plaster Cast & Dressing: ₹2,800",
-                  "Medicines: ₹1,600",
-                  "Doctor Consultation: ₹4,000",
-                  "Physiotherapy Session: ₹1,500",
-                  "Nursing & Bed Charges: ₹4,000",
-                  "Total: ₹25,600"
-                ],
-                complications: ["Dizziness", "Left arm pain", "Bleeding from superficial leg wounds"]
-              }
-            };
-          }
-        }
+      const bill = await storage.createMedicalBill(billData);
+      const duplicates = await flagDuplicateBills(bill.caseId, [bill]);
+      res.status(201).json({ ...bill, duplicatesFlagged: duplicates.length });
+    } catch (error) {
+      console.error("Error creating medical bill:", error);
+      res.status(500).json({ message: "Failed to create medical bill" });
+    }
+  });
 
-        console.log("Final extractedData to be saved:", JSON.stringify(extractedData, null, 2));
-        
-        // Step 4: Enhanced Azure Search Indexing with Vector Search
-        if (azureSearchService.isAvailable() && documentContent.length > 0) {
-          try {
-            console.log(`🔍 Indexing document with vector search capabilities...`);
-            
-            const searchDoc: SearchDocument = {
-              id: document.id,
-              fileName: document.fileName,
-              content: documentContent,
-              documentType: 'analyzed',
-              caseId: document.caseId,
-              uploadDate: document.createdAt ? new Date(document.createdAt).toISOString() : new Date().toISOString(),
-              summary: aiResponse.summary || '',
-              tags: ['analyzed', 'processed'],
-              contentVector: embeddingResult?.embedding, // Add vector embedding
-              summaryVector: undefined // Could generate separate embedding for summary
-            };
-
-            // Generate summary embedding if we have a summary
-            if (aiResponse.summary && azureOpenAIEmbeddingsService.isAvailable()) {
-              try {
-                const summaryEmbedding = await azureOpenAIEmbeddingsService.generateEmbedding(aiResponse.summary);
-                searchDoc.summaryVector = summaryEmbedding.embedding;
-                console.log(`✅ Generated summary embedding`);
-              } catch (summaryEmbeddingError) {
-                console.error("Error generating summary embedding:", summaryEmbeddingError);
-              }
-            }
-
-            await azureSearchService.indexDocument(searchDoc);
-            console.log(`✅ Document indexed with vector search capabilities: ${document.fileName}`);
-            
-            // Update search index status in PostgreSQL
-            await storage.updateDocument(document.id, {
-              searchIndexed: true,
-              searchIndexedAt: new Date()
-            });
-            console.log(`✅ Search index status updated in PostgreSQL`);
-            
-          } catch (searchError) {
-            console.error("Enhanced search indexing failed:", searchError);
-            // Continue without search indexing
-          }
-        }
-        
-        // Step 5: Store Final Results in PostgreSQL Database
-        const updatedDocument = await storage.updateDocument(req.params.id, {
-          aiSummary: aiResponse.summary,
-          extractedData: extractedData,
-          aiProcessed: true,
-          processingStatus: 'processed',
-          lastProcessedAt: new Date(),
-        });
+  app.put("/api/bills/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const bill = await getOwnedBill(req.params.id, req.user.id, 'edit', res);
+      if (!bill) return;
+
+      const updates = insertMedicalBillSchema.omit({ caseId: true, createdBy: true }).partial().parse(req.body);
+      const updatedBill = await storage.updateMedicalBill(bill.id, updates);
+      recordAuditChange(res, bill, updatedBill);
+      res.json(updatedBill);
+    } catch (error) {
+      console.error("Error updating medical bill:", error);
+      res.status(500).json({ message: "Failed to update medical bill" });
+    }
+  });
+
+  // Loads a bill if the user has the required access to its case; sends the error response and
+  // returns undefined otherwise
+  async function getOwnedBill(billId: string, userId: string, required: CaseAccess, res: any) {
+    const bill = await storage.getMedicalBillById(billId);
+    if (!bill) {
+      res.status(404).json({ message: "Medical bill not found" });
+      return undefined;
+    }
+    if (!(await authorizeCase(bill.caseId, userId, required, res))) return undefined;
+    return bill;
+  }
+
+  app.get("/api/bills/:id/line-items", isAuthenticated, async (req: any, res) => {
+    try {
+      const bill = await getOwnedBill(req.params.id, req.user.id, 'view', res);
+      if (!bill) return;
+
+      const lineItems = await storage.getMedicalBillLineItems(bill.id);
+      res.json(lineItems);
+    } catch (error) {
+      console.error("Error fetching bill line items:", error);
+      res.status(500).json({ message: "Failed to fetch bill line items" });
+    }
+  });
+
+  // Replaces the bill's line items; the bill amount becomes their total
+  app.put("/api/bills/:id/line-items", isAuthenticated, async (req: any, res) => {
+    try {
+      const bill = await getOwnedBill(req.params.id, req.user.id, 'edit', res);
+      if (!bill) return;
+
+      const { lineItems } = z.object({
+        lineItems: z.array(insertMedicalBillLineItemSchema.omit({ billId: true, lineNumber: true }).extend({
+          charge: z.string().regex(/^-?\d+(\.\d{1,2})?$/, "Charge must be a dollar amount"),
+          serviceDate: z.coerce.date().nullish(),
+        })),
+      }).parse(req.body);
+
+      const result = await storage.replaceMedicalBillLineItems(bill.id, lineItems);
+      res.json(result);
+    } catch (error) {
+      console.error("Error updating bill line items:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update bill line items" });
+    }
+  });
+
+  app.get("/api/bills/:id/payments", isAuthenticated, async (req: any, res) => {
+    try {
+      const bill = await getOwnedBill(req.params.id, req.user.id, 'view', res);
+      if (!bill) return;
+
+      const payments = await storage.getMedicalBillPayments(bill.id);
+      res.json(payments);
+    } catch (error) {
+      console.error("Error fetching bill payments:", error);
+      res.status(500).json({ message: "Failed to fetch bill payments" });
+    }
+  });
+
+  app.post("/api/bills/:id/payments", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const bill = await getOwnedBill(req.params.id, userId, 'edit', res);
+      if (!bill) return;
+
+      const paymentData = insertMedicalBillPaymentSchema.extend({
+        paidAt: z.coerce.date(),
+      }).parse({
+        ...req.body,
+        billId: bill.id,
+        caseId: bill.caseId,
+        createdBy: userId,
+      });
+
+      // An EOB has to be one of this case's documents
+      if (paymentData.eobDocumentId) {
+        const eob = await storage.getDocumentById(paymentData.eobDocumentId);
+        if (!eob || eob.caseId !== bill.caseId) {
+          return res.status(400).json({ message: "EOB document must belong to the same case" });
+        }
+      }
+
+      const payment = await storage.createMedicalBillPayment(paymentData);
+      res.status(201).json(payment);
+    } catch (error) {
+      console.error("Error recording bill payment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to record bill payment" });
+    }
+  });
+
+  app.delete("/api/bill-payments/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const payment = await storage.getMedicalBillPaymentById(req.params.id);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      const bill = await getOwnedBill(payment.billId, req.user.id, 'edit', res);
+      if (!bill) return;
+
+      await storage.deleteMedicalBillPayment(payment.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting bill payment:", error);
+      res.status(500).json({ message: "Failed to delete bill payment" });
+    }
+  });
+
+  // Billed / paid / outstanding totals per bill, provider and payer type
+  app.get("/api/cases/:caseId/specials", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const caseData = await authorizeCase(req.params.caseId, userId, 'view', res);
+      if (!caseData) return;
+
+      const specials = await getCaseSpecials(caseData.id);
+      res.json(specials);
+    } catch (error) {
+      console.error("Error computing case specials:", error);
+      res.status(500).json({ message: "Failed to compute case specials" });
+    }
+  });
+
+  // Medical chronology across the case's analyzed documents and bills; ?gapDays sets how long a
+  // break in treatment has to be before it's flagged
+  app.get("/api/cases/:caseId/chronology", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const gapDays = z.coerce.number().int().min(1).max(365).default(DEFAULT_GAP_DAYS).safeParse(req.query.gapDays);
+      if (!gapDays.success) {
+        return res.status(400).json({ message: "gapDays must be a whole number of days between 1 and 365" });
+      }
+
+      const caseData = await authorizeCase(req.params.caseId, userId, 'view', res);
+      if (!caseData) return;
+
+      const chronology = await getCaseChronology(caseData.id, gapDays.data);
+      res.json(chronology);
+    } catch (error) {
+      console.error("Error building case chronology:", error);
+      res.status(500).json({ message: "Failed to build case chronology" });
+    }
+  });
+
+  // Gaps in care, late first treatment, pre-existing conditions and compliance problems, with
+  // citations. ?incidentDate overrides the accident date read from the documents.
+  app.get("/api/cases/:caseId/risk-report", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const query = z.object({
+        gapDays: z.coerce.number().int().min(1).max(365).default(DEFAULT_GAP_DAYS),
+        incidentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "incidentDate must be YYYY-MM-DD").optional(),
+      }).parse(req.query);
+
+      const caseData = await authorizeCase(req.params.caseId, userId, 'view', res);
+      if (!caseData) return;
+
+      const report = await getCaseRiskReport(caseData.id, {
+        gapThresholdDays: query.gapDays,
+        incidentDate: query.incidentDate,
+      });
+      res.json(report);
+    } catch (error) {
+      console.error("Error building case risk report:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to build case risk report" });
+    }
+  });
+
+  // Liens and subrogation claims
+  async function getOwnedLien(lienId: string, userId: string, res: any) {
+    const lien = await storage.getLienById(lienId);
+    if (!lien) {
+      res.status(404).json({ message: "Lien not found" });
+      return undefined;
+    }
+    if (!(await authorizeCase(lien.caseId, userId, 'edit', res))) return undefined;
+    return lien;
+  }
+
+  // Bills linked to a lien have to come from the lien's case
+  async function billsBelongToCase(billIds: string[], caseId: string): Promise<boolean> {
+    if (billIds.length === 0) return true;
+    const caseBillIds = new Set((await storage.getMedicalBillsByCase(caseId)).map(bill => bill.id));
+    return billIds.every(billId => caseBillIds.has(billId));
+  }
+
+  const lienBillIdsSchema = z.object({ billIds: z.array(z.string()).optional() });
+
+  app.get("/api/cases/:caseId/liens", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const caseData = await authorizeCase(req.params.caseId, userId, 'view', res);
+      if (!caseData) return;
+
+      const [liens, lienBills, lienDocuments, documents] = await Promise.all([
+        storage.getLiensByCase(caseData.id),
+        storage.getLienBillsByCase(caseData.id),
+        storage.getLienDocumentsByCase(caseData.id),
+        storage.getDocumentsByCase(caseData.id),
+      ]);
+      const fileNames = new Map(documents.map(doc => [doc.id, doc.fileName]));
+
+      res.json(liens.map(lien => ({
+        ...lien,
+        billIds: lienBills.filter(link => link.lienId === lien.id).map(link => link.billId),
+        documents: lienDocuments
+          .filter(link => link.lienId === lien.id)
+          .map(link => ({ ...link, fileName: fileNames.get(link.documentId) ?? null })),
+      })));
+    } catch (error) {
+      console.error("Error fetching liens:", error);
+      res.status(500).json({ message: "Failed to fetch liens" });
+    }
+  });
+
+  app.post("/api/cases/:caseId/liens", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const caseData = await authorizeCase(req.params.caseId, userId, 'edit', res);
+      if (!caseData) return;
+
+      const { billIds = [] } = lienBillIdsSchema.parse(req.body);
+      const lienData = insertLienSchema.parse({
+        ...req.body,
+        caseId: caseData.id,
+        createdBy: userId,
+      });
+      if (!(await billsBelongToCase(billIds, caseData.id))) {
+        return res.status(400).json({ message: "Linked bills must belong to the same case" });
+      }
+
+      const lien = await storage.createLien(lienData);
+      const links = await storage.setLienBills(lien.id, billIds);
+      res.status(201).json({ ...lien, billIds: links.map(link => link.billId), documents: [] });
+    } catch (error) {
+      console.error("Error creating lien:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create lien" });
+    }
+  });
+
+  app.patch("/api/liens/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const lien = await getOwnedLien(req.params.id, req.user.id, res);
+      if (!lien) return;
+
+      const { billIds } = lienBillIdsSchema.parse(req.body);
+      const updates = insertLienSchema.omit({ caseId: true, createdBy: true }).partial().parse(req.body);
+      if (billIds && !(await billsBelongToCase(billIds, lien.caseId))) {
+        return res.status(400).json({ message: "Linked bills must belong to the same case" });
+      }
+
+      const updated = await storage.updateLien(lien.id, updates);
+      if (billIds) {
+        await storage.setLienBills(lien.id, billIds);
+      }
+      recordAuditChange(res, lien, updated);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating lien:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update lien" });
+    }
+  });
+
+  app.delete("/api/liens/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const lien = await getOwnedLien(req.params.id, req.user.id, res);
+      if (!lien) return;
+
+      await storage.deleteLien(lien.id);
+      recordAuditChange(res, lien, undefined);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting lien:", error);
+      res.status(500).json({ message: "Failed to delete lien" });
+    }
+  });
+
+  // Attaches correspondence (notices, itemizations, payoff letters) from the case documents
+  app.post("/api/liens/:id/documents", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const lien = await getOwnedLien(req.params.id, userId, res);
+      if (!lien) return;
+
+      const { documentId, description } = z.object({
+        documentId: z.string(),
+        description: z.string().nullish(),
+      }).parse(req.body);
+
+      const document = await storage.getDocumentById(documentId);
+      if (!document || document.caseId !== lien.caseId) {
+        return res.status(400).json({ message: "Document must belong to the same case" });
+      }
+
+      const lienDocument = await storage.addLienDocument({
+        lienId: lien.id,
+        documentId,
+        description: description ?? null,
+        addedBy: userId,
+      });
+      res.status(201).json({ ...lienDocument, fileName: document.fileName });
+    } catch (error) {
+      console.error("Error attaching lien document:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to attach lien document" });
+    }
+  });
+
+  app.delete("/api/liens/:id/documents/:documentId", isAuthenticated, async (req: any, res) => {
+    try {
+      const lien = await getOwnedLien(req.params.id, req.user.id, res);
+      if (!lien) return;
+
+      await storage.removeLienDocument(lien.id, req.params.documentId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing lien document:", error);
+      res.status(500).json({ message: "Failed to remove lien document" });
+    }
+  });
+
+  // Net-to-client figure for a proposed settlement, after fees, costs and the case's liens
+  app.post("/api/cases/:caseId/settlement-calculator", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const caseData = await authorizeCase(req.params.caseId, userId, 'view', res);
+      if (!caseData) return;
+
+      const input = settlementInputSchema.parse(req.body);
+      const breakdown = await calculateCaseSettlement(caseData.id, input);
+      res.json(breakdown);
+    } catch (error) {
+      console.error("Error calculating settlement:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to calculate settlement" });
+    }
+  });
+
+  // Duplicate bill review
+  app.get("/api/cases/:caseId/bill-duplicates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const caseData = await authorizeCase(req.params.caseId, userId, 'view', res);
+      if (!caseData) return;
+
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const [duplicates, bills] = await Promise.all([
+        storage.getMedicalBillDuplicatesByCase(caseData.id, status),
+        storage.getMedicalBillsByCase(caseData.id),
+      ]);
+      const billsById = new Map(bills.map(bill => [bill.id, bill]));
+
+      res.json(duplicates.map(duplicate => ({
+        ...duplicate,
+        bill: duplicate.billId ? billsById.get(duplicate.billId) || null : null,
+        duplicateOf: duplicate.duplicateOfBillId ? billsById.get(duplicate.duplicateOfBillId) || null : null,
+      })));
+    } catch (error) {
+      console.error("Error fetching duplicate bills:", error);
+      res.status(500).json({ message: "Failed to fetch duplicate bills" });
+    }
+  });
+
+  app.post("/api/cases/:caseId/bill-duplicates/scan", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const caseData = await authorizeCase(req.params.caseId, userId, 'edit', res);
+      if (!caseData) return;
+
+      const flagged = await scanCaseForDuplicateBills(caseData.id);
+      res.json({ flagged: flagged.length });
+    } catch (error) {
+      console.error("Error scanning for duplicate bills:", error);
+      res.status(500).json({ message: "Failed to scan for duplicate bills" });
+    }
+  });
+
+  app.post("/api/bill-duplicates/:id/resolve", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { resolution, note } = z.object({
+        resolution: z.enum(DUPLICATE_RESOLUTIONS),
+        note: z.string().optional(),
+      }).parse(req.body);
+
+      const duplicate = await storage.getMedicalBillDuplicateById(req.params.id);
+      if (!duplicate) {
+        return res.status(404).json({ message: "Duplicate not found" });
+      }
+
+      if (!(await authorizeCase(duplicate.caseId, userId, 'edit', res))) return;
+      if (duplicate.status !== "pending") {
+        return res.status(409).json({ message: `This duplicate was already resolved (${duplicate.status})` });
+      }
+
+      // The status check above can race a second decision; the update only applies to a pending pair
+      const resolved = await resolveDuplicateBill(duplicate, resolution, userId, note);
+      if (!resolved) {
+        return res.status(409).json({ message: "This duplicate was already resolved" });
+      }
+      res.json(resolved);
+    } catch (error) {
+      console.error("Error resolving duplicate bill:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to resolve duplicate bill" });
+    }
+  });
+
+  // Review queue for AI-extracted bills
+  async function getOwnedProposal(proposalId: string, userId: string, res: any) {
+    const proposal = await storage.getProposedBillById(proposalId);
+    if (!proposal) {
+      res.status(404).json({ message: "Proposed bill not found" });
+      return undefined;
+    }
+    if (!(await authorizeCase(proposal.caseId, userId, 'edit', res))) return undefined;
+    if (proposal.status !== "proposed") {
+      res.status(409).json({ message: `This bill was already reviewed (${proposal.status})` });
+      return undefined;
+    }
+    return proposal;
+  }
+
+  app.get("/api/cases/:caseId/proposed-bills", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const caseData = await authorizeCase(req.params.caseId, userId, 'view', res);
+      if (!caseData) return;
+
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const [proposals, documents] = await Promise.all([
+        storage.getProposedBillsByCase(caseData.id, status),
+        storage.getDocumentsByCase(caseData.id),
+      ]);
+      const documentsById = new Map(documents.map(doc => [doc.id, doc]));
+
+      res.json(proposals.map(proposal => ({
+        ...proposal,
+        fileName: documentsById.get(proposal.documentId)?.fileName ?? null,
+        mimeType: documentsById.get(proposal.documentId)?.mimeType ?? null,
+      })));
+    } catch (error) {
+      console.error("Error fetching proposed bills:", error);
+      res.status(500).json({ message: "Failed to fetch proposed bills" });
+    }
+  });
+
+  app.post("/api/proposed-bills/:id/accept", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { edits } = z.object({ edits: proposalEditsSchema.default({}) }).parse(req.body);
+      const proposal = await getOwnedProposal(req.params.id, userId, res);
+      if (!proposal) return;
+
+      // The status check above can race a second click; the accept itself only succeeds once
+      const result = await acceptProposedBill(proposal, edits, userId);
+      if (!result) {
+        return res.status(409).json({ message: "This bill was already reviewed" });
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      console.error("Error accepting proposed bill:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to accept proposed bill" });
+    }
+  });
+
+  app.post("/api/proposed-bills/:id/reject", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { reason } = z.object({ reason: z.string().optional() }).parse(req.body);
+      const proposal = await getOwnedProposal(req.params.id, userId, res);
+      if (!proposal) return;
+
+      const rejected = await rejectProposedBill(proposal, userId, reason);
+      if (!rejected) {
+        return res.status(409).json({ message: "This bill was already reviewed" });
+      }
+      res.json(rejected);
+    } catch (error) {
+      console.error("Error rejecting proposed bill:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to reject proposed bill" });
+    }
+  });
+
+  // AI Chat routes
+  app.get("/api/chat/sessions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const sessions = await storage.getChatSessions(userId);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching chat sessions:", error);
+      res.status(500).json({ message: "Failed to fetch chat sessions" });
+    }
+  });
+
+  app.post("/api/chat/sessions", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const sessionData = insertAiChatSessionSchema.parse({
+        ...req.body,
+        userId,
+      });
+      if (sessionData.caseId && !(await authorizeCase(sessionData.caseId, userId, 'view', res))) return;
+
+      const session = await storage.createChatSession(sessionData);
+      res.status(201).json(session);
+    } catch (error) {
+      console.error("Error creating chat session:", error);
+      res.status(500).json({ message: "Failed to create chat session" });
+    }
+  });
+
+  app.get("/api/chat/sessions/:id/messages", isAuthenticated, async (req: any, res) => {
+    try {
+      const session = await authorizeChatSession(req.params.id, req.user.id, res);
+      if (!session) return;
+
+      const messages = await storage.getChatMessages(session.id);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching chat messages:", error);
+      res.status(500).json({ message: "Failed to fetch chat messages" });
+    }
+  });
+
+  app.post("/api/chat/sessions/:id/messages", isAuthenticated, async (req: any, res) => {
+    try {
+      const sessionId = req.params.id;
+      const { content } = req.body;
+
+      if (!content) {
+        return res.status(400).json({ message: "Content is required" });
+      }
+
+      const session = await authorizeChatSession(sessionId, req.user.id, res);
+      if (!session) return;
+
+      // Create user message
+      const userMessage = await storage.createChatMessage({
+        sessionId,
+        role: "user",
+        content,
+      });
+
+      // Get user for AI service configuration
+      const user = await storage.getUser((req as any).user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { history, systemPrompt, chunks } = await prepareSessionChat(session, content);
+
+      // Create AI service and get response
+      const aiService = await withRedaction(createAIService(user), user.id, session.caseId);
+      const aiResponse = await aiService.chatCompletion(history, systemPrompt);
+      const citations = extractCitations(aiResponse, chunks);
+
+      // Create AI message
+      const aiMessage = await storage.createChatMessage({
+        sessionId,
+        role: "assistant",
+        content: aiResponse,
+        citations: citations.length > 0 ? citations : null,
+      });
+
+      res.json({
+        userMessage,
+        aiMessage,
+      });
+    } catch (error) {
+      console.error("Error sending chat message:", error);
+      res.status(500).json({ message: "Failed to send chat message" });
+    }
+  });
+
+  // Streaming variant of session chat (Server-Sent Events, see sse.ts)
+  app.post("/api/chat/sessions/:id/messages/stream", isAuthenticated, async (req: any, res) => {
+    try {
+      const sessionId = req.params.id;
+      const { content } = req.body;
+
+      if (!content) {
+        return res.status(400).json({ message: "Content is required" });
+      }
+
+      const session = await authorizeChatSession(sessionId, req.user.id, res);
+      if (!session) return;
+
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const userMessage = await storage.createChatMessage({
+        sessionId,
+        role: "user",
+        content,
+      });
+
+      const aiService = await withRedaction(createAIService(user), user.id, session.caseId);
+      const { history, systemPrompt, chunks } = await prepareSessionChat(session, content);
+
+      await streamCompletion(
+        res,
+        (signal) => aiService.chatCompletionStream(history, systemPrompt, signal),
+        async (answer, stopped) => {
+          if (stopped && !answer) return { userMessage, aiMessage: null };
+
+          const citations = extractCitations(answer, chunks);
+          const aiMessage = await storage.createChatMessage({
+            sessionId,
+            role: "assistant",
+            content: answer,
+            citations: citations.length > 0 ? citations : null,
+          });
+          return { userMessage, aiMessage };
+        },
+        "Failed to send chat message"
+      );
+    } catch (error) {
+      console.error("Error sending chat message:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to send chat message" });
+      }
+    }
+  });
+
+  // Demand Letter routes
+  app.get("/api/cases/:caseId/demand-letters", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const caseData = await authorizeCase(req.params.caseId, userId, 'view', res);
+      if (!caseData) return;
+
+      const letters = await storage.getDemandLettersByCase(req.params.caseId);
+      res.json(letters);
+    } catch (error) {
+      console.error("Error fetching demand letters:", error);
+      res.status(500).json({ message: "Failed to fetch demand letters" });
+    }
+  });
+
+  app.post("/api/demand-letters/generate", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const request = demandLetterRequestSchema.parse(req.body);
+
+      // Get user for AI service configuration
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const caseData = await authorizeCase(request.caseId, userId, 'edit', res);
+      if (!caseData) return;
+
+      let template;
+      if (request.templateId && request.templateId !== "none") {
+        template = await storage.getLetterTemplateById(request.templateId);
+        if (!template || template.userId !== userId) {
+          return res.status(404).json({ message: "Letter template not found" });
+        }
+      } else if (!request.templateId) {
+        template = await storage.getDefaultLetterTemplate(userId);
+      }
+
+      const demandLetter = await generateDemandLetter(user, caseData, request, template);
+
+      res.status(201).json(demandLetter);
+    } catch (error) {
+      console.error("Error generating demand letter:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (error instanceof AIOutputValidationError) {
+        return res.status(502).json({ message: "The AI response couldn't be turned into a demand letter. Please try again." });
+      }
+      res.status(500).json({ message: "Failed to generate demand letter" });
+    }
+  });
+
+  // Sends the error response itself and returns undefined when the letter can't be used
+  async function getOwnedDemandLetter(letterId: string, userId: string, required: CaseAccess, res: any) {
+    const letter = await storage.getDemandLetterById(letterId);
+    if (!letter) {
+      res.status(404).json({ message: "Demand letter not found" });
+      return undefined;
+    }
+    const caseData = await authorizeCase(letter.caseId, userId, required, res);
+    if (!caseData) return undefined;
+    return { letter, caseData };
+  }
+
+  function lockedLetterResponse(res: any) {
+    return res.status(409).json({ message: "Approved and sent letters can't be edited. Move the letter back to draft first." });
+  }
+
+  app.get("/api/demand-letters/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const owned = await getOwnedDemandLetter(req.params.id, req.user.id, 'view', res);
+      if (!owned) return;
+
+      const statusHistory = await storage.getDemandLetterStatusChanges(owned.letter.id);
+      res.json({ ...owned.letter, statusHistory });
+    } catch (error) {
+      console.error("Error fetching demand letter:", error);
+      res.status(500).json({ message: "Failed to fetch demand letter" });
+    }
+  });
+
+  app.patch("/api/demand-letters/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const edits = demandLetterEditsSchema.parse(req.body);
+      const owned = await getOwnedDemandLetter(req.params.id, userId, 'edit', res);
+      if (!owned) return;
+      if (!isDemandLetterEditable(owned.letter)) {
+        return lockedLetterResponse(res);
+      }
+
+      const letter = await storage.saveDemandLetter(
+        owned.letter.id,
+        applyDemandLetterEdits(owned.letter, owned.caseData, edits),
+        userId,
+        edits.note
+      );
+      recordAuditChange(res, owned.letter, letter);
+      res.json(letter);
+    } catch (error) {
+      console.error("Error updating demand letter:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update demand letter" });
+    }
+  });
+
+  app.get("/api/demand-letters/:id/versions", isAuthenticated, async (req: any, res) => {
+    try {
+      const owned = await getOwnedDemandLetter(req.params.id, req.user.id, 'view', res);
+      if (!owned) return;
+
+      const versions = await storage.getDemandLetterVersions(owned.letter.id);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching demand letter versions:", error);
+      res.status(500).json({ message: "Failed to fetch demand letter versions" });
+    }
+  });
+
+  // Like prompt rollback, restoring saves the old text again as the newest version
+  app.post("/api/demand-letters/:id/restore", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { versionId } = z.object({ versionId: z.string() }).parse(req.body);
+      const owned = await getOwnedDemandLetter(req.params.id, userId, 'edit', res);
+      if (!owned) return;
+      if (!isDemandLetterEditable(owned.letter)) {
+        return lockedLetterResponse(res);
+      }
+
+      const target = await storage.getDemandLetterVersionById(versionId);
+      if (!target || target.letterId !== owned.letter.id) {
+        return res.status(404).json({ message: "Demand letter version not found" });
+      }
+
+      const letter = await storage.saveDemandLetter(
+        owned.letter.id,
+        { title: target.title, content: target.content, sections: target.sections, demandAmount: target.demandAmount },
+        userId,
+        `Restored version ${target.version}`
+      );
+      res.json(letter);
+    } catch (error) {
+      console.error("Error restoring demand letter version:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to restore demand letter version" });
+    }
+  });
+
+  app.post("/api/demand-letters/:id/sections/:key/regenerate", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const key = z.enum(DEMAND_LETTER_SECTIONS, { errorMap: () => ({ message: "Unknown letter section" }) }).parse(req.params.key);
+      const owned = await getOwnedDemandLetter(req.params.id, userId, 'edit', res);
+      if (!owned) return;
+      if (!isDemandLetterEditable(owned.letter)) {
+        return lockedLetterResponse(res);
+      }
+      if (!hasDemandLetterSections(owned.letter)) {
+        return res.status(409).json({ message: "This letter was generated before letters had sections, so it can only be rewritten as a whole" });
+      }
 
-        console.log("✅ Enhanced document processing pipeline completed successfully");
-        console.log("Updated document saved:", JSON.stringify({
-          id: updatedDocument?.id,
-          aiSummary: updatedDocument?.aiSummary?.substring(0, 100) + "...",
-          extractedDataKeys: updatedDocument?.extractedData ? Object.keys(updatedDocument.extractedData) : "no extractedData"
-        }));
-
-        res.json({ 
-          document: updatedDocument, 
-          analysis: { 
-            summary: aiResponse.summary || "Document analyzed successfully.", 
-            extractedData: extractedData,
-            documentIntelligence: documentIntelligenceResult ? {
-              extractedText: documentIntelligenceResult.text.substring(0, 500) + "...",
-              tablesFound: documentIntelligenceResult.tables?.length || 0,
-              keyValuePairsFound: documentIntelligenceResult.keyValuePairs?.length || 0,
-              confidence: documentIntelligenceResult.confidence,
-              pages: documentIntelligenceResult.pages
-            } : null,
-            vectorEmbedding: embeddingResult ? {
-              model: embeddingResult.model,
-              dimensions: embeddingResult.dimensions,
-              tokensUsed: embeddingResult.usage.totalTokens
-            } : null,
-            searchIndexed: azureSearchService.isAvailable() && documentContent.length > 0,
-            postgresStored: true,
-            processingSteps: {
-              documentIntelligence: !!documentIntelligenceResult,
-              vectorEmbedding: !!embeddingResult,
-              aiAnalysis: !!aiResponse,
-              searchIndexing: azureSearchService.isAvailable() && documentContent.length > 0,
-              postgresStorage: true
-            }
-          }
-        });
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
 
-      } catch (aiError) {
-        console.error("AI analysis error:", aiError);
-        // Fallback to demo data if AI fails
-      const demoAnalysis = {
-        summary: `This medical document details treatment for a motor vehicle accident from January 15, 2024. The patient, Sarah Johnson, sustained cervical strain and lower back soft tissue injuries. Initial emergency room treatment was followed by ongoing physical therapy and specialist consultations. Key findings include no fractures on imaging studies, moderate pain levels requiring medication management, and documented work restrictions. The medical timeline spans from emergency care through follow-up treatments with multiple providers. Total documented medical expenses exceed $4,500 with ongoing treatment recommendations.`,
-        
-        extractedData: {
-          patientInfo: {
-            names: ["Sarah Johnson", "S. Johnson"],
-            ages: ["34 years old"],
-            addresses: ["1234 Main Street, Anytown, ST 12345"],
-            phoneNumbers: ["(555) 123-4567"],
-            insuranceInfo: ["Blue Cross Blue Shield Policy #ABC123456"]
-          },
-          medicalInfo: {
-            diagnoses: [
-              "Cervical strain (ICD-10: M54.2)",
-              "Lower back soft tissue injury (ICD-10: S39.012A)", 
-              "Minor whiplash syndrome (ICD-10: S13.4XXA)"
-            ],
-            procedures: [
-              "Emergency room evaluation and treatment",
-              "Cervical spine X-rays (negative for fractures)",
-              "Lumbar spine MRI (showed mild disc bulging)",
-              "Physical therapy evaluation and treatment plan"
-            ],
-            medications: [
-              "Ibuprofen 800mg TID for inflammation",
-              "Cyclobenzaprine 10mg QHS for muscle spasms",
-              "Tramadol 50mg BID PRN for pain"
-            ],
-            providers: [
-              "Dr. Sarah Martinez - Orthopedic Specialist",
-              "Dr. James Wilson - Emergency Medicine",
-              "Lisa Thompson, PT - Physical Therapist"
-            ]
-          },
-          timeline: {
-            dates: [
-              "January 15, 2024 - Motor vehicle accident occurred",
-              "January 15, 2024 - Emergency room visit at City General Hospital",
-              "January 16, 2024 - Follow-up with primary care physician",
-              "January 22, 2024 - Physical therapy evaluation",
-              "February 1, 2024 - MRI scan completed",
-              "February 15, 2024 - Orthopedic specialist consultation"
-            ],
-            servicesPeriod: "January 15, 2024 - February 15, 2024"
-          },
-          locations: {
-            facilities: [
-              "City General Hospital Emergency Department",
-              "Anytown Medical Center",
-              "Physical Therapy Associates",
-              "Advanced Imaging Center"
-            ],
-            addresses: [
-              "123 Hospital Drive, Anytown, ST 12345",
-              "456 Medical Plaza, Anytown, ST 12345"
-            ]
-          },
-          additionalDetails: {
-            keyFindings: [
-              "No fractures detected on initial X-rays",
-              "MRI showed mild disc bulging at L4-L5",
-              "Patient reported 7/10 pain levels initially",
-              "Work restrictions: No lifting over 10 pounds",
-              "Physical therapy showed good progress"
-            ],
-            costs: [
-              "Emergency room visit: $2,850.00",
-              "MRI scan: $1,200.00", 
-              "Physical therapy (6 sessions): $450.00",
-              "Medications: $125.00",
-              "Total documented expenses: $4,625.00"
-            ],
-            complications: [
-              "Initial difficulty with neck range of motion",
-              "Persistent lower back stiffness",
-              "Sleep disruption due to pain"
-            ]
-          }
-        }
-      };
+      const letter = await regenerateDemandLetterSection(user, owned.caseData, owned.letter, key);
+      res.json(letter);
+    } catch (error) {
+      console.error("Error regenerating demand letter section:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      if (error instanceof AIOutputValidationError) {
+        return res.status(502).json({ message: "The AI response couldn't be turned into a demand letter. Please try again." });
+      }
+      res.status(500).json({ message: "Failed to regenerate demand letter section" });
+    }
+  });
 
-        const updatedDocument = await storage.updateDocument(req.params.id, {
-          aiSummary: "Document processed but AI analysis unavailable at the moment.",
-          extractedData: demoAnalysis.extractedData,
-          aiProcessed: true,
-        });
+  app.post("/api/demand-letters/:id/rewrite", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { sectionKey, instruction } = demandLetterRewriteSchema.parse(req.body);
+      const owned = await getOwnedDemandLetter(req.params.id, userId, 'edit', res);
+      if (!owned) return;
+      if (!isDemandLetterEditable(owned.letter)) {
+        return lockedLetterResponse(res);
+      }
+      if (hasDemandLetterSections(owned.letter)) {
+        if (!sectionKey) {
+          return res.status(400).json({ message: "Choose the section to rewrite" });
+        }
+        // The specials table has to keep matching the bills
+        if (sectionKey === 'specials') {
+          return res.status(400).json({ message: "The medical specials table is built from the bills. Regenerate it instead." });
+        }
+      }
 
-        res.json({ 
-          document: updatedDocument, 
-          analysis: demoAnalysis 
-        });
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
+
+      const letter = await rewriteDemandLetter(user, owned.caseData, owned.letter, sectionKey, instruction);
+      res.json(letter);
     } catch (error) {
-      console.error("Error analyzing document:", error);
-      res.status(500).json({ message: "Failed to analyze document" });
+      console.error("Error rewriting demand letter:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to rewrite demand letter" });
     }
   });
 
-  // Medical Bills routes
-  app.get("/api/cases/:caseId/bills", isAuthenticated, async (req, res) => {
+  app.post("/api/demand-letters/:id/status", isAuthenticated, async (req: any, res) => {
     try {
-      const bills = await storage.getMedicalBillsByCase(req.params.caseId);
-      res.json(bills);
+      const userId = req.user.id;
+      const { status, note } = demandLetterStatusChangeSchema.parse(req.body);
+      // Approving and sending are the attorney's call
+      const required = status === 'approved' || status === 'sent' ? 'manage' : 'edit';
+      const owned = await getOwnedDemandLetter(req.params.id, userId, required, res);
+      if (!owned) return;
+
+      const { letter: current } = owned;
+      if (!canTransitionDemandLetter(current.status, status)) {
+        return res.status(409).json({ message: `A ${current.status.replace("_", " ")} letter can't be moved to ${status.replace("_", " ")}` });
+      }
+
+      const letter = await storage.changeDemandLetterStatus(current.id, current.status, status, userId, note);
+      if (!letter) {
+        return res.status(409).json({ message: "The letter's status was changed by someone else. Reload and try again." });
+      }
+      recordAuditChange(res, current, letter);
+      res.json(letter);
     } catch (error) {
-      console.error("Error fetching medical bills:", error);
-      res.status(500).json({ message: "Failed to fetch medical bills" });
+      console.error("Error changing demand letter status:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to change demand letter status" });
     }
   });
 
-  app.post("/api/bills", isAuthenticated, async (req: any, res) => {
+  // Picks the letterhead for an export: an explicit id, "none" for plain paper, or the user's default
+  async function resolveExportLetterhead(letterheadId: unknown, userId: string, res: any) {
+    if (letterheadId === "none") return { letterhead: undefined };
+    if (typeof letterheadId === "string" && letterheadId) {
+      const letterhead = await storage.getLetterheadById(letterheadId);
+      if (!letterhead || letterhead.userId !== userId) {
+        res.status(404).json({ message: "Letterhead not found" });
+        return undefined;
+      }
+      return { letterhead };
+    }
+    return { letterhead: await storage.getDefaultLetterhead(userId) };
+  }
+
+  function sendExport(res: any, fileName: string, contentType: string, data: Uint8Array) {
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(fileName).replace(/'/g, '%27')}`);
+    res.send(Buffer.from(data));
+  }
+
+  function exportFileName(title: string, extension: string) {
+    return `${title.replace(/[\\/:*?"<>|]+/g, "").trim() || "Demand Letter"}.${extension}`;
+  }
+
+  app.get("/api/demand-letters/:id/export", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const billData = insertMedicalBillSchema.parse({
-        ...req.body,
-        createdBy: userId,
-      });
-      const bill = await storage.createMedicalBill(billData);
-      res.status(201).json(bill);
+      const format = req.query.format;
+      if (format !== "docx" && format !== "pdf") {
+        return res.status(400).json({ message: "format must be docx or pdf" });
+      }
+      const owned = await getOwnedDemandLetter(req.params.id, userId, 'view', res);
+      if (!owned) return;
+      const resolved = await resolveExportLetterhead(req.query.letterheadId, userId, res);
+      if (!resolved) return;
+
+      const assets = await loadLetterhead(resolved.letterhead);
+      if (format === "docx") {
+        const docx = await renderLetterDocx(owned.letter, assets);
+        sendExport(res, exportFileName(owned.letter.title, "docx"), "application/vnd.openxmlformats-officedocument.wordprocessingml.document", docx);
+      } else {
+        const pdf = await renderLetterPdf(owned.letter, assets);
+        sendExport(res, exportFileName(owned.letter.title, "pdf"), "application/pdf", pdf);
+      }
     } catch (error) {
-      console.error("Error creating medical bill:", error);
-      res.status(500).json({ message: "Failed to create medical bill" });
+      console.error("Error exporting demand letter:", error);
+      res.status(500).json({ message: "Failed to export demand letter" });
     }
   });
 
-  app.put("/api/bills/:id", isAuthenticated, async (req, res) => {
+  // The letter, the specials schedule and the chosen case documents as exhibits, in one PDF
+  app.post("/api/demand-letters/:id/package", isAuthenticated, async (req: any, res) => {
     try {
-      const updates = insertMedicalBillSchema.partial().parse(req.body);
-      const updatedBill = await storage.updateMedicalBill(req.params.id, updates);
-      res.json(updatedBill);
+      const userId = req.user.id;
+      const { letterheadId, documentIds } = z.object({
+        letterheadId: z.string().optional(),
+        documentIds: z.array(z.string()).max(MAX_PACKAGE_EXHIBITS, `A package can include at most ${MAX_PACKAGE_EXHIBITS} exhibits`).default([]),
+      }).parse(req.body);
+      const owned = await getOwnedDemandLetter(req.params.id, userId, 'view', res);
+      if (!owned) return;
+      const resolved = await resolveExportLetterhead(letterheadId, userId, res);
+      if (!resolved) return;
+
+      // Exhibits follow the order they were picked in
+      const caseDocuments = await storage.getDocumentsByCase(owned.caseData.id);
+      const exhibitDocuments = [];
+      for (const documentId of Array.from(new Set(documentIds))) {
+        const document = caseDocuments.find(doc => doc.id === documentId);
+        if (!document) {
+          return res.status(400).json({ message: "Exhibits must be documents from this case" });
+        }
+        // Same check as downloading the file on its own
+        const { containerName, blobName } = splitObjectPath(document.objectPath);
+        const aclPolicy = await getBlobAclPolicy(containerName, blobName);
+        if (aclPolicy && !(await isAclPolicyAllowed(aclPolicy, userId, ObjectPermission.READ))) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        exhibitDocuments.push(document);
+      }
+
+      const [assets, specials, exhibits] = await Promise.all([
+        loadLetterhead(resolved.letterhead),
+        getCaseSpecials(owned.caseData.id),
+        loadExhibits(exhibitDocuments),
+      ]);
+      const pdf = await renderDemandPackage(owned.letter, assets, specials, exhibits);
+      sendExport(res, exportFileName(`${owned.letter.title} - Demand Package`, "pdf"), "application/pdf", pdf);
     } catch (error) {
-      console.error("Error updating medical bill:", error);
-      res.status(500).json({ message: "Failed to update medical bill" });
+      console.error("Error building demand package:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to build demand package" });
     }
   });
 
-  // AI Chat routes
-  app.get("/api/chat/sessions", isAuthenticated, async (req: any, res) => {
+  // Letter template routes
+  function checkLetterTemplate(body: string) {
+    const unknownFields = validateLetterTemplate(body);
+    if (unknownFields.length > 0) {
+      return {
+        message: `Unknown merge fields: ${unknownFields.map(name => `{{${name}}}`).join(", ")}`,
+        unknownFields,
+        allowedFields: Object.keys(LETTER_MERGE_FIELDS),
+      };
+    }
+    return null;
+  }
+
+  async function getOwnedLetterTemplate(templateId: string, userId: string, res: any) {
+    const template = await storage.getLetterTemplateById(templateId);
+    if (!template) {
+      res.status(404).json({ message: "Letter template not found" });
+      return undefined;
+    }
+    if (template.userId !== userId) {
+      res.status(403).json({ message: "Access denied" });
+      return undefined;
+    }
+    return template;
+  }
+
+  app.get("/api/letter-templates/fields", isAuthenticated, async (req: any, res) => {
+    res.json({ fields: LETTER_MERGE_FIELDS, defaultTemplate: DEFAULT_LETTER_TEMPLATE });
+  });
+
+  app.get("/api/letter-templates", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const sessions = await storage.getChatSessions(userId);
-      res.json(sessions);
+      const templates = await storage.getLetterTemplates(req.user.id);
+      res.json(templates);
     } catch (error) {
-      console.error("Error fetching chat sessions:", error);
-      res.status(500).json({ message: "Failed to fetch chat sessions" });
+      console.error("Error fetching letter templates:", error);
+      res.status(500).json({ message: "Failed to fetch letter templates" });
     }
   });
 
-  app.post("/api/chat/sessions", isAuthenticated, async (req: any, res) => {
+  app.post("/api/letter-templates", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const sessionData = insertAiChatSessionSchema.parse({
+      const templateData = insertLetterTemplateSchema.parse({
         ...req.body,
-        userId,
+        userId: req.user.id,
       });
-      const session = await storage.createChatSession(sessionData);
-      res.status(201).json(session);
+
+      const templateError = checkLetterTemplate(templateData.body);
+      if (templateError) {
+        return res.status(400).json(templateError);
+      }
+
+      const template = await storage.createLetterTemplate(templateData);
+      res.status(201).json(template);
     } catch (error) {
-      console.error("Error creating chat session:", error);
-      res.status(500).json({ message: "Failed to create chat session" });
+      console.error("Error creating letter template:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create letter template" });
     }
   });
 
-  app.get("/api/chat/sessions/:id/messages", isAuthenticated, async (req, res) => {
+  app.patch("/api/letter-templates/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const messages = await storage.getChatMessages(req.params.id);
-      res.json(messages);
+      const updates = insertLetterTemplateSchema.omit({ userId: true }).partial().parse(req.body);
+      const existing = await getOwnedLetterTemplate(req.params.id, req.user.id, res);
+      if (!existing) return;
+
+      if (updates.body !== undefined) {
+        const templateError = checkLetterTemplate(updates.body);
+        if (templateError) {
+          return res.status(400).json(templateError);
+        }
+      }
+
+      const template = await storage.updateLetterTemplate(existing.id, updates);
+      res.json(template);
     } catch (error) {
-      console.error("Error fetching chat messages:", error);
-      res.status(500).json({ message: "Failed to fetch chat messages" });
+      console.error("Error updating letter template:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update letter template" });
     }
   });
 
-  app.post("/api/chat/sessions/:id/messages", isAuthenticated, async (req, res) => {
+  app.delete("/api/letter-templates/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const sessionId = req.params.id;
-      const { content } = req.body;
+      const template = await getOwnedLetterTemplate(req.params.id, req.user.id, res);
+      if (!template) return;
 
-      if (!content) {
-        return res.status(400).json({ message: "Content is required" });
-      }
+      await storage.deleteLetterTemplate(template.id);
+      res.json({ message: "Letter template deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting letter template:", error);
+      res.status(500).json({ message: "Failed to delete letter template" });
+    }
+  });
 
-      // Create user message
-      const userMessage = await storage.createChatMessage({
-        sessionId,
-        role: "user",
-        content,
-      });
+  // Letterhead routes
+  async function getOwnedLetterhead(letterheadId: string, userId: string, res: any) {
+    const letterhead = await storage.getLetterheadById(letterheadId);
+    if (!letterhead) {
+      res.status(404).json({ message: "Letterhead not found" });
+      return undefined;
+    }
+    if (letterhead.userId !== userId) {
+      res.status(403).json({ message: "Access denied" });
+      return undefined;
+    }
+    return letterhead;
+  }
 
-      // Get existing messages for context
-      const existingMessages = await storage.getChatMessages(sessionId);
-      const chatHistory = existingMessages
-        .slice(-10) // Last 10 messages for context
-        .map(msg => ({ role: msg.role as 'user' | 'assistant', content: msg.content }));
+  app.get("/api/letterheads", isAuthenticated, async (req: any, res) => {
+    try {
+      const letterheads = await storage.getLetterheads(req.user.id);
+      res.json(letterheads);
+    } catch (error) {
+      console.error("Error fetching letterheads:", error);
+      res.status(500).json({ message: "Failed to fetch letterheads" });
+    }
+  });
 
-      // Get user for AI service configuration
-      const user = await storage.getUser((req as any).user.id);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+  app.post("/api/letterheads", isAuthenticated, async (req: any, res) => {
+    try {
+      const letterheadData = insertLetterheadSchema.parse({
+        ...req.body,
+        userId: req.user.id,
+      });
+      const letterhead = await storage.createLetterhead(letterheadData);
+      res.json(letterhead);
+    } catch (error) {
+      console.error("Error creating letterhead:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
       }
+      res.status(500).json({ message: "Failed to create letterhead" });
+    }
+  });
 
-      // Create AI service and get response
-      const aiService = createAIService(user);
-      const aiResponse = await aiService.chatCompletion(chatHistory, "You are a helpful legal AI assistant specializing in medical legal cases.");
-
-      // Create AI message
-      const aiMessage = await storage.createChatMessage({
-        sessionId,
-        role: "assistant",
-        content: aiResponse,
-      });
+  app.patch("/api/letterheads/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const updates = insertLetterheadSchema.omit({ userId: true }).partial().parse(req.body);
+      const existing = await getOwnedLetterhead(req.params.id, req.user.id, res);
+      if (!existing) return;
 
-      res.json({
-        userMessage,
-        aiMessage,
-      });
+      const letterhead = await storage.updateLetterhead(existing.id, updates);
+      res.json(letterhead);
     } catch (error) {
-      console.error("Error sending chat message:", error);
-      res.status(500).json({ message: "Failed to send chat message" });
+      console.error("Error updating letterhead:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update letterhead" });
     }
   });
 
-  // Demand Letter routes
-  app.get("/api/cases/:caseId/demand-letters", isAuthenticated, async (req, res) => {
+  app.delete("/api/letterheads/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const letters = await storage.getDemandLettersByCase(req.params.caseId);
-      res.json(letters);
+      const letterhead = await getOwnedLetterhead(req.params.id, req.user.id, res);
+      if (!letterhead) return;
+
+      await storage.deleteLetterhead(letterhead.id);
+      if (letterhead.logoPath) {
+        const { containerName, blobName } = splitObjectPath(letterhead.logoPath);
+        await azureBlobService.deleteFile(containerName, blobName);
+      }
+      res.json({ message: "Letterhead deleted successfully" });
     } catch (error) {
-      console.error("Error fetching demand letters:", error);
-      res.status(500).json({ message: "Failed to fetch demand letters" });
+      console.error("Error deleting letterhead:", error);
+      res.status(500).json({ message: "Failed to delete letterhead" });
     }
   });
 
-  app.post("/api/demand-letters/generate", isAuthenticated, async (req: any, res) => {
+  app.post("/api/letterheads/:id/logo", isAuthenticated, upload.single('logo'), async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const { caseId, clientName, incidentDate, medicalSummary, damages, liability } = req.body;
-
-      if (!caseId || !clientName || !incidentDate) {
-        return res.status(400).json({ message: "Missing required fields" });
+      const file = req.file as Express.Multer.File | undefined;
+      if (!file) {
+        return res.status(400).json({ message: "No logo provided" });
+      }
+      if (file.mimetype !== "image/png" && file.mimetype !== "image/jpeg") {
+        return res.status(400).json({ message: "The logo must be a PNG or JPEG image" });
+      }
+      if (file.size > MAX_LOGO_BYTES) {
+        return res.status(400).json({ message: "The logo must be 2 MB or smaller" });
+      }
+      const existing = await getOwnedLetterhead(req.params.id, userId, res);
+      if (!existing) return;
+
+      const blobName = azureBlobService.generateBlobName(file.originalname, userId);
+      await azureBlobService.uploadFile(CONTAINERS.LETTERHEADS, blobName, file.buffer, file.mimetype);
+      const letterhead = await storage.updateLetterhead(existing.id, {
+        logoPath: `${CONTAINERS.LETTERHEADS}/${blobName}`,
+        logoMimeType: file.mimetype,
+      });
+      if (existing.logoPath) {
+        const { containerName, blobName: oldBlobName } = splitObjectPath(existing.logoPath);
+        await azureBlobService.deleteFile(containerName, oldBlobName);
       }
+      res.json(letterhead);
+    } catch (error) {
+      console.error("Error uploading letterhead logo:", error);
+      res.status(500).json({ message: "Failed to upload letterhead logo" });
+    }
+  });
 
-      // Get user for AI service configuration
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+  app.get("/api/letterheads/:id/logo", isAuthenticated, async (req: any, res) => {
+    try {
+      const letterhead = await getOwnedLetterhead(req.params.id, req.user.id, res);
+      if (!letterhead) return;
+      if (!letterhead.logoPath) {
+        return res.status(404).json({ message: "Letterhead has no logo" });
       }
 
-      // Create AI service and generate demand letter
-      const aiService = createAIService(user);
-      const letterContent = await aiService.generateDemandLetter({
-        clientName,
-        incidentDate,
-        medicalSummary: medicalSummary || "",
-        damages: damages || "",
-        liability: liability || "",
-      }, [], []);
+      const { containerName, blobName } = splitObjectPath(letterhead.logoPath);
+      await azureBlobService.downloadFile(containerName, blobName, res);
+    } catch (error) {
+      console.error("Error fetching letterhead logo:", error);
+      res.status(500).json({ message: "Failed to fetch letterhead logo" });
+    }
+  });
 
-      const demandLetter = await storage.createDemandLetter({
-        caseId,
-        title: `Demand Letter - ${clientName}`,
-        content: letterContent,
-        generatedBy: userId,
-      });
+  app.delete("/api/letterheads/:id/logo", isAuthenticated, async (req: any, res) => {
+    try {
+      const existing = await getOwnedLetterhead(req.params.id, req.user.id, res);
+      if (!existing) return;
 
-      res.status(201).json(demandLetter);
+      const letterhead = await storage.updateLetterhead(existing.id, { logoPath: null, logoMimeType: null });
+      if (existing.logoPath) {
+        const { containerName, blobName } = splitObjectPath(existing.logoPath);
+        await azureBlobService.deleteFile(containerName, blobName);
+      }
+      res.json(letterhead);
     } catch (error) {
-      console.error("Error generating demand letter:", error);
-      res.status(500).json({ message: "Failed to generate demand letter" });
+      console.error("Error removing letterhead logo:", error);
+      res.status(500).json({ message: "Failed to remove letterhead logo" });
     }
   });
 
@@ -1521,6 +2949,16 @@ IMPORTANT FORMATTING INSTRUCTIONS:
         azureOpenAIApiKey: z.string().optional(),
         azureOpenAIVersion: z.string().optional(),
         azureModelDeployment: z.string().optional(),
+        aiProvider: z.string()
+          .refine(name => aiProviders.has(name), { message: "Unknown AI provider" })
+          .nullable()
+          .optional(),
+        aiBaseUrl: z.string()
+          .url()
+          .refine(isAllowedAIBaseUrl, { message: "This AI base URL is not on the server's allowlist" })
+          .nullable()
+          .optional(),
+        aiModel: z.string().nullable().optional(),
       }).parse(req.body);
 
       const updated = await storage.updateUserAIConfig(userId, aiConfigData);
@@ -1534,6 +2972,14 @@ IMPORTANT FORMATTING INSTRUCTIONS:
     }
   });
 
+  app.get("/api/ai/providers", isAuthenticated, async (req: any, res) => {
+    res.json({
+      providers: aiProviders.names(),
+      // Set when AI_PROVIDER forces a provider for every user
+      override: process.env.AI_PROVIDER || null,
+    });
+  });
+
   // Test Azure API connectivity
   app.post("/api/test/azure-api", isAuthenticated, async (req: any, res) => {
     try {
@@ -1645,13 +3091,17 @@ IMPORTANT FORMATTING INSTRUCTIONS:
     }
   });
 
+  // Search is always scoped to the cases the user can open, optionally narrowed to one of them
+  async function getSearchableCaseIds(userId: string, caseId?: string): Promise<string[]> {
+    const cases = await storage.getCases(userId);
+    const caseIds = cases.map(c => c.id);
+    return caseId ? caseIds.filter(id => id === caseId) : caseIds;
+  }
+
   // Document Search API
   app.get("/api/search/documents", isAuthenticated, async (req: any, res) => {
     try {
-      if (!azureSearchService.isAvailable()) {
-        return res.status(503).json({ message: "Search service not available" });
-      }
-
+      const userId = req.user.id;
       const { q: query, caseId, documentType, page = 1, limit = 20 } = req.query;
       
       if (!query || typeof query !== 'string') {
@@ -1660,8 +3110,9 @@ IMPORTANT FORMATTING INSTRUCTIONS:
 
       const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
       
-      const searchResults = await azureSearchService.searchDocuments(query, {
-        caseId: caseId as string,
+      const caseIds = await getSearchableCaseIds(userId, caseId as string | undefined);
+      const searchResults = await searchBackend.searchDocuments(query, {
+        caseIds,
         documentType: documentType as string,
         top: parseInt(limit as string),
         skip
@@ -1669,6 +3120,7 @@ IMPORTANT FORMATTING INSTRUCTIONS:
 
       res.json({
         query,
+        backend: searchBackend.name,
         results: searchResults.results,
         totalCount: searchResults.count,
         page: parseInt(page as string),
@@ -1687,18 +3139,16 @@ IMPORTANT FORMATTING INSTRUCTIONS:
   // Search Suggestions API
   app.get("/api/search/suggestions", isAuthenticated, async (req: any, res) => {
     try {
-      if (!azureSearchService.isAvailable()) {
-        return res.status(503).json({ message: "Search service not available" });
-      }
-
-      const { q: query, limit = 5 } = req.query;
+      const userId = req.user.id;
+      const { q: query, caseId, limit = 5 } = req.query;
       
       if (!query || typeof query !== 'string') {
         return res.status(400).json({ message: "Query parameter 'q' is required" });
       }
 
-      const suggestions = await azureSearchService.getSuggestions(query, parseInt(limit as string));
-      res.json({ suggestions });
+      const caseIds = await getSearchableCaseIds(userId, caseId as string | undefined);
+      const suggestions = await searchBackend.getSuggestions(query, parseInt(limit as string), caseIds);
+      res.json({ suggestions, backend: searchBackend.name });
     } catch (error) {
       console.error("Error getting search suggestions:", error);
       res.status(500).json({ 
@@ -1722,6 +3172,7 @@ IMPORTANT FORMATTING INSTRUCTIONS:
       if (!caseId) {
         return res.status(400).json({ message: "Case ID is required" });
       }
+      if (!(await authorizeCase(caseId, userId, 'edit', res))) return;
 
       // Upload to blob storage
       const fileName = `${Date.now()}-${file.originalname}`;
@@ -1732,6 +3183,18 @@ IMPORTANT FORMATTING INSTRUCTIONS:
         file.mimetype
       );
 
+      const aclSet = await setBlobAclPolicy(CONTAINERS.DOCUMENTS, fileName, {
+        owner: userId,
+        visibility: "private",
+        aclRules: [{
+          group: { type: ObjectAccessGroupType.CASE_TEAM, id: caseId },
+          permission: ObjectPermission.READ,
+        }],
+      });
+      if (!aclSet) {
+        throw new Error("Failed to set the file's ACL policy");
+      }
+
       // Create document record
       const documentData = {
         fileName: file.originalname,
@@ -1740,104 +3203,24 @@ IMPORTANT FORMATTING INSTRUCTIONS:
         mimeType: file.mimetype,
         caseId,
         uploadedBy: userId,
-        documentType
+        documentType,
+        processingStatus: 'queued',
       };
 
       const document = await storage.createDocument(documentData);
 
-      // Analyze with Document Intelligence if available
-      let extractedText = '';
-      let aiAnalysis = null;
-
-      try {
-        if (documentIntelligenceService.isAvailable()) {
-          console.log("🤖 Using Document Intelligence for text extraction...");
-          const intelligenceResult = await documentIntelligenceService.analyzeDocument(CONTAINERS.DOCUMENTS, fileName);
-          extractedText = intelligenceResult.text;
-        }
-
-        // Generate AI analysis
-        if (process.env.OPENAI_API_KEY && extractedText) {
-          const aiService = createAIService(req.user);
-          aiAnalysis = await aiService.analyzeDocument(extractedText, file.originalname);
-        }
-
-        // Index document for search if available
-        if (azureSearchService.isAvailable() && extractedText) {
-          const searchDoc: SearchDocument = {
-            id: document.id,
-            fileName: file.originalname,
-            content: extractedText,
-            documentType,
-            caseId,
-            uploadDate: new Date().toISOString(),
-            summary: aiAnalysis?.summary || '',
-            tags: [documentType, 'uploaded']
-          };
-
-          await azureSearchService.indexDocument(searchDoc);
-          console.log(`✅ Document indexed for search: ${file.originalname}`);
-        }
-
-        // Extract medical bills from the document
-        let extractedBills: any[] = [];
-        try {
-          if (extractedText) {
-            console.log("💊 Extracting medical bills from document...");
-            const aiService = createAIService(req.user);
-            extractedBills = await aiService.extractMedicalBills(extractedText, file.originalname);
-            console.log(`📋 Found ${extractedBills.length} medical bills to extract`);
-
-            // Store extracted medical bills in database
-            for (const billData of extractedBills) {
-              try {
-                const medicalBillData = {
-                  caseId: caseId,
-                  documentId: document.id,
-                  provider: billData.provider || 'Unknown Provider',
-                  amount: billData.amount?.toString() || '0.00',
-                  serviceDate: billData.serviceDate ? new Date(billData.serviceDate) : new Date(),
-                  billDate: billData.billDate ? new Date(billData.billDate) : new Date(),
-                  treatment: billData.treatment || '',
-                  insurance: billData.insurance || '',
-                  status: billData.status || 'pending',
-                  createdBy: userId,
-                };
-
-                const validatedBill = insertMedicalBillSchema.parse(medicalBillData);
-                await storage.createMedicalBill(validatedBill);
-                console.log(`✅ Created medical bill: ${billData.provider} - $${billData.amount}`);
-              } catch (billError: any) {
-                console.error("Error creating medical bill:", billError, billData);
-                // Continue with other bills even if one fails
-              }
-            }
-          }
-        } catch (billExtractionError) {
-          console.error("Medical bill extraction failed:", billExtractionError);
-          // Continue without bill extraction
-        }
-
-        // Update document with analysis results
-        if (aiAnalysis) {
-          await storage.updateDocument(document.id, {
-            aiSummary: aiAnalysis.summary,
-            extractedData: aiAnalysis.extractedData || {},
-            aiProcessed: true
-          });
-        }
-
-      } catch (analysisError) {
-        console.error("Document analysis failed, but upload succeeded:", analysisError);
-        // Continue without analysis - document is still uploaded
-      }
-
-      res.status(201).json({ 
-        document,
-        analysis: aiAnalysis,
-        searchIndexed: azureSearchService.isAvailable() && !!extractedText
+      // Analysis runs in the background; clients poll GET /api/jobs/:id
+      const job = await jobQueue.enqueue({
+        type: 'document_analysis',
+        userId,
+        documentId: document.id,
+        caseId,
+        payload: { documentType },
+        stages: ANALYSIS_STAGES,
       });
 
+      res.status(202).json({ document, job });
+
     } catch (error) {
       console.error("Error uploading document with analysis:", error);
       res.status(500).json({ 
@@ -1854,84 +3237,19 @@ IMPORTANT FORMATTING INSTRUCTIONS:
       const documentId = req.params.id;
 
       // Get the document
-      const document = await storage.getDocumentById(documentId);
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
-      }
-
-      // Check if user has access to this document
-      if (document.uploadedBy !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
-      // Get document content from blob storage
-      let documentContent = '';
-      try {
-        if (documentIntelligenceService.isAvailable()) {
-          console.log("🤖 Using Document Intelligence for text extraction...");
-          const intelligenceResult = await documentIntelligenceService.analyzeDocument(
-            CONTAINERS.DOCUMENTS, 
-            document.objectPath
-          );
-          documentContent = intelligenceResult.text;
-        } else {
-          return res.status(503).json({ message: "Document Intelligence service not available" });
-        }
-      } catch (extractError) {
-        console.error("Error extracting text from document:", extractError);
-        return res.status(500).json({ message: "Failed to extract text from document" });
-      }
-
-      if (!documentContent.trim()) {
-        return res.status(400).json({ message: "No text content found in document" });
-      }
-
-      // Extract medical bills using AI
-      console.log("💊 Extracting medical bills from document...");
-      const aiService = createAIService(req.user);
-      const extractedBills = await aiService.extractMedicalBills(documentContent, document.fileName);
-      console.log(`📋 Found ${extractedBills.length} medical bills to extract`);
-
-      const createdBills = [];
-      const errors = [];
-
-      // Store extracted medical bills in database
-      for (const billData of extractedBills) {
-        try {
-          const medicalBillData = {
-            caseId: document.caseId,
-            documentId: document.id,
-            provider: billData.provider || 'Unknown Provider',
-            amount: billData.amount?.toString() || '0.00',
-            serviceDate: billData.serviceDate ? new Date(billData.serviceDate) : new Date(),
-            billDate: billData.billDate ? new Date(billData.billDate) : new Date(),
-            treatment: billData.treatment || '',
-            insurance: billData.insurance || '',
-            status: billData.status || 'pending',
-            createdBy: userId,
-          };
-
-          const validatedBill = insertMedicalBillSchema.parse(medicalBillData);
-          const createdBill = await storage.createMedicalBill(validatedBill);
-          createdBills.push(createdBill);
-          console.log(`✅ Created medical bill: ${billData.provider} - $${billData.amount}`);
-        } catch (billError: any) {
-          console.error("Error creating medical bill:", billError, billData);
-          errors.push({
-            billData,
-            error: billError?.message || "Unknown error"
-          });
-        }
-      }
+      const document = await authorizeDocument(documentId, userId, 'edit', res);
+      if (!document) return;
 
-      res.json({
-        success: true,
-        extractedCount: extractedBills.length,
-        createdCount: createdBills.length,
-        bills: createdBills,
-        errors: errors.length > 0 ? errors : undefined
+      const job = await jobQueue.enqueue({
+        type: 'bill_extraction',
+        userId,
+        documentId: document.id,
+        caseId: document.caseId,
+        stages: BILL_EXTRACTION_STAGES,
       });
 
+      res.status(202).json({ job });
+
     } catch (error) {
       console.error("Error extracting medical bills from document:", error);
       res.status(500).json({ 
@@ -0,0 +1,143 @@
+import { azureSearchService, odataString, type ChunkSearchResult, type SearchDocument } from "./azureSearchService";
+import { PostgresSearchBackend } from "./postgresSearchBackend";
+import type { Document, DocumentChunk } from "@shared/schema";
+
+export type { ChunkSearchResult };
+
+export interface DocumentSearchResult {
+  id: string;
+  fileName: string;
+  content: string; // Matching excerpt (Postgres) or full indexed text (Azure)
+  summary?: string;
+  documentType?: string;
+  caseId?: string;
+  uploadDate?: string;
+  score: number;
+}
+
+export interface DocumentSearchOptions {
+  // Cases to search; callers restrict this to cases the user can access
+  caseIds: string[];
+  documentType?: string;
+  top?: number;
+  skip?: number;
+}
+
+export interface ChunkSearchOptions {
+  caseIds: string[];
+  documentIds?: string[];
+  top?: number;
+}
+
+export interface IndexableDocument {
+  document: Document;
+  content: string;
+  summary: string;
+  documentType: string;
+  summaryVector?: number[];
+  chunks: DocumentChunk[];
+}
+
+export interface SearchBackend {
+  readonly name: 'azure' | 'postgres';
+  searchDocuments(query: string, options: DocumentSearchOptions): Promise<{ results: DocumentSearchResult[]; count: number }>;
+  getSuggestions(query: string, top: number, caseIds: string[]): Promise<string[]>;
+  // Keyword search combined with vector similarity when a query vector is provided
+  searchChunks(query: string, queryVector: number[] | undefined, options: ChunkSearchOptions): Promise<ChunkSearchResult[]>;
+  indexDocument(indexable: IndexableDocument): Promise<void>;
+  removeDocument(documentId: string): Promise<void>;
+}
+
+function caseFilter(caseIds: string[]): string {
+  return `search.in(caseId, ${odataString(caseIds.join(","))}, ',')`;
+}
+
+export class AzureSearchBackend implements SearchBackend {
+  readonly name = 'azure' as const;
+
+  async searchDocuments(query: string, options: DocumentSearchOptions) {
+    if (options.caseIds.length === 0) {
+      return { results: [], count: 0 };
+    }
+
+    const { results, count } = await azureSearchService.searchDocuments(query, {
+      filter: caseFilter(options.caseIds),
+      documentType: options.documentType,
+      top: options.top,
+      skip: options.skip,
+    });
+
+    return { results, count };
+  }
+
+  async getSuggestions(query: string, top: number, caseIds: string[]) {
+    if (caseIds.length === 0) return [];
+    return await azureSearchService.getSuggestions(query, top, caseFilter(caseIds));
+  }
+
+  async searchChunks(query: string, queryVector: number[] | undefined, options: ChunkSearchOptions) {
+    if (options.caseIds.length === 0) return [];
+
+    const { results } = await azureSearchService.hybridSearchDocuments(query, queryVector, {
+      caseIds: options.caseIds,
+      documentIds: options.documentIds,
+      top: options.top,
+    });
+    return results;
+  }
+
+  async indexDocument({ document, content, summary, documentType, summaryVector, chunks }: IndexableDocument) {
+    const searchDoc: SearchDocument = {
+      id: document.id,
+      fileName: document.fileName,
+      content,
+      documentType,
+      caseId: document.caseId,
+      uploadDate: document.createdAt ? new Date(document.createdAt).toISOString() : new Date().toISOString(),
+      summary,
+      tags: ['analyzed', 'processed'],
+      contentVector: chunks[0]?.embedding || undefined,
+      summaryVector,
+    };
+    await azureSearchService.indexDocument(searchDoc);
+
+    await azureSearchService.indexDocumentChunks(document.id, chunks
+      .filter(chunk => chunk.embedding)
+      .map(chunk => ({
+        id: chunk.id,
+        documentId: chunk.documentId,
+        caseId: chunk.caseId,
+        fileName: document.fileName,
+        chunkIndex: chunk.chunkIndex,
+        pageStart: chunk.pageStart,
+        pageEnd: chunk.pageEnd,
+        content: chunk.content,
+        contentVector: chunk.embedding || undefined,
+      })));
+  }
+
+  async removeDocument(documentId: string) {
+    await azureSearchService.deleteDocumentChunks(documentId);
+    await azureSearchService.deleteDocument(documentId);
+  }
+}
+
+// SEARCH_BACKEND=azure|postgres; without it, Azure is used whenever it is configured
+function createSearchBackend(): SearchBackend {
+  const configured = process.env.SEARCH_BACKEND?.toLowerCase();
+
+  if (configured === 'postgres') {
+    return new PostgresSearchBackend();
+  }
+
+  if (azureSearchService.isAvailable()) {
+    return new AzureSearchBackend();
+  }
+
+  if (configured === 'azure') {
+    console.warn("⚠️  SEARCH_BACKEND=azure but Azure Search is not configured, falling back to Postgres search");
+  }
+  return new PostgresSearchBackend();
+}
+
+export const searchBackend = createSearchBackend();
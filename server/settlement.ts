@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { amountInCents } from "./billFingerprint";
+import type { Lien } from "@shared/schema";
+
+const dollarAmount = z.coerce.number().min(0).max(1_000_000_000);
+
+export const settlementInputSchema = z.object({
+  grossSettlement: dollarAmount,
+  attorneyFeePercent: z.coerce.number().min(0).max(100),
+  costs: z.array(z.object({
+    description: z.string().min(1, "Each cost needs a description"),
+    amount: dollarAmount,
+  })).default([]),
+  // What-if payoff amounts by lien id, e.g. a reduction that hasn't been agreed yet
+  lienOverrides: z.record(dollarAmount).default({}),
+});
+
+export type SettlementInput = z.infer<typeof settlementInputSchema>;
+
+export interface LienPayoff {
+  lienId: string;
+  lienholder: string;
+  lienType: string;
+  status: string;
+  asserted: number;
+  payoff: number;
+}
+
+export interface SettlementBreakdown {
+  grossSettlement: number;
+  attorneyFee: number;
+  costs: Array<{ description: string; amount: number }>;
+  totalCosts: number;
+  liens: LienPayoff[];
+  totalLiens: number;
+  netToClient: number;
+}
+
+// The amount that will actually be paid to the lienholder out of the settlement: nothing for a
+// waived lien, otherwise the negotiated amount when there is one and the asserted amount when not
+export function lienPayoffCents(lien: Lien, override?: number): number {
+  if (override !== undefined) return Math.round(override * 100);
+  if (lien.status === 'waived') return 0;
+  return amountInCents(lien.negotiatedAmount ?? lien.assertedAmount);
+}
+
+// Net to client = gross settlement - attorney fee (on the gross) - case costs - lien payoffs.
+// Worked in cents; a negative net means the settlement doesn't cover what's owed.
+export function computeSettlement(input: SettlementInput, liens: Lien[]): SettlementBreakdown {
+  const gross = Math.round(input.grossSettlement * 100);
+  const fee = Math.round(gross * input.attorneyFeePercent / 100);
+  const costs = input.costs.map(cost => ({ description: cost.description, cents: Math.round(cost.amount * 100) }));
+  const totalCosts = costs.reduce((sum, cost) => sum + cost.cents, 0);
+
+  const payoffs = liens.map(lien => ({
+    lien,
+    cents: lienPayoffCents(lien, input.lienOverrides[lien.id]),
+  }));
+  const totalLiens = payoffs.reduce((sum, payoff) => sum + payoff.cents, 0);
+
+  return {
+    grossSettlement: gross / 100,
+    attorneyFee: fee / 100,
+    costs: costs.map(cost => ({ description: cost.description, amount: cost.cents / 100 })),
+    totalCosts: totalCosts / 100,
+    liens: payoffs.map(({ lien, cents }) => ({
+      lienId: lien.id,
+      lienholder: lien.lienholder,
+      lienType: lien.lienType,
+      status: lien.status,
+      asserted: amountInCents(lien.assertedAmount) / 100,
+      payoff: cents / 100,
+    })),
+    totalLiens: totalLiens / 100,
+    netToClient: (gross - fee - totalCosts - totalLiens) / 100,
+  };
+}
+
+export async function calculateCaseSettlement(caseId: string, input: SettlementInput): Promise<SettlementBreakdown> {
+  const liens = await storage.getLiensByCase(caseId);
+  return computeSettlement(input, liens);
+}
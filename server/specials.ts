@@ -0,0 +1,119 @@
+import { storage } from "./storage";
+import { amountInCents, normalizeProvider } from "./billFingerprint";
+import type { MedicalBill, MedicalBillPayment } from "@shared/schema";
+
+// Billed, paid and outstanding amounts ("specials") for a case's medical bills. Adjustments and
+// write-offs reduce the balance without counting as paid. Sums are done in cents to avoid
+// floating point drift and returned in dollars.
+export interface SpecialsBalance {
+  billed: number;
+  paid: number;
+  adjusted: number;
+  outstanding: number;
+}
+
+export interface BillBalance extends SpecialsBalance {
+  billId: string;
+  provider: string;
+  serviceDate: Date;
+  paymentCount: number;
+}
+
+export interface ProviderBalance extends SpecialsBalance {
+  provider: string;
+  billCount: number;
+}
+
+export interface CaseSpecials {
+  totals: SpecialsBalance;
+  byProvider: ProviderBalance[];
+  byPayerType: Array<{ payerType: string; paid: number; adjusted: number }>;
+  bills: BillBalance[];
+}
+
+interface CentsBalance {
+  billed: number;
+  paid: number;
+  adjusted: number;
+}
+
+function toDollars(balance: CentsBalance): SpecialsBalance {
+  return {
+    billed: balance.billed / 100,
+    paid: balance.paid / 100,
+    adjusted: balance.adjusted / 100,
+    outstanding: (balance.billed - balance.paid - balance.adjusted) / 100,
+  };
+}
+
+function addTo(target: CentsBalance, source: CentsBalance) {
+  target.billed += source.billed;
+  target.paid += source.paid;
+  target.adjusted += source.adjusted;
+}
+
+export function computeSpecials(bills: MedicalBill[], payments: MedicalBillPayment[]): CaseSpecials {
+  const paymentsByBill = new Map<string, MedicalBillPayment[]>();
+  for (const payment of payments) {
+    paymentsByBill.set(payment.billId, [...(paymentsByBill.get(payment.billId) || []), payment]);
+  }
+
+  const totals: CentsBalance = { billed: 0, paid: 0, adjusted: 0 };
+  const providers = new Map<string, { provider: string; billCount: number; balance: CentsBalance }>();
+  const payerTypes = new Map<string, { paid: number; adjusted: number }>();
+  const billBalances: BillBalance[] = [];
+
+  for (const bill of bills) {
+    const billPayments = paymentsByBill.get(bill.id) || [];
+    const balance: CentsBalance = { billed: amountInCents(bill.amount), paid: 0, adjusted: 0 };
+
+    for (const payment of billPayments) {
+      const cents = amountInCents(payment.amount);
+      const byPayer = payerTypes.get(payment.payerType) || { paid: 0, adjusted: 0 };
+      if (payment.entryType === 'payment') {
+        balance.paid += cents;
+        byPayer.paid += cents;
+      } else {
+        balance.adjusted += cents;
+        byPayer.adjusted += cents;
+      }
+      payerTypes.set(payment.payerType, byPayer);
+    }
+
+    addTo(totals, balance);
+
+    // Group spelling variants of the same provider together
+    const providerKey = normalizeProvider(bill.provider) || bill.provider;
+    const provider = providers.get(providerKey) || { provider: bill.provider, billCount: 0, balance: { billed: 0, paid: 0, adjusted: 0 } };
+    provider.billCount += 1;
+    addTo(provider.balance, balance);
+    providers.set(providerKey, provider);
+
+    billBalances.push({
+      billId: bill.id,
+      provider: bill.provider,
+      serviceDate: bill.serviceDate,
+      paymentCount: billPayments.length,
+      ...toDollars(balance),
+    });
+  }
+
+  return {
+    totals: toDollars(totals),
+    byProvider: Array.from(providers.values())
+      .map(({ provider, billCount, balance }) => ({ provider, billCount, ...toDollars(balance) }))
+      .sort((a, b) => b.billed - a.billed),
+    byPayerType: Array.from(payerTypes.entries())
+      .map(([payerType, sums]) => ({ payerType, paid: sums.paid / 100, adjusted: sums.adjusted / 100 }))
+      .sort((a, b) => b.paid - a.paid),
+    bills: billBalances,
+  };
+}
+
+export async function getCaseSpecials(caseId: string): Promise<CaseSpecials> {
+  const [bills, payments] = await Promise.all([
+    storage.getMedicalBillsByCase(caseId),
+    storage.getMedicalBillPaymentsByCase(caseId),
+  ]);
+  return computeSpecials(bills, payments);
+}
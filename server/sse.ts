@@ -0,0 +1,59 @@
+import type { Response } from "express";
+import { isAbortError } from "./aiService";
+
+// Streams a completion to the client as Server-Sent Events:
+//   event: token  data: {"content": "..."}   for each generated delta
+//   event: done   data: <result of persist>  once the answer has been stored
+//   event: error  data: {"message": "..."}
+// When the client disconnects (the stop button) the completion is aborted and whatever was
+// generated so far is still passed to persist with stopped = true.
+export async function streamCompletion<T>(
+  res: Response,
+  generate: (signal: AbortSignal) => AsyncGenerator<string>,
+  persist: (content: string, stopped: boolean) => Promise<T>,
+  errorMessage: string
+): Promise<void> {
+  const controller = new AbortController();
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  let content = "";
+  try {
+    for await (const delta of generate(controller.signal)) {
+      content += delta;
+      send("token", { content: delta });
+    }
+    const result = await persist(content, false);
+    send("done", result);
+  } catch (error) {
+    if (controller.signal.aborted || isAbortError(error)) {
+      console.log(`⏹️  Chat stream stopped by client after ${content.length} characters`);
+      try {
+        await persist(content, true);
+      } catch (persistError) {
+        console.error("Error saving stopped chat response:", persistError);
+      }
+    } else {
+      console.error(`${errorMessage}:`, error);
+      send("error", { message: errorMessage });
+    }
+  } finally {
+    if (!res.writableEnded) res.end();
+  }
+}
@@ -1,31 +1,152 @@
 import {
   users,
+  organizations,
+  organizationMemberships,
+  organizationInvitations,
   cases,
+  caseAssignments,
   documents,
   medicalBills,
+  medicalBillDuplicates,
+  medicalBillLineItems,
+  medicalBillPayments,
+  proposedBills,
+  liens,
+  lienBills,
+  lienDocuments,
   aiChatSessions,
   aiChatMessages,
   demandLetters,
+  demandLetterVersions,
+  demandLetterStatusChanges,
   aiPrompts,
+  aiPromptVersions,
+  letterheads,
+  letterTemplates,
+  processingJobs,
+  documentProcessingRuns,
+  documentChunks,
+  auditEvents,
   type User,
   type InsertUser,
+  type Organization,
+  type InsertOrganization,
+  type OrganizationMembership,
+  type OrganizationInvitation,
+  type OrganizationRole,
   type Case,
   type InsertCase,
+  type CaseAssignment,
+  type InsertCaseAssignment,
   type Document,
   type InsertDocument,
   type MedicalBill,
   type InsertMedicalBill,
+  type MedicalBillDuplicate,
+  type MedicalBillLineItem,
+  type InsertMedicalBillLineItem,
+  type MedicalBillPayment,
+  type InsertMedicalBillPayment,
+  type InsertMedicalBillDuplicate,
+  type ProposedBill,
+  type InsertProposedBill,
+  type Lien,
+  type InsertLien,
+  type LienBill,
+  type LienDocument,
+  type InsertLienDocument,
   type AiChatSession,
   type InsertAiChatSession,
   type AiChatMessage,
   type InsertAiChatMessage,
   type DemandLetter,
   type InsertDemandLetter,
+  type DemandLetterVersion,
+  type DemandLetterStatusChange,
   type AiPrompt,
   type InsertAiPrompt,
+  type AiPromptVersion,
+  type Letterhead,
+  type InsertLetterhead,
+  type LetterTemplate,
+  type InsertLetterTemplate,
+  type ProcessingJob,
+  type InsertProcessingJob,
+  type DocumentProcessingRun,
+  type InsertDocumentProcessingRun,
+  type DocumentChunk,
+  type InsertDocumentChunk,
+  type AuditEvent,
+  type InsertAuditEvent,
 } from "@shared/schema";
+import { createHash } from "crypto";
 import { db } from "./db";
-import { eq, desc, and, asc } from "drizzle-orm";
+import { billFingerprint, amountInCents } from "./billFingerprint";
+import { eq, desc, and, or, asc, gt, gte, lte, lt, inArray, isNull, sql, type SQL } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// How firm members and case team members are listed
+export type UserSummary = Pick<User, 'username' | 'firstName' | 'lastName' | 'email'>;
+
+// A chunk's text and where it sits, without the embedding
+export type ChunkText = Pick<DocumentChunk, 'id' | 'documentId' | 'content' | 'pageStart' | 'pageEnd'>;
+
+export type AuditEventFilters = {
+  organizationId?: string;
+  actorId?: string;
+  caseId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+};
+
+export type AuditChainVerification = {
+  valid: boolean;
+  checked: number;
+  brokenAtSequence: number | null;
+};
+
+// Serializes appends so every event chains onto the one committed before it
+const AUDIT_CHAIN_LOCK_ID = 742001;
+const AUDIT_VERIFY_BATCH_SIZE = 1000;
+
+// JSON with object keys sorted, so jsonb's reordering of stored keys doesn't change the hash
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function hashAuditEvent(event: Omit<AuditEvent, 'id' | 'sequence' | 'hash'>): string {
+  return createHash("sha256")
+    .update(canonicalJson([
+      event.prevHash,
+      event.createdAt.toISOString(),
+      event.actorId,
+      event.organizationId,
+      event.action,
+      event.entityType,
+      event.entityId,
+      event.caseId,
+      event.method,
+      event.path,
+      event.statusCode,
+      event.ipAddress,
+      event.userAgent,
+      event.changes,
+    ]))
+    .digest("hex");
+}
 
 export interface IStorage {
   // User operations
@@ -37,17 +158,40 @@ export interface IStorage {
   updateUserApiKey(id: string, apiKey: string): Promise<boolean>;
   updateUserAIConfig(id: string, config: any): Promise<boolean>;
 
+  // Organization operations
+  createOrganization(name: string, userId: string, moveCases: boolean): Promise<Organization>;
+  getOrganizationById(id: string): Promise<Organization | undefined>;
+  updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization>;
+  getOrganizationMembership(userId: string): Promise<OrganizationMembership | undefined>;
+  getOrganizationMembers(organizationId: string): Promise<Array<OrganizationMembership & UserSummary>>;
+  updateOrganizationMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMembership | undefined>;
+  removeOrganizationMember(organizationId: string, userId: string): Promise<void>;
+  createOrganizationInvitation(organizationId: string, userId: string, role: OrganizationRole, invitedBy: string): Promise<OrganizationInvitation | undefined>;
+  getOrganizationInvitationById(id: string): Promise<OrganizationInvitation | undefined>;
+  getOrganizationInvitations(organizationId: string): Promise<Array<OrganizationInvitation & UserSummary>>;
+  getInvitationsForUser(userId: string): Promise<Array<OrganizationInvitation & { organizationName: string }>>;
+  acceptOrganizationInvitation(invitation: OrganizationInvitation, moveCases: boolean): Promise<OrganizationMembership>;
+  deleteOrganizationInvitation(id: string): Promise<void>;
+
   // Case operations
   createCase(caseData: InsertCase): Promise<Case>;
+  // Every case the user can open, not only the ones they created
   getCases(userId: string): Promise<Case[]>;
   getCase(id: string): Promise<Case | undefined>;
   getCaseById(id: string): Promise<Case | undefined>;
   updateCase(id: string, updates: Partial<InsertCase>): Promise<Case>;
   deleteCase(id: string): Promise<void>;
 
+  // Case team operations
+  getCaseAssignments(caseId: string): Promise<Array<CaseAssignment & UserSummary>>;
+  isAssignedToCase(caseId: string, userId: string): Promise<boolean>;
+  addCaseAssignment(data: InsertCaseAssignment): Promise<CaseAssignment | undefined>;
+  removeCaseAssignment(caseId: string, userId: string): Promise<void>;
+
   // Document operations
   createDocument(documentData: InsertDocument): Promise<Document>;
   getDocumentsByCase(caseId: string): Promise<Document[]>;
+  getDocumentsByUser(userId: string): Promise<Document[]>;
   getDocumentById(id: string): Promise<Document | undefined>;
   updateDocument(id: string, updates: Partial<InsertDocument>): Promise<Document>;
   deleteDocument(id: string): Promise<void>;
@@ -58,6 +202,56 @@ export interface IStorage {
   getMedicalBillById(id: string): Promise<MedicalBill | undefined>;
   updateMedicalBill(id: string, updates: Partial<InsertMedicalBill>): Promise<MedicalBill>;
   deleteMedicalBill(id: string): Promise<void>;
+  getMedicalBillLineItems(billId: string): Promise<MedicalBillLineItem[]>;
+  replaceMedicalBillLineItems(
+    billId: string,
+    items: Omit<InsertMedicalBillLineItem, 'billId' | 'lineNumber'>[]
+  ): Promise<{ bill: MedicalBill; lineItems: MedicalBillLineItem[] }>;
+
+  // Medical Bill Payment operations
+  createMedicalBillPayment(paymentData: InsertMedicalBillPayment): Promise<MedicalBillPayment>;
+  getMedicalBillPayments(billId: string): Promise<MedicalBillPayment[]>;
+  getMedicalBillPaymentsByCase(caseId: string): Promise<MedicalBillPayment[]>;
+  getMedicalBillPaymentById(id: string): Promise<MedicalBillPayment | undefined>;
+  deleteMedicalBillPayment(id: string): Promise<void>;
+  moveMedicalBillPayments(fromBillId: string, toBillId: string): Promise<void>;
+
+  // Medical Bill Duplicate operations
+  createMedicalBillDuplicate(data: InsertMedicalBillDuplicate): Promise<MedicalBillDuplicate | undefined>;
+  getMedicalBillDuplicatesByCase(caseId: string, status?: string): Promise<MedicalBillDuplicate[]>;
+  getMedicalBillDuplicateById(id: string): Promise<MedicalBillDuplicate | undefined>;
+  getPendingDuplicatesForBill(billId: string): Promise<MedicalBillDuplicate[]>;
+  updateMedicalBillDuplicate(id: string, updates: Partial<InsertMedicalBillDuplicate>): Promise<MedicalBillDuplicate>;
+  resolveMedicalBillDuplicate(
+    id: string,
+    decision: Partial<InsertMedicalBillDuplicate>,
+    removal?: { bill: MedicalBill; mergeInto?: { billId: string; updates: Partial<InsertMedicalBill> } }
+  ): Promise<MedicalBillDuplicate | undefined>;
+
+  // Proposed Bill operations
+  replacePendingProposedBills(documentId: string, proposals: InsertProposedBill[]): Promise<ProposedBill[]>;
+  getProposedBillsByCase(caseId: string, status?: string): Promise<ProposedBill[]>;
+  getProposedBillById(id: string): Promise<ProposedBill | undefined>;
+  reviewProposedBill(id: string, review: Partial<InsertProposedBill>): Promise<ProposedBill | undefined>;
+  acceptProposedBill(
+    id: string,
+    review: Partial<InsertProposedBill>,
+    billData: InsertMedicalBill,
+    lineItems: Omit<InsertMedicalBillLineItem, 'billId' | 'lineNumber'>[],
+    keepAmount: boolean
+  ): Promise<{ bill: MedicalBill; proposal: ProposedBill } | undefined>;
+
+  // Lien operations
+  createLien(lienData: InsertLien): Promise<Lien>;
+  getLiensByCase(caseId: string): Promise<Lien[]>;
+  getLienById(id: string): Promise<Lien | undefined>;
+  updateLien(id: string, updates: Partial<InsertLien>): Promise<Lien>;
+  deleteLien(id: string): Promise<void>;
+  getLienBillsByCase(caseId: string): Promise<LienBill[]>;
+  setLienBills(lienId: string, billIds: string[]): Promise<LienBill[]>;
+  addLienDocument(data: InsertLienDocument): Promise<LienDocument>;
+  getLienDocumentsByCase(caseId: string): Promise<LienDocument[]>;
+  removeLienDocument(lienId: string, documentId: string): Promise<void>;
 
   // AI Chat operations
   createChatSession(sessionData: InsertAiChatSession): Promise<AiChatSession>;
@@ -79,14 +273,71 @@ export interface IStorage {
   getDemandLettersByCase(caseId: string): Promise<DemandLetter[]>;
   getDemandLetterById(id: string): Promise<DemandLetter | undefined>;
   updateDemandLetter(id: string, updates: Partial<InsertDemandLetter>): Promise<DemandLetter>;
+  // Applies the edits and records the result as a new version
+  saveDemandLetter(id: string, updates: Partial<InsertDemandLetter>, editedBy: string, note?: string): Promise<DemandLetter>;
+  getDemandLetterVersions(letterId: string): Promise<DemandLetterVersion[]>;
+  getDemandLetterVersionById(id: string): Promise<DemandLetterVersion | undefined>;
+  // Returns undefined when the letter is no longer in fromStatus
+  changeDemandLetterStatus(
+    id: string,
+    fromStatus: string,
+    toStatus: string,
+    changedBy: string,
+    note?: string
+  ): Promise<DemandLetter | undefined>;
+  getDemandLetterStatusChanges(letterId: string): Promise<Array<DemandLetterStatusChange & { changedByName: string }>>;
+
+  // Letterhead operations
+  createLetterhead(letterheadData: InsertLetterhead): Promise<Letterhead>;
+  getLetterheads(userId: string): Promise<Letterhead[]>;
+  getLetterheadById(id: string): Promise<Letterhead | undefined>;
+  getDefaultLetterhead(userId: string): Promise<Letterhead | undefined>;
+  updateLetterhead(id: string, updates: Partial<Letterhead>): Promise<Letterhead>;
+  deleteLetterhead(id: string): Promise<void>;
+
+  // Letter template operations
+  createLetterTemplate(templateData: InsertLetterTemplate): Promise<LetterTemplate>;
+  getLetterTemplates(userId: string): Promise<LetterTemplate[]>;
+  getLetterTemplateById(id: string): Promise<LetterTemplate | undefined>;
+  getDefaultLetterTemplate(userId: string): Promise<LetterTemplate | undefined>;
+  updateLetterTemplate(id: string, updates: Partial<InsertLetterTemplate>): Promise<LetterTemplate>;
+  deleteLetterTemplate(id: string): Promise<void>;
 
   // AI Prompt operations
   createAiPrompt(promptData: InsertAiPrompt): Promise<AiPrompt>;
   getAiPrompts(userId: string): Promise<AiPrompt[]>;
   getAiPromptById(id: string): Promise<AiPrompt | undefined>;
   getAiPromptByType(userId: string, type: string): Promise<AiPrompt | undefined>;
-  updateAiPrompt(id: string, updates: Partial<InsertAiPrompt>): Promise<AiPrompt>;
+  updateAiPrompt(id: string, updates: Partial<InsertAiPrompt>, editedBy?: string): Promise<AiPrompt>;
   deleteAiPrompt(id: string): Promise<void>;
+  createAiPromptVersion(promptId: string, text: string, createdBy: string | null, note?: string): Promise<AiPromptVersion>;
+  getAiPromptVersions(promptId: string): Promise<AiPromptVersion[]>;
+  getAiPromptVersionById(id: string): Promise<AiPromptVersion | undefined>;
+  setAiPromptPinnedVersion(id: string, versionId: string | null): Promise<AiPrompt>;
+
+  // Processing Job operations
+  createProcessingJob(jobData: InsertProcessingJob): Promise<ProcessingJob>;
+  getProcessingJobById(id: string): Promise<ProcessingJob | undefined>;
+  getProcessingJobsByDocument(documentId: string): Promise<ProcessingJob[]>;
+  updateProcessingJob(id: string, updates: Partial<InsertProcessingJob>): Promise<ProcessingJob>;
+  claimNextProcessingJob(workerId: string): Promise<ProcessingJob | undefined>;
+  requeueStaleProcessingJobs(lockedBefore: Date): Promise<number>;
+
+  // Document Chunk operations
+  replaceDocumentChunks(documentId: string, chunks: InsertDocumentChunk[]): Promise<DocumentChunk[]>;
+  getDocumentChunks(documentId: string): Promise<DocumentChunk[]>;
+  getDocumentChunksByCase(caseId: string): Promise<ChunkText[]>;
+
+  // Document Processing Run operations
+  createProcessingRun(runData: InsertDocumentProcessingRun): Promise<DocumentProcessingRun>;
+  updateProcessingRun(id: string, updates: Partial<InsertDocumentProcessingRun>): Promise<DocumentProcessingRun>;
+  getProcessingRunsByDocument(documentId: string): Promise<DocumentProcessingRun[]>;
+  getCompletedProcessingRuns(documentId: string, jobIds: string[]): Promise<DocumentProcessingRun[]>;
+
+  // Audit operations
+  createAuditEvent(eventData: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(filters: AuditEventFilters): Promise<Array<AuditEvent & { actorUsername: string | null }>>;
+  verifyAuditChain(): Promise<AuditChainVerification>;
 
   // Statistics
   getDashboardStats(userId: string): Promise<{
@@ -160,6 +411,9 @@ export class DatabaseStorage implements IStorage {
     azureOpenAIApiKey?: string;
     azureOpenAIVersion?: string;
     azureModelDeployment?: string;
+    aiProvider?: string | null;
+    aiBaseUrl?: string | null;
+    aiModel?: string | null;
   }): Promise<boolean> {
     await db
       .update(users)
@@ -169,9 +423,202 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
+  // Organization operations
+  // The creator becomes the firm's first admin. Their existing cases only move into the firm when
+  // they ask for it; otherwise they stay solo cases only the creator can open.
+  async createOrganization(name: string, userId: string, moveCases: boolean): Promise<Organization> {
+    return await db.transaction(async (tx) => {
+      const [organization] = await tx.insert(organizations).values({ name, createdBy: userId }).returning();
+      await tx.insert(organizationMemberships).values({ organizationId: organization.id, userId, role: 'admin' });
+      if (moveCases) {
+        await this.moveSoloCasesIntoOrganization(tx, userId, organization.id);
+      }
+      return organization;
+    });
+  }
+
+  async getOrganizationById(id: string): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization> {
+    const [organization] = await db
+      .update(organizations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization;
+  }
+
+  async getOrganizationMembership(userId: string): Promise<OrganizationMembership | undefined> {
+    const [membership] = await db
+      .select()
+      .from(organizationMemberships)
+      .where(eq(organizationMemberships.userId, userId));
+    return membership;
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<Array<OrganizationMembership & UserSummary>> {
+    const rows = await db
+      .select({
+        membership: organizationMemberships,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(organizationMemberships)
+      .innerJoin(users, eq(organizationMemberships.userId, users.id))
+      .where(eq(organizationMemberships.organizationId, organizationId))
+      .orderBy(asc(users.username));
+    return rows.map(({ membership, ...user }) => ({ ...membership, ...user }));
+  }
+
+  async updateOrganizationMemberRole(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole
+  ): Promise<OrganizationMembership | undefined> {
+    const [membership] = await db
+      .update(organizationMemberships)
+      .set({ role })
+      .where(and(eq(organizationMemberships.organizationId, organizationId), eq(organizationMemberships.userId, userId)))
+      .returning();
+    return membership;
+  }
+
+  // The member's cases stay with the firm; they're taken off the teams of its cases
+  async removeOrganizationMember(organizationId: string, userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(caseAssignments)
+        .where(and(
+          eq(caseAssignments.userId, userId),
+          inArray(caseAssignments.caseId, tx.select({ id: cases.id }).from(cases).where(eq(cases.organizationId, organizationId)))
+        ));
+      await tx
+        .delete(organizationMemberships)
+        .where(and(eq(organizationMemberships.organizationId, organizationId), eq(organizationMemberships.userId, userId)));
+    });
+  }
+
+  // Returns undefined when the user already has an invitation from this firm
+  async createOrganizationInvitation(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+    invitedBy: string
+  ): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await db
+      .insert(organizationInvitations)
+      .values({ organizationId, userId, role, invitedBy })
+      .onConflictDoNothing()
+      .returning();
+    return invitation;
+  }
+
+  async getOrganizationInvitationById(id: string): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await db.select().from(organizationInvitations).where(eq(organizationInvitations.id, id));
+    return invitation;
+  }
+
+  async getOrganizationInvitations(organizationId: string): Promise<Array<OrganizationInvitation & UserSummary>> {
+    const rows = await db
+      .select({
+        invitation: organizationInvitations,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(organizationInvitations)
+      .innerJoin(users, eq(organizationInvitations.userId, users.id))
+      .where(eq(organizationInvitations.organizationId, organizationId))
+      .orderBy(asc(users.username));
+    return rows.map(({ invitation, ...user }) => ({ ...invitation, ...user }));
+  }
+
+  async getInvitationsForUser(userId: string): Promise<Array<OrganizationInvitation & { organizationName: string }>> {
+    const rows = await db
+      .select({ invitation: organizationInvitations, organizationName: organizations.name })
+      .from(organizationInvitations)
+      .innerJoin(organizations, eq(organizationInvitations.organizationId, organizations.id))
+      .where(eq(organizationInvitations.userId, userId))
+      .orderBy(desc(organizationInvitations.createdAt));
+    return rows.map(({ invitation, organizationName }) => ({ ...invitation, organizationName }));
+  }
+
+  // Like the firm's creator, the new member brings their existing cases only if they choose to.
+  // Joining one firm answers every other invitation the user had.
+  async acceptOrganizationInvitation(invitation: OrganizationInvitation, moveCases: boolean): Promise<OrganizationMembership> {
+    return await db.transaction(async (tx) => {
+      const membership = await this.insertOrganizationMember(
+        tx,
+        invitation.organizationId,
+        invitation.userId,
+        invitation.role as OrganizationRole,
+        moveCases
+      );
+      await tx.delete(organizationInvitations).where(eq(organizationInvitations.userId, invitation.userId));
+      return membership;
+    });
+  }
+
+  async deleteOrganizationInvitation(id: string): Promise<void> {
+    await db.delete(organizationInvitations).where(eq(organizationInvitations.id, id));
+  }
+
+  private async insertOrganizationMember(
+    tx: Transaction,
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+    moveCases: boolean
+  ): Promise<OrganizationMembership> {
+    const [membership] = await tx
+      .insert(organizationMemberships)
+      .values({ organizationId, userId, role })
+      .returning();
+    if (moveCases) {
+      await this.moveSoloCasesIntoOrganization(tx, userId, organizationId);
+    }
+    return membership;
+  }
+
+  private async moveSoloCasesIntoOrganization(tx: Transaction, userId: string, organizationId: string): Promise<void> {
+    await tx
+      .update(cases)
+      .set({ organizationId })
+      .where(and(eq(cases.createdBy, userId), isNull(cases.organizationId)));
+  }
+
+  // Cases the user can open: their own cases outside any firm, and within their firm every case
+  // for an admin, or the ones they created or are on the team of for everyone else.
+  // Keep in step with getCaseAccess in authorization.ts.
+  private async accessibleCases(userId: string): Promise<SQL> {
+    const membership = await this.getOrganizationMembership(userId);
+    const soloCases = and(eq(cases.createdBy, userId), isNull(cases.organizationId))!;
+    if (!membership) return soloCases;
+
+    const firmCases = eq(cases.organizationId, membership.organizationId);
+    if (membership.role === 'admin') return or(soloCases, firmCases)!;
+
+    const assignedCaseIds = db
+      .select({ caseId: caseAssignments.caseId })
+      .from(caseAssignments)
+      .where(eq(caseAssignments.userId, userId));
+    return or(soloCases, and(firmCases, or(eq(cases.createdBy, userId), inArray(cases.id, assignedCaseIds))))!;
+  }
+
   // Case operations
+  // A new case belongs to its creator's firm, whatever the request said
   async createCase(caseData: InsertCase): Promise<Case> {
-    const [caseRecord] = await db.insert(cases).values(caseData).returning();
+    const membership = await this.getOrganizationMembership(caseData.createdBy);
+    const [caseRecord] = await db
+      .insert(cases)
+      .values({ ...caseData, organizationId: membership?.organizationId ?? null })
+      .returning();
     return caseRecord;
   }
 
@@ -179,7 +626,7 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(cases)
-      .where(eq(cases.createdBy, userId))
+      .where(await this.accessibleCases(userId))
       .orderBy(desc(cases.updatedAt));
   }
 
@@ -206,6 +653,47 @@ export class DatabaseStorage implements IStorage {
     await db.delete(cases).where(eq(cases.id, id));
   }
 
+  // Case team operations
+  async getCaseAssignments(caseId: string): Promise<Array<CaseAssignment & UserSummary>> {
+    const rows = await db
+      .select({
+        assignment: caseAssignments,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(caseAssignments)
+      .innerJoin(users, eq(caseAssignments.userId, users.id))
+      .where(eq(caseAssignments.caseId, caseId))
+      .orderBy(asc(caseAssignments.createdAt));
+    return rows.map(({ assignment, ...user }) => ({ ...assignment, ...user }));
+  }
+
+  async isAssignedToCase(caseId: string, userId: string): Promise<boolean> {
+    const [assignment] = await db
+      .select({ id: caseAssignments.id })
+      .from(caseAssignments)
+      .where(and(eq(caseAssignments.caseId, caseId), eq(caseAssignments.userId, userId)));
+    return !!assignment;
+  }
+
+  // Assigning someone already on the team is a no-op and returns undefined
+  async addCaseAssignment(data: InsertCaseAssignment): Promise<CaseAssignment | undefined> {
+    const [assignment] = await db
+      .insert(caseAssignments)
+      .values(data)
+      .onConflictDoNothing()
+      .returning();
+    return assignment;
+  }
+
+  async removeCaseAssignment(caseId: string, userId: string): Promise<void> {
+    await db
+      .delete(caseAssignments)
+      .where(and(eq(caseAssignments.caseId, caseId), eq(caseAssignments.userId, userId)));
+  }
+
   // Document operations
   async createDocument(documentData: InsertDocument): Promise<Document> {
     const [document] = await db.insert(documents).values(documentData).returning();
@@ -220,11 +708,13 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(documents.createdAt));
   }
 
+  // Documents of every case the user can open
   async getDocumentsByUser(userId: string): Promise<Document[]> {
+    const caseIds = db.select({ id: cases.id }).from(cases).where(await this.accessibleCases(userId));
     return await db
       .select()
       .from(documents)
-      .where(eq(documents.uploadedBy, userId))
+      .where(inArray(documents.caseId, caseIds))
       .orderBy(desc(documents.createdAt));
   }
 
@@ -248,7 +738,10 @@ export class DatabaseStorage implements IStorage {
 
   // Medical Bill operations
   async createMedicalBill(billData: InsertMedicalBill): Promise<MedicalBill> {
-    const [bill] = await db.insert(medicalBills).values(billData).returning();
+    const [bill] = await db
+      .insert(medicalBills)
+      .values({ ...billData, fingerprint: billFingerprint(billData) })
+      .returning();
     return bill;
   }
 
@@ -266,9 +759,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateMedicalBill(id: string, updates: Partial<InsertMedicalBill>): Promise<MedicalBill> {
+    const [existing] = await db.select().from(medicalBills).where(eq(medicalBills.id, id));
+    const fingerprint = existing ? billFingerprint({ ...existing, ...updates }) : undefined;
+
     const [bill] = await db
       .update(medicalBills)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...updates, fingerprint, updatedAt: new Date() })
       .where(eq(medicalBills.id, id))
       .returning();
     return bill;
@@ -278,6 +774,355 @@ export class DatabaseStorage implements IStorage {
     await db.delete(medicalBills).where(eq(medicalBills.id, id));
   }
 
+  async getMedicalBillLineItems(billId: string): Promise<MedicalBillLineItem[]> {
+    return await db
+      .select()
+      .from(medicalBillLineItems)
+      .where(eq(medicalBillLineItems.billId, billId))
+      .orderBy(asc(medicalBillLineItems.lineNumber));
+  }
+
+  // Replaces all of a bill's line items and rolls their charges and procedure codes up into the bill
+  async replaceMedicalBillLineItems(
+    billId: string,
+    items: Omit<InsertMedicalBillLineItem, 'billId' | 'lineNumber'>[]
+  ): Promise<{ bill: MedicalBill; lineItems: MedicalBillLineItem[] }> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(medicalBills).where(eq(medicalBills.id, billId)).for("update");
+      if (!existing) {
+        throw new Error(`Medical bill ${billId} not found`);
+      }
+      return await this.writeMedicalBillLineItems(tx, existing, items);
+    });
+  }
+
+  // With keepAmount the bill keeps its own amount instead of taking the line items' total
+  private async writeMedicalBillLineItems(
+    tx: Transaction,
+    existing: MedicalBill,
+    items: Omit<InsertMedicalBillLineItem, 'billId' | 'lineNumber'>[],
+    keepAmount = false
+  ): Promise<{ bill: MedicalBill; lineItems: MedicalBillLineItem[] }> {
+    const billId = existing.id;
+    await tx.delete(medicalBillLineItems).where(eq(medicalBillLineItems.billId, billId));
+    if (items.length === 0) {
+      return { bill: existing, lineItems: [] };
+    }
+
+    const lineItems = await tx
+      .insert(medicalBillLineItems)
+      .values(items.map((item, index) => ({ ...item, billId, lineNumber: index + 1 })))
+      .returning();
+
+    const totalCents = lineItems.reduce((sum, item) => sum + amountInCents(item.charge), 0);
+    const procedureCodes = lineItems
+      .filter(item => item.code && (item.codeSystem === 'CPT' || item.codeSystem === 'HCPCS'))
+      .map(item => item.code as string);
+    const rollup = {
+      amount: keepAmount ? existing.amount : (totalCents / 100).toFixed(2),
+      cptCodes: procedureCodes.length > 0 ? Array.from(new Set(procedureCodes)) : existing.cptCodes,
+    };
+
+    const [bill] = await tx
+      .update(medicalBills)
+      .set({ ...rollup, fingerprint: billFingerprint({ ...existing, ...rollup }), updatedAt: new Date() })
+      .where(eq(medicalBills.id, billId))
+      .returning();
+    return { bill, lineItems };
+  }
+
+  // Medical Bill Payment operations
+  async createMedicalBillPayment(paymentData: InsertMedicalBillPayment): Promise<MedicalBillPayment> {
+    const [payment] = await db.insert(medicalBillPayments).values(paymentData).returning();
+    return payment;
+  }
+
+  async getMedicalBillPayments(billId: string): Promise<MedicalBillPayment[]> {
+    return await db
+      .select()
+      .from(medicalBillPayments)
+      .where(eq(medicalBillPayments.billId, billId))
+      .orderBy(asc(medicalBillPayments.paidAt));
+  }
+
+  async getMedicalBillPaymentsByCase(caseId: string): Promise<MedicalBillPayment[]> {
+    return await db
+      .select()
+      .from(medicalBillPayments)
+      .where(eq(medicalBillPayments.caseId, caseId))
+      .orderBy(asc(medicalBillPayments.paidAt));
+  }
+
+  async getMedicalBillPaymentById(id: string): Promise<MedicalBillPayment | undefined> {
+    const [payment] = await db.select().from(medicalBillPayments).where(eq(medicalBillPayments.id, id));
+    return payment;
+  }
+
+  async deleteMedicalBillPayment(id: string): Promise<void> {
+    await db.delete(medicalBillPayments).where(eq(medicalBillPayments.id, id));
+  }
+
+  async moveMedicalBillPayments(fromBillId: string, toBillId: string): Promise<void> {
+    await db
+      .update(medicalBillPayments)
+      .set({ billId: toBillId })
+      .where(eq(medicalBillPayments.billId, fromBillId));
+  }
+
+  // Medical Bill Duplicate operations
+  async createMedicalBillDuplicate(data: InsertMedicalBillDuplicate): Promise<MedicalBillDuplicate | undefined> {
+    // A pair that was already flagged (or decided on) isn't flagged again
+    const [duplicate] = await db
+      .insert(medicalBillDuplicates)
+      .values(data)
+      .onConflictDoNothing()
+      .returning();
+    return duplicate;
+  }
+
+  async getMedicalBillDuplicatesByCase(caseId: string, status?: string): Promise<MedicalBillDuplicate[]> {
+    return await db
+      .select()
+      .from(medicalBillDuplicates)
+      .where(status
+        ? and(eq(medicalBillDuplicates.caseId, caseId), eq(medicalBillDuplicates.status, status))
+        : eq(medicalBillDuplicates.caseId, caseId))
+      .orderBy(desc(medicalBillDuplicates.score), desc(medicalBillDuplicates.createdAt));
+  }
+
+  async getMedicalBillDuplicateById(id: string): Promise<MedicalBillDuplicate | undefined> {
+    const [duplicate] = await db.select().from(medicalBillDuplicates).where(eq(medicalBillDuplicates.id, id));
+    return duplicate;
+  }
+
+  async getPendingDuplicatesForBill(billId: string): Promise<MedicalBillDuplicate[]> {
+    return await db
+      .select()
+      .from(medicalBillDuplicates)
+      .where(and(
+        eq(medicalBillDuplicates.status, "pending"),
+        or(eq(medicalBillDuplicates.billId, billId), eq(medicalBillDuplicates.duplicateOfBillId, billId))
+      ));
+  }
+
+  async updateMedicalBillDuplicate(id: string, updates: Partial<InsertMedicalBillDuplicate>): Promise<MedicalBillDuplicate> {
+    const [duplicate] = await db
+      .update(medicalBillDuplicates)
+      .set(updates)
+      .where(eq(medicalBillDuplicates.id, id))
+      .returning();
+    return duplicate;
+  }
+
+  // Records the decision on a pending pair and, unless both bills are kept, removes the duplicate
+  // bill, first moving its payments and line items to the original when merging. Returns undefined
+  // when the pair was already resolved.
+  async resolveMedicalBillDuplicate(
+    id: string,
+    decision: Partial<InsertMedicalBillDuplicate>,
+    removal?: { bill: MedicalBill; mergeInto?: { billId: string; updates: Partial<InsertMedicalBill> } }
+  ): Promise<MedicalBillDuplicate | undefined> {
+    return await db.transaction(async (tx) => {
+      const [resolved] = await tx
+        .update(medicalBillDuplicates)
+        .set(decision)
+        .where(and(eq(medicalBillDuplicates.id, id), eq(medicalBillDuplicates.status, 'pending')))
+        .returning();
+      if (!resolved || !removal) return resolved;
+
+      const { bill, mergeInto } = removal;
+      if (mergeInto) {
+        const [original] = await tx.select().from(medicalBills).where(eq(medicalBills.id, mergeInto.billId)).for("update");
+        if (!original) {
+          throw new Error(`Medical bill ${mergeInto.billId} not found`);
+        }
+        await tx
+          .update(medicalBills)
+          .set({ ...mergeInto.updates, fingerprint: billFingerprint({ ...original, ...mergeInto.updates }), updatedAt: new Date() })
+          .where(eq(medicalBills.id, original.id));
+        await tx
+          .update(medicalBillPayments)
+          .set({ billId: original.id })
+          .where(eq(medicalBillPayments.billId, bill.id));
+        // The same charges itemized twice would be counted twice, so an itemized original keeps its own
+        const [itemized] = await tx
+          .select({ id: medicalBillLineItems.id })
+          .from(medicalBillLineItems)
+          .where(eq(medicalBillLineItems.billId, original.id))
+          .limit(1);
+        if (!itemized) {
+          await tx
+            .update(medicalBillLineItems)
+            .set({ billId: original.id })
+            .where(eq(medicalBillLineItems.billId, bill.id));
+        }
+      }
+
+      // Other pairs the removed bill was in can't be decided any more
+      await tx
+        .update(medicalBillDuplicates)
+        .set({ status: 'obsolete', note: "Bill was removed by another duplicate decision", resolvedAt: new Date() })
+        .where(and(
+          eq(medicalBillDuplicates.status, 'pending'),
+          or(eq(medicalBillDuplicates.billId, bill.id), eq(medicalBillDuplicates.duplicateOfBillId, bill.id))
+        ));
+      await tx.delete(medicalBills).where(eq(medicalBills.id, bill.id));
+      return { ...resolved, billId: null };
+    });
+  }
+
+  // Proposed Bill operations
+  async replacePendingProposedBills(documentId: string, proposals: InsertProposedBill[]): Promise<ProposedBill[]> {
+    // Re-extracting a document replaces its unreviewed proposals; reviewed ones are kept as history
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(proposedBills)
+        .where(and(eq(proposedBills.documentId, documentId), eq(proposedBills.status, 'proposed')));
+      if (proposals.length === 0) return [];
+      return await tx.insert(proposedBills).values(proposals).returning();
+    });
+  }
+
+  async getProposedBillsByCase(caseId: string, status?: string): Promise<ProposedBill[]> {
+    return await db
+      .select()
+      .from(proposedBills)
+      .where(status
+        ? and(eq(proposedBills.caseId, caseId), eq(proposedBills.status, status))
+        : eq(proposedBills.caseId, caseId))
+      .orderBy(asc(proposedBills.confidence), asc(proposedBills.createdAt));
+  }
+
+  async getProposedBillById(id: string): Promise<ProposedBill | undefined> {
+    const [proposal] = await db.select().from(proposedBills).where(eq(proposedBills.id, id));
+    return proposal;
+  }
+
+  // Undefined when the proposal was already reviewed, e.g. by a second click or another reviewer
+  async reviewProposedBill(id: string, review: Partial<InsertProposedBill>): Promise<ProposedBill | undefined> {
+    return await this.claimProposedBill(db, id, review);
+  }
+
+  // Claims the proposal before creating the bill, so only one of two concurrent accepts creates one
+  async acceptProposedBill(
+    id: string,
+    review: Partial<InsertProposedBill>,
+    billData: InsertMedicalBill,
+    lineItems: Omit<InsertMedicalBillLineItem, 'billId' | 'lineNumber'>[],
+    keepAmount: boolean
+  ): Promise<{ bill: MedicalBill; proposal: ProposedBill } | undefined> {
+    return await db.transaction(async (tx) => {
+      const claimed = await this.claimProposedBill(tx, id, { ...review, status: 'accepted' });
+      if (!claimed) return undefined;
+
+      const [created] = await tx
+        .insert(medicalBills)
+        .values({ ...billData, fingerprint: billFingerprint(billData) })
+        .returning();
+      const { bill } = await this.writeMedicalBillLineItems(tx, created, lineItems, keepAmount);
+
+      const [proposal] = await tx
+        .update(proposedBills)
+        .set({ acceptedBillId: bill.id })
+        .where(eq(proposedBills.id, id))
+        .returning();
+      return { bill, proposal };
+    });
+  }
+
+  private async claimProposedBill(
+    executor: Transaction | typeof db,
+    id: string,
+    review: Partial<InsertProposedBill>
+  ): Promise<ProposedBill | undefined> {
+    const [proposal] = await executor
+      .update(proposedBills)
+      .set(review)
+      .where(and(eq(proposedBills.id, id), eq(proposedBills.status, 'proposed')))
+      .returning();
+    return proposal;
+  }
+
+  // Lien operations
+  async createLien(lienData: InsertLien): Promise<Lien> {
+    const [lien] = await db.insert(liens).values(lienData).returning();
+    return lien;
+  }
+
+  async getLiensByCase(caseId: string): Promise<Lien[]> {
+    return await db
+      .select()
+      .from(liens)
+      .where(eq(liens.caseId, caseId))
+      .orderBy(asc(liens.createdAt));
+  }
+
+  async getLienById(id: string): Promise<Lien | undefined> {
+    const [lien] = await db.select().from(liens).where(eq(liens.id, id));
+    return lien;
+  }
+
+  async updateLien(id: string, updates: Partial<InsertLien>): Promise<Lien> {
+    const [lien] = await db
+      .update(liens)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(liens.id, id))
+      .returning();
+    return lien;
+  }
+
+  async deleteLien(id: string): Promise<void> {
+    await db.delete(liens).where(eq(liens.id, id));
+  }
+
+  async getLienBillsByCase(caseId: string): Promise<LienBill[]> {
+    const rows = await db
+      .select({ lienBill: lienBills })
+      .from(lienBills)
+      .innerJoin(liens, eq(lienBills.lienId, liens.id))
+      .where(eq(liens.caseId, caseId));
+    return rows.map(row => row.lienBill);
+  }
+
+  async setLienBills(lienId: string, billIds: string[]): Promise<LienBill[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(lienBills).where(eq(lienBills.lienId, lienId));
+      if (billIds.length === 0) return [];
+      return await tx
+        .insert(lienBills)
+        .values(Array.from(new Set(billIds)).map(billId => ({ lienId, billId })))
+        .returning();
+    });
+  }
+
+  async addLienDocument(data: InsertLienDocument): Promise<LienDocument> {
+    const [lienDocument] = await db
+      .insert(lienDocuments)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [lienDocuments.lienId, lienDocuments.documentId],
+        set: { description: data.description ?? null },
+      })
+      .returning();
+    return lienDocument;
+  }
+
+  async getLienDocumentsByCase(caseId: string): Promise<LienDocument[]> {
+    const rows = await db
+      .select({ lienDocument: lienDocuments })
+      .from(lienDocuments)
+      .innerJoin(liens, eq(lienDocuments.lienId, liens.id))
+      .where(eq(liens.caseId, caseId))
+      .orderBy(asc(lienDocuments.createdAt));
+    return rows.map(row => row.lienDocument);
+  }
+
+  async removeLienDocument(lienId: string, documentId: string): Promise<void> {
+    await db
+      .delete(lienDocuments)
+      .where(and(eq(lienDocuments.lienId, lienId), eq(lienDocuments.documentId, documentId)));
+  }
+
   // AI Chat operations
   async createChatSession(sessionData: InsertAiChatSession): Promise<AiChatSession> {
     const [session] = await db.insert(aiChatSessions).values(sessionData).returning();
@@ -312,8 +1157,11 @@ export class DatabaseStorage implements IStorage {
 
   // Demand Letter operations
   async createDemandLetter(letterData: InsertDemandLetter): Promise<DemandLetter> {
-    const [letter] = await db.insert(demandLetters).values(letterData).returning();
-    return letter;
+    return await db.transaction(async (tx) => {
+      const [letter] = await tx.insert(demandLetters).values(letterData).returning();
+      const version = await this.appendLetterVersion(tx, letter, letter.generatedBy, "Generated");
+      return { ...letter, currentVersionId: version.id };
+    });
   }
 
   async getDemandLettersByCase(caseId: string): Promise<DemandLetter[]> {
@@ -338,10 +1186,237 @@ export class DatabaseStorage implements IStorage {
     return letter;
   }
 
+  async saveDemandLetter(id: string, updates: Partial<InsertDemandLetter>, editedBy: string, note?: string): Promise<DemandLetter> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(demandLetters).where(eq(demandLetters.id, id)).for("update");
+      // Letters from before versioning get their original text kept as version 1
+      if (existing && !existing.currentVersionId) {
+        await this.appendLetterVersion(tx, existing, existing.generatedBy);
+      }
+
+      const [letter] = await tx
+        .update(demandLetters)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(demandLetters.id, id))
+        .returning();
+      const version = await this.appendLetterVersion(tx, letter, editedBy, note);
+      return { ...letter, currentVersionId: version.id };
+    });
+  }
+
+  async getDemandLetterVersions(letterId: string): Promise<DemandLetterVersion[]> {
+    return await db
+      .select()
+      .from(demandLetterVersions)
+      .where(eq(demandLetterVersions.letterId, letterId))
+      .orderBy(desc(demandLetterVersions.version));
+  }
+
+  async getDemandLetterVersionById(id: string): Promise<DemandLetterVersion | undefined> {
+    const [version] = await db.select().from(demandLetterVersions).where(eq(demandLetterVersions.id, id));
+    return version;
+  }
+
+  async changeDemandLetterStatus(
+    id: string,
+    fromStatus: string,
+    toStatus: string,
+    changedBy: string,
+    note?: string
+  ): Promise<DemandLetter | undefined> {
+    return await db.transaction(async (tx) => {
+      const [letter] = await tx
+        .update(demandLetters)
+        .set({ status: toStatus, updatedAt: new Date() })
+        .where(and(eq(demandLetters.id, id), eq(demandLetters.status, fromStatus)))
+        .returning();
+      if (!letter) return undefined;
+
+      await tx.insert(demandLetterStatusChanges).values({
+        letterId: id,
+        fromStatus,
+        toStatus,
+        note: note ?? null,
+        changedBy,
+      });
+      return letter;
+    });
+  }
+
+  async getDemandLetterStatusChanges(letterId: string): Promise<Array<DemandLetterStatusChange & { changedByName: string }>> {
+    const rows = await db
+      .select({ change: demandLetterStatusChanges, changedByName: users.username })
+      .from(demandLetterStatusChanges)
+      .innerJoin(users, eq(demandLetterStatusChanges.changedBy, users.id))
+      .where(eq(demandLetterStatusChanges.letterId, letterId))
+      .orderBy(asc(demandLetterStatusChanges.createdAt));
+    return rows.map(({ change, changedByName }) => ({ ...change, changedByName }));
+  }
+
+  private async appendLetterVersion(
+    tx: Transaction,
+    letter: DemandLetter,
+    createdBy: string | null,
+    note?: string
+  ): Promise<DemandLetterVersion> {
+    const [latest] = await tx
+      .select({ version: demandLetterVersions.version })
+      .from(demandLetterVersions)
+      .where(eq(demandLetterVersions.letterId, letter.id))
+      .orderBy(desc(demandLetterVersions.version))
+      .limit(1);
+
+    const [version] = await tx
+      .insert(demandLetterVersions)
+      .values({
+        letterId: letter.id,
+        version: latest ? latest.version + 1 : 1,
+        title: letter.title,
+        content: letter.content,
+        sections: letter.sections,
+        demandAmount: letter.demandAmount,
+        note: note ?? null,
+        createdBy,
+      })
+      .returning();
+
+    await tx
+      .update(demandLetters)
+      .set({ currentVersionId: version.id })
+      .where(eq(demandLetters.id, letter.id));
+    return version;
+  }
+
+  // Letterhead operations
+  async createLetterhead(letterheadData: InsertLetterhead): Promise<Letterhead> {
+    return await db.transaction(async (tx) => {
+      if (letterheadData.isDefault) {
+        await this.clearDefaultLetterhead(tx, letterheadData.userId);
+      }
+      const [letterhead] = await tx.insert(letterheads).values(letterheadData).returning();
+      return letterhead;
+    });
+  }
+
+  async getLetterheads(userId: string): Promise<Letterhead[]> {
+    return await db
+      .select()
+      .from(letterheads)
+      .where(eq(letterheads.userId, userId))
+      .orderBy(desc(letterheads.isDefault), asc(letterheads.name));
+  }
+
+  async getLetterheadById(id: string): Promise<Letterhead | undefined> {
+    const [letterhead] = await db.select().from(letterheads).where(eq(letterheads.id, id));
+    return letterhead;
+  }
+
+  async getDefaultLetterhead(userId: string): Promise<Letterhead | undefined> {
+    const [letterhead] = await db
+      .select()
+      .from(letterheads)
+      .where(and(eq(letterheads.userId, userId), eq(letterheads.isDefault, true)));
+    return letterhead;
+  }
+
+  // Making a letterhead the default takes the flag off the user's other letterheads
+  async updateLetterhead(id: string, updates: Partial<Letterhead>): Promise<Letterhead> {
+    return await db.transaction(async (tx) => {
+      if (updates.isDefault) {
+        const [existing] = await tx.select().from(letterheads).where(eq(letterheads.id, id));
+        if (existing) {
+          await this.clearDefaultLetterhead(tx, existing.userId);
+        }
+      }
+      const [letterhead] = await tx
+        .update(letterheads)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(letterheads.id, id))
+        .returning();
+      return letterhead;
+    });
+  }
+
+  async deleteLetterhead(id: string): Promise<void> {
+    await db.delete(letterheads).where(eq(letterheads.id, id));
+  }
+
+  private async clearDefaultLetterhead(tx: Transaction, userId: string): Promise<void> {
+    await tx
+      .update(letterheads)
+      .set({ isDefault: false })
+      .where(and(eq(letterheads.userId, userId), eq(letterheads.isDefault, true)));
+  }
+
+  // Letter template operations
+  async createLetterTemplate(templateData: InsertLetterTemplate): Promise<LetterTemplate> {
+    return await db.transaction(async (tx) => {
+      if (templateData.isDefault) {
+        await this.clearDefaultLetterTemplate(tx, templateData.userId);
+      }
+      const [template] = await tx.insert(letterTemplates).values(templateData).returning();
+      return template;
+    });
+  }
+
+  async getLetterTemplates(userId: string): Promise<LetterTemplate[]> {
+    return await db
+      .select()
+      .from(letterTemplates)
+      .where(eq(letterTemplates.userId, userId))
+      .orderBy(desc(letterTemplates.isDefault), asc(letterTemplates.name));
+  }
+
+  async getLetterTemplateById(id: string): Promise<LetterTemplate | undefined> {
+    const [template] = await db.select().from(letterTemplates).where(eq(letterTemplates.id, id));
+    return template;
+  }
+
+  async getDefaultLetterTemplate(userId: string): Promise<LetterTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(letterTemplates)
+      .where(and(eq(letterTemplates.userId, userId), eq(letterTemplates.isDefault, true)));
+    return template;
+  }
+
+  // Like letterheads, only one template per user is the default
+  async updateLetterTemplate(id: string, updates: Partial<InsertLetterTemplate>): Promise<LetterTemplate> {
+    return await db.transaction(async (tx) => {
+      if (updates.isDefault) {
+        const [existing] = await tx.select().from(letterTemplates).where(eq(letterTemplates.id, id));
+        if (existing) {
+          await this.clearDefaultLetterTemplate(tx, existing.userId);
+        }
+      }
+      const [template] = await tx
+        .update(letterTemplates)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(letterTemplates.id, id))
+        .returning();
+      return template;
+    });
+  }
+
+  // Letters made from the template keep their own copy of its body
+  async deleteLetterTemplate(id: string): Promise<void> {
+    await db.delete(letterTemplates).where(eq(letterTemplates.id, id));
+  }
+
+  private async clearDefaultLetterTemplate(tx: Transaction, userId: string): Promise<void> {
+    await tx
+      .update(letterTemplates)
+      .set({ isDefault: false })
+      .where(and(eq(letterTemplates.userId, userId), eq(letterTemplates.isDefault, true)));
+  }
+
   // AI Prompt operations
   async createAiPrompt(promptData: InsertAiPrompt): Promise<AiPrompt> {
-    const [prompt] = await db.insert(aiPrompts).values(promptData).returning();
-    return prompt;
+    return await db.transaction(async (tx) => {
+      const [prompt] = await tx.insert(aiPrompts).values(promptData).returning();
+      const version = await this.appendPromptVersion(tx, prompt, prompt.prompt, prompt.userId);
+      return { ...prompt, currentVersionId: version.id };
+    });
   }
 
   async getAiPrompts(userId: string): Promise<AiPrompt[]> {
@@ -369,17 +1444,247 @@ export class DatabaseStorage implements IStorage {
     return prompt;
   }
 
-  async updateAiPrompt(id: string, updates: Partial<InsertAiPrompt>): Promise<AiPrompt> {
+  async updateAiPrompt(id: string, updates: Partial<InsertAiPrompt>, editedBy?: string): Promise<AiPrompt> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(aiPrompts).where(eq(aiPrompts.id, id)).for("update");
+      const { prompt: text, ...rest } = updates;
+
+      const [prompt] = await tx
+        .update(aiPrompts)
+        .set({ ...rest, updatedAt: new Date() })
+        .where(eq(aiPrompts.id, id))
+        .returning();
+
+      // Only a change to the prompt text starts a new version
+      if (existing && text !== undefined && text !== existing.prompt) {
+        const version = await this.appendPromptVersion(tx, prompt, text, editedBy ?? null);
+        return { ...prompt, prompt: text, currentVersionId: version.id };
+      }
+      return prompt;
+    });
+  }
+
+  async deleteAiPrompt(id: string): Promise<void> {
+    await db.delete(aiPrompts).where(eq(aiPrompts.id, id));
+  }
+
+  async createAiPromptVersion(promptId: string, text: string, createdBy: string | null, note?: string): Promise<AiPromptVersion> {
+    return await db.transaction(async (tx) => {
+      const [prompt] = await tx.select().from(aiPrompts).where(eq(aiPrompts.id, promptId)).for("update");
+      if (!prompt) {
+        throw new Error(`AI prompt ${promptId} not found`);
+      }
+      return await this.appendPromptVersion(tx, prompt, text, createdBy, note);
+    });
+  }
+
+  async getAiPromptVersions(promptId: string): Promise<AiPromptVersion[]> {
+    return await db
+      .select()
+      .from(aiPromptVersions)
+      .where(eq(aiPromptVersions.promptId, promptId))
+      .orderBy(desc(aiPromptVersions.version));
+  }
+
+  async getAiPromptVersionById(id: string): Promise<AiPromptVersion | undefined> {
+    const [version] = await db.select().from(aiPromptVersions).where(eq(aiPromptVersions.id, id));
+    return version;
+  }
+
+  async setAiPromptPinnedVersion(id: string, versionId: string | null): Promise<AiPrompt> {
     const [prompt] = await db
       .update(aiPrompts)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ pinnedVersionId: versionId, updatedAt: new Date() })
       .where(eq(aiPrompts.id, id))
       .returning();
     return prompt;
   }
 
-  async deleteAiPrompt(id: string): Promise<void> {
-    await db.delete(aiPrompts).where(eq(aiPrompts.id, id));
+  // Records `text` as the prompt's next version and makes it current. Prompts created before
+  // versioning existed get their original text saved as version 1 first, so it isn't lost.
+  private async appendPromptVersion(
+    tx: Transaction,
+    prompt: AiPrompt,
+    text: string,
+    createdBy: string | null,
+    note?: string
+  ): Promise<AiPromptVersion> {
+    const [latest] = await tx
+      .select()
+      .from(aiPromptVersions)
+      .where(eq(aiPromptVersions.promptId, prompt.id))
+      .orderBy(desc(aiPromptVersions.version))
+      .limit(1);
+
+    let nextVersion = latest ? latest.version + 1 : 1;
+    if (!latest && prompt.prompt !== text) {
+      await tx.insert(aiPromptVersions).values({
+        promptId: prompt.id,
+        version: 1,
+        name: prompt.name,
+        type: prompt.type,
+        prompt: prompt.prompt,
+        createdBy: prompt.userId,
+      });
+      nextVersion = 2;
+    }
+
+    const [version] = await tx
+      .insert(aiPromptVersions)
+      .values({
+        promptId: prompt.id,
+        version: nextVersion,
+        name: prompt.name,
+        type: prompt.type,
+        prompt: text,
+        note: note ?? null,
+        createdBy,
+      })
+      .returning();
+
+    await tx
+      .update(aiPrompts)
+      .set({ prompt: text, currentVersionId: version.id, updatedAt: new Date() })
+      .where(eq(aiPrompts.id, prompt.id));
+    return version;
+  }
+
+  // Processing Job operations
+  async createProcessingJob(jobData: InsertProcessingJob): Promise<ProcessingJob> {
+    const [job] = await db.insert(processingJobs).values(jobData).returning();
+    return job;
+  }
+
+  async getProcessingJobById(id: string): Promise<ProcessingJob | undefined> {
+    const [job] = await db.select().from(processingJobs).where(eq(processingJobs.id, id));
+    return job;
+  }
+
+  async getProcessingJobsByDocument(documentId: string): Promise<ProcessingJob[]> {
+    return await db
+      .select()
+      .from(processingJobs)
+      .where(eq(processingJobs.documentId, documentId))
+      .orderBy(desc(processingJobs.createdAt));
+  }
+
+  async updateProcessingJob(id: string, updates: Partial<InsertProcessingJob>): Promise<ProcessingJob> {
+    const [job] = await db
+      .update(processingJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(processingJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async claimNextProcessingJob(workerId: string): Promise<ProcessingJob | undefined> {
+    // SKIP LOCKED lets several workers poll the same table without picking up the same job
+    return await db.transaction(async (tx) => {
+      const [next] = await tx
+        .select()
+        .from(processingJobs)
+        .where(and(eq(processingJobs.status, "queued"), lte(processingJobs.runAt, new Date())))
+        .orderBy(asc(processingJobs.runAt))
+        .limit(1)
+        .for("update", { skipLocked: true });
+
+      if (!next) return undefined;
+
+      const [job] = await tx
+        .update(processingJobs)
+        .set({
+          status: "running",
+          attempts: next.attempts + 1,
+          lockedAt: new Date(),
+          lockedBy: workerId,
+          updatedAt: new Date(),
+        })
+        .where(eq(processingJobs.id, next.id))
+        .returning();
+      return job;
+    });
+  }
+
+  async requeueStaleProcessingJobs(lockedBefore: Date): Promise<number> {
+    const requeued = await db
+      .update(processingJobs)
+      .set({ status: "queued", lockedAt: null, lockedBy: null, runAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(processingJobs.status, "running"), lt(processingJobs.lockedAt, lockedBefore)))
+      .returning({ id: processingJobs.id });
+    return requeued.length;
+  }
+
+  // Document Chunk operations
+  async replaceDocumentChunks(documentId: string, chunks: InsertDocumentChunk[]): Promise<DocumentChunk[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(documentChunks).where(eq(documentChunks.documentId, documentId));
+
+      // Insert in batches; each row carries a full embedding vector
+      const inserted: DocumentChunk[] = [];
+      for (let i = 0; i < chunks.length; i += 50) {
+        const rows = await tx.insert(documentChunks).values(chunks.slice(i, i + 50)).returning();
+        inserted.push(...rows);
+      }
+      return inserted;
+    });
+  }
+
+  async getDocumentChunks(documentId: string): Promise<DocumentChunk[]> {
+    return await db
+      .select()
+      .from(documentChunks)
+      .where(eq(documentChunks.documentId, documentId))
+      .orderBy(asc(documentChunks.chunkIndex));
+  }
+
+  async getDocumentChunksByCase(caseId: string): Promise<ChunkText[]> {
+    return await db
+      .select({
+        id: documentChunks.id,
+        documentId: documentChunks.documentId,
+        content: documentChunks.content,
+        pageStart: documentChunks.pageStart,
+        pageEnd: documentChunks.pageEnd,
+      })
+      .from(documentChunks)
+      .where(eq(documentChunks.caseId, caseId))
+      .orderBy(asc(documentChunks.documentId), asc(documentChunks.chunkIndex));
+  }
+
+  // Document Processing Run operations
+  async createProcessingRun(runData: InsertDocumentProcessingRun): Promise<DocumentProcessingRun> {
+    const [run] = await db.insert(documentProcessingRuns).values(runData).returning();
+    return run;
+  }
+
+  async updateProcessingRun(id: string, updates: Partial<InsertDocumentProcessingRun>): Promise<DocumentProcessingRun> {
+    const [run] = await db
+      .update(documentProcessingRuns)
+      .set(updates)
+      .where(eq(documentProcessingRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  async getProcessingRunsByDocument(documentId: string): Promise<DocumentProcessingRun[]> {
+    return await db
+      .select()
+      .from(documentProcessingRuns)
+      .where(eq(documentProcessingRuns.documentId, documentId))
+      .orderBy(desc(documentProcessingRuns.startedAt));
+  }
+
+  async getCompletedProcessingRuns(documentId: string, jobIds: string[]): Promise<DocumentProcessingRun[]> {
+    if (jobIds.length === 0) return [];
+    return await db
+      .select()
+      .from(documentProcessingRuns)
+      .where(and(
+        eq(documentProcessingRuns.documentId, documentId),
+        inArray(documentProcessingRuns.jobId, jobIds),
+        eq(documentProcessingRuns.status, "completed")
+      ))
+      .orderBy(desc(documentProcessingRuns.startedAt));
   }
 
   // Document Chat operations
@@ -480,6 +1785,92 @@ export class DatabaseStorage implements IStorage {
     return message[0];
   }
 
+  // Audit operations
+  async createAuditEvent(eventData: InsertAuditEvent): Promise<AuditEvent> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_ID})`);
+
+      const [last] = await tx
+        .select({ hash: auditEvents.hash })
+        .from(auditEvents)
+        .orderBy(desc(auditEvents.sequence))
+        .limit(1);
+
+      const event = {
+        actorId: eventData.actorId ?? null,
+        organizationId: eventData.organizationId ?? null,
+        action: eventData.action,
+        entityType: eventData.entityType ?? null,
+        entityId: eventData.entityId ?? null,
+        caseId: eventData.caseId ?? null,
+        method: eventData.method,
+        path: eventData.path,
+        statusCode: eventData.statusCode,
+        ipAddress: eventData.ipAddress ?? null,
+        userAgent: eventData.userAgent ?? null,
+        changes: eventData.changes ?? null,
+        prevHash: last?.hash ?? null,
+        createdAt: new Date(),
+      };
+
+      const [created] = await tx
+        .insert(auditEvents)
+        .values({ ...event, hash: hashAuditEvent(event) })
+        .returning();
+      return created;
+    });
+  }
+
+  async getAuditEvents(filters: AuditEventFilters): Promise<Array<AuditEvent & { actorUsername: string | null }>> {
+    const conditions: SQL[] = [];
+    if (filters.organizationId) conditions.push(eq(auditEvents.organizationId, filters.organizationId));
+    if (filters.actorId) conditions.push(eq(auditEvents.actorId, filters.actorId));
+    if (filters.caseId) conditions.push(eq(auditEvents.caseId, filters.caseId));
+    if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+    if (filters.to) conditions.push(lt(auditEvents.createdAt, filters.to));
+
+    let query = db
+      .select({ event: auditEvents, actorUsername: users.username })
+      .from(auditEvents)
+      .leftJoin(users, eq(auditEvents.actorId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.sequence))
+      .$dynamic();
+    if (filters.limit !== undefined) query = query.limit(filters.limit);
+    if (filters.offset !== undefined) query = query.offset(filters.offset);
+
+    const rows = await query;
+    return rows.map(({ event, actorUsername }) => ({ ...event, actorUsername }));
+  }
+
+  // Walks the whole chain in order, recomputing each hash and checking each link to the row before
+  async verifyAuditChain(): Promise<AuditChainVerification> {
+    let checked = 0;
+    let prevHash: string | null = null;
+    let lastSequence = 0;
+
+    while (true) {
+      const batch = await db
+        .select()
+        .from(auditEvents)
+        .where(gt(auditEvents.sequence, lastSequence))
+        .orderBy(asc(auditEvents.sequence))
+        .limit(AUDIT_VERIFY_BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      for (const { id, sequence, hash, ...event } of batch) {
+        if (event.prevHash !== prevHash || hashAuditEvent(event) !== hash) {
+          return { valid: false, checked, brokenAtSequence: sequence };
+        }
+        prevHash = hash;
+        lastSequence = sequence;
+        checked++;
+      }
+    }
+
+    return { valid: true, checked, brokenAtSequence: null };
+  }
+
   // Statistics
   async getDashboardStats(userId: string): Promise<{
     activeCases: number;
@@ -491,7 +1882,7 @@ export class DatabaseStorage implements IStorage {
     const userCases = await db
       .select()
       .from(cases)
-      .where(and(eq(cases.createdBy, userId), eq(cases.status, "active")));
+      .where(and(await this.accessibleCases(userId), eq(cases.status, "active")));
 
     const activeCases = userCases.length;
 
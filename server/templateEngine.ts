@@ -0,0 +1,44 @@
+// Minimal {{variable}} templating shared by AI prompts and generated documents.
+// Variables are dotted paths into the values object ({{case.clientName}}); anything that isn't
+// a string or number is inserted as pretty-printed JSON. Only [\w.] is allowed between the braces,
+// so JSON examples inside a template ({"summary": "..."}) are left alone.
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export type TemplateValues = Record<string, unknown>;
+
+function lookup(values: TemplateValues, path: string): unknown {
+  let current: unknown = values;
+  for (const key of path.split(".")) {
+    if (current === null || current === undefined || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+  return JSON.stringify(value, null, 2);
+}
+
+export function renderTemplate(template: string, values: TemplateValues): string {
+  return template.replace(VARIABLE_PATTERN, (_match, path: string) => stringify(lookup(values, path)));
+}
+
+// Names of all variables a template references, in order of first use
+export function findTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of Array.from(template.matchAll(VARIABLE_PATTERN))) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+// Variables the template uses that aren't in the allowed list
+export function findUnknownVariables(template: string, allowed: string[]): string[] {
+  return findTemplateVariables(template).filter(name => !allowed.includes(name));
+}
@@ -0,0 +1,111 @@
+// The small Markdown subset demand letters are written in: headings, paragraphs, bullet and
+// numbered lists, pipe tables, and **bold** / *italic* text. Shared so the editor preview and
+// exported documents lay a letter out the same way.
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; runs: TextRun[] }
+  // One entry per line; lines inside a paragraph are kept as line breaks
+  | { type: "paragraph"; lines: TextRun[][] }
+  | { type: "list"; ordered: boolean; items: TextRun[][] }
+  | { type: "table"; header: TextRun[][]; alignRight: boolean[]; rows: TextRun[][][] };
+
+export function parseInline(text: string): TextRun[] {
+  const runs: TextRun[] = [];
+  const pattern = /\*\*(.+?)\*\*|\*(.+?)\*|_(.+?)_/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > last) runs.push({ text: text.slice(last, match.index) });
+    if (match[1] !== undefined) {
+      runs.push({ text: match[1], bold: true });
+    } else {
+      runs.push({ text: match[2] ?? match[3], italic: true });
+    }
+    last = pattern.lastIndex;
+  }
+  if (last < text.length) runs.push({ text: text.slice(last) });
+  return runs;
+}
+
+function tableCells(line: string): string[] {
+  return line.trim().replace(/^\|/, "").replace(/\|$/, "").split("|").map(cell => cell.trim());
+}
+
+const isTableRow = (line: string) => line.trim().startsWith("|");
+const isDivider = (line: string) => /^\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/.test(line.trim());
+const bulletItem = /^\s*[-*]\s+(.*)$/;
+const numberedItem = /^\s*\d+[.)]\s+(.*)$/;
+const heading = /^(#{1,6})\s+(.*)$/;
+
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const headingMatch = line.match(heading);
+    if (headingMatch) {
+      blocks.push({ type: "heading", level: headingMatch[1].length, runs: parseInline(headingMatch[2]) });
+      i++;
+      continue;
+    }
+
+    if (isTableRow(line) && i + 1 < lines.length && isDivider(lines[i + 1])) {
+      const header = tableCells(line);
+      const alignRight = tableCells(lines[i + 1]).map(cell => cell.endsWith(":") && !cell.startsWith(":"));
+      i += 2;
+      const rows: TextRun[][][] = [];
+      while (i < lines.length && isTableRow(lines[i])) {
+        rows.push(tableCells(lines[i]).map(parseInline));
+        i++;
+      }
+      blocks.push({ type: "table", header: header.map(parseInline), alignRight, rows });
+      continue;
+    }
+
+    const listPattern = bulletItem.test(line) ? bulletItem : numberedItem.test(line) ? numberedItem : null;
+    if (listPattern) {
+      const items: TextRun[][] = [];
+      while (i < lines.length && listPattern.test(lines[i])) {
+        items.push(parseInline(lines[i].match(listPattern)![1]));
+        i++;
+      }
+      blocks.push({ type: "list", ordered: listPattern === numberedItem, items });
+      continue;
+    }
+
+    const paragraph: TextRun[][] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !heading.test(lines[i]) &&
+      !bulletItem.test(lines[i]) &&
+      !numberedItem.test(lines[i]) &&
+      !isTableRow(lines[i])
+    ) {
+      paragraph.push(parseInline(lines[i]));
+      i++;
+    }
+    if (paragraph.length === 0) {
+      // A lone table row without a divider is shown as text
+      paragraph.push(parseInline(lines[i]));
+      i++;
+    }
+    blocks.push({ type: "paragraph", lines: paragraph });
+  }
+
+  return blocks;
+}
@@ -1,5 +1,6 @@
-import { sql } from "drizzle-orm";
+import { sql, type SQL } from "drizzle-orm";
 import {
+  customType,
   index,
   jsonb,
   pgTable,
@@ -9,11 +10,20 @@ import {
   decimal,
   integer,
   boolean,
+  serial,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 
+// Postgres full-text search vector, used by the local search backend
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 // Session storage table for Replit Auth
 export const sessions = pgTable(
   "sessions",
@@ -40,6 +50,9 @@ export const users = pgTable("users", {
   azureOpenAIApiKey: text("azure_openai_api_key"),
   azureOpenAIVersion: text("azure_openai_version").default("2024-02-15-preview"),
   azureModelDeployment: text("azure_model_deployment"),
+  aiProvider: varchar("ai_provider"), // 'openai', 'azure-openai', 'openai-compatible' or 'mock' (not in production); null picks from the keys above
+  aiBaseUrl: text("ai_base_url"), // Base URL of an OpenAI-compatible server
+  aiModel: text("ai_model"), // Model name for openai / openai-compatible
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -53,10 +66,73 @@ export const aiPrompts = pgTable("ai_prompts", {
   isDefault: boolean("is_default").default(false),
   isActive: boolean("is_active").default(true),
   description: text("description"),
+  currentVersionId: varchar("current_version_id"), // Latest ai_prompt_versions row
+  pinnedVersionId: varchar("pinned_version_id"), // When set, this version is used instead of the latest
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Immutable snapshot of a prompt's text; kept when the prompt is deleted so generated
+// documents and letters can still show what produced them
+export const aiPromptVersions = pgTable(
+  "ai_prompt_versions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    promptId: varchar("prompt_id").references(() => aiPrompts.id, { onDelete: "set null" }),
+    version: integer("version").notNull(),
+    name: varchar("name").notNull(),
+    type: varchar("type").notNull(),
+    prompt: text("prompt").notNull(),
+    note: text("note"), // e.g. "Rolled back to version 2"
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_ai_prompt_versions_prompt_version").on(table.promptId, table.version)]
+);
+
+// A law firm. Its members share the firm's cases according to their role (see authorization.ts).
+export const organizations = pgTable("organizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  redactionPolicy: jsonb("redaction_policy").$type<RedactionPolicy>(), // Null until an admin turns PHI redaction on
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A user belongs to at most one firm
+export const organizationMemberships = pgTable(
+  "organization_memberships",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    role: varchar("role").notNull().default("attorney"), // 'admin', 'attorney', 'paralegal' or 'read_only'
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_organization_memberships_user").on(table.userId),
+    index("IDX_organization_memberships_organization").on(table.organizationId),
+  ]
+);
+
+// Admins invite users by username; nobody joins a firm until they accept. Answered invitations are deleted.
+export const organizationInvitations = pgTable(
+  "organization_invitations",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    role: varchar("role").notNull().default("attorney"), // Role the user gets on accepting
+    invitedBy: varchar("invited_by").notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_organization_invitations_organization_user").on(table.organizationId, table.userId),
+    index("IDX_organization_invitations_user").on(table.userId),
+  ]
+);
+
 export const cases = pgTable("cases", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   clientName: text("client_name").notNull(),
@@ -65,10 +141,28 @@ export const cases = pgTable("cases", {
   status: varchar("status").notNull().default("active"),
   description: text("description"),
   createdBy: varchar("created_by").notNull().references(() => users.id),
+  // The creator's firm when the case was opened; null for a solo user's cases
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Firm members working a case besides its creator
+export const caseAssignments = pgTable(
+  "case_assignments",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    caseId: varchar("case_id").notNull().references(() => cases.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    assignedBy: varchar("assigned_by").notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_case_assignments_pair").on(table.caseId, table.userId),
+    index("IDX_case_assignments_user").on(table.userId),
+  ]
+);
+
 export const documents = pgTable("documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   caseId: varchar("case_id").notNull().references(() => cases.id, { onDelete: "cascade" }),
@@ -80,14 +174,17 @@ export const documents = pgTable("documents", {
   aiProcessed: boolean("ai_processed").default(false),
   aiSummary: text("ai_summary"),
   extractedData: jsonb("extracted_data"),
+  documentType: varchar("document_type"), // Type chosen at upload, e.g. 'medical_record'; search can filter on it
   
   // Enhanced Azure workflow metadata
-  processingStatus: varchar("processing_status").default("uploaded"), // 'uploaded', 'analyzing', 'processed', 'error'
+  processingStatus: varchar("processing_status").default("uploaded"), // 'uploaded', 'queued', 'analyzing', 'processed', 'error'
   documentIntelligence: jsonb("document_intelligence"), // Store Document Intelligence results
   vectorEmbedding: jsonb("vector_embedding"), // Store embedding metadata
   searchIndexed: boolean("search_indexed").default(false),
   searchIndexedAt: timestamp("search_indexed_at"),
-  processingErrors: jsonb("processing_errors"), // Store any processing errors
+  processingErrors: jsonb("processing_errors").$type<ProcessingError[]>(), // Errors from failed processing jobs
+  redactionReport: jsonb("redaction_report").$type<RedactionReport>(), // What was masked before the text last went to an AI provider
+  analysisPromptVersionId: varchar("analysis_prompt_version_id").references(() => aiPromptVersions.id), // Null when the built-in prompt was used
   lastProcessedAt: timestamp("last_processed_at"),
   
   createdAt: timestamp("created_at").defaultNow(),
@@ -105,11 +202,157 @@ export const medicalBills = pgTable("medical_bills", {
   insurance: text("insurance"),
   status: varchar("status").notNull().default("pending"),
   documentId: varchar("document_id").references(() => documents.id),
+  cptCodes: text("cpt_codes").array(), // CPT/HCPCS codes billed, when known
+  fingerprint: varchar("fingerprint"), // Normalized provider|date|amount|codes key used to spot duplicates
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Individual charges on an itemized bill. When a bill has line items its amount is their total.
+export const medicalBillLineItems = pgTable(
+  "medical_bill_line_items",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    billId: varchar("bill_id").notNull().references(() => medicalBills.id, { onDelete: "cascade" }),
+    lineNumber: integer("line_number").notNull(),
+    code: varchar("code"), // Procedure or supply code, e.g. 72148
+    codeSystem: varchar("code_system"), // 'CPT', 'HCPCS', 'ICD-10', 'REV', 'other'
+    diagnosisCodes: text("diagnosis_codes").array(), // ICD-10 codes the charge is billed against
+    description: text("description"),
+    units: integer("units").notNull().default(1),
+    charge: decimal("charge", { precision: 10, scale: 2 }).notNull(), // Line total as billed
+    allowed: decimal("allowed", { precision: 10, scale: 2 }),
+    paid: decimal("paid", { precision: 10, scale: 2 }),
+    adjustment: decimal("adjustment", { precision: 10, scale: 2 }),
+    serviceDate: timestamp("service_date"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_medical_bill_line_items_bill").on(table.billId, table.lineNumber)]
+);
+
+// Ledger of money applied against a bill: payer payments, contractual adjustments and write-offs.
+// The bill's outstanding balance is its amount minus everything recorded here.
+export const medicalBillPayments = pgTable(
+  "medical_bill_payments",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    billId: varchar("bill_id").notNull().references(() => medicalBills.id, { onDelete: "cascade" }),
+    caseId: varchar("case_id").notNull().references(() => cases.id, { onDelete: "cascade" }),
+    entryType: varchar("entry_type").notNull().default("payment"), // 'payment', 'adjustment', 'write_off'
+    payer: text("payer"), // e.g. "Blue Cross Blue Shield"
+    payerType: varchar("payer_type").notNull(), // See PAYER_TYPES
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+    paidAt: timestamp("paid_at").notNull(),
+    eobDocumentId: varchar("eob_document_id").references(() => documents.id, { onDelete: "set null" }),
+    note: text("note"),
+    createdBy: varchar("created_by").notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_medical_bill_payments_bill").on(table.billId),
+    index("IDX_medical_bill_payments_case").on(table.caseId),
+  ]
+);
+
+// A bill read out of a document by AI, waiting for a reviewer to accept, edit or reject it.
+// Nothing is filled in for fields the document doesn't show; accepting creates the medicalBills row.
+export const proposedBills = pgTable(
+  "proposed_bills",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    caseId: varchar("case_id").notNull().references(() => cases.id, { onDelete: "cascade" }),
+    documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+    jobId: varchar("job_id").references(() => processingJobs.id, { onDelete: "set null" }),
+    status: varchar("status").notNull().default("proposed"), // 'proposed', 'accepted', 'rejected'
+    data: jsonb("data").$type<ProposedBillData>().notNull(),
+    fieldConfidence: jsonb("field_confidence").$type<Record<string, number>>(), // 0-1 per field in PROPOSED_BILL_FIELDS
+    sources: jsonb("sources").$type<Record<string, ProposedBillSource>>(), // Where each field was found
+    confidence: integer("confidence").notNull().default(0), // 0-100, lowest of the required fields
+    pageNumber: integer("page_number"), // Page the bill was mostly read from
+    acceptedBillId: varchar("accepted_bill_id").references(() => medicalBills.id, { onDelete: "set null" }),
+    rejectionReason: text("rejection_reason"),
+    reviewedBy: varchar("reviewed_by").references(() => users.id),
+    reviewedAt: timestamp("reviewed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_proposed_bills_case").on(table.caseId, table.status),
+    index("IDX_proposed_bills_document").on(table.documentId),
+  ]
+);
+
+// A pair of bills in a case that look like the same charge, and what a reviewer decided about it.
+// Bill references are cleared when a bill is removed; billSnapshot keeps what was discarded or merged.
+export const medicalBillDuplicates = pgTable(
+  "medical_bill_duplicates",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    caseId: varchar("case_id").notNull().references(() => cases.id, { onDelete: "cascade" }),
+    billId: varchar("bill_id").references(() => medicalBills.id, { onDelete: "set null" }), // The newer bill
+    duplicateOfBillId: varchar("duplicate_of_bill_id").references(() => medicalBills.id, { onDelete: "set null" }),
+    matchType: varchar("match_type").notNull(), // 'exact', 'likely'
+    score: integer("score").notNull(), // 0-100
+    reasons: jsonb("reasons").$type<string[]>(),
+    status: varchar("status").notNull().default("pending"), // 'pending', 'merged', 'kept', 'discarded', 'obsolete'
+    billSnapshot: jsonb("bill_snapshot"), // The removed bill, for merged and discarded decisions
+    note: text("note"),
+    resolvedBy: varchar("resolved_by").references(() => users.id),
+    resolvedAt: timestamp("resolved_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_medical_bill_duplicates_pair").on(table.billId, table.duplicateOfBillId),
+    index("IDX_medical_bill_duplicates_case").on(table.caseId, table.status),
+  ]
+);
+
+// A claim against the case recovery: hospital liens, Medicare conditional payments, ERISA plan
+// subrogation and the like. The negotiated amount replaces the asserted amount once agreed.
+export const liens = pgTable(
+  "liens",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    caseId: varchar("case_id").notNull().references(() => cases.id, { onDelete: "cascade" }),
+    lienholder: text("lienholder").notNull(),
+    lienType: varchar("lien_type").notNull(), // See LIEN_TYPES
+    referenceNumber: text("reference_number"), // Claim, conditional payment or file number
+    assertedAmount: decimal("asserted_amount", { precision: 12, scale: 2 }).notNull(),
+    negotiatedAmount: decimal("negotiated_amount", { precision: 12, scale: 2 }),
+    status: varchar("status").notNull().default("asserted"), // See LIEN_STATUSES
+    notes: text("notes"),
+    createdBy: varchar("created_by").notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_liens_case").on(table.caseId)]
+);
+
+// Bills a lien covers
+export const lienBills = pgTable(
+  "lien_bills",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    lienId: varchar("lien_id").notNull().references(() => liens.id, { onDelete: "cascade" }),
+    billId: varchar("bill_id").notNull().references(() => medicalBills.id, { onDelete: "cascade" }),
+  },
+  (table) => [uniqueIndex("IDX_lien_bills_pair").on(table.lienId, table.billId)]
+);
+
+// Lien notices, itemizations, reduction requests and final payoff letters
+export const lienDocuments = pgTable(
+  "lien_documents",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    lienId: varchar("lien_id").notNull().references(() => liens.id, { onDelete: "cascade" }),
+    documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+    description: text("description"),
+    addedBy: varchar("added_by").notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_lien_documents_pair").on(table.lienId, table.documentId)]
+);
+
 export const aiChatSessions = pgTable("ai_chat_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   caseId: varchar("case_id").references(() => cases.id, { onDelete: "cascade" }),
@@ -124,6 +367,7 @@ export const aiChatMessages = pgTable("ai_chat_messages", {
   sessionId: varchar("session_id").notNull().references(() => aiChatSessions.id, { onDelete: "cascade" }),
   role: varchar("role").notNull(), // 'user' or 'assistant'
   content: text("content").notNull(),
+  citations: jsonb("citations").$type<ChatCitation[]>(), // Sources referenced by [n] markers in an assistant answer
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -133,29 +377,276 @@ export const demandLetters = pgTable("demand_letters", {
   title: text("title").notNull(),
   content: text("content").notNull(),
   generatedBy: varchar("generated_by").notNull().references(() => users.id),
-  status: varchar("status").notNull().default("draft"),
+  status: varchar("status").notNull().default("draft"), // 'draft', 'attorney_review', 'approved', 'sent'
+  promptVersionId: varchar("prompt_version_id").references(() => aiPromptVersions.id), // Null when the built-in prompt was used
+  sections: jsonb("sections").$type<DemandLetterSection[]>(), // Letter body by section, with the sources behind each
+  demandAmount: decimal("demand_amount", { precision: 12, scale: 2 }),
+  input: jsonb("input").$type<DemandLetterInput>(), // What the attorney entered when generating, reused to regenerate sections
+  currentVersionId: varchar("current_version_id"), // Latest demand_letter_versions row
+  templateId: varchar("template_id").references(() => letterTemplates.id, { onDelete: "set null" }),
+  templateBody: text("template_body"), // Copy of the template at generation; null for the built-in layout
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Snapshot of a letter taken on every save, so earlier wording can be compared and restored
+export const demandLetterVersions = pgTable(
+  "demand_letter_versions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    letterId: varchar("letter_id").notNull().references(() => demandLetters.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    title: text("title").notNull(),
+    content: text("content").notNull(),
+    sections: jsonb("sections").$type<DemandLetterSection[]>(),
+    demandAmount: decimal("demand_amount", { precision: 12, scale: 2 }),
+    note: text("note"), // e.g. "Regenerated the Liability section"
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_demand_letter_versions_letter_version").on(table.letterId, table.version)]
+);
+
+// Who moved a letter through review and when
+export const demandLetterStatusChanges = pgTable(
+  "demand_letter_status_changes",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    letterId: varchar("letter_id").notNull().references(() => demandLetters.id, { onDelete: "cascade" }),
+    fromStatus: varchar("from_status").notNull(),
+    toStatus: varchar("to_status").notNull(),
+    note: text("note"),
+    changedBy: varchar("changed_by").notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_demand_letter_status_changes_letter").on(table.letterId)]
+);
+
+// Firm letterhead used when exporting letters: logo and address at the top, signature block
+// after the body and a footer on every page
+export const letterheads = pgTable("letterheads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  firmName: text("firm_name").notNull(),
+  addressBlock: text("address_block"), // One line per row, e.g. street, city, phone
+  signatureBlock: text("signature_block"),
+  footer: text("footer"),
+  logoPath: text("logo_path"), // "container/blob" of the uploaded PNG or JPEG
+  logoMimeType: varchar("logo_mime_type"),
+  isDefault: boolean("is_default").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// An attorney's own demand letter layout: Markdown with {{merge fields}} for the case details and
+// the AI-written sections
+export const letterTemplates = pgTable("letter_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  body: text("body").notNull(),
+  isDefault: boolean("is_default").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Background job queue for long-running document processing
+export const processingJobs = pgTable(
+  "processing_jobs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    type: varchar("type").notNull(), // 'document_analysis', 'bill_extraction'
+    status: varchar("status").notNull().default("queued"), // 'queued', 'running', 'completed', 'failed'
+    documentId: varchar("document_id").references(() => documents.id, { onDelete: "cascade" }),
+    caseId: varchar("case_id").references(() => cases.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    payload: jsonb("payload"),
+    currentStage: varchar("current_stage"),
+    stages: jsonb("stages"), // Map of stage name -> JobStageState
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(3),
+    runAt: timestamp("run_at").notNull().defaultNow(),
+    lockedAt: timestamp("locked_at"),
+    lockedBy: varchar("locked_by"),
+    lastError: text("last_error"),
+    result: jsonb("result"),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_processing_jobs_status_run_at").on(table.status, table.runAt)]
+);
+
+// Every embedded chunk of a document's extracted text, used for semantic search and chat retrieval
+export const documentChunks = pgTable(
+  "document_chunks",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+    caseId: varchar("case_id").notNull().references(() => cases.id, { onDelete: "cascade" }),
+    chunkIndex: integer("chunk_index").notNull(),
+    content: text("content").notNull(),
+    pageStart: integer("page_start"),
+    pageEnd: integer("page_end"),
+    charStart: integer("char_start").notNull(),
+    charEnd: integer("char_end").notNull(),
+    tokenCount: integer("token_count"),
+    embedding: jsonb("embedding").$type<number[]>(),
+    embeddingModel: varchar("embedding_model"),
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      (): SQL => sql`to_tsvector('english', ${documentChunks.content})`
+    ),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_document_chunks_document").on(table.documentId, table.chunkIndex),
+    index("IDX_document_chunks_case").on(table.caseId),
+    index("IDX_document_chunks_search").using("gin", table.searchVector),
+  ]
+);
+
+// One row per pipeline stage execution, used for processing history and resuming failed runs
+export const documentProcessingRuns = pgTable(
+  "document_processing_runs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+    jobId: varchar("job_id").references(() => processingJobs.id, { onDelete: "set null" }),
+    stage: varchar("stage").notNull(), // 'text_extraction', 'embedding', 'ai_analysis', 'bill_extraction', 'search_indexing'
+    status: varchar("status").notNull().default("running"), // 'running', 'completed', 'failed', 'skipped'
+    model: varchar("model"),
+    promptTokens: integer("prompt_tokens"),
+    completionTokens: integer("completion_tokens"),
+    totalTokens: integer("total_tokens"),
+    error: text("error"),
+    output: jsonb("output"), // Stage result needed to resume later stages
+    resumedFromRunId: varchar("resumed_from_run_id"), // Set when the result was reused from an earlier run
+    promptVersionId: varchar("prompt_version_id").references(() => aiPromptVersions.id), // Custom prompt version used by AI stages
+    startedAt: timestamp("started_at").notNull().defaultNow(),
+    completedAt: timestamp("completed_at"),
+    durationMs: integer("duration_ms"),
+  },
+  (table) => [index("IDX_document_processing_runs_document").on(table.documentId, table.stage)]
+);
+
+// Append-only trail of who read or changed what. Rows are never updated or deleted: each one
+// stores the hash of the row before it, so an edited or removed row breaks the chain. Ids are kept
+// without foreign keys so the trail outlives the users, cases and records it mentions.
+export const auditEvents = pgTable(
+  "audit_events",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sequence: serial("sequence").notNull().unique(), // Chain order
+    actorId: varchar("actor_id"),
+    organizationId: varchar("organization_id"), // The actor's firm at the time, for the admin viewer
+    action: varchar("action").notNull(), // 'view', 'download', 'chat', 'export', 'create', 'update', 'delete'
+    entityType: varchar("entity_type"),
+    entityId: varchar("entity_id"),
+    caseId: varchar("case_id"),
+    method: varchar("method").notNull(),
+    path: text("path").notNull(), // Route pattern, e.g. /api/documents/:id/download
+    statusCode: integer("status_code").notNull(),
+    ipAddress: varchar("ip_address"),
+    userAgent: text("user_agent"),
+    changes: jsonb("changes"), // Field -> { before, after } for updates and deletes
+    prevHash: varchar("prev_hash"),
+    hash: varchar("hash").notNull(),
+    createdAt: timestamp("created_at").notNull(),
+  },
+  (table) => [
+    index("IDX_audit_events_organization").on(table.organizationId, table.createdAt),
+    index("IDX_audit_events_actor").on(table.actorId, table.createdAt),
+    index("IDX_audit_events_case").on(table.caseId, table.createdAt),
+  ]
+);
+
 // Relations
+export const organizationsRelations = relations(organizations, ({ many }) => ({
+  memberships: many(organizationMemberships),
+  invitations: many(organizationInvitations),
+  cases: many(cases),
+}));
+
+export const organizationMembershipsRelations = relations(organizationMemberships, ({ one }) => ({
+  organization: one(organizations, { fields: [organizationMemberships.organizationId], references: [organizations.id] }),
+  user: one(users, { fields: [organizationMemberships.userId], references: [users.id] }),
+}));
+
+export const organizationInvitationsRelations = relations(organizationInvitations, ({ one }) => ({
+  organization: one(organizations, { fields: [organizationInvitations.organizationId], references: [organizations.id] }),
+  user: one(users, { fields: [organizationInvitations.userId], references: [users.id] }),
+}));
+
 export const casesRelations = relations(cases, ({ one, many }) => ({
   createdBy: one(users, { fields: [cases.createdBy], references: [users.id] }),
+  organization: one(organizations, { fields: [cases.organizationId], references: [organizations.id] }),
+  assignments: many(caseAssignments),
   documents: many(documents),
   medicalBills: many(medicalBills),
   aiChatSessions: many(aiChatSessions),
   demandLetters: many(demandLetters),
+  liens: many(liens),
+}));
+
+export const caseAssignmentsRelations = relations(caseAssignments, ({ one }) => ({
+  case: one(cases, { fields: [caseAssignments.caseId], references: [cases.id] }),
+  user: one(users, { fields: [caseAssignments.userId], references: [users.id] }),
 }));
 
-export const documentsRelations = relations(documents, ({ one }) => ({
+export const documentsRelations = relations(documents, ({ one, many }) => ({
   case: one(cases, { fields: [documents.caseId], references: [cases.id] }),
   uploadedBy: one(users, { fields: [documents.uploadedBy], references: [users.id] }),
+  chunks: many(documentChunks),
 }));
 
-export const medicalBillsRelations = relations(medicalBills, ({ one }) => ({
+export const medicalBillsRelations = relations(medicalBills, ({ one, many }) => ({
   case: one(cases, { fields: [medicalBills.caseId], references: [cases.id] }),
   document: one(documents, { fields: [medicalBills.documentId], references: [documents.id] }),
   createdBy: one(users, { fields: [medicalBills.createdBy], references: [users.id] }),
+  lineItems: many(medicalBillLineItems),
+  payments: many(medicalBillPayments),
+}));
+
+export const medicalBillPaymentsRelations = relations(medicalBillPayments, ({ one }) => ({
+  bill: one(medicalBills, { fields: [medicalBillPayments.billId], references: [medicalBills.id] }),
+  case: one(cases, { fields: [medicalBillPayments.caseId], references: [cases.id] }),
+  eobDocument: one(documents, { fields: [medicalBillPayments.eobDocumentId], references: [documents.id] }),
+  createdBy: one(users, { fields: [medicalBillPayments.createdBy], references: [users.id] }),
+}));
+
+export const medicalBillLineItemsRelations = relations(medicalBillLineItems, ({ one }) => ({
+  bill: one(medicalBills, { fields: [medicalBillLineItems.billId], references: [medicalBills.id] }),
+}));
+
+export const proposedBillsRelations = relations(proposedBills, ({ one }) => ({
+  case: one(cases, { fields: [proposedBills.caseId], references: [cases.id] }),
+  document: one(documents, { fields: [proposedBills.documentId], references: [documents.id] }),
+  acceptedBill: one(medicalBills, { fields: [proposedBills.acceptedBillId], references: [medicalBills.id] }),
+}));
+
+export const medicalBillDuplicatesRelations = relations(medicalBillDuplicates, ({ one }) => ({
+  case: one(cases, { fields: [medicalBillDuplicates.caseId], references: [cases.id] }),
+  bill: one(medicalBills, { fields: [medicalBillDuplicates.billId], references: [medicalBills.id], relationName: "duplicateBill" }),
+  duplicateOf: one(medicalBills, { fields: [medicalBillDuplicates.duplicateOfBillId], references: [medicalBills.id], relationName: "originalBill" }),
+  resolvedBy: one(users, { fields: [medicalBillDuplicates.resolvedBy], references: [users.id] }),
+}));
+
+export const liensRelations = relations(liens, ({ one, many }) => ({
+  case: one(cases, { fields: [liens.caseId], references: [cases.id] }),
+  createdBy: one(users, { fields: [liens.createdBy], references: [users.id] }),
+  bills: many(lienBills),
+  documents: many(lienDocuments),
+}));
+
+export const lienBillsRelations = relations(lienBills, ({ one }) => ({
+  lien: one(liens, { fields: [lienBills.lienId], references: [liens.id] }),
+  bill: one(medicalBills, { fields: [lienBills.billId], references: [medicalBills.id] }),
+}));
+
+export const lienDocumentsRelations = relations(lienDocuments, ({ one }) => ({
+  lien: one(liens, { fields: [lienDocuments.lienId], references: [liens.id] }),
+  document: one(documents, { fields: [lienDocuments.documentId], references: [documents.id] }),
 }));
 
 export const aiChatSessionsRelations = relations(aiChatSessions, ({ one, many }) => ({
@@ -168,13 +659,57 @@ export const aiChatMessagesRelations = relations(aiChatMessages, ({ one }) => ({
   session: one(aiChatSessions, { fields: [aiChatMessages.sessionId], references: [aiChatSessions.id] }),
 }));
 
-export const demandLettersRelations = relations(demandLetters, ({ one }) => ({
+export const demandLettersRelations = relations(demandLetters, ({ one, many }) => ({
   case: one(cases, { fields: [demandLetters.caseId], references: [cases.id] }),
   generatedBy: one(users, { fields: [demandLetters.generatedBy], references: [users.id] }),
+  promptVersion: one(aiPromptVersions, { fields: [demandLetters.promptVersionId], references: [aiPromptVersions.id] }),
+  template: one(letterTemplates, { fields: [demandLetters.templateId], references: [letterTemplates.id] }),
+  versions: many(demandLetterVersions),
+  statusChanges: many(demandLetterStatusChanges),
+}));
+
+export const demandLetterVersionsRelations = relations(demandLetterVersions, ({ one }) => ({
+  letter: one(demandLetters, { fields: [demandLetterVersions.letterId], references: [demandLetters.id] }),
+  createdBy: one(users, { fields: [demandLetterVersions.createdBy], references: [users.id] }),
+}));
+
+export const demandLetterStatusChangesRelations = relations(demandLetterStatusChanges, ({ one }) => ({
+  letter: one(demandLetters, { fields: [demandLetterStatusChanges.letterId], references: [demandLetters.id] }),
+  changedBy: one(users, { fields: [demandLetterStatusChanges.changedBy], references: [users.id] }),
 }));
 
-export const aiPromptsRelations = relations(aiPrompts, ({ one }) => ({
+export const aiPromptsRelations = relations(aiPrompts, ({ one, many }) => ({
   user: one(users, { fields: [aiPrompts.userId], references: [users.id] }),
+  versions: many(aiPromptVersions),
+}));
+
+export const aiPromptVersionsRelations = relations(aiPromptVersions, ({ one }) => ({
+  prompt: one(aiPrompts, { fields: [aiPromptVersions.promptId], references: [aiPrompts.id] }),
+  createdBy: one(users, { fields: [aiPromptVersions.createdBy], references: [users.id] }),
+}));
+
+export const letterheadsRelations = relations(letterheads, ({ one }) => ({
+  user: one(users, { fields: [letterheads.userId], references: [users.id] }),
+}));
+
+export const letterTemplatesRelations = relations(letterTemplates, ({ one }) => ({
+  user: one(users, { fields: [letterTemplates.userId], references: [users.id] }),
+}));
+
+export const documentChunksRelations = relations(documentChunks, ({ one }) => ({
+  document: one(documents, { fields: [documentChunks.documentId], references: [documents.id] }),
+  case: one(cases, { fields: [documentChunks.caseId], references: [cases.id] }),
+}));
+
+export const documentProcessingRunsRelations = relations(documentProcessingRuns, ({ one }) => ({
+  document: one(documents, { fields: [documentProcessingRuns.documentId], references: [documents.id] }),
+  job: one(processingJobs, { fields: [documentProcessingRuns.jobId], references: [processingJobs.id] }),
+}));
+
+export const processingJobsRelations = relations(processingJobs, ({ one }) => ({
+  document: one(documents, { fields: [processingJobs.documentId], references: [documents.id] }),
+  case: one(cases, { fields: [processingJobs.caseId], references: [cases.id] }),
+  user: one(users, { fields: [processingJobs.userId], references: [users.id] }),
 }));
 
 // Insert schemas
@@ -184,30 +719,247 @@ export const insertCaseSchema = createInsertSchema(cases).omit({
   updatedAt: true,
 });
 
-export const insertDocumentSchema = createInsertSchema(documents).omit({
+export const ORGANIZATION_ROLES = ['admin', 'attorney', 'paralegal', 'read_only'] as const;
+
+// Identifiers the redaction layer can mask before text is sent to an AI provider; 'dictionary' covers
+// the firm's own terms and the case's client name
+export const PHI_TYPES = [
+  'ssn',
+  'mrn',
+  'phone',
+  'email',
+  'dob',
+  'address',
+  'policy_number',
+  'claim_number',
+  'dictionary',
+] as const;
+
+export const redactionPolicySchema = z.object({
+  enabled: z.boolean(),
+  types: z.array(z.enum(PHI_TYPES)),
+  dictionary: z.array(z.string().trim().min(2, "Dictionary terms need at least 2 characters")).max(500).default([]),
+});
+
+export const redactionReportSchema = z.object({
+  redactedAt: z.string(),
+  total: z.number(),
+  counts: z.record(z.enum(PHI_TYPES), z.number()),
+});
+
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  name: z.string().trim().min(1, "Firm name is required"),
+  redactionPolicy: redactionPolicySchema.nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOrganizationMembershipSchema = createInsertSchema(organizationMemberships, {
+  role: z.enum(ORGANIZATION_ROLES),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCaseAssignmentSchema = createInsertSchema(caseAssignments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const processingErrorSchema = z.object({
+  stage: z.string().nullable(),
+  message: z.string(),
+  jobId: z.string().nullable(),
+  occurredAt: z.string(),
+});
+
+export const insertDocumentSchema = createInsertSchema(documents, {
+  processingErrors: z.array(processingErrorSchema).nullish(),
+  redactionReport: redactionReportSchema.nullish(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
 export const insertMedicalBillSchema = createInsertSchema(medicalBills).omit({
+  id: true,
+  fingerprint: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const BILL_CODE_SYSTEMS = ['CPT', 'HCPCS', 'ICD-10', 'REV', 'other'] as const;
+
+export const insertMedicalBillLineItemSchema = createInsertSchema(medicalBillLineItems, {
+  codeSystem: z.enum(BILL_CODE_SYSTEMS).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const PAYMENT_ENTRY_TYPES = ['payment', 'adjustment', 'write_off'] as const;
+export const PAYER_TYPES = [
+  'health_insurer',
+  'auto_medpay',
+  'auto_pip',
+  'medicare',
+  'medicaid',
+  'va',
+  'workers_comp',
+  'self_pay',
+  'other',
+] as const;
+
+export const insertMedicalBillPaymentSchema = createInsertSchema(medicalBillPayments, {
+  entryType: z.enum(PAYMENT_ENTRY_TYPES),
+  payerType: z.enum(PAYER_TYPES),
+  amount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Amount must be a positive dollar amount"),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const PROPOSED_BILL_FIELDS = ['provider', 'amount', 'serviceDate', 'billDate', 'treatment', 'insurance'] as const;
+
+export const proposedBillDataSchema = z.object({
+  provider: z.string().nullable(),
+  amount: z.string().nullable(),
+  serviceDate: z.string().nullable(), // YYYY-MM-DD
+  billDate: z.string().nullable(),
+  treatment: z.string().nullable(),
+  insurance: z.string().nullable(),
+  cptCodes: z.array(z.string()).nullable(),
+  lineItems: z.array(z.record(z.unknown())).nullable(),
+});
+
+export const proposedBillSourceSchema = z.object({
+  pageNumber: z.number(),
+  polygon: z.array(z.number()),
+  text: z.string(),
+});
+
+export const insertProposedBillSchema = createInsertSchema(proposedBills, {
+  data: proposedBillDataSchema,
+  fieldConfidence: z.record(z.number()).nullish(),
+  sources: z.record(proposedBillSourceSchema).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMedicalBillDuplicateSchema = createInsertSchema(medicalBillDuplicates, {
+  reasons: z.array(z.string()).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const LIEN_TYPES = [
+  'hospital',
+  'provider',
+  'medicare',
+  'medicaid',
+  'erisa',
+  'health_insurer',
+  'workers_comp',
+  'va',
+  'other',
+] as const;
+export const LIEN_STATUSES = ['asserted', 'disputed', 'negotiating', 'agreed', 'paid', 'waived'] as const;
+
+const lienAmount = z.string().regex(/^\d+(\.\d{1,2})?$/, "Amount must be a positive dollar amount");
+
+export const insertLienSchema = createInsertSchema(liens, {
+  lienType: z.enum(LIEN_TYPES),
+  status: z.enum(LIEN_STATUSES).optional(),
+  assertedAmount: lienAmount,
+  negotiatedAmount: lienAmount.nullish(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertLienDocumentSchema = createInsertSchema(lienDocuments).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertAiChatSessionSchema = createInsertSchema(aiChatSessions).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertAiChatMessageSchema = createInsertSchema(aiChatMessages).omit({
+export const chatCitationSchema = z.object({
+  marker: z.number(),
+  documentId: z.string(),
+  fileName: z.string(),
+  chunkId: z.string(),
+  pageStart: z.number().nullable(),
+  pageEnd: z.number().nullable(),
+  excerpt: z.string(),
+});
+
+export const insertAiChatMessageSchema = createInsertSchema(aiChatMessages, {
+  citations: z.array(chatCitationSchema).nullish(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertDemandLetterSchema = createInsertSchema(demandLetters).omit({
+export const DEMAND_LETTER_SECTIONS = [
+  'liability',
+  'injuries',
+  'treatment_chronology',
+  'specials',
+  'general_damages',
+  'demand',
+] as const;
+
+export const DEMAND_LETTER_STATUSES = ['draft', 'attorney_review', 'approved', 'sent'] as const;
+
+export const demandLetterInputSchema = z.object({
+  clientName: z.string().trim().min(1, "Client name is required"),
+  incidentDate: z.string().trim().min(1, "Incident date is required"),
+  medicalSummary: z.string().default(""),
+  damages: z.string().default(""),
+  liability: z.string().default(""),
+  // Recipient details, only used as template merge fields
+  insurerName: z.string().trim().default(""),
+  adjusterName: z.string().trim().default(""),
+  claimNumber: z.string().trim().default(""),
+});
+
+export const demandLetterSourceSchema = z.object({
+  type: z.enum(['document', 'bill', 'input']),
+  id: z.string().nullable(), // Document or bill id; null for text entered by the user
+  label: z.string(),
+});
+
+export const demandLetterSectionSchema = z.object({
+  key: z.enum(DEMAND_LETTER_SECTIONS),
+  title: z.string(),
+  content: z.string(),
+  sources: z.array(demandLetterSourceSchema),
+  // Only on the specials section: the totals of the table, for the template's specials fields
+  totals: z.object({
+    billed: z.number(),
+    paid: z.number(),
+    adjusted: z.number(),
+    outstanding: z.number(),
+  }).optional(),
+});
+
+export const insertDemandLetterSchema = createInsertSchema(demandLetters, {
+  status: z.enum(DEMAND_LETTER_STATUSES).optional(),
+  sections: z.array(demandLetterSectionSchema).nullish(),
+  input: demandLetterInputSchema.nullish(),
+}).omit({
   id: true,
+  currentVersionId: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -220,24 +972,136 @@ export const insertUserSchema = createInsertSchema(users).omit({
 
 export const insertAiPromptSchema = createInsertSchema(aiPrompts).omit({
   id: true,
+  currentVersionId: true,
+  pinnedVersionId: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertLetterheadSchema = createInsertSchema(letterheads, {
+  name: z.string().trim().min(1, "Name is required"),
+  firmName: z.string().trim().min(1, "Firm name is required"),
+}).omit({
+  id: true,
+  logoPath: true,
+  logoMimeType: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertLetterTemplateSchema = createInsertSchema(letterTemplates, {
+  name: z.string().trim().min(1, "Name is required"),
+  body: z.string().trim().min(1, "Template body is required"),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAiPromptVersionSchema = createInsertSchema(aiPromptVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProcessingJobSchema = createInsertSchema(processingJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertDocumentChunkSchema = createInsertSchema(documentChunks, {
+  embedding: z.array(z.number()).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDocumentProcessingRunSchema = createInsertSchema(documentProcessingRuns).omit({
+  id: true,
+});
+
+// The chain fields are filled in by DatabaseStorage.createAuditEvent
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+  sequence: true,
+  prevHash: true,
+  hash: true,
+  createdAt: true,
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertCase = z.infer<typeof insertCaseSchema>;
 export type Case = typeof cases.$inferSelect;
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+export type PhiType = typeof PHI_TYPES[number];
+export type RedactionPolicy = z.infer<typeof redactionPolicySchema>;
+export type RedactionReport = z.infer<typeof redactionReportSchema>;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganizationMembership = z.infer<typeof insertOrganizationMembershipSchema>;
+export type OrganizationMembership = typeof organizationMemberships.$inferSelect;
+export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
+export type InsertCaseAssignment = z.infer<typeof insertCaseAssignmentSchema>;
+export type CaseAssignment = typeof caseAssignments.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
 export type InsertMedicalBill = z.infer<typeof insertMedicalBillSchema>;
 export type MedicalBill = typeof medicalBills.$inferSelect;
+export type InsertMedicalBillLineItem = z.infer<typeof insertMedicalBillLineItemSchema>;
+export type MedicalBillLineItem = typeof medicalBillLineItems.$inferSelect;
+export type InsertMedicalBillPayment = z.infer<typeof insertMedicalBillPaymentSchema>;
+export type MedicalBillPayment = typeof medicalBillPayments.$inferSelect;
+export type InsertProposedBill = z.infer<typeof insertProposedBillSchema>;
+export type ProposedBill = typeof proposedBills.$inferSelect;
+export type ProposedBillData = z.infer<typeof proposedBillDataSchema>;
+export type ProposedBillSource = z.infer<typeof proposedBillSourceSchema>;
+export type InsertMedicalBillDuplicate = z.infer<typeof insertMedicalBillDuplicateSchema>;
+export type MedicalBillDuplicate = typeof medicalBillDuplicates.$inferSelect;
+export type InsertLien = z.infer<typeof insertLienSchema>;
+export type Lien = typeof liens.$inferSelect;
+export type LienBill = typeof lienBills.$inferSelect;
+export type InsertLienDocument = z.infer<typeof insertLienDocumentSchema>;
+export type LienDocument = typeof lienDocuments.$inferSelect;
 export type InsertAiChatSession = z.infer<typeof insertAiChatSessionSchema>;
 export type AiChatSession = typeof aiChatSessions.$inferSelect;
 export type InsertAiChatMessage = z.infer<typeof insertAiChatMessageSchema>;
 export type AiChatMessage = typeof aiChatMessages.$inferSelect;
+export type DemandLetterSection = z.infer<typeof demandLetterSectionSchema>;
+export type DemandLetterSource = z.infer<typeof demandLetterSourceSchema>;
+export type DemandLetterInput = z.infer<typeof demandLetterInputSchema>;
+export type DemandLetterStatus = typeof DEMAND_LETTER_STATUSES[number];
 export type InsertDemandLetter = z.infer<typeof insertDemandLetterSchema>;
 export type DemandLetter = typeof demandLetters.$inferSelect;
+export type DemandLetterVersion = typeof demandLetterVersions.$inferSelect;
+export type DemandLetterStatusChange = typeof demandLetterStatusChanges.$inferSelect;
 export type InsertAiPrompt = z.infer<typeof insertAiPromptSchema>;
 export type AiPrompt = typeof aiPrompts.$inferSelect;
+export type InsertLetterhead = z.infer<typeof insertLetterheadSchema>;
+export type Letterhead = typeof letterheads.$inferSelect;
+export type InsertLetterTemplate = z.infer<typeof insertLetterTemplateSchema>;
+export type LetterTemplate = typeof letterTemplates.$inferSelect;
+export type InsertAiPromptVersion = z.infer<typeof insertAiPromptVersionSchema>;
+export type AiPromptVersion = typeof aiPromptVersions.$inferSelect;
+export type InsertProcessingJob = z.infer<typeof insertProcessingJobSchema>;
+export type ProcessingJob = typeof processingJobs.$inferSelect;
+export type InsertDocumentChunk = z.infer<typeof insertDocumentChunkSchema>;
+export type DocumentChunk = typeof documentChunks.$inferSelect;
+export type InsertDocumentProcessingRun = z.infer<typeof insertDocumentProcessingRunSchema>;
+export type DocumentProcessingRun = typeof documentProcessingRuns.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type ProcessingStage = 'text_extraction' | 'embedding' | 'ai_analysis' | 'bill_extraction' | 'search_indexing';
+export type ProcessingError = z.infer<typeof processingErrorSchema>;
+export type ChatCitation = z.infer<typeof chatCitationSchema>;
+
+export type JobStageStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+export type JobStageState = {
+  status: JobStageStatus;
+  startedAt: string | null;
+  completedAt: string | null;
+  error: string | null;
+};